@@ -1,21 +1,132 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useReducer, useRef } from 'react';
 import RobotFace from './components/RobotFace';
 import WorkshopBackground from './components/WorkshopBackground';
-import { RobotMode, EyeExpression, ScreenMode, ChatMessage } from './types';
-import { generateRobotResponse } from './services/geminiService';
-import { decodeAudioData } from './utils/audioUtils';
+import AppearanceStudio from './components/AppearanceStudio';
+import { RobotMode, EyeExpression, ScreenMode, ChatMessage, VoiceSettings, Alarm, UiLocale } from './types';
+import { availableVoices, generateRobotResponse, personaVoice, synthesizeAnnouncement, voiceForLanguage } from './services/geminiService';
+import { factoryReset, loadChatHistory, loadTrackBlob, saveChatHistory } from './services/storage';
+import { createAlarm, dismissAlarm, formatAlarmTime, isAlarmDue, markAlarmFired, snoozeAlarm } from './services/alarmEngine';
+import { adjustLevel, RobotApp, RobotCommandHandlers } from './services/robotCommands';
+import { INITIAL_ROBOT_STATE, resolveExpression, robotReducer } from './services/robotStateMachine';
+import { BUILT_IN_SKINS, DEFAULT_SKIN_ID, findSkin } from './services/appearance';
+import { BUILT_IN_PERSONAS, DEFAULT_PERSONA_ID, findPersona } from './services/personas';
+import { createTranslator, defaultLanguageSettings, detectLanguage, MessageKey, pinnedReplyLocale } from './services/i18n';
+import { answerOffline } from './services/offlineAssistant';
+import { ProviderErrorKind } from './services/providers/errors';
+import { setCustomExpressions } from './services/eyeAnimation';
+import { usePersistentState } from './hooks/usePersistentState';
+import { useClockTimers } from './hooks/useClockTimers';
+import { useMusicPlayer } from './hooks/useMusicPlayer';
+import { isLiveModeSupported, LiveConversation, startLiveConversation } from './services/liveConversation';
+import { AlarmTonePlayer, startAlarmTone } from './utils/alarmTone';
+import { base64ToBytes } from './utils/audioUtils';
+import { decodeAudio, pickRecorderMimeType } from './utils/audioCodec';
+import { createModelMessage, createUserMessage, hasTranscript, markTranscriptFailed } from './utils/chatHistory';
+import { cancelLocalSpeech, speakLocally } from './utils/localSpeech';
+import { AudioAnalyser, createAudioAnalyser } from './utils/audioAnalyser';
+import { AudioEngine, createAudioEngine, DEFAULT_EQUALIZER } from './services/audioEngine';
+import { createVoiceActivityDetector, VoiceActivityDetector } from './utils/voiceActivity';
+import { MAX_WAKE_WORD_TEMPLATES, recordWakeWordTemplate, startWakeWordListener, WakeWordListener } from './utils/wakeWord';
 import clsx from 'clsx';
 
+const DEFAULT_VOICE_SETTINGS: VoiceSettings = {
+  autoStop: true,
+  vadSensitivity: 0.5,
+  trailingSilenceMs: 1200,
+  wakeWordEnabled: false,
+  wakeWordSensitivity: 0.5,
+  wakeWordTemplates: []
+};
+
+const DEFAULT_ALARMS: Alarm[] = [
+  { id: 1, hour: 7, minute: 30, enabled: true, label: 'Wake up', repeatDays: [1, 2, 3, 4, 5], tone: 'CHIME' },
+  { id: 2, hour: 9, minute: 0, enabled: false, label: '', repeatDays: [], tone: 'BEEP' },
+];
+
+// A hands-free turn with no speech at all is dropped after this long
+const NO_SPEECH_TIMEOUT_MS = 8000;
+// An unanswered alarm snoozes itself after ringing this long
+const ALARM_RING_TIMEOUT_MS = 5 * 60 * 1000;
+// Keeps a voice command from blacking out the screen entirely
+const MIN_BRIGHTNESS = 0.1;
+
+const APP_SCREENS: Record<RobotApp, ScreenMode> = {
+  home: ScreenMode.HOME,
+  music: ScreenMode.MUSIC,
+  chat: ScreenMode.CHAT,
+  clock: ScreenMode.CLOCK,
+  settings: ScreenMode.STATUS
+};
+
+// How Bangboo reacts when a reply fails, by cause. A network failure
+// answers through the offline assistant instead of its line.
+const ERROR_REACTIONS: Record<Exclude<ProviderErrorKind, 'CANCELLED'>, { expression: EyeExpression; line: MessageKey }> = {
+  NETWORK: { expression: EyeExpression.DEAD, line: 'offline.unavailable' },
+  AUTH: { expression: EyeExpression.WIDE, line: 'error.auth' },
+  QUOTA: { expression: EyeExpression.SLEEPING, line: 'error.quota' },
+  SAFETY: { expression: EyeExpression.WINKING, line: 'error.safety' },
+  DECODE: { expression: EyeExpression.SURPRISED, line: 'error.decode' },
+  TIMEOUT: { expression: EyeExpression.LOADING, line: 'error.timeout' },
+  UNKNOWN: { expression: EyeExpression.THINKING, line: 'error.unknown' }
+};
+
 const App: React.FC = () => {
   // State
-  const [powerStatus, setPowerStatus] = useState<'OFF' | 'BOOTING' | 'ON'>('OFF');
-  const [mode, setMode] = useState<RobotMode>(RobotMode.IDLE);
-  const [screenMode, setScreenMode] = useState<ScreenMode>(ScreenMode.HOME);
-  const [expression, setExpression] = useState<EyeExpression>(EyeExpression.NORMAL);
+  // Power, mode, screen and face all change through `dispatch` (see services/robotStateMachine)
+  const [robot, dispatch] = useReducer(robotReducer, INITIAL_ROBOT_STATE);
+  const { power: powerStatus, mode, screen: screenMode } = robot;
   const [isRecording, setIsRecording] = useState(false);
-  const [volume, setVolume] = useState<number>(0.6);
-  const [brightness, setBrightness] = useState<number>(1.0);
+  const [isLive, setIsLive] = useState(false);
+  const [voiceSettings, setVoiceSettings] = usePersistentState('voiceSettings', DEFAULT_VOICE_SETTINGS);
+  const [isEnrollingWakeWord, setIsEnrollingWakeWord] = useState(false);
+  const [micLevel, setMicLevel] = useState(0); // 0-1 while recording
+  const [outputAnalyser, setOutputAnalyser] = useState<AudioAnalyser | null>(null); // Everything Bangboo plays
+  const [volume, setVolume] = usePersistentState('volume', 0.6);
+  const [equalizer, setEqualizer] = usePersistentState('equalizer', DEFAULT_EQUALIZER);
+  const [brightness, setBrightness] = usePersistentState('brightness', 1.0);
   const [chatHistory, setChatHistory] = useState<ChatMessage[]>([]);
+  const [chatHistoryLoaded, setChatHistoryLoaded] = useState(false);
+  const [alarms, setAlarms] = usePersistentState('alarms', DEFAULT_ALARMS);
+  const [ringingAlarm, setRingingAlarm] = useState<Alarm | null>(null);
+  const music = useMusicPlayer(volume);
+
+  // Appearance
+  const [skinId, setSkinId] = usePersistentState('skinId', DEFAULT_SKIN_ID);
+  const [customSkins, setCustomSkins] = usePersistentState('customSkins', []);
+  const [customExpressions, setCustomExpressionsState] = usePersistentState('customExpressions', []);
+  const [isStudioOpen, setIsStudioOpen] = useState(false);
+  const [previewExpression, setPreviewExpression] = useState<string | null>(null);
+  const skins = [...BUILT_IN_SKINS, ...customSkins];
+  const skin = findSkin(skins, skinId);
+  const expression = (isStudioOpen && previewExpression) || resolveExpression(robot);
+
+  // Persona: who Bangboo plays (prompt, voice, greeting)
+  const [personaId, setPersonaId] = usePersistentState('personaId', DEFAULT_PERSONA_ID);
+  const [customPersonas, setCustomPersonas] = usePersistentState('customPersonas', []);
+  const personas = [...BUILT_IN_PERSONAS, ...customPersonas];
+  const persona = findPersona(personas, personaId);
+
+  // A persona with its own look switches the skin along with it
+  const handleSelectPersona = (id: string) => {
+    setPersonaId(id);
+    const skinForPersona = findPersona(personas, id).skinId;
+    if (skinForPersona && skins.some(s => s.id === skinForPersona)) setSkinId(skinForPersona);
+  };
+
+  // Language: the UI locale, and what language Bangboo answers in
+  const [languageSettings, setLanguageSettings] = usePersistentState('languageSettings', defaultLanguageSettings());
+  // Fixed lines (timer done...) follow pinned replies, else the UI
+  const announcementLocale = pinnedReplyLocale(languageSettings.replyLanguage, persona.language) ?? languageSettings.uiLocale;
+  const announcementText = createTranslator(announcementLocale);
+  const t = createTranslator(languageSettings.uiLocale); // App's own controls
+
+  useEffect(() => {
+    document.documentElement.lang = languageSettings.uiLocale;
+  }, [languageSettings.uiLocale]);
+
+  useEffect(() => {
+    setCustomExpressions(customExpressions);
+  }, [customExpressions]);
   
   // Power State
   const [isCharging, setIsCharging] = useState(false);
@@ -24,18 +135,87 @@ const App: React.FC = () => {
   
   // Audio Refs
   const audioContextRef = useRef<AudioContext | null>(null);
-  const gainNodeRef = useRef<GainNode | null>(null);
+  const audioEngineRef = useRef<AudioEngine | null>(null);
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const audioChunksRef = useRef<Blob[]>([]);
-  const audioSourceRef = useRef<AudioBufferSourceNode | null>(null);
+  const recordingStartedAtRef = useRef(0);
+  const recordingVadRef = useRef<VoiceActivityDetector | null>(null);
+  const noSpeechTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // TTS Playback Queue
+  const audioSourcesRef = useRef<AudioBufferSourceNode[]>([]);
+  const nextStartTimeRef = useRef(0); // AudioContext time the next chunk starts at
+  const playbackChainRef = useRef<Promise<void>>(Promise.resolve());
+  const playbackGenerationRef = useRef(0); // Bumped on stop, drops stale chunks
+  const responseStreamingRef = useRef(false);
+  const sleepAfterReplyRef = useRef(false); // Set by the go_to_sleep command
+  const replyAbortRef = useRef<AbortController | null>(null); // The reply being generated
+  const localSpeechRef = useRef(false); // The browser is speaking a fallback line
+
+  // Live (full-duplex) Conversation
+  const liveConversationRef = useRef<LiveConversation | null>(null);
+  const liveTranscriptRef = useRef({ user: '', model: '' });
+
+  // The model or its TTS couldn't be reached last time; cleared by the next
+  // reply that gets through, or when the browser comes back online
+  const [isOffline, setIsOffline] = useState(() => !navigator.onLine);
+  useEffect(() => {
+    const goOffline = () => setIsOffline(true);
+    const goOnline = () => setIsOffline(false);
+    window.addEventListener('offline', goOffline);
+    window.addEventListener('online', goOnline);
+    return () => {
+      window.removeEventListener('offline', goOffline);
+      window.removeEventListener('online', goOnline);
+    };
+  }, []);
+
+  // Alarm ringtone currently playing
+  const alarmToneRef = useRef<AlarmTonePlayer | null>(null);
+  const ringingAlarmIdRef = useRef<number | null>(null);
+
+  // Mirrors chatHistory so async callbacks (e.g. recorder onstop) see the latest turns
+  const chatHistoryRef = useRef<ChatMessage[]>([]);
+  useEffect(() => {
+    chatHistoryRef.current = chatHistory;
+  }, [chatHistory]);
+
+  // Restore the conversation from the last session
+  useEffect(() => {
+    loadChatHistory()
+      .then(saved => {
+        if (saved.length === 0) return;
+        // A recording saved before its transcript arrived won't get one now
+        const restored = saved.map(m => m.audio && !hasTranscript(m) ? markTranscriptFailed(m) : m);
+        // Anything said before the restore finished goes after the saved turns
+        chatHistoryRef.current = [...restored, ...chatHistoryRef.current];
+        setChatHistory(chatHistoryRef.current);
+      })
+      .catch(err => console.error("Failed to restore chat history", err))
+      .finally(() => setChatHistoryLoaded(true));
+  }, []);
+
+  useEffect(() => {
+    if (!chatHistoryLoaded) return;
+    const timer = setTimeout(() => {
+      saveChatHistory(chatHistory).catch(err => console.error("Failed to save chat history", err));
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [chatHistory, chatHistoryLoaded]);
 
   // Initialize Volume
   useEffect(() => {
-    if (gainNodeRef.current && audioContextRef.current) {
-      gainNodeRef.current.gain.setTargetAtTime(volume, audioContextRef.current.currentTime, 0.1);
-    }
+    audioEngineRef.current?.setVolume(volume);
   }, [volume]);
 
+  useEffect(() => {
+    audioEngineRef.current?.setEqualizer(equalizer.gains);
+  }, [equalizer]);
+
+  // Music steps back while Bangboo listens or speaks
+  useEffect(() => {
+    audioEngineRef.current?.setDucked(mode === RobotMode.LISTENING || mode === RobotMode.SPEAKING);
+  }, [mode]);
+
   // Real Battery API Integration
   useEffect(() => {
     let batteryManager: any = null;
@@ -97,14 +277,22 @@ const App: React.FC = () => {
     return () => clearInterval(interval);
   }, [isCharging, batteryApiSupported]);
 
+  // Expires the current reaction; a newer one cancels the old timeout
+  useEffect(() => {
+    const reaction = robot.reaction;
+    if (!reaction || reaction.durationMs === null) return;
+    const timer = setTimeout(() => dispatch({ type: 'REACTION_END', id: reaction.id }), reaction.durationMs);
+    return () => clearTimeout(timer);
+  }, [robot.reaction]);
+
   // Idle Animation
   useEffect(() => {
     const idleTimer = setInterval(() => {
-      // Only run idle animation if powered ON
-      if (powerStatus === 'ON' && mode === RobotMode.IDLE && screenMode === ScreenMode.HOME && !isCharging) {
+      // The reducer only lets idle reactions through while idle on the home screen
+      if (powerStatus === 'ON' && !isCharging) {
         // Low Battery Logic (<20%) - Robot becomes predominantly Sleepy/Low Energy
         if (batteryLevel < 20) {
-            setExpression(EyeExpression.SLEEPING);
+            dispatch({ type: 'REACT', expression: EyeExpression.SLEEPING, priority: 'IDLE', durationMs: 10000 });
             return;
         }
 
@@ -116,23 +304,22 @@ const App: React.FC = () => {
         ];
         
         const randomExpr = expressions[Math.floor(Math.random() * expressions.length)];
-        setExpression(randomExpr);
-        
         // Return to normal after 3 seconds
-        setTimeout(() => setExpression(EyeExpression.NORMAL), 3000);
+        dispatch({ type: 'REACT', expression: randomExpr, priority: 'IDLE', durationMs: 3000 });
       }
     }, 10000); // Trigger every 10 seconds
     return () => clearInterval(idleTimer);
-  }, [mode, screenMode, isCharging, batteryLevel, powerStatus]);
+  }, [isCharging, batteryLevel, powerStatus]);
 
   const initAudioContext = () => {
     if (!audioContextRef.current) {
       const ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
-      const gainNode = ctx.createGain();
-      gainNode.gain.value = volume;
-      gainNode.connect(ctx.destination);
+      const engine = createAudioEngine(ctx, volume, equalizer.gains);
       audioContextRef.current = ctx;
-      gainNodeRef.current = gainNode;
+      audioEngineRef.current = engine;
+      music.connectOutput(ctx, engine.musicInput);
+      // The master mix, so the mouth and visualizer see speech and music alike
+      setOutputAnalyser(createAudioAnalyser(ctx, engine.output));
     } else if (audioContextRef.current.state === 'suspended') {
       audioContextRef.current.resume();
     }
@@ -140,31 +327,38 @@ const App: React.FC = () => {
 
   const handlePowerOn = () => {
     initAudioContext(); // Initialize audio context on user interaction (power on)
-    setPowerStatus('BOOTING');
+    dispatch({ type: 'POWER_ON' });
     
     // Simulate boot sequence time
-    setTimeout(() => {
-      setPowerStatus('ON');
-      setMode(RobotMode.IDLE);
-    }, 2500);
+    setTimeout(() => dispatch({ type: 'BOOT_COMPLETE' }), 2500);
+  };
+
+  // Drops the reply being generated: no more sentences, commands or history
+  const cancelReply = () => {
+    replyAbortRef.current?.abort();
+    replyAbortRef.current = null;
   };
 
   const handlePowerOff = () => {
+    stopAlarmTone();
+    setRingingAlarm(null);
+    stopLiveMode();
+    cancelReply();
     stopAudioPlayback();
     if (isRecording) {
+        releaseRecordingVad();
         if (mediaRecorderRef.current) {
+            mediaRecorderRef.current.onstop = null;
             mediaRecorderRef.current.stream.getTracks().forEach(track => track.stop());
         }
         setIsRecording(false);
     }
-    setPowerStatus('OFF');
-    setMode(RobotMode.OFF);
-    setScreenMode(ScreenMode.HOME);
-    setExpression(EyeExpression.NORMAL);
+    dispatch({ type: 'POWER_OFF' });
   };
 
   const handleToggleRecording = () => {
     initAudioContext();
+    if (liveConversationRef.current) return; // The mic is already streaming
 
     if (isRecording) {
         stopRecording();
@@ -174,11 +368,14 @@ const App: React.FC = () => {
   };
 
   const startRecording = async () => {
+    // A new turn replaces the reply still being generated
+    cancelReply();
     stopAudioPlayback();
 
     try {
       const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      mediaRecorderRef.current = new MediaRecorder(stream);
+      const mimeType = pickRecorderMimeType();
+      mediaRecorderRef.current = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
       audioChunksRef.current = [];
 
       mediaRecorderRef.current.ondataavailable = (event) => {
@@ -186,104 +383,647 @@ const App: React.FC = () => {
       };
 
       mediaRecorderRef.current.start();
+      recordingStartedAtRef.current = Date.now();
       setIsRecording(true);
-      setMode(RobotMode.LISTENING);
-      setExpression(EyeExpression.LISTENING); 
+      dispatch({ type: 'LISTEN' });
+
+      // Drives the mic level meter, and ends the turn on trailing silence
+      if (audioContextRef.current) {
+        recordingVadRef.current = createVoiceActivityDetector(audioContextRef.current, stream, {
+          sensitivity: voiceSettings.vadSensitivity,
+          trailingSilenceMs: voiceSettings.trailingSilenceMs,
+          onLevel: setMicLevel,
+          onSpeechStart: () => {
+            if (noSpeechTimerRef.current) clearTimeout(noSpeechTimerRef.current);
+            noSpeechTimerRef.current = null;
+          },
+          onSpeechEnd: () => {
+            if (voiceSettings.autoStop) stopRecording();
+          }
+        });
+        if (voiceSettings.autoStop) {
+          noSpeechTimerRef.current = setTimeout(cancelRecording, NO_SPEECH_TIMEOUT_MS);
+        }
+      }
     } catch (err) {
       console.error("Mic access denied", err);
     }
   };
 
-  const handleAIInteraction = async (input: string | Blob) => {
-    setMode(RobotMode.THINKING);
-    setExpression(EyeExpression.LOADING);
+  const releaseRecordingVad = () => {
+    if (noSpeechTimerRef.current) clearTimeout(noSpeechTimerRef.current);
+    noSpeechTimerRef.current = null;
+    recordingVadRef.current?.stop();
+    recordingVadRef.current = null;
+    setMicLevel(0);
+  };
+
+  // Ends the turn without sending anything (nobody spoke)
+  const cancelRecording = () => {
+    if (!mediaRecorderRef.current) return;
+    releaseRecordingVad();
+
+    mediaRecorderRef.current.onstop = () => {
+      setIsRecording(false);
+      dispatch({ type: 'SETTLE' });
+    };
+    mediaRecorderRef.current.stop();
+    mediaRecorderRef.current.stream.getTracks().forEach(track => track.stop());
+  };
+
+  const handleAIInteraction = async (input: string | Blob, recordingDurationMs?: number) => {
+    // A message typed mid-reply replaces that reply, so the two never share a queue
+    stopAudioPlayback();
+    dispatch({ type: 'THINK' });
+    const generation = playbackGenerationRef.current;
+    cancelReply();
+    const abort = new AbortController();
+    replyAbortRef.current = abort;
 
     // Add User Message to History
-    const userText = typeof input === 'string' ? input : '🎤 Voice Message';
-    setChatHistory(prev => [...prev, { role: 'user', text: userText }]);
+    const userMessage = await createUserMessage(input, recordingDurationMs);
+    const history = [...chatHistoryRef.current, userMessage];
+    chatHistoryRef.current = history;
+    setChatHistory(history);
 
-    const result = await generateRobotResponse(input);
+    responseStreamingRef.current = true;
+    let spoke = false;
+    const result = await generateRobotResponse(history, {
+      persona,
+      language: languageSettings,
+      commands: robotCommands,
+      signal: abort.signal,
+      onSpeech: (chunk) => {
+        spoke = true;
+        const locale = chunk.language ?? announcementLocale;
+        if (chunk.audioBase64) {
+          playAudioResponse(chunk.audioBase64, chunk.mimeType, generation, chunk.expression, { text: chunk.text, locale });
+        } else {
+          speakFallback(chunk.text, locale, generation, chunk.expression);
+        }
+      },
+      // Swap the voice placeholder for what was actually said
+      onTranscript: (transcript) => {
+        const patch = (messages: ChatMessage[]) =>
+          messages.map(m => m === userMessage ? { ...userMessage, text: transcript } : m);
+        chatHistoryRef.current = patch(chatHistoryRef.current);
+        setChatHistory(patch);
+      }
+    });
     
-    // Add Model Message to History
-    if (result.text) {
-       setChatHistory(prev => [...prev, { role: 'model', text: result.text }]);
+    if (replyAbortRef.current === abort) replyAbortRef.current = null;
+    // No transcript is coming for this recording (failed or cancelled), so the
+    // bubble stops waiting for one
+    if (userMessage.audio && !result.transcript) {
+      const patch = (messages: ChatMessage[]) =>
+        messages.map(m => m === userMessage ? markTranscriptFailed(userMessage) : m);
+      chatHistoryRef.current = patch(chatHistoryRef.current);
+      setChatHistory(patch);
     }
+    // Cancelled by a newer turn, which owns the history and the robot now
+    if (abort.signal.aborted || result.error?.kind === 'CANCELLED') return;
 
-    if (result.audioBase64) {
-      playAudioResponse(result.audioBase64);
-    } else {
-      setMode(RobotMode.IDLE);
-      setExpression(EyeExpression.NORMAL);
+    // A failed reply gets the face and line for its cause; when the network
+    // is gone, whatever can be done on the device is answered there, x_x
+    const { error } = result;
+    let replyText = result.text;
+    setIsOffline(error?.kind === 'NETWORK');
+    if (error && error.kind !== 'CANCELLED' && generation === playbackGenerationRef.current) {
+      const reaction = ERROR_REACTIONS[error.kind];
+      if (replyText) {
+        // Part of the reply was already spoken
+        dispatch({ type: 'REACT', expression: reaction.expression, priority: 'EVENT', durationMs: 3000 });
+      } else {
+        const userText = typeof input === 'string' ? input : result.transcript;
+        const locale = pinnedReplyLocale(languageSettings.replyLanguage, persona.language)
+          ?? (userText && detectLanguage(userText, languageSettings.uiLocale))
+          ?? languageSettings.uiLocale;
+        replyText = error.kind === 'NETWORK'
+          ? answerOffline(userText, robotCommands, locale)
+          : createTranslator(locale)(reaction.line);
+        speakFallback(replyText, locale, generation, reaction.expression);
+        spoke = true;
+      }
     }
+
+    // Add Model Message to History
+    if (replyText) {
+       const modelMessage = createModelMessage(replyText, spoke ? 'voice' : 'text');
+       chatHistoryRef.current = [...chatHistoryRef.current, modelMessage];
+       setChatHistory(prev => [...prev, modelMessage]);
+    }
+
+    // A newer interaction took over while this reply was streaming
+    if (generation !== playbackGenerationRef.current) return;
+
+    responseStreamingRef.current = false;
+    await playbackChainRef.current;
+    settlePlaybackIfDone();
   };
 
   const stopRecording = async () => {
-    if (!mediaRecorderRef.current) return;
+    if (!mediaRecorderRef.current || mediaRecorderRef.current.state === 'inactive') return;
+    releaseRecordingVad();
 
-    mediaRecorderRef.current.onstop = async () => {
-      const audioBlob = new Blob(audioChunksRef.current, { type: 'audio/webm' });
+    const recorder = mediaRecorderRef.current;
+    recorder.onstop = async () => {
+      // The recorder knows what it actually produced, codecs included
+      const audioBlob = new Blob(audioChunksRef.current, { type: recorder.mimeType || audioChunksRef.current[0]?.type || 'audio/webm' });
       setIsRecording(false);
       
-      handleAIInteraction(audioBlob);
+      handleAIInteraction(audioBlob, Date.now() - recordingStartedAtRef.current);
     };
 
     mediaRecorderRef.current.stop();
     mediaRecorderRef.current.stream.getTracks().forEach(track => track.stop());
   };
 
-  const playAudioResponse = async (base64: string) => {
-    if (!audioContextRef.current || !gainNodeRef.current) return;
+  // Back to IDLE (or LISTENING in live mode) once the reply has fully
+  // streamed and the queue is drained
+  const settlePlaybackIfDone = () => {
+    if (responseStreamingRef.current || audioSourcesRef.current.length > 0 || localSpeechRef.current) return;
+    if (sleepAfterReplyRef.current) {
+      sleepAfterReplyRef.current = false;
+      handleSleep();
+      return;
+    }
+    dispatch({ type: liveConversationRef.current ? 'LISTEN' : 'SETTLE' });
+  };
+
+  // Queues an audio chunk right after the previous one so sentences play gaplessly
+  // `onDecodeError` stands in for a chunk that couldn't be decoded
+  const schedulePlayback = (
+    decode: (ctx: AudioContext) => Promise<AudioBuffer>,
+    generation: number,
+    speakingExpression: EyeExpression = EyeExpression.HAPPY,
+    onDecodeError?: () => Promise<void>
+  ) => {
+    playbackChainRef.current = playbackChainRef.current.then(async () => {
+      if (!audioContextRef.current || !audioEngineRef.current) return;
+      if (generation !== playbackGenerationRef.current) return;
+      const ctx = audioContextRef.current;
+
+      let audioBuffer: AudioBuffer;
+      try {
+        audioBuffer = await decode(ctx);
+      } catch (e) {
+        console.error("Audio decode error", e);
+        await onDecodeError?.();
+        return;
+      }
+
+      try {
+        if (generation !== playbackGenerationRef.current) return;
+
+        const source = ctx.createBufferSource();
+        source.buffer = audioBuffer;
+        source.connect(audioEngineRef.current.speechInput);
+
+        source.onended = () => {
+          audioSourcesRef.current = audioSourcesRef.current.filter(s => s !== source);
+          if (generation === playbackGenerationRef.current) settlePlaybackIfDone();
+        };
+
+        const startAt = Math.max(ctx.currentTime, nextStartTimeRef.current);
+        source.start(startAt);
+        nextStartTimeRef.current = startAt + audioBuffer.duration;
+        audioSourcesRef.current.push(source);
+
+        // Chunks are queued ahead, so the face changes when this one actually starts
+        const speak = () => {
+          if (generation === playbackGenerationRef.current) dispatch({ type: 'SPEAK', expression: speakingExpression });
+        };
+        const delayMs = (startAt - ctx.currentTime) * 1000;
+        if (delayMs > 20) setTimeout(speak, delayMs);
+        else speak();
+      } catch (e) {
+        console.error("Audio playback error", e);
+      }
+    });
+  };
+
+  // Undecodable audio is replaced by the browser reading `fallback` out
+  const playAudioResponse = (
+    base64: string,
+    mimeType: string | undefined,
+    generation: number,
+    speakingExpression?: EyeExpression,
+    fallback?: { text: string; locale: UiLocale }
+  ) => {
+    schedulePlayback(
+      ctx => decodeAudio(base64ToBytes(base64), mimeType, ctx),
+      generation,
+      speakingExpression,
+      fallback && (() => speakLocalLine(fallback.text, fallback.locale, generation, ERROR_REACTIONS.DECODE.expression))
+    );
+  };
+
+  // Speaks a line with the browser's voice once the queued audio has played
+  const speakLocalLine = async (text: string, locale: UiLocale, generation: number, speakingExpression = EyeExpression.HAPPY) => {
+    const ctx = audioContextRef.current;
+    const waitMs = ctx ? (nextStartTimeRef.current - ctx.currentTime) * 1000 : 0;
+    if (waitMs > 0) await new Promise(resolve => setTimeout(resolve, waitMs));
+    if (generation !== playbackGenerationRef.current) return;
+
+    localSpeechRef.current = true;
+    dispatch({ type: 'SPEAK', expression: speakingExpression });
+    await speakLocally(text, locale, personaVoice(persona, languageSettings, locale));
+    localSpeechRef.current = false;
+    if (ctx) nextStartTimeRef.current = Math.max(nextStartTimeRef.current, ctx.currentTime);
+    if (generation === playbackGenerationRef.current) settlePlaybackIfDone();
+  };
+
+  const speakFallback = (text: string, locale: UiLocale, generation: number, speakingExpression?: EyeExpression) => {
+    playbackChainRef.current = playbackChainRef.current.then(() => speakLocalLine(text, locale, generation, speakingExpression));
+  };
+
+  const stopAudioPlayback = () => {
+    playbackGenerationRef.current++;
+    cancelLocalSpeech();
+    localSpeechRef.current = false;
+    responseStreamingRef.current = false;
+    audioSourcesRef.current.forEach(source => {
+      try { source.stop(); } catch(e) {}
+    });
+    audioSourcesRef.current = [];
+    nextStartTimeRef.current = 0;
+  };
+
+  // --- HANDS-FREE ---
+
+  // Listen for the wake word whenever the robot is idle
+  useEffect(() => {
     const ctx = audioContextRef.current;
+    const canListen = ctx && powerStatus === 'ON' && mode === RobotMode.IDLE
+      && !isRecording && !isLive && !isEnrollingWakeWord && !ringingAlarm
+      && voiceSettings.wakeWordEnabled && voiceSettings.wakeWordTemplates.length > 0;
+    if (!canListen) return;
+
+    let cancelled = false;
+    let listener: WakeWordListener | null = null;
+
+    startWakeWordListener(ctx, {
+      templates: voiceSettings.wakeWordTemplates,
+      sensitivity: voiceSettings.wakeWordSensitivity,
+      vadSensitivity: voiceSettings.vadSensitivity,
+      onWake: () => {
+        if (!cancelled) handleToggleRecording();
+      }
+    }).then(l => {
+      if (cancelled) l.stop();
+      else listener = l;
+    }).catch(err => console.error("Wake word listener failed", err));
+
+    return () => {
+      cancelled = true;
+      listener?.stop();
+    };
+  }, [powerStatus, mode, isRecording, isLive, isEnrollingWakeWord, ringingAlarm, voiceSettings]);
 
+  const handleVoiceSettingsChange = (changes: Partial<VoiceSettings>) => {
+    setVoiceSettings(prev => ({ ...prev, ...changes }));
+  };
+
+  const handleEnrollWakeWord = async () => {
+    initAudioContext();
+    if (!audioContextRef.current || isEnrollingWakeWord) return;
+
+    setIsEnrollingWakeWord(true);
+    dispatch({ type: 'REACT', expression: EyeExpression.LISTENING, priority: 'EVENT' });
     try {
-      const audioBuffer = await decodeAudioData(base64, ctx);
+      const template = await recordWakeWordTemplate(audioContextRef.current, voiceSettings.vadSensitivity);
+      setVoiceSettings(prev => ({
+        ...prev,
+        wakeWordEnabled: true,
+        wakeWordTemplates: [...prev.wakeWordTemplates, template].slice(-MAX_WAKE_WORD_TEMPLATES)
+      }));
+      dispatch({ type: 'REACT', expression: EyeExpression.HAPPY, priority: 'EVENT', durationMs: 1500 });
+    } catch (err) {
+      console.error("Wake word enrollment failed", err);
+      dispatch({ type: 'REACT', expression: EyeExpression.SURPRISED, priority: 'EVENT', durationMs: 1500 });
+    } finally {
+      setIsEnrollingWakeWord(false);
+    }
+  };
+
+  // --- LIVE MODE ---
+
+  // Talking over Bangboo cuts the reply and hands the turn back to the user
+  const bargeIn = () => {
+    if (audioSourcesRef.current.length === 0) return;
+    stopAudioPlayback();
+    dispatch({ type: 'LISTEN' });
+  };
+
+  const commitLiveTranscripts = () => {
+    const { user, model } = liveTranscriptRef.current;
+    liveTranscriptRef.current = { user: '', model: '' };
+
+    const turns: ChatMessage[] = [];
+    if (user.trim()) turns.push({ role: 'user', text: user.trim(), meta: { timestamp: Date.now(), modality: 'live' } });
+    if (model.trim()) turns.push(createModelMessage(model.trim(), 'live'));
+    if (turns.length === 0) return;
+
+    chatHistoryRef.current = [...chatHistoryRef.current, ...turns];
+    setChatHistory(prev => [...prev, ...turns]);
+  };
+
+  const stopLiveMode = () => {
+    if (!liveConversationRef.current) return;
+    liveConversationRef.current.stop();
+    liveConversationRef.current = null;
+    commitLiveTranscripts();
+    setIsLive(false);
+  };
+
+  const startLiveMode = async () => {
+    if (!audioContextRef.current) return;
+    cancelReply();
+    stopAudioPlayback();
+
+    let conversation: LiveConversation | null = null;
+    try {
+      conversation = await startLiveConversation(audioContextRef.current, persona, languageSettings, {
+        onAudio: (pcmBase64, sampleRate) => {
+          schedulePlayback(
+            ctx => decodeAudio(base64ToBytes(pcmBase64), `audio/pcm;rate=${sampleRate}`, ctx),
+            playbackGenerationRef.current
+          );
+        },
+        onUserSpeechStart: bargeIn,
+        onInterrupted: bargeIn,
+        onTurnComplete: commitLiveTranscripts,
+        onInputTranscript: (text) => { liveTranscriptRef.current.user += text; },
+        onOutputTranscript: (text) => { liveTranscriptRef.current.model += text; },
+        onError: (error) => console.error("Live session error", error),
+        onClose: () => {
+          // Ignore the close we caused ourselves via stopLiveMode
+          if (liveConversationRef.current !== conversation) return;
+          stopLiveMode();
+          stopAudioPlayback();
+          dispatch({ type: 'SETTLE' });
+        }
+      });
+      liveConversationRef.current = conversation;
+      setIsLive(true);
+      dispatch({ type: 'LISTEN' });
+    } catch (err) {
+      console.error("Live mode failed to start", err);
+      dispatch({ type: 'SETTLE' });
+    }
+  };
+
+  const handleToggleLive = () => {
+    initAudioContext();
+    if (isRecording) return;
+
+    if (liveConversationRef.current) {
+      stopLiveMode();
       stopAudioPlayback();
+      dispatch({ type: 'SETTLE' });
+    } else {
+      startLiveMode();
+    }
+  };
 
-      const source = ctx.createBufferSource();
-      source.buffer = audioBuffer;
-      source.connect(gainNodeRef.current);
-      
-      source.onended = () => {
-        setMode(RobotMode.IDLE);
-        setExpression(EyeExpression.NORMAL);
-      };
+  // --- ALARMS ---
 
-      audioSourceRef.current = source;
-      source.start();
-      
-      setMode(RobotMode.SPEAKING);
-      setExpression(EyeExpression.HAPPY);
-    } catch (e) {
-      console.error("Audio playback error", e);
-      setMode(RobotMode.IDLE);
-      setExpression(EyeExpression.NORMAL);
+  useEffect(() => {
+    if (powerStatus !== 'ON' || ringingAlarm) return;
+
+    const checkAlarms = () => {
+      const due = alarms.find(alarm => isAlarmDue(alarm, new Date()));
+      if (due) ringAlarm(due);
+    };
+    checkAlarms();
+    const timer = setInterval(checkAlarms, 1000);
+    return () => clearInterval(timer);
+  }, [alarms, powerStatus, ringingAlarm]);
+
+  // Startled eyes flicker between SURPRISED and WIDE while ringing
+  useEffect(() => {
+    if (!ringingAlarm) return;
+
+    let wide = false;
+    dispatch({ type: 'REACT', expression: EyeExpression.SURPRISED, priority: 'ALARM' });
+    const flicker = setInterval(() => {
+      wide = !wide;
+      dispatch({ type: 'REACT', expression: wide ? EyeExpression.WIDE : EyeExpression.SURPRISED, priority: 'ALARM' });
+    }, 500);
+    const giveUp = setTimeout(handleSnoozeAlarm, ALARM_RING_TIMEOUT_MS);
+
+    return () => {
+      clearInterval(flicker);
+      clearTimeout(giveUp);
+    };
+  }, [ringingAlarm]);
+
+  const ringAlarm = async (alarm: Alarm) => {
+    setAlarms(prev => prev.map(a => a.id === alarm.id ? markAlarmFired(a, new Date()) : a));
+    setRingingAlarm(alarm);
+    ringingAlarmIdRef.current = alarm.id;
+
+    // The alarm wins over whatever Bangboo was doing, sleep included
+    stopLiveMode();
+    cancelReply();
+    stopAudioPlayback();
+    if (mediaRecorderRef.current?.state === 'recording') cancelRecording();
+    dispatch({ type: 'ALARM_START' });
+
+    initAudioContext();
+    if (!audioContextRef.current || !audioEngineRef.current) return;
+
+    let trackUrl: string | undefined;
+    if (alarm.tone === 'TRACK' && alarm.trackId) {
+      try {
+        const stored = await loadTrackBlob(alarm.trackId);
+        if (stored) trackUrl = URL.createObjectURL(stored.blob);
+      } catch (err) {
+        console.error("Failed to load the alarm track", err);
+      }
     }
+    // Snoozed or dismissed while the track was loading
+    if (ringingAlarmIdRef.current !== alarm.id) {
+      if (trackUrl) URL.revokeObjectURL(trackUrl);
+      return;
+    }
+
+    const player = startAlarmTone(audioContextRef.current, audioEngineRef.current.effectsInput, alarm.tone, trackUrl);
+    alarmToneRef.current = {
+      stop: () => {
+        player.stop();
+        if (trackUrl) URL.revokeObjectURL(trackUrl);
+      }
+    };
   };
 
-  const stopAudioPlayback = () => {
-    if (audioSourceRef.current) {
-      try { audioSourceRef.current.stop(); } catch(e) {}
-      audioSourceRef.current = null;
+  const stopAlarmTone = () => {
+    ringingAlarmIdRef.current = null;
+    alarmToneRef.current?.stop();
+    alarmToneRef.current = null;
+  };
+
+  const finishRinging = (update: (alarm: Alarm) => Alarm) => {
+    const ringingId = ringingAlarmIdRef.current;
+    stopAlarmTone();
+    if (ringingId !== null) {
+      setAlarms(prev => prev.map(a => a.id === ringingId ? update(a) : a));
     }
+    setRingingAlarm(null);
+    dispatch({ type: 'ALARM_STOP' });
+  };
+
+  const handleSnoozeAlarm = () => finishRinging(alarm => snoozeAlarm(alarm, new Date()));
+
+  const handleDismissAlarm = () => finishRinging(dismissAlarm);
+
+  // --- CLOCK TIMERS ---
+
+  // Reacts to a finished timer with a face, and says it out loud when Bangboo
+  // isn't busy talking or listening
+  const announce = async (text: string, reaction: EyeExpression) => {
+    if (powerStatus !== 'ON' || ringingAlarm) return;
+    if (isRecording || isLive || mode === RobotMode.THINKING || mode === RobotMode.SPEAKING) return;
+
+    initAudioContext();
+    dispatch({ type: 'WAKE' });
+    dispatch({ type: 'REACT', expression: reaction, priority: 'EVENT', durationMs: 3000 });
+    const generation = playbackGenerationRef.current;
+
+    const voice = voiceForLanguage(persona, languageSettings, announcementLocale);
+    const audio = await synthesizeAnnouncement(text, reaction, voice);
+    if (generation !== playbackGenerationRef.current) return;
+    if (audio) {
+      playAudioResponse(audio.audioBase64, audio.mimeType, generation, reaction, { text, locale: announcementLocale });
+    } else {
+      speakFallback(text, announcementLocale, generation, reaction);
+    }
+  };
+
+  const clockTimers = useClockTimers({
+    onCountdownDone: () => announce(announcementText('announce.timerDone'), EyeExpression.SURPRISED),
+    onPomodoroPhaseDone: (finished, next) => {
+      if (finished.phase !== 'WORK') {
+        announce(announcementText('announce.breakOver'), EyeExpression.WIDE);
+      } else if (next.phase === 'LONG_BREAK') {
+        announce(announcementText('announce.longBreak', { count: next.completedWorkBlocks }), EyeExpression.HAPPY);
+      } else {
+        announce(announcementText('announce.focusDone'), EyeExpression.HAPPY);
+      }
+    }
+  });
+
+  // The persona says hello once the boot animation is over
+  const previousPowerRef = useRef(powerStatus);
+  useEffect(() => {
+    const booted = previousPowerRef.current === 'BOOTING' && powerStatus === 'ON';
+    previousPowerRef.current = powerStatus;
+    if (booted && persona.greeting.trim()) announce(persona.greeting, EyeExpression.HAPPY);
+  }, [powerStatus]);
+
+  // --- ASSISTANT COMMANDS ---
+
+  // A reply runs with the handlers from when it started, so levels are read
+  // through refs; set eagerly, two steps in one reply add up
+  const volumeRef = useRef(volume);
+  const brightnessRef = useRef(brightness);
+  useEffect(() => {
+    volumeRef.current = volume;
+  }, [volume]);
+  useEffect(() => {
+    brightnessRef.current = brightness;
+  }, [brightness]);
+
+  // What the model may do to the device (see services/robotCommands)
+  const robotCommands: RobotCommandHandlers = {
+    set_alarm: ({ hour, minute, label }) => {
+      setAlarms(prev => [...prev, { ...createAlarm(hour, minute), label: label?.trim() || '' }]);
+      return `Alarm set for ${formatAlarmTime({ hour, minute })}${label ? ` (${label})` : ''}`;
+    },
+    start_timer: ({ minutes }) => {
+      clockTimers.startTimer(minutes * 60 * 1000);
+      return `Timer started for ${minutes} minutes`;
+    },
+    control_music: ({ action }) => {
+      if (action === 'pause') {
+        music.setPlaying(false);
+        return 'Music paused';
+      }
+      const track = action === 'next' ? music.next()
+        : action === 'previous' ? music.previous()
+        : music.currentTrack;
+      if (!track || !track.url) {
+        return 'Error: no playable music. The user needs to add songs in the Music app first';
+      }
+      music.setPlaying(true);
+      return track.artist ? `Now playing "${track.title}" by ${track.artist}` : `Now playing "${track.title}"`;
+    },
+    set_volume: ({ level, direction }) => {
+      const next = adjustLevel(volumeRef.current, level, direction);
+      volumeRef.current = next;
+      setVolume(next);
+      return `Volume is now ${Math.round(next * 100)}%`;
+    },
+    set_brightness: ({ level, direction }) => {
+      const next = adjustLevel(brightnessRef.current, level, direction, MIN_BRIGHTNESS);
+      brightnessRef.current = next;
+      setBrightness(next);
+      return `Brightness is now ${Math.round(next * 100)}%`;
+    },
+    open_app: ({ app }) => {
+      dispatch({ type: 'OPEN_SCREEN', screen: APP_SCREENS[app] });
+      return `Opened ${app}`;
+    },
+    // Deferred so the spoken confirmation isn't cut off
+    go_to_sleep: () => {
+      sleepAfterReplyRef.current = true;
+      return 'Going to sleep after this reply';
+    }
+  };
+
+  // --- SLEEP ---
+
+  const handleSleep = () => {
+    stopLiveMode();
+    cancelReply();
+    stopAudioPlayback();
+    dispatch({ type: 'SLEEP' });
+  };
+
+  const wakeUp = () => dispatch({ type: 'WAKE' });
+
+  const handleFactoryReset = async () => {
+    handlePowerOff();
+    await factoryReset();
+    window.location.reload();
   };
 
   // Click Face to Open Menu
   const handleScreenClick = () => {
     if (powerStatus !== 'ON') return; // Do nothing if not powered on
+    if (ringingAlarm) return;
+
+    if (mode === RobotMode.SLEEP) {
+        wakeUp();
+        return;
+    }
 
     if (screenMode === ScreenMode.HOME) {
         initAudioContext();
-        setScreenMode(ScreenMode.MENU);
+        dispatch({ type: 'OPEN_SCREEN', screen: ScreenMode.MENU });
     }
   };
 
   // Click Eyes to trigger Wide expression (Interaction)
   const handleEyeClick = (e: React.MouseEvent) => {
     e.stopPropagation();
-    if (powerStatus !== 'ON') return;
+    if (powerStatus !== 'ON' || ringingAlarm) return;
+    if (mode === RobotMode.SLEEP) {
+        wakeUp();
+        return;
+    }
     
-    setExpression(EyeExpression.WIDE);
-    setTimeout(() => setExpression(EyeExpression.NORMAL), 2000);
+    dispatch({ type: 'REACT', expression: EyeExpression.WIDE, priority: 'TOUCH', durationMs: 2000 });
   };
 
   return (
@@ -292,6 +1032,29 @@ const App: React.FC = () => {
       {/* Workshop Background */}
       <WorkshopBackground />
 
+      {/* Skin & expression editor */}
+      {isStudioOpen ? (
+          <AppearanceStudio
+            skins={skins}
+            activeSkinId={skin.id}
+            onSelectSkin={setSkinId}
+            customSkins={customSkins}
+            onCustomSkinsChange={setCustomSkins}
+            customExpressions={customExpressions}
+            onCustomExpressionsChange={setCustomExpressionsState}
+            onPreviewExpression={setPreviewExpression}
+            onClose={() => setIsStudioOpen(false)}
+            locale={languageSettings.uiLocale}
+          />
+      ) : (
+          <button
+            onClick={() => setIsStudioOpen(true)}
+            className="fixed bottom-4 left-4 z-50 px-4 py-2 rounded-full font-bold text-xs transition-all shadow-lg bg-gray-800 text-gray-400 border border-gray-700 hover:bg-gray-700"
+          >
+            {t('menu.workshop')}
+          </button>
+      )}
+
       {/* Type-C Simulation Control (Visible ONLY if real API is unsupported) */}
       {!batteryApiSupported && (
           <button 
@@ -309,19 +1072,21 @@ const App: React.FC = () => {
       {/* Main Container */}
       <div className="z-10 w-full max-w-lg flex flex-col items-center">
         
-        {/* SHARK BOO BODY (3D Volumetric) */}
+        {/* BANGBOO BODY (3D Volumetric), colored by the active skin */}
         <div className="relative group transition-transform duration-500 hover:-translate-y-2">
             
             {/* Top Fin (Behind) */}
-            <div className="absolute -top-16 left-1/2 -translate-x-1/2 w-0 h-0 border-l-[30px] border-l-transparent border-r-[30px] border-r-transparent border-b-[90px] border-b-blue-500 rounded-t-lg rotate-[-6deg] z-0 drop-shadow-xl"></div>
+            {skin.fin && (
+                <div className="absolute -top-16 left-1/2 -translate-x-1/2 w-0 h-0 border-l-[30px] border-l-transparent border-r-[30px] border-r-transparent border-b-[90px] rounded-t-lg rotate-[-6deg] z-0 drop-shadow-xl" style={{ borderBottomColor: skin.limbs }}></div>
+            )}
 
             {/* Arms/Fins (Behind) - Elongated */}
-            <div className="absolute -left-16 top-32 w-32 h-44 bg-blue-500 rounded-[20%_0_0_90%] origin-right rotate-[-25deg] shadow-[-5px_10px_15px_rgba(0,0,0,0.3)] z-0 border-l border-white/5 transition-transform hover:rotate-[-30deg]"></div>
-            <div className="absolute -right-16 top-32 w-32 h-44 bg-blue-500 rounded-[0_20%_90%_0] origin-left rotate-[25deg] shadow-[5px_10px_15px_rgba(0,0,0,0.3)] z-0 border-r border-white/5 transition-transform hover:rotate-[30deg]"></div>
+            <div className="absolute -left-16 top-32 w-32 h-44 rounded-[20%_0_0_90%] origin-right rotate-[-25deg] shadow-[-5px_10px_15px_rgba(0,0,0,0.3)] z-0 border-l border-white/5 transition-transform hover:rotate-[-30deg]" style={{ backgroundColor: skin.limbs }}></div>
+            <div className="absolute -right-16 top-32 w-32 h-44 rounded-[0_20%_90%_0] origin-left rotate-[25deg] shadow-[5px_10px_15px_rgba(0,0,0,0.3)] z-0 border-r border-white/5 transition-transform hover:rotate-[30deg]" style={{ backgroundColor: skin.limbs }}></div>
 
             {/* Legs (Behind) - Elongated & Fin-like */}
-            <div className="absolute -bottom-8 left-16 w-20 h-32 bg-blue-500 rounded-b-[4rem] rounded-tl-3xl shadow-lg z-0 rotate-[10deg]"></div>
-            <div className="absolute -bottom-8 right-16 w-20 h-32 bg-blue-500 rounded-b-[4rem] rounded-tr-3xl shadow-lg z-0 rotate-[-10deg]"></div>
+            <div className="absolute -bottom-8 left-16 w-20 h-32 rounded-b-[4rem] rounded-tl-3xl shadow-lg z-0 rotate-[10deg]" style={{ backgroundColor: skin.limbs }}></div>
+            <div className="absolute -bottom-8 right-16 w-20 h-32 rounded-b-[4rem] rounded-tr-3xl shadow-lg z-0 rotate-[-10deg]" style={{ backgroundColor: skin.limbs }}></div>
 
             {/* Body Structure Wrapper */}
             <div className="relative w-80 h-[26rem]">
@@ -331,31 +1096,42 @@ const App: React.FC = () => {
                 <div className="absolute top-4 right-20 w-8 h-8 bg-black rounded-full shadow-[inset_3px_3px_6px_rgba(255,255,255,0.4),0_5px_10px_rgba(0,0,0,0.4)] z-20"></div>
 
                 {/* MAIN SKIN (Clipped Content) */}
-                <div className="absolute inset-0 bg-gradient-to-br from-blue-400 to-blue-600 rounded-[45%_45%_45%_45%_/_55%_55%_45%_45%] shadow-[inset_-20px_-20px_60px_rgba(0,0,0,0.5),inset_10px_10px_40px_rgba(255,255,255,0.3),0_30px_60px_rgba(0,0,0,0.6)] z-10 overflow-hidden">
+                <div
+                  className="absolute inset-0 rounded-[45%_45%_45%_45%_/_55%_55%_45%_45%] shadow-[inset_-20px_-20px_60px_rgba(0,0,0,0.5),inset_10px_10px_40px_rgba(255,255,255,0.3),0_30px_60px_rgba(0,0,0,0.6)] z-10 overflow-hidden"
+                  style={{ background: `linear-gradient(to bottom right, ${skin.body}, ${skin.bodyShade})` }}
+                >
                     
-                    {/* Wrapped White Belly */}
+                    {/* Wrapped Belly */}
                     {/* Full width at bottom, curved top to look like underbelly */}
-                    <div className="absolute bottom-0 left-0 w-full h-[45%] bg-gradient-to-t from-gray-50 to-gray-100 rounded-t-[50%] shadow-[inset_0_5px_15px_rgba(0,0,0,0.05)]"></div>
+                    <div className="absolute bottom-0 left-0 w-full h-[45%] rounded-t-[50%] shadow-[inset_0_5px_15px_rgba(0,0,0,0.05)]" style={{ backgroundColor: skin.belly }}></div>
 
-                    {/* Shark Patch */}
-                    <div className="absolute bottom-16 right-10 bg-red-600 text-white font-black text-[10px] px-3 py-1 rotate-[-12deg] border border-white/50 shadow-md tracking-[0.2em] rounded z-20 opacity-90 transform hover:scale-105 transition-transform">
-                        SHARK
-                    </div>
+                    {/* Badge Patch */}
+                    {skin.patch && (
+                        <div className="absolute bottom-16 right-10 text-white font-black text-[10px] px-3 py-1 rotate-[-12deg] border border-white/50 shadow-md tracking-[0.2em] rounded z-20 opacity-90 transform hover:scale-105 transition-transform" style={{ backgroundColor: skin.patch.color }}>
+                            {skin.patch.text}
+                        </div>
+                    )}
                 </div>
 
                 {/* THE MOUTH / SCREEN (On Top of Skin) */}
                 <div 
-                  className="absolute top-12 left-1/2 -translate-x-1/2 w-[85%] h-[42%] bg-black rounded-[40%_40%_45%_45%_/_50%_50%_50%_50%] border-[12px] border-red-600 shadow-[inset_0_0_30px_rgba(0,0,0,1),0_5px_0_rgba(0,0,0,0.1)] z-30 overflow-hidden ring-1 ring-black/20 transition-all duration-300 cursor-pointer"
-                  style={{ filter: `brightness(${brightness})` }}
+                  className="absolute top-12 left-1/2 -translate-x-1/2 w-[85%] h-[42%] bg-black rounded-[40%_40%_45%_45%_/_50%_50%_50%_50%] border-[12px] shadow-[inset_0_0_30px_rgba(0,0,0,1),0_5px_0_rgba(0,0,0,0.1)] z-30 overflow-hidden ring-1 ring-black/20 transition-all duration-300 cursor-pointer"
+                  style={{ filter: `brightness(${brightness})`, borderColor: skin.screenRim }}
                   onClick={handleScreenClick}
                 >
                    <RobotFace 
                      expression={expression} 
+                     skin={skin}
+                     skins={skins}
                      mode={mode}
+                     isOffline={isOffline}
                      screenMode={screenMode}
-                     onScreenChange={setScreenMode}
-                     audioLevel={isRecording ? 100 : 0} 
+                     onScreenChange={(screen: ScreenMode) => dispatch({ type: 'OPEN_SCREEN', screen })}
+                     audioLevel={isRecording ? Math.round(micLevel * 100) : 0} 
+                     outputAnalyser={outputAnalyser}
                      volume={volume}
+                     equalizer={equalizer}
+                     onEqualizerChange={setEqualizer}
                      onVolumeChange={setVolume}
                      brightness={brightness}
                      onBrightnessChange={setBrightness}
@@ -363,6 +1139,29 @@ const App: React.FC = () => {
                      onSendMessage={handleAIInteraction}
                      isRecording={isRecording}
                      onToggleRecording={handleToggleRecording}
+                     isLive={isLive}
+                     onToggleLive={isLiveModeSupported() ? handleToggleLive : undefined}
+                     voiceSettings={voiceSettings}
+                     onVoiceSettingsChange={handleVoiceSettingsChange}
+                     isEnrollingWakeWord={isEnrollingWakeWord}
+                     onEnrollWakeWord={handleEnrollWakeWord}
+                     onFactoryReset={handleFactoryReset}
+                     personas={personas}
+                     activePersonaId={persona.id}
+                     onSelectPersona={handleSelectPersona}
+                     customPersonas={customPersonas}
+                     onCustomPersonasChange={setCustomPersonas}
+                     personaVoices={availableVoices()}
+                     languageSettings={languageSettings}
+                     onLanguageSettingsChange={setLanguageSettings}
+                     alarms={alarms}
+                     onAlarmsChange={setAlarms}
+                     ringingAlarm={ringingAlarm}
+                     onSnoozeAlarm={handleSnoozeAlarm}
+                     onDismissAlarm={handleDismissAlarm}
+                     onSleep={handleSleep}
+                     clockTimers={clockTimers}
+                     music={music}
                      isCharging={isCharging}
                      batteryLevel={batteryLevel}
                      onEyeClick={handleEyeClick}
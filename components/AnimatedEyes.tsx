@@ -0,0 +1,73 @@
+import React, { useRef } from 'react';
+import clsx from 'clsx';
+import { EyeShape } from '../services/eyeAnimation';
+import { useEyeAnimation } from '../hooks/useEyeAnimation';
+
+interface AnimatedEyesProps {
+  expression: string; // An EyeExpression or any registered expression name
+  audioLevel?: number; // 0-100; eyes swell with the voice while listening
+  color?: string;
+  onEyeClick?: (e: React.MouseEvent) => void;
+}
+
+const EYE_COLOR = '#facc15';
+
+const eyeStyle = (shape: EyeShape, color: string): React.CSSProperties => {
+  const transform = `translate(${shape.x}px, ${shape.y}px) rotate(${shape.rotate}deg) scale(${shape.scale})`;
+
+  if (shape.glyph) {
+    return {
+      width: shape.width,
+      height: shape.height,
+      fontSize: shape.height,
+      lineHeight: 1,
+      color,
+      textShadow: `0 0 ${shape.glow}px ${color}`,
+      opacity: shape.opacity,
+      transform
+    };
+  }
+
+  return {
+    width: shape.width,
+    height: shape.height,
+    borderRadius: `${shape.radius}%`,
+    background: shape.ring > 0 ? 'transparent' : color,
+    border: shape.ring > 0 ? `${shape.ring}px solid ${color}` : undefined,
+    borderTopColor: shape.spin ? 'transparent' : undefined,
+    boxShadow: `0 0 ${shape.glow}px ${color}`,
+    clipPath: shape.arc > 0 ? `inset(0 0 ${shape.arc * 100}% 0)` : undefined,
+    opacity: shape.opacity,
+    transform
+  };
+};
+
+const AnimatedEyes: React.FC<AnimatedEyesProps> = ({ expression, audioLevel = 0, color = EYE_COLOR, onEyeClick }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const pose = useEyeAnimation(expression, containerRef);
+
+  // Hearing the user makes the eyes swell and glow on top of the animation
+  const boost = (shape: EyeShape): EyeShape => audioLevel > 10
+    ? { ...shape, scale: shape.scale * (1 + audioLevel / 250), glow: shape.glow + audioLevel / 3 }
+    : shape;
+
+  return (
+    <div ref={containerRef} className="flex items-center justify-center gap-10">
+      {[pose.left, pose.right].map((shape, i) => (
+        <div
+          key={i}
+          onClick={onEyeClick}
+          className={clsx(
+            "cursor-pointer flex items-center justify-center font-black font-sans select-none",
+            shape.opacity === 0 && "pointer-events-none"
+          )}
+          style={eyeStyle(boost(shape), color)}
+        >
+          {shape.glyph}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default AnimatedEyes;
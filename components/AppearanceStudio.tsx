@@ -0,0 +1,430 @@
+import React, { useEffect, useRef, useState } from 'react';
+import clsx from 'clsx';
+import { Copy, Download, Trash2, Upload, X } from 'lucide-react';
+import { BangbooSkin, UiLocale } from '../types';
+import {
+  AppearancePackErrorCode, exportAppearancePack, isAppearancePackError, isBuiltInSkin, mergeById, parseAppearancePack, validateExpression
+} from '../services/appearance';
+import { BASE_EYE, ExpressionDefinition, EyeShape, getExpression, isBuiltInExpression, listBuiltInExpressions } from '../services/eyeAnimation';
+import { createTranslator, MessageKey } from '../services/i18n';
+import { downloadText } from '../utils/download';
+
+interface AppearanceStudioProps {
+  skins: BangbooSkin[]; // Built-in and custom
+  activeSkinId: string;
+  onSelectSkin: (id: string) => void;
+  customSkins: BangbooSkin[];
+  onCustomSkinsChange: (skins: BangbooSkin[]) => void;
+  customExpressions: ExpressionDefinition[];
+  onCustomExpressionsChange: (expressions: ExpressionDefinition[]) => void;
+  onPreviewExpression: (name: string | null) => void; // Shown on the robot while editing
+  onClose: () => void;
+  locale: UiLocale;
+}
+
+type StudioTab = 'SKINS' | 'EXPRESSIONS';
+
+const SKIN_COLORS: { key: keyof BangbooSkin; label: MessageKey }[] = [
+  { key: 'eyeColor', label: 'studio.eyeColor' },
+  { key: 'teethColor', label: 'studio.teethColor' },
+  { key: 'screenRim', label: 'studio.screenRim' },
+  { key: 'body', label: 'studio.body' },
+  { key: 'bodyShade', label: 'studio.bodyShade' },
+  { key: 'limbs', label: 'studio.limbs' },
+  { key: 'belly', label: 'studio.belly' }
+];
+
+const SHAPE_SLIDERS: { key: keyof EyeShape; label: MessageKey; min: number; max: number; step: number }[] = [
+  { key: 'width', label: 'studio.width', min: 2, max: 80, step: 1 },
+  { key: 'height', label: 'studio.height', min: 2, max: 80, step: 1 },
+  { key: 'radius', label: 'studio.radius', min: 0, max: 50, step: 1 },
+  { key: 'ring', label: 'studio.ring', min: 0, max: 14, step: 1 },
+  { key: 'arc', label: 'studio.arc', min: 0, max: 0.9, step: 0.05 },
+  { key: 'rotate', label: 'studio.rotate', min: -45, max: 45, step: 1 },
+  { key: 'x', label: 'studio.x', min: -40, max: 40, step: 1 },
+  { key: 'y', label: 'studio.y', min: -30, max: 30, step: 1 },
+  { key: 'glow', label: 'studio.glow', min: 0, max: 40, step: 1 }
+];
+
+const PACK_ERRORS: Record<AppearancePackErrorCode, MessageKey> = {
+  NOT_JSON: 'studio.notJson',
+  WRONG_FILE: 'studio.wrongFile',
+  VERSION: 'studio.version',
+  BAD_SKIN: 'studio.badSkin',
+  BAD_EXPRESSION: 'studio.badExpression'
+};
+
+// Keyframes are edited as JSON; everything else has a control
+const motionJson = (definition: ExpressionDefinition) =>
+  JSON.stringify({ keyframes: definition.keyframes ?? [], durationMs: definition.durationMs, loop: definition.loop }, null, 1);
+
+// Workshop panel next to the robot for designing skins and eye expressions
+const AppearanceStudio: React.FC<AppearanceStudioProps> = ({
+  skins,
+  activeSkinId,
+  onSelectSkin,
+  customSkins,
+  onCustomSkinsChange,
+  customExpressions,
+  onCustomExpressionsChange,
+  onPreviewExpression,
+  onClose,
+  locale
+}) => {
+  const t = createTranslator(locale);
+  const [tab, setTab] = useState<StudioTab>('SKINS');
+  const [selectedExpression, setSelectedExpression] = useState<string>(listBuiltInExpressions()[0]);
+  const [editingEye, setEditingEye] = useState<'left' | 'right'>('left');
+  const [motionText, setMotionText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const activeSkin = skins.find(skin => skin.id === activeSkinId);
+  const editableSkin = activeSkin && !isBuiltInSkin(activeSkin.id) ? activeSkin : null;
+  const customExpression = customExpressions.find(def => def.name === selectedExpression) ?? null;
+  // Worked out from props rather than the registry, which App updates a render later
+  const expressionNames = [...new Set([...listBuiltInExpressions(), ...customExpressions.map(def => def.name)])];
+  const selectedDefinition = customExpression ?? getExpression(selectedExpression);
+
+  useEffect(() => {
+    onPreviewExpression(tab === 'EXPRESSIONS' ? selectedExpression : null);
+  }, [tab, selectedExpression]);
+
+  useEffect(() => () => onPreviewExpression(null), []);
+
+  useEffect(() => {
+    setMotionText(motionJson(selectedDefinition));
+    setEditingEye('left');
+  }, [selectedExpression]);
+
+  // --- SKINS ---
+
+  const duplicateSkin = () => {
+    const source = activeSkin ?? skins[0];
+    const copy: BangbooSkin = { ...source, id: `skin-${Date.now()}`, name: t('studio.copyName', { name: source.name }) };
+    onCustomSkinsChange([...customSkins, copy]);
+    onSelectSkin(copy.id);
+  };
+
+  const updateSkin = (changes: Partial<BangbooSkin>) => {
+    if (!editableSkin) return;
+    onCustomSkinsChange(customSkins.map(skin => skin.id === editableSkin.id ? { ...skin, ...changes } : skin));
+  };
+
+  const deleteSkin = () => {
+    if (!editableSkin) return;
+    onCustomSkinsChange(customSkins.filter(skin => skin.id !== editableSkin.id));
+    onSelectSkin(skins[0].id);
+  };
+
+  // --- EXPRESSIONS ---
+
+  const duplicateExpression = () => {
+    const source = selectedDefinition;
+    let name = `${source.name}-custom`;
+    for (let n = 2; expressionNames.includes(name); n++) name = `${source.name}-custom-${n}`;
+    onCustomExpressionsChange([...customExpressions, { ...source, name }]);
+    setSelectedExpression(name);
+  };
+
+  const updateExpression = (changes: Partial<ExpressionDefinition>) => {
+    if (!customExpression) return;
+    onCustomExpressionsChange(customExpressions.map(def => def === customExpression ? { ...def, ...changes } : def));
+  };
+
+  const renameExpression = (name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed || trimmed === customExpression?.name) return;
+    if (expressionNames.includes(trimmed)) {
+      setError(t('studio.nameTaken', { name: trimmed }));
+      return;
+    }
+    updateExpression({ name: trimmed });
+    setSelectedExpression(trimmed);
+    setError(null);
+  };
+
+  const deleteExpression = () => {
+    if (!customExpression) return;
+    onCustomExpressionsChange(customExpressions.filter(def => def !== customExpression));
+    setSelectedExpression(listBuiltInExpressions()[0]);
+  };
+
+  const updateShape = (key: keyof EyeShape, value: number | string | undefined) => {
+    if (!customExpression) return;
+    const side = customExpression.right === undefined ? 'left' : editingEye;
+    updateExpression({ [side]: { ...customExpression[side], [key]: value } });
+  };
+
+  const toggleMirrored = () => {
+    if (!customExpression) return;
+    updateExpression({ right: customExpression.right === undefined ? { ...customExpression.left } : undefined });
+    setEditingEye('left');
+  };
+
+  // Pack errors come translated; anything else is JSON.parse failing
+  const errorText = (err: unknown): string => {
+    console.error("Invalid appearance data", err);
+    return isAppearancePackError(err) ? t(PACK_ERRORS[err.code], err.params) : t('studio.notJson');
+  };
+
+  const applyMotion = () => {
+    if (!customExpression) return;
+    try {
+      const motion = JSON.parse(motionText);
+      const checked = validateExpression({ ...customExpression, ...motion }, 0);
+      updateExpression({ keyframes: checked.keyframes, durationMs: checked.durationMs, loop: checked.loop });
+      setError(null);
+    } catch (e) {
+      setError(errorText(e));
+    }
+  };
+
+  // --- FILES ---
+
+  const handleExport = () => {
+    downloadText('bangboo-appearance.json', exportAppearancePack({ skins: customSkins, expressions: customExpressions }));
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const pack = parseAppearancePack(await file.text());
+      const skinsToAdd = pack.skins.filter(skin => !isBuiltInSkin(skin.id));
+      onCustomSkinsChange(mergeById(customSkins, skinsToAdd, skin => skin.id));
+      onCustomExpressionsChange(mergeById(customExpressions, pack.expressions, def => def.name));
+      setError(null);
+    } catch (err) {
+      setError(errorText(err));
+    }
+  };
+
+  // --- RENDER ---
+
+  const renderSkins = () => (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-1.5">
+        {skins.map(skin => (
+          <button
+            key={skin.id}
+            onClick={() => onSelectSkin(skin.id)}
+            className={clsx(
+              "flex items-center gap-2 px-2 py-1.5 rounded border text-left text-[11px] transition-colors",
+              skin.id === activeSkinId ? "border-cyan-400 bg-cyan-500/10 text-white" : "border-gray-700 text-gray-400 hover:border-gray-500"
+            )}
+          >
+            <span className="w-4 h-4 rounded-full flex-shrink-0 border border-white/20" style={{ background: `linear-gradient(135deg, ${skin.body}, ${skin.bodyShade})` }} />
+            <span className="truncate">{skin.name}</span>
+          </button>
+        ))}
+      </div>
+
+      <button onClick={duplicateSkin} className="flex items-center gap-1.5 text-[11px] text-cyan-400 hover:text-white">
+        <Copy size={12} /> {t('studio.duplicateSkin')}
+      </button>
+
+      {editableSkin ? (
+        <div className="space-y-2 border-t border-gray-800 pt-3">
+          <input
+            value={editableSkin.name}
+            onChange={(e) => updateSkin({ name: e.target.value })}
+            className="w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 text-xs text-white outline-none focus:border-cyan-500"
+          />
+          {SKIN_COLORS.map(({ key, label }) => (
+            <label key={key} className="flex items-center justify-between text-[11px] text-gray-300">
+              {t(label)}
+              <input
+                type="color"
+                value={editableSkin[key] as string}
+                onChange={(e) => updateSkin({ [key]: e.target.value })}
+                className="w-10 h-5 bg-transparent cursor-pointer"
+              />
+            </label>
+          ))}
+          <label className="flex items-center justify-between text-[11px] text-gray-300">
+            {t('studio.fin')}
+            <input type="checkbox" checked={editableSkin.fin} onChange={(e) => updateSkin({ fin: e.target.checked })} />
+          </label>
+          <div className="flex items-center gap-2 text-[11px] text-gray-300">
+            <span className="flex-1">{t('studio.badge')}</span>
+            <input
+              value={editableSkin.patch?.text ?? ''}
+              placeholder={t('studio.noBadge')}
+              onChange={(e) => updateSkin({
+                patch: e.target.value ? { text: e.target.value.toUpperCase(), color: editableSkin.patch?.color ?? '#dc2626' } : undefined
+              })}
+              className="w-20 bg-gray-800 border border-gray-700 rounded px-1.5 py-0.5 text-white outline-none focus:border-cyan-500"
+            />
+            {editableSkin.patch && (
+              <input
+                type="color"
+                value={editableSkin.patch.color}
+                onChange={(e) => updateSkin({ patch: { ...editableSkin.patch!, color: e.target.value } })}
+                className="w-10 h-5 bg-transparent cursor-pointer"
+              />
+            )}
+          </div>
+          <button onClick={deleteSkin} className="flex items-center gap-1.5 text-[11px] text-red-400 hover:text-red-300">
+            <Trash2 size={12} /> {t('studio.deleteSkin')}
+          </button>
+        </div>
+      ) : (
+        <p className="text-[10px] text-gray-500">{t('studio.builtInSkin')}</p>
+      )}
+    </div>
+  );
+
+  const renderShapeEditor = (definition: ExpressionDefinition) => {
+    const mirrored = definition.right === undefined;
+    const side = mirrored ? 'left' : editingEye;
+    const shape = { ...BASE_EYE, ...definition[side] };
+
+    return (
+      <div className="space-y-2 border-t border-gray-800 pt-3">
+        <input
+          key={definition.name}
+          defaultValue={definition.name}
+          onBlur={(e) => renameExpression(e.target.value)}
+          className="w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 text-xs text-white outline-none focus:border-cyan-500"
+        />
+        <div className="flex items-center gap-3 text-[11px] text-gray-300">
+          <label className="flex items-center gap-1">
+            <input type="checkbox" checked={mirrored} onChange={toggleMirrored} /> {t('studio.mirror')}
+          </label>
+          <label className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={definition.idleMotion !== false}
+              onChange={(e) => updateExpression({ idleMotion: e.target.checked ? undefined : false })}
+            /> {t('studio.idleMotion')}
+          </label>
+        </div>
+        {!mirrored && (
+          <div className="flex gap-1">
+            {(['left', 'right'] as const).map(eye => (
+              <button
+                key={eye}
+                onClick={() => setEditingEye(eye)}
+                className={clsx("flex-1 text-[10px] py-0.5 rounded border", editingEye === eye ? "border-cyan-400 text-white" : "border-gray-700 text-gray-500")}
+              >
+                {t(`studio.${eye}`)}
+              </button>
+            ))}
+          </div>
+        )}
+        {SHAPE_SLIDERS.map(({ key, label, min, max, step }) => (
+          <label key={key} className="grid grid-cols-[70px_1fr_32px] items-center gap-2 text-[11px] text-gray-300">
+            {t(label)}
+            <input
+              type="range"
+              min={min}
+              max={max}
+              step={step}
+              value={shape[key] as number}
+              onChange={(e) => updateShape(key, Number(e.target.value))}
+            />
+            <span className="text-right text-gray-500 font-mono">{Math.round((shape[key] as number) * 100) / 100}</span>
+          </label>
+        ))}
+        <label className="flex items-center justify-between text-[11px] text-gray-300">
+          {t('studio.glyph')}
+          <input
+            value={shape.glyph ?? ''}
+            maxLength={2}
+            onChange={(e) => updateShape('glyph', e.target.value || undefined)}
+            className="w-12 bg-gray-800 border border-gray-700 rounded px-1.5 py-0.5 text-center text-white outline-none focus:border-cyan-500"
+          />
+        </label>
+        <div className="space-y-1">
+          <span className="text-[11px] text-gray-300">{t('studio.keyframes')}</span>
+          <textarea
+            value={motionText}
+            onChange={(e) => setMotionText(e.target.value)}
+            onBlur={applyMotion}
+            rows={5}
+            spellCheck={false}
+            className="w-full bg-gray-800 border border-gray-700 rounded px-2 py-1 text-[10px] font-mono text-gray-200 outline-none focus:border-cyan-500"
+          />
+          <p className="text-[9px] text-gray-500">
+            {t('studio.example', { json: '{"keyframes":[{"at":0,"both":{"scale":1}},{"at":0.5,"both":{"scale":1.2}},{"at":1,"both":{"scale":1}}],"durationMs":1000,"loop":true}' })}
+          </p>
+        </div>
+        <button onClick={deleteExpression} className="flex items-center gap-1.5 text-[11px] text-red-400 hover:text-red-300">
+          <Trash2 size={12} /> {t(isBuiltInExpression(definition.name) ? 'studio.restore' : 'studio.deleteExpression')}
+        </button>
+      </div>
+    );
+  };
+
+  const renderExpressions = () => (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-1">
+        {expressionNames.map(name => (
+          <button
+            key={name}
+            onClick={() => setSelectedExpression(name)}
+            className={clsx(
+              "px-2 py-0.5 rounded border text-[10px] tracking-wide transition-colors",
+              name === selectedExpression ? "border-cyan-400 bg-cyan-500/10 text-white" : "border-gray-700 text-gray-400 hover:border-gray-500",
+              customExpressions.some(def => def.name === name) && "italic"
+            )}
+          >
+            {name}
+          </button>
+        ))}
+      </div>
+      <p className="text-[10px] text-gray-500">{t('studio.previewHint')}</p>
+
+      <button onClick={duplicateExpression} className="flex items-center gap-1.5 text-[11px] text-cyan-400 hover:text-white">
+        <Copy size={12} /> {t('studio.duplicateExpression')}
+      </button>
+
+      {customExpression
+        ? renderShapeEditor(customExpression)
+        : <p className="text-[10px] text-gray-500">{t('studio.builtInExpression')}</p>}
+    </div>
+  );
+
+  return (
+    <div className="fixed left-4 top-4 bottom-4 z-50 w-72 bg-gray-900/95 border border-gray-700 rounded-xl shadow-2xl flex flex-col font-nunito text-gray-200">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-800">
+        <span className="text-xs font-bold tracking-[0.2em] text-cyan-400">{t('studio.title')}</span>
+        <button onClick={onClose} className="text-gray-400 hover:text-white">
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="flex border-b border-gray-800">
+        {(['SKINS', 'EXPRESSIONS'] as StudioTab[]).map(id => (
+          <button
+            key={id}
+            onClick={() => setTab(id)}
+            className={clsx("flex-1 py-2 text-[10px] font-bold tracking-widest", tab === id ? "text-white border-b-2 border-cyan-400" : "text-gray-500")}
+          >
+            {t(`studio.${id}`)}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar p-4">
+        {tab === 'SKINS' ? renderSkins() : renderExpressions()}
+      </div>
+
+      {error && <p className="px-4 pb-2 text-[10px] text-red-400">{error}</p>}
+
+      <div className="flex gap-2 px-4 py-3 border-t border-gray-800">
+        <button onClick={handleExport} className="flex-1 flex items-center justify-center gap-1.5 py-1.5 rounded bg-gray-800 hover:bg-gray-700 text-[11px]">
+          <Download size={12} /> {t('studio.export')}
+        </button>
+        <button onClick={() => importInputRef.current?.click()} className="flex-1 flex items-center justify-center gap-1.5 py-1.5 rounded bg-gray-800 hover:bg-gray-700 text-[11px]">
+          <Upload size={12} /> {t('studio.import')}
+        </button>
+        <input ref={importInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+      </div>
+    </div>
+  );
+};
+
+export default AppearanceStudio;
@@ -0,0 +1,112 @@
+import React from 'react';
+
+interface MarkdownTextProps {
+  text: string;
+  className?: string;
+}
+
+// Inline markers: `code`, **bold**, *italic* / _italic_, [label](url)
+const INLINE_PATTERN = /(`[^`]+`|\*\*[^*]+\*\*|\*[^*\s][^*]*\*|_[^_\s][^_]*_|\[[^\]]+\]\([^)\s]+\))/g;
+
+const renderInline = (text: string, keyPrefix: string): React.ReactNode[] => {
+  return text.split(INLINE_PATTERN).filter(Boolean).map((token, i) => {
+    const key = `${keyPrefix}-${i}`;
+    if (token.startsWith('`') && token.endsWith('`') && token.length > 1) {
+      return <code key={key} className="bg-black/40 px-1 rounded text-pink-300 font-mono">{token.slice(1, -1)}</code>;
+    }
+    if (token.startsWith('**') && token.endsWith('**') && token.length > 4) {
+      return <strong key={key} className="font-bold text-white">{token.slice(2, -2)}</strong>;
+    }
+    if ((token.startsWith('*') && token.endsWith('*')) || (token.startsWith('_') && token.endsWith('_'))) {
+      if (token.length > 2) return <em key={key}>{token.slice(1, -1)}</em>;
+    }
+    const link = token.match(/^\[([^\]]+)\]\(([^)\s]+)\)$/);
+    if (link && /^https?:\/\//.test(link[2])) {
+      return (
+        <a key={key} href={link[2]} target="_blank" rel="noopener noreferrer" className="underline text-cyan-300" onClick={(e) => e.stopPropagation()}>
+          {link[1]}
+        </a>
+      );
+    }
+    return <React.Fragment key={key}>{token}</React.Fragment>;
+  });
+};
+
+// Small markdown subset for chat replies. Builds React elements directly,
+// so model output is never injected as HTML.
+const MarkdownText: React.FC<MarkdownTextProps> = ({ text, className }) => {
+  const blocks: React.ReactNode[] = [];
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    const key = `b-${i}`;
+
+    // Fenced code block
+    if (line.trim().startsWith('```')) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith('```')) {
+        code.push(lines[i]);
+        i++;
+      }
+      i++; // Closing fence
+      blocks.push(
+        <pre key={key} className="bg-black/40 rounded p-1.5 overflow-x-auto font-mono text-[8px] text-pink-200 whitespace-pre">{code.join('\n')}</pre>
+      );
+      continue;
+    }
+
+    // Bullet / numbered lists
+    const listMatch = line.match(/^\s*([-*•]|\d+[.)])\s+/);
+    if (listMatch) {
+      const ordered = /\d/.test(listMatch[1]);
+      const items: React.ReactNode[] = [];
+      while (i < lines.length) {
+        const item = lines[i].match(/^\s*([-*•]|\d+[.)])\s+(.*)$/);
+        if (!item) break;
+        items.push(<li key={`li-${i}`}>{renderInline(item[2], `li-${i}`)}</li>);
+        i++;
+      }
+      blocks.push(ordered
+        ? <ol key={key} className="list-decimal pl-4 space-y-0.5">{items}</ol>
+        : <ul key={key} className="list-disc pl-4 space-y-0.5">{items}</ul>);
+      continue;
+    }
+
+    const heading = line.match(/^#{1,6}\s+(.*)$/);
+    if (heading) {
+      blocks.push(<p key={key} className="font-bold text-white">{renderInline(heading[1], key)}</p>);
+      i++;
+      continue;
+    }
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    // Paragraph: consecutive plain lines, kept as line breaks
+    const paragraph: string[] = [];
+    while (i < lines.length && lines[i].trim() && !lines[i].trim().startsWith('```')
+      && !/^\s*([-*•]|\d+[.)])\s+/.test(lines[i]) && !/^#{1,6}\s+/.test(lines[i])) {
+      paragraph.push(lines[i]);
+      i++;
+    }
+    blocks.push(
+      <p key={key}>
+        {paragraph.map((p, j) => (
+          <React.Fragment key={j}>
+            {j > 0 && <br />}
+            {renderInline(p, `${key}-${j}`)}
+          </React.Fragment>
+        ))}
+      </p>
+    );
+  }
+
+  return <div className={className}>{blocks}</div>;
+};
+
+export default MarkdownText;
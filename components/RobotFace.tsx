@@ -1,26 +1,97 @@
 import React, { useEffect, useState, useRef } from 'react';
-import { EyeExpression, RobotMode, ScreenMode, ChatMessage, MusicTrack } from '../types';
+import { EyeExpression, RobotMode, ScreenMode, ChatMessage, VoiceSettings, Alarm, BangbooSkin, MusicTrack, RepeatMode, EqPreset, EqualizerSettings, Persona, LanguageSettings, ReplyLanguage, UiLocale } from '../types';
 import clsx from 'clsx';
 import { 
   Volume2, SkipBack, SkipForward, Play, Pause, 
   Music, Clock, Wifi, Battery, MessageCircle, Mic, ArrowLeft, Layers, Lock, Check, ChevronRight,
-  Calendar, Sun, ChevronUp, ChevronDown, ListMusic, Plus, Trash2, ToggleLeft, ToggleRight, Zap, Power, Upload
+  Calendar, Sun, ChevronUp, ChevronDown, ListMusic, Plus, Trash2, ToggleLeft, ToggleRight, Zap, Power, Upload, Radio, AudioLines, Send, RotateCcw,
+  Moon, BellRing, Repeat, Timer, Watch, Coffee, Flag, RotateCw, Settings2, Minus,
+  Shuffle, Repeat1, GripVertical, ListPlus, EllipsisVertical, X, FolderOpen, Search, UserRound, Copy, Download, Pencil, Languages, WifiOff
 } from 'lucide-react';
+import MarkdownText from './MarkdownText';
+import AnimatedEyes from './AnimatedEyes';
+import { usePersistentState } from '../hooks/usePersistentState';
+import { hasTranscript } from '../utils/chatHistory';
+import { createAlarm, describeRepeatDays, formatAlarmTime, SNOOZE_MINUTES } from '../services/alarmEngine';
+import { createTranslator, formatClockDate, formatClockTime, MessageKey, UI_LOCALES, weekdayLetters } from '../services/i18n';
+import { countdownRemaining, stopwatchElapsed } from '../services/clockTimers';
+import { ClockTimers } from '../hooks/useClockTimers';
+import { EMPTY_TRACK_ID, MusicPlayer } from '../hooks/useMusicPlayer';
+import { useAudioStreams } from '../hooks/useAudioStreams';
+import { episodeTrack, FeedErrorCode, isFeedError, stationTrack } from '../services/audioStreams';
+import { LIBRARY_ID } from '../services/musicQueue';
+import { EQ_BANDS_HZ, EQ_MAX_DB, EQ_PRESETS } from '../services/audioEngine';
+import { groupTracks, LibraryGrouping, matchesSearch } from '../services/musicLibrary';
+import {
+  exportPersonaPack, isBuiltInPersona, isPersonaPackError, parsePersonaPack, PERSONA_LANGUAGES, PersonaPackErrorCode, REPLY_LENGTHS
+} from '../services/personas';
+import { mergeById } from '../services/appearance';
+import { downloadText } from '../utils/download';
+import { filesFromDrop, isAudioFile, pickAudioFolder, supportsFolderPicker } from '../utils/audioFiles';
+import { useAudioLevels } from '../hooks/useAudioLevels';
+import { AudioAnalyser } from '../utils/audioAnalyser';
+
+const FEED_ERRORS: Record<FeedErrorCode, MessageKey> = {
+  UNREACHABLE: 'music.feedUnreachable',
+  HTTP: 'music.feedHttp',
+  NOT_XML: 'music.feedNotXml',
+  NOT_RSS: 'music.feedNotRss',
+  NO_EPISODES: 'music.feedNoEpisodes'
+};
+
+const PERSONA_PACK_ERRORS: Record<PersonaPackErrorCode, MessageKey> = {
+  NOT_JSON: 'persona.notJson',
+  WRONG_FILE: 'persona.wrongFile',
+  VERSION: 'persona.version',
+  NOT_OBJECT: 'persona.notObject',
+  NO_ID: 'persona.noId',
+  NO_NAME: 'persona.noName',
+  NO_PROMPT: 'persona.noPrompt'
+};
 
 interface RobotFaceProps {
-  expression: EyeExpression;
+  expression: string; // An EyeExpression or a custom expression name
+  skin?: BangbooSkin; // Eye and teeth colors
+  skins?: BangbooSkin[]; // Offered as a persona's default look
   mode: RobotMode;
+  isOffline?: boolean; // The last request couldn't reach the model
   screenMode: ScreenMode;
   onScreenChange: (mode: ScreenMode) => void;
-  audioLevel?: number; // 0-100 for visualizer
+  audioLevel?: number; // 0-100 mic level while recording
+  outputAnalyser?: AudioAnalyser | null; // Speech and music output, for lip-sync and the visualizer
   volume?: number;
   onVolumeChange?: (volume: number) => void;
+  equalizer?: EqualizerSettings; // Music EQ, in the Sound settings
+  onEqualizerChange?: (equalizer: EqualizerSettings) => void;
   brightness?: number;
   onBrightnessChange?: (b: number) => void;
   chatHistory?: ChatMessage[];
   onSendMessage?: (text: string) => void;
   isRecording?: boolean;
   onToggleRecording?: () => void;
+  isLive?: boolean; // Full-duplex live voice session running
+  onToggleLive?: () => void;
+  voiceSettings?: VoiceSettings;
+  onVoiceSettingsChange?: (changes: Partial<VoiceSettings>) => void;
+  isEnrollingWakeWord?: boolean;
+  onEnrollWakeWord?: () => void;
+  onFactoryReset?: () => void;
+  personas?: Persona[]; // Built-in and custom
+  activePersonaId?: string;
+  onSelectPersona?: (id: string) => void;
+  customPersonas?: Persona[];
+  onCustomPersonasChange?: (personas: Persona[]) => void;
+  personaVoices?: string[]; // Voices the current backend accepts, as suggestions
+  languageSettings?: LanguageSettings; // UI locale and reply language
+  onLanguageSettingsChange?: (settings: LanguageSettings) => void;
+  alarms?: Alarm[];
+  onAlarmsChange?: (alarms: Alarm[]) => void;
+  ringingAlarm?: Alarm | null;
+  onSnoozeAlarm?: () => void;
+  onDismissAlarm?: () => void;
+  onSleep?: () => void;
+  clockTimers?: ClockTimers;
+  music: MusicPlayer;
   isCharging?: boolean;
   batteryLevel?: number;
   onEyeClick?: (e: React.MouseEvent) => void;
@@ -30,13 +101,25 @@ interface RobotFaceProps {
 }
 
 // Tooth Component for the Shark Mouth - Chunkier
-const Tooth: React.FC<{ inverted?: boolean }> = ({ inverted = false }) => (
-  <div className={clsx(
-    "w-0 h-0 border-l-[10px] border-l-transparent border-r-[10px] border-r-transparent",
-    inverted ? "border-t-[18px] border-t-gray-100 drop-shadow-sm" : "border-b-[18px] border-b-gray-100 drop-shadow-sm"
-  )}></div>
+// `open` pulls it away from the middle of the mouth, in px
+const Tooth: React.FC<{ inverted?: boolean; open?: number; color?: string }> = ({ inverted = false, open = 0, color = '#f3f4f6' }) => (
+  <div
+    className={clsx(
+      "w-0 h-0 border-l-[10px] border-l-transparent border-r-[10px] border-r-transparent transition-transform duration-75 drop-shadow-sm",
+      inverted ? "border-t-[18px]" : "border-b-[18px]"
+    )}
+    style={{
+      [inverted ? 'borderTopColor' : 'borderBottomColor']: color,
+      transform: open ? `translateY(${inverted ? -open : open}px)` : undefined
+    }}
+  ></div>
 );
 
+// How far the jaw opens at full loudness while speaking
+const MAX_JAW_OPEN_PX = 10;
+const SPECTRUM_BANDS = 12;
+const MIC_METER_SEGMENTS = 6;
+
 // Custom Interactive Slider Component
 const InteractiveSlider: React.FC<{ 
   value: number; 
@@ -117,23 +200,14 @@ const MOCK_NETWORKS = [
   { ssid: 'Coral_Reef_Free', signal: 3, secure: false },
 ];
 
-// Default Demo Playlist (No Audio URLs)
-const DEFAULT_PLAYLIST: MusicTrack[] = [
-    { id: '1', title: 'Cyber Funk 2077', artist: 'Neon City', duration: '3:45' },
-    { id: '2', title: 'Ocean Waves', artist: 'Relax LoFi', duration: '2:30' },
-    { id: '3', title: 'Shark Attack', artist: 'Deep Blue', duration: '4:12' },
-];
-
-type SystemView = 'MAIN' | 'WIFI_LIST' | 'WIFI_AUTH' | 'TIME' | 'DISPLAY' | 'SOUND' | 'ALARM';
+type SystemView = 'MAIN' | 'WIFI_LIST' | 'WIFI_AUTH' | 'TIME' | 'DISPLAY' | 'SOUND' | 'ALARM' | 'VOICE' | 'PERSONA' | 'LANGUAGE' | 'RESET';
 type MusicView = 'PLAYER' | 'PLAYLIST';
+// Tabs of the playlist screen besides the library and the playlists
+const QUEUE_LIST = 'queue';
+const RADIO_LIST = 'radio';
+const PODCASTS_LIST = 'podcasts';
 type AlarmEditMode = 'LIST' | 'EDIT';
-
-interface Alarm {
-    id: number;
-    hour: number;
-    minute: number;
-    enabled: boolean;
-}
+type ClockView = 'TIME' | 'TIMER' | 'STOPWATCH' | 'POMODORO';
 
 const formatTime = (seconds: number): string => {
   if (isNaN(seconds)) return "0:00";
@@ -142,20 +216,62 @@ const formatTime = (seconds: number): string => {
   return `${m}:${s.toString().padStart(2, '0')}`;
 };
 
+// 05:00, 1:05:00, or 05:00.3 with tenths for the stopwatch
+const formatClockDuration = (ms: number, tenths = false): string => {
+  // Countdowns round up so "00:00" only shows once time is really up
+  const totalSeconds = tenths ? Math.floor(ms / 1000) : Math.ceil(ms / 1000);
+  const h = Math.floor(totalSeconds / 3600);
+  const m = Math.floor((totalSeconds % 3600) / 60);
+  const sec = totalSeconds % 60;
+  const base = h > 0
+    ? `${h}:${String(m).padStart(2, '0')}:${String(sec).padStart(2, '0')}`
+    : `${String(m).padStart(2, '0')}:${String(sec).padStart(2, '0')}`;
+  return tenths ? `${base}.${Math.floor((ms % 1000) / 100)}` : base;
+};
+
 const RobotFace: React.FC<RobotFaceProps> = ({ 
   expression, 
+  skin,
+  skins = [],
   mode, 
   screenMode, 
   onScreenChange,
   audioLevel = 0,
+  outputAnalyser,
   volume = 0.5,
   onVolumeChange = (_: number) => {},
+  equalizer,
+  onEqualizerChange,
   brightness = 1.0,
   onBrightnessChange = (_: number) => {},
   chatHistory = [],
   onSendMessage,
   isRecording = false,
   onToggleRecording,
+  isLive = false,
+  onToggleLive,
+  isOffline = false,
+  voiceSettings,
+  onVoiceSettingsChange = (_: Partial<VoiceSettings>) => {},
+  isEnrollingWakeWord = false,
+  onEnrollWakeWord,
+  onFactoryReset,
+  personas = [],
+  activePersonaId,
+  onSelectPersona,
+  customPersonas = [],
+  onCustomPersonasChange = (_: Persona[]) => {},
+  personaVoices = [],
+  languageSettings,
+  onLanguageSettingsChange = (_: LanguageSettings) => {},
+  alarms = [],
+  onAlarmsChange = (_: Alarm[]) => {},
+  ringingAlarm = null,
+  onSnoozeAlarm,
+  onDismissAlarm,
+  onSleep,
+  clockTimers,
+  music,
   isCharging = false,
   batteryLevel = 85,
   onEyeClick,
@@ -163,41 +279,65 @@ const RobotFace: React.FC<RobotFaceProps> = ({
   onPowerOn,
   onPowerOff
 }) => {
+  // Every string on screen goes through `t` (see services/i18n)
+  const locale: UiLocale = languageSettings?.uiLocale ?? 'en';
+  const t = createTranslator(locale);
+
   // Time
   const [timeOffset, setTimeOffset] = useState(0);
   const [currentTime, setCurrentTime] = useState(new Date());
 
   // Music State
-  const [playlist, setPlaylist] = useState<MusicTrack[]>(DEFAULT_PLAYLIST);
-  const [isPlaying, setIsPlaying] = useState(false);
-  const [trackProgress, setTrackProgress] = useState(0);
-  const [currentDuration, setCurrentDuration] = useState(0);
+  const { library, currentTrack, isPlaying } = music;
   const [musicView, setMusicView] = useState<MusicView>('PLAYER');
-  const [currentTrack, setCurrentTrack] = useState<MusicTrack>(DEFAULT_PLAYLIST[0]);
-  const [bars, setBars] = useState<number[]>(new Array(12).fill(10));
-  
-  // Audio Player Ref
-  const audioRef = useRef<HTMLAudioElement>(new Audio());
+  const [musicListId, setMusicListId] = useState(LIBRARY_ID); // LIBRARY_ID, QUEUE_LIST or a playlist id
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [trackMenuId, setTrackMenuId] = useState<string | null>(null);
+  const [newPlaylistName, setNewPlaylistName] = useState<string | null>(null); // Set while naming one
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const [importStatus, setImportStatus] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+  const [libraryGrouping, setLibraryGrouping] = useState<LibraryGrouping>('SONGS');
+  const [libraryGroup, setLibraryGroup] = useState<string | null>(null); // Artist or album opened from the grouping
+  const [librarySearch, setLibrarySearch] = useState('');
+  const streams = useAudioStreams();
+  const [streamUrl, setStreamUrl] = useState('');
+  const [streamStatus, setStreamStatus] = useState<string | null>(null);
+  const [openFeedId, setOpenFeedId] = useState<string | null>(null);
+
+  // Clock App State
+  const [clockView, setClockView] = useState<ClockView>('TIME');
+  const [showPomodoroSettings, setShowPomodoroSettings] = useState(false);
+  const [clockNow, setClockNow] = useState(Date.now());
+
+  // Chat State
+  const [chatInput, setChatInput] = useState('');
+  const transcriptRef = useRef<HTMLDivElement>(null);
 
   // System App State
   const [systemView, setSystemView] = useState<SystemView>('MAIN');
   const [wifiScanning, setWifiScanning] = useState(false);
   const [availableNetworks, setAvailableNetworks] = useState<typeof MOCK_NETWORKS>([]);
   const [selectedNetwork, setSelectedNetwork] = useState<string | null>(null);
-  const [connectedNetwork, setConnectedNetwork] = useState<string | null>(null);
+  const [connectedNetwork, setConnectedNetwork] = usePersistentState('connectedNetwork', null);
   const [passwordInput, setPasswordInput] = useState('');
   const [isConnecting, setIsConnecting] = useState(false);
 
+  // Persona State
+  const [editingPersonaId, setEditingPersonaId] = useState<string | null>(null);
+  const [personaStatus, setPersonaStatus] = useState<string | null>(null);
+  const personaFileRef = useRef<HTMLInputElement>(null);
+
   // Alarm State
-  const [alarms, setAlarms] = useState<Alarm[]>([
-      { id: 1, hour: 7, minute: 30, enabled: true },
-      { id: 2, hour: 9, minute: 0, enabled: false },
-  ]);
   const [alarmEditMode, setAlarmEditMode] = useState<AlarmEditMode>('LIST');
   const [editingAlarmId, setEditingAlarmId] = useState<number | null>(null);
   const [editHour, setEditHour] = useState(8);
   const [editMinute, setEditMinute] = useState(0);
+  const [editLabel, setEditLabel] = useState('');
+  const [editRepeatDays, setEditRepeatDays] = useState<number[]>([]);
+  const [editTone, setEditTone] = useState<Pick<Alarm, 'tone' | 'trackId'>>({ tone: 'CHIME' });
 
   // --- SYSTEM HANDLERS ---
   
@@ -241,148 +381,200 @@ const RobotFace: React.FC<RobotFaceProps> = ({
     }, 2000);
   };
 
-  // --- AUDIO LOGIC ---
-  
-  useEffect(() => {
-    // Sync volume to audio element
-    if (audioRef.current) {
-        audioRef.current.volume = volume || 0.5;
-    }
-  }, [volume]);
+  // --- ALARM HANDLERS ---
 
-  useEffect(() => {
-    const audio = audioRef.current;
-    
-    const handleTimeUpdate = () => {
-        if (audio.duration) {
-            setTrackProgress(audio.currentTime / audio.duration);
-            setCurrentDuration(audio.duration);
-        }
-    };
-    
-    const handleEnded = () => {
-        setIsPlaying(false);
-        setTrackProgress(0);
-        // Optional: Auto-play next track
-        handleNextTrack();
-    };
+  const openAlarmEditor = (alarm?: Alarm) => {
+    setEditingAlarmId(alarm ? alarm.id : null);
+    setEditHour(alarm ? alarm.hour : 8);
+    setEditMinute(alarm ? alarm.minute : 0);
+    setEditLabel(alarm ? alarm.label : '');
+    setEditRepeatDays(alarm ? alarm.repeatDays : []);
+    setEditTone(alarm ? { tone: alarm.tone, trackId: alarm.trackId } : { tone: 'CHIME' });
+    setAlarmEditMode('EDIT');
+  };
 
-    const handleLoadedMetadata = () => {
-        setCurrentDuration(audio.duration);
+  const handleSaveAlarm = () => {
+    const fields = {
+      hour: editHour,
+      minute: editMinute,
+      label: editLabel.trim(),
+      repeatDays: editRepeatDays,
+      tone: editTone.tone,
+      trackId: editTone.trackId
     };
+    if (editingAlarmId === null) {
+      onAlarmsChange([...alarms, { ...createAlarm(editHour, editMinute), ...fields }]);
+    } else {
+      onAlarmsChange(alarms.map(a => a.id === editingAlarmId
+        ? { ...a, ...fields, enabled: true, snoozedUntil: undefined }
+        : a));
+    }
+    setAlarmEditMode('LIST');
+  };
 
-    audio.addEventListener('timeupdate', handleTimeUpdate);
-    audio.addEventListener('ended', handleEnded);
-    audio.addEventListener('loadedmetadata', handleLoadedMetadata);
+  const handleDeleteAlarm = () => {
+    onAlarmsChange(alarms.filter(a => a.id !== editingAlarmId));
+    setAlarmEditMode('LIST');
+  };
 
-    return () => {
-        audio.removeEventListener('timeupdate', handleTimeUpdate);
-        audio.removeEventListener('ended', handleEnded);
-        audio.removeEventListener('loadedmetadata', handleLoadedMetadata);
-    };
-  }, []);
+  const handleToggleAlarm = (id: number) => {
+    onAlarmsChange(alarms.map(a => a.id === id ? { ...a, enabled: !a.enabled, snoozedUntil: undefined } : a));
+  };
 
-  useEffect(() => {
-     // Load track when currentTrack changes
-     if (currentTrack.url) {
-         audioRef.current.src = currentTrack.url;
-         setTrackProgress(0);
-         if (isPlaying) {
-             audioRef.current.play().catch(e => console.error("Play failed", e));
-         }
-     } else {
-         // Stop if it's a dummy track
-         audioRef.current.pause();
-         setTrackProgress(0);
-     }
-  }, [currentTrack]);
+  const toggleRepeatDay = (day: number) => {
+    setEditRepeatDays(prev => prev.includes(day) ? prev.filter(d => d !== day) : [...prev, day].sort());
+  };
 
-  useEffect(() => {
-     if (currentTrack.url) {
-         if (isPlaying) audioRef.current.play().catch(e => console.error("Play failed", e));
-         else audioRef.current.pause();
-     }
-  }, [isPlaying]);
+  // Built-in tones first, then every playable track in the library
+  const toneOptions: Pick<Alarm, 'tone' | 'trackId'>[] = [
+    { tone: 'CHIME' },
+    { tone: 'BEEP' },
+    ...library.filter(track => track.url).map(track => ({ tone: 'TRACK' as const, trackId: track.id }))
+  ];
+
+  const describeTone = (option: Pick<Alarm, 'tone' | 'trackId'>) => {
+    if (option.tone === 'CHIME') return t('alarm.chime');
+    if (option.tone === 'BEEP') return t('alarm.beep');
+    return library.find(track => track.id === option.trackId)?.title ?? t('alarm.missingTrack');
+  };
 
-  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-      const files = e.target.files;
-      if (files && files.length > 0) {
-          const newTracks: MusicTrack[] = Array.from(files).map((file, index) => ({
-              id: `local-${Date.now()}-${index}`,
-              title: file.name.replace(/\.[^/.]+$/, ""), // Remove extension
-              artist: 'Local Audio',
-              duration: '--:--',
-              url: URL.createObjectURL(file)
-          }));
-          
-          setPlaylist(prev => {
-              // Filter out the 'empty' placeholder if it exists
-              const cleanPrev = prev.filter(t => t.id !== 'empty');
-              return [...cleanPrev, ...newTracks];
-          });
-          
-          // Use a flag or check against the closure's current state expectation
-          const isPlaceholder = currentTrack.id === 'empty' || playlist.every(t => !t.url);
-
-          if (isPlaceholder) {
-              setCurrentTrack(newTracks[0]);
-              setIsPlaying(true);
-              setMusicView('PLAYER');
-          }
+  const cycleTone = () => {
+    const idx = toneOptions.findIndex(o => o.tone === editTone.tone && o.trackId === editTone.trackId);
+    setEditTone(toneOptions[(idx + 1) % toneOptions.length]);
+  };
+
+  // --- MUSIC HANDLERS ---
+
+  // Shared by the file and folder pickers and drag-and-drop
+  const importMusic = async (files: File[]) => {
+      const audioFiles = files.filter(isAudioFile);
+      if (audioFiles.length === 0) {
+          setImportStatus(t('music.noAudioFiles'));
+          return;
+      }
+      const wasEmpty = currentTrack.id === EMPTY_TRACK_ID || library.every(track => !track.url);
+      setIsImporting(true);
+      setImportStatus(t('music.importing', { count: audioFiles.length }));
+      try {
+          const { added, duplicates } = await music.addFiles(audioFiles);
+          setImportStatus(duplicates
+              ? t('music.addedWithDuplicates', { count: added.length, duplicates })
+              : t('music.added', { count: added.length }));
+          if (wasEmpty && added.length > 0) setMusicView('PLAYER');
+      } catch (err) {
+          console.error("Music import failed", err);
+          setImportStatus(t('music.importFailed'));
+      } finally {
+          setIsImporting(false);
       }
   };
 
-  const handleDeleteTrack = (trackId: string) => {
-    setPlaylist(prev => {
-        const newPlaylist = prev.filter(t => t.id !== trackId);
-        
-        if (currentTrack.id === trackId) {
-            setIsPlaying(false);
-            if (audioRef.current) {
-                audioRef.current.pause();
-            }
-            
-            if (newPlaylist.length > 0) {
-                setCurrentTrack(newPlaylist[0]);
-            } else {
-                // Placeholder for empty state
-                setCurrentTrack({ id: 'empty', title: 'No Music', artist: 'Add tracks (+)', duration: '--:--' });
-            }
-        }
-        return newPlaylist;
-    });
+  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+      const files = e.target.files;
+      if (files && files.length > 0) importMusic(Array.from(files as ArrayLike<File>));
+      e.target.value = ''; // Lets the same selection be picked again
   };
 
-  const handleNextTrack = () => {
-      const idx = playlist.findIndex(t => t.id === currentTrack.id);
-      if (idx === -1 && playlist.length > 0) {
-          setCurrentTrack(playlist[0]);
+  // Browsers without the File System Access API get the folder <input> instead
+  const handleFolderImport = async () => {
+      if (!supportsFolderPicker()) {
+          folderInputRef.current?.click();
           return;
       }
-      const nextIdx = (idx + 1) % playlist.length;
-      setCurrentTrack(playlist[nextIdx]);
+      try {
+          const files = await pickAudioFolder();
+          if (files.length > 0) importMusic(files);
+      } catch (err) {
+          console.error("Couldn't open the folder", err);
+          setImportStatus(t('music.folderFailed'));
+      }
   };
 
-  const handlePrevTrack = () => {
-      const idx = playlist.findIndex(t => t.id === currentTrack.id);
-      if (idx === -1 && playlist.length > 0) {
-          setCurrentTrack(playlist[0]);
+  const handleMusicDrop = async (e: React.DragEvent) => {
+      e.preventDefault();
+      setIsDraggingFiles(false);
+      importMusic(await filesFromDrop(e.dataTransfer));
+  };
+
+  const feedErrorText = (err: unknown, fallback: MessageKey): string => {
+      console.error("Feed request failed", err);
+      return isFeedError(err) ? t(FEED_ERRORS[err.code], { status: err.status ?? '' }) : t(fallback);
+  };
+
+  // Adds a station on the radio tab, subscribes to a feed on the podcasts tab
+  const submitStreamUrl = async () => {
+      const url = streamUrl.trim();
+      if (!/^https?:\/\//i.test(url)) {
+          setStreamStatus(t('music.enterUrl'));
+          return;
+      }
+      if (musicListId === RADIO_LIST) {
+          streams.addStation(url);
+          setStreamUrl('');
+          setStreamStatus(null);
           return;
       }
-      const prevIdx = (idx - 1 + playlist.length) % playlist.length;
-      setCurrentTrack(playlist[prevIdx]);
+      setStreamStatus(t('music.loadingFeed'));
+      try {
+          const feed = await streams.subscribe(url);
+          setStreamUrl('');
+          setStreamStatus(null);
+          setOpenFeedId(feed.id);
+      } catch (err) {
+          setStreamStatus(feedErrorText(err, 'music.feedFailed'));
+      }
   };
 
-  const handleSeek = (val: number) => {
-      if (audioRef.current && audioRef.current.duration) {
-          const newTime = val * audioRef.current.duration;
-          audioRef.current.currentTime = newTime;
-          setTrackProgress(val);
+  const refreshFeed = async (feedId: string) => {
+      setStreamStatus(t('music.refreshing'));
+      try {
+          await streams.refresh(feedId);
+          setStreamStatus(null);
+      } catch (err) {
+          setStreamStatus(feedErrorText(err, 'music.refreshFailed'));
       }
   };
 
+  const playNetworkTrack = (track: MusicTrack) => {
+      music.selectTrack(track);
+      music.setPlaying(true);
+      setMusicView('PLAYER');
+  };
+
+  useEffect(() => {
+      if (!importStatus || isImporting) return;
+      const timer = setTimeout(() => setImportStatus(null), 4000);
+      return () => clearTimeout(timer);
+  }, [importStatus, isImporting]);
+
+  const cycleRepeat = () => {
+      const modes: RepeatMode[] = ['OFF', 'ALL', 'ONE'];
+      music.setRepeat(modes[(modes.indexOf(music.repeat) + 1) % modes.length]);
+  };
+
+  const submitNewPlaylist = () => {
+      const name = newPlaylistName?.trim();
+      setNewPlaylistName(null);
+      if (name) setMusicListId(music.createPlaylist(name).id);
+  };
+
+  // Drops reorder whichever list is on screen
+  const handleTrackDrop = (index: number) => {
+      if (dragIndex === null) return;
+      if (musicListId === QUEUE_LIST) music.moveInQueue(dragIndex, index);
+      else music.moveTrack(musicListId, dragIndex, index);
+      setDragIndex(null);
+  };
+
   // --- TIME & ANIMATIONS ---
 
+  // Keep the newest message in view
+  useEffect(() => {
+    if (screenMode === ScreenMode.CHAT && transcriptRef.current) {
+      transcriptRef.current.scrollTop = transcriptRef.current.scrollHeight;
+    }
+  }, [screenMode, chatHistory, mode]);
+
   useEffect(() => {
     const timer = setInterval(() => {
       setCurrentTime(new Date(Date.now() + timeOffset));
@@ -390,16 +582,17 @@ const RobotFace: React.FC<RobotFaceProps> = ({
     return () => clearInterval(timer);
   }, [timeOffset]);
 
+  // Timers are derived from timestamps, so this tick only drives the display
   useEffect(() => {
-    if (screenMode === ScreenMode.MUSIC && isPlaying && musicView === 'PLAYER') {
-      const interval = setInterval(() => {
-        setBars(prev => prev.map(() => Math.max(10, Math.random() * 100)));
-      }, 100);
-      return () => clearInterval(interval);
-    } else {
-      setBars(new Array(12).fill(10));
-    }
-  }, [screenMode, isPlaying, musicView]);
+    if (screenMode !== ScreenMode.CLOCK || clockView === 'TIME') return;
+    const timer = setInterval(() => setClockNow(Date.now()), 100);
+    return () => clearInterval(timer);
+  }, [screenMode, clockView]);
+
+  // Output levels drive the teeth while speaking and the music visualizer
+  const isSpeaking = mode === RobotMode.SPEAKING;
+  const showSpectrum = screenMode === ScreenMode.MUSIC && isPlaying && musicView === 'PLAYER';
+  const output = useAudioLevels(outputAnalyser, SPECTRUM_BANDS, isSpeaking || showSpectrum);
 
   const handleBack = (e?: React.SyntheticEvent) => {
     e?.stopPropagation();
@@ -414,6 +607,8 @@ const RobotFace: React.FC<RobotFaceProps> = ({
                 setSystemView('WIFI_LIST');
             } else if (systemView === 'ALARM' && alarmEditMode === 'EDIT') {
                 setAlarmEditMode('LIST');
+            } else if (systemView === 'PERSONA' && editingPersonaId) {
+                setEditingPersonaId(null);
             } else {
                 setSystemView('MAIN');
             }
@@ -426,17 +621,41 @@ const RobotFace: React.FC<RobotFaceProps> = ({
 
   // --- RENDERERS ---
 
+  // The jaw follows the loudness of the speech, with a ripple from the
+  // frequency bands so the teeth don't move as one block
+  const toothOpen = (i: number): number => {
+    if (!isSpeaking) return 0;
+    const band = output.bands[(i + 2) % output.bands.length] ?? 0;
+    return Math.round((output.level * 0.7 + band * 0.3) * MAX_JAW_OPEN_PX);
+  };
+
   const renderTeeth = () => (
     <>
       <div className="absolute top-[-2px] left-0 w-full flex justify-center gap-1.5 overflow-hidden h-8 z-20 px-6 pointer-events-none">
-        {Array.from({ length: 8 }).map((_, i) => <Tooth key={`top-${i}`} inverted />)}
+        {Array.from({ length: 8 }).map((_, i) => <Tooth key={`top-${i}`} inverted open={toothOpen(i)} color={skin?.teethColor} />)}
       </div>
       <div className="absolute bottom-0 left-0 w-full flex justify-center gap-1.5 overflow-hidden h-8 z-20 px-6 items-end pointer-events-none">
-        {Array.from({ length: 8 }).map((_, i) => <Tooth key={`btm-${i}`} />)}
+        {Array.from({ length: 8 }).map((_, i) => <Tooth key={`btm-${i}`} open={toothOpen(i)} color={skin?.teethColor} />)}
       </div>
     </>
   );
 
+  // Segmented mic meter, lit up to `level` (0-100)
+  const renderLevelMeter = (level: number, className?: string) => (
+    <div className={clsx("flex items-end gap-0.5 h-3", className)}>
+      {Array.from({ length: MIC_METER_SEGMENTS }).map((_, i) => (
+        <div
+          key={i}
+          className={clsx(
+            "w-1 rounded-sm transition-colors duration-75",
+            level > (i / MIC_METER_SEGMENTS) * 100 ? "bg-yellow-400 shadow-[0_0_4px_#facc15]" : "bg-gray-700"
+          )}
+          style={{ height: `${40 + i * 12}%` }}
+        ></div>
+      ))}
+    </div>
+  );
+
   const renderPowerButton = () => (
     <div className="absolute inset-0 bg-black flex items-center justify-center z-50">
       <button 
@@ -459,7 +678,7 @@ const RobotFace: React.FC<RobotFaceProps> = ({
             <h1 className="text-2xl font-bold text-cyan-400 tracking-widest drop-shadow-[0_0_10px_rgba(6,182,212,0.6)]">
                 BANGBOO
             </h1>
-            <p className="text-xs text-cyan-500/60 tracking-[0.3em]">IS READY</p>
+            <p className="text-xs text-cyan-500/60 tracking-[0.3em]">{t('boot.ready')}</p>
         </div>
         <div className="w-32 h-1 bg-gray-800 rounded-full mt-6 overflow-hidden">
             <div className="h-full bg-cyan-400 animate-[scanline_2s_ease-in-out_infinite] w-full origin-left"></div>
@@ -468,71 +687,18 @@ const RobotFace: React.FC<RobotFaceProps> = ({
      </div>
   );
 
-  const renderFace = () => {
-    let eyeLeftClass = "w-14 h-5 bg-yellow-400 rounded-full shadow-[0_0_15px_#facc15] rotate-[-8deg]";
-    let eyeRightClass = "w-14 h-5 bg-yellow-400 rounded-full shadow-[0_0_15px_#facc15] rotate-[8deg]";
-    let leftTransform = "";
-    let rightTransform = "";
-    let leftContent: React.ReactNode = null;
-    let rightContent: React.ReactNode = null;
-
-    if (expression === EyeExpression.HAPPY) {
-      eyeLeftClass = "w-14 h-8 border-t-[6px] border-yellow-400 rounded-t-full shadow-[0_-5px_10px_#facc15] bg-transparent mt-2";
-      eyeRightClass = "w-14 h-8 border-t-[6px] border-yellow-400 rounded-t-full shadow-[0_-5px_10px_#facc15] bg-transparent mt-2";
-      leftTransform = "rotate-0";
-      rightTransform = "rotate-0";
-    } else if (expression === EyeExpression.SLEEPING) {
-      eyeLeftClass = "w-14 h-1 bg-yellow-400 shadow-[0_0_5px_#facc15]";
-      eyeRightClass = "w-14 h-1 bg-yellow-400 shadow-[0_0_5px_#facc15]";
-    } else if (expression === EyeExpression.SURPRISED) {
-      eyeLeftClass = "w-10 h-10 bg-transparent border-4 border-yellow-400 rounded-full shadow-[0_0_15px_#facc15]";
-      eyeRightClass = "w-10 h-10 bg-transparent border-4 border-yellow-400 rounded-full shadow-[0_0_15px_#facc15]";
-    } else if (expression === EyeExpression.LOADING || expression === EyeExpression.THINKING) {
-      eyeLeftClass = "w-10 h-10 border-4 border-yellow-400 border-t-transparent rounded-full animate-spin";
-      eyeRightClass = "hidden";
-    } else if (mode === RobotMode.LISTENING || expression === EyeExpression.LISTENING) {
-        eyeLeftClass = "w-12 h-12 rounded-full border-[6px] border-yellow-400 shadow-[0_0_20px_#facc15] animate-pulse";
-        eyeRightClass = "w-12 h-12 rounded-full border-[6px] border-yellow-400 shadow-[0_0_20px_#facc15] animate-pulse";
-    } else if (expression === EyeExpression.WIDE) {
-        eyeLeftClass = "w-16 h-16 rounded-full border-[10px] border-yellow-400 bg-transparent shadow-[0_0_20px_#facc15]";
-        eyeRightClass = "w-16 h-16 rounded-full border-[10px] border-yellow-400 bg-transparent shadow-[0_0_20px_#facc15]";
-    } else if (expression === EyeExpression.WINKING) {
-        eyeLeftClass = "w-14 h-5 bg-yellow-400 rounded-full shadow-[0_0_15px_#facc15]";
-        eyeRightClass = "w-14 h-1.5 bg-yellow-400 rounded-full shadow-[0_0_5px_#facc15] mt-2";
-        leftTransform = "rotate-[-8deg]";
-        rightTransform = "rotate-0";
-    } else if (expression === EyeExpression.DEAD) {
-        return (
-            <div className="absolute inset-0 bg-black flex items-center justify-center gap-10 z-10">
-                <div className="text-yellow-400 text-6xl font-black font-sans shadow-[0_0_15px_#facc15]">X</div>
-                <div className="text-yellow-400 text-6xl font-black font-sans shadow-[0_0_15px_#facc15]">X</div>
-                {renderTeeth()}
-            </div>
-        )
-    }
-
-    const handleEyeClick = (e: React.MouseEvent) => {
-        if (onEyeClick) onEyeClick(e);
-    };
-
-    return (
-      <div className="absolute inset-0 bg-black flex items-center justify-center gap-10 z-10 transition-all duration-300">
-        <div 
-            onClick={handleEyeClick}
-            className={clsx("transition-all duration-300 transform cursor-pointer hover:scale-110", eyeLeftClass, leftTransform)}
-        >
-            {leftContent}
+  const renderFace = () => (
+    <div className="absolute inset-0 bg-black flex items-center justify-center z-10">
+      <AnimatedEyes expression={expression} audioLevel={audioLevel} color={skin?.eyeColor} onEyeClick={onEyeClick} />
+      {isOffline && (
+        <div className="absolute top-8 left-1/2 -translate-x-1/2 flex items-center gap-1.5 text-red-400 text-[10px] font-bold tracking-widest font-tech animate-pulse">
+          <WifiOff size={12} /> {t('offline.badge')}
         </div>
-        <div 
-            onClick={handleEyeClick}
-            className={clsx("transition-all duration-300 transform cursor-pointer hover:scale-110", eyeRightClass, rightTransform)}
-        >
-            {rightContent}
-        </div>
-        {renderTeeth()}
-      </div>
-    );
-  };
+      )}
+      {mode === RobotMode.LISTENING && isRecording && renderLevelMeter(audioLevel, "absolute bottom-10 left-1/2 -translate-x-1/2")}
+      {renderTeeth()}
+    </div>
+  );
 
   const renderCharging = () => {
     const radius = 40; 
@@ -575,11 +741,12 @@ const RobotFace: React.FC<RobotFaceProps> = ({
 
   const renderMenu = () => {
     const apps = [
-      { id: ScreenMode.MUSIC, icon: Music, label: 'Music' },
-      { id: ScreenMode.CHAT, icon: MessageCircle, label: 'Chat' },
-      { id: ScreenMode.CLOCK, icon: Clock, label: 'Clock' },
-      { id: ScreenMode.STATUS, icon: Layers, label: 'System' },
-      { id: 'POWER_OFF', icon: Power, label: 'Power Off' },
+      { id: ScreenMode.MUSIC, icon: Music, label: t('menu.music') },
+      { id: ScreenMode.CHAT, icon: MessageCircle, label: t('menu.chat') },
+      { id: ScreenMode.CLOCK, icon: Clock, label: t('menu.clock') },
+      { id: ScreenMode.STATUS, icon: Layers, label: t('menu.system') },
+      ...(onSleep ? [{ id: 'SLEEP', icon: Moon, label: t('menu.sleep') }] : []),
+      { id: 'POWER_OFF', icon: Power, label: t('menu.powerOff') },
     ];
 
     return (
@@ -606,6 +773,10 @@ const RobotFace: React.FC<RobotFaceProps> = ({
                         onPowerOff();
                         return;
                     }
+                    if (app.id === 'SLEEP') {
+                        onSleep && onSleep();
+                        return;
+                    }
                     if (app.id === ScreenMode.STATUS) setSystemView('MAIN');
                     if (app.id === ScreenMode.MUSIC) setMusicView('PLAYER');
                     onScreenChange(app.id as ScreenMode);
@@ -633,101 +804,520 @@ const RobotFace: React.FC<RobotFaceProps> = ({
     );
   };
 
-  const renderChat = () => (
-    <div className="absolute inset-0 bg-[#0f172a] flex flex-col items-center justify-center z-40 text-cyan-400 font-tech">
-        <button onClick={handleBack} className="absolute top-6 left-6 p-2 hover:bg-white/10 hover:text-white rounded-full transition-colors z-50">
-            <ArrowLeft size={18} />
-        </button>
-        <div className="flex flex-col items-center justify-center gap-4 scale-75 origin-center">
-            {onToggleRecording && (
-                <button 
-                    onClick={onToggleRecording}
+  const renderChatBubble = (message: ChatMessage, index: number) => {
+    const isUser = message.role === 'user';
+    const noTranscript = !hasTranscript(message);
+    const pendingTranscript = noTranscript && !message.meta.transcriptFailed;
+    const sentAt = new Date(message.meta.timestamp);
+    const metaLine = [
+        formatClockTime(sentAt, locale),
+        message.meta.durationMs !== undefined ? formatTime(message.meta.durationMs / 1000) : null,
+        message.meta.modality === 'live' ? t('chat.live') : null,
+    ].filter(Boolean).join(' · ');
+
+    return (
+        <div key={index} className={clsx("flex flex-col", isUser ? "items-end" : "items-start")}>
+            <div className={clsx(
+                "max-w-[85%] px-2 py-1 rounded-lg text-[9px] leading-snug break-words",
+                isUser
+                    ? "bg-cyan-600/80 text-white rounded-br-sm"
+                    : "bg-white/10 text-gray-100 rounded-bl-sm"
+            )}>
+                {isUser ? (
+                    <span className="flex items-start gap-1">
+                        {message.audio && <Mic size={9} className="flex-shrink-0 mt-[1px] opacity-70" />}
+                        <span className={clsx(noTranscript && "italic opacity-60")}>
+                            {pendingTranscript ? '...' : noTranscript ? t('chat.noTranscript') : message.text}
+                        </span>
+                    </span>
+                ) : (
+                    <MarkdownText text={message.text} className="space-y-1" />
+                )}
+            </div>
+            <span className="text-[6px] text-gray-500 mt-0.5 px-1">{metaLine}</span>
+        </div>
+    );
+  };
+
+  const handleChatSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = chatInput.trim();
+    if (!text || !onSendMessage) return;
+    onSendMessage(text);
+    setChatInput('');
+  };
+
+  const renderChat = () => {
+    const statusLabel = isLive ? t('chat.live') : isRecording ? t('chat.listening') : mode === RobotMode.THINKING ? t('chat.thinking') : isOffline ? t('offline.badge') : t('chat.title');
+
+    return (
+    <div className="absolute inset-0 bg-[#0f172a] flex flex-col z-40 text-cyan-400 font-tech px-9 pt-7 pb-7">
+        <div className="flex items-center justify-between gap-2 flex-shrink-0">
+            <button onClick={handleBack} className="p-1 hover:bg-white/10 hover:text-white rounded-full transition-colors z-50">
+                <ArrowLeft size={14} />
+            </button>
+            <span className={clsx("text-[9px] font-bold tracking-widest flex items-center gap-1.5", (isRecording || isLive || isOffline) ? "text-red-400" : "text-cyan-500/50")}>
+                <span className={clsx((isRecording || isLive) && "animate-pulse")}>{statusLabel}</span>
+                {isRecording && renderLevelMeter(audioLevel, "h-2.5")}
+            </span>
+            {onToggleLive && !isRecording ? (
+                <button
+                    onClick={onToggleLive}
                     className={clsx(
-                        "w-24 h-24 rounded-full transition-all duration-300 flex items-center justify-center border-4 shadow-lg",
-                        isRecording 
-                            ? "bg-red-500/20 text-red-500 border-red-500/50 animate-pulse shadow-[0_0_20px_red] scale-110" 
-                            : "bg-cyan-900/40 text-cyan-400 border-cyan-500/30 hover:bg-cyan-500/20 hover:text-cyan-200 shadow-[0_0_15px_rgba(34,211,238,0.2)] hover:scale-105"
+                        "px-2 py-0.5 rounded-full text-[8px] font-bold tracking-widest border transition-colors flex items-center gap-1",
+                        isLive
+                            ? "bg-pink-500 text-black border-pink-400 hover:bg-pink-400"
+                            : "bg-transparent text-pink-400 border-pink-500/50 hover:bg-pink-500/20"
                     )}
                 >
-                    <Mic size={40} />
+                    <Radio size={9} />
+                    {isLive ? t('chat.end') : t('chat.live')}
                 </button>
+            ) : <span className="w-6" />}
+        </div>
+
+        <div ref={transcriptRef} className="flex-1 overflow-y-auto custom-scrollbar space-y-1.5 py-1.5 pr-1">
+            {chatHistory.length === 0 ? (
+                <div className="h-full flex items-center justify-center text-[9px] text-cyan-500/50 tracking-widest">
+                    {isLive ? t('chat.emptyLive') : t('chat.empty')}
+                </div>
+            ) : (
+                chatHistory.map(renderChatBubble)
+            )}
+            {mode === RobotMode.THINKING && (
+                <div className="flex justify-start">
+                    <div className="px-2 py-1 rounded-lg bg-white/10 text-[9px] text-gray-300 animate-pulse">...</div>
+                </div>
             )}
-            <span className={clsx("text-xs font-bold tracking-widest", isRecording ? "text-red-400 animate-pulse" : "text-cyan-500/50")}>
-                {isRecording ? "LISTENING..." : "TAP TO TALK"}
-            </span>
         </div>
+
+        <form onSubmit={handleChatSubmit} className="flex items-center gap-1.5 flex-shrink-0">
+            <input
+                type="text"
+                value={chatInput}
+                onChange={(e) => setChatInput(e.target.value)}
+                onClick={(e) => e.stopPropagation()}
+                disabled={!onSendMessage || isLive}
+                placeholder={isLive ? t('chat.inputLive') : t('chat.input')}
+                className="flex-1 min-w-0 bg-black/40 border border-cyan-500/30 rounded-full px-2.5 py-1 text-[9px] text-white focus:outline-none focus:border-cyan-400 font-sans disabled:opacity-40"
+            />
+            {chatInput.trim() ? (
+                <button type="submit" className="w-6 h-6 rounded-full flex items-center justify-center bg-cyan-500 text-black hover:bg-cyan-400 flex-shrink-0">
+                    <Send size={11} />
+                </button>
+            ) : onToggleRecording && !isLive && (
+                <button
+                    type="button"
+                    onClick={onToggleRecording}
+                    className={clsx(
+                        "w-6 h-6 rounded-full transition-all duration-300 flex items-center justify-center border flex-shrink-0",
+                        isRecording
+                            ? "bg-red-500/20 text-red-500 border-red-500/50 animate-pulse shadow-[0_0_10px_red]"
+                            : "bg-cyan-900/40 text-cyan-400 border-cyan-500/30 hover:bg-cyan-500/20 hover:text-cyan-200"
+                    )}
+                >
+                    <Mic size={11} />
+                </button>
+            )}
+        </form>
         {renderTeeth()}
     </div>
+    );
+  };
+
+  const renderCover = (coverArt: string | undefined, size: number) => (
+    coverArt
+        ? <img src={coverArt} alt="" className="rounded-sm object-cover flex-shrink-0" style={{ width: size, height: size }} />
+        : <div className="rounded-sm bg-white/10 flex items-center justify-center text-gray-500 flex-shrink-0" style={{ width: size, height: size }}>
+            <Music size={size / 2} />
+          </div>
   );
 
-  const renderMusicPlaylist = () => (
-    <div className="absolute inset-0 bg-gradient-to-b from-gray-900 to-gray-800 flex flex-col p-4 z-40 font-tech text-cyan-400">
-        <div className="flex items-center justify-between mb-2 border-b border-cyan-500/30 pb-2 pt-2">
-            <div className="flex items-center gap-2">
+  // Radio stations, podcast feeds, and the episodes of an opened feed
+  const renderNetworkAudio = () => {
+    const isRadio = musicListId === RADIO_LIST;
+    const openFeed = isRadio ? undefined : streams.feeds.find(f => f.id === openFeedId);
+    const rowClass = (active: boolean) => clsx(
+        "w-full rounded text-[10px] flex items-center gap-1.5 pr-1 transition-colors",
+        active ? "bg-cyan-900/50 border border-cyan-500/30" : "bg-white/5 hover:bg-white/10 border border-transparent"
+    );
+
+    return (
+    <div className="flex-1 flex flex-col min-h-0">
+        {openFeed ? (
+            <div className="flex items-center gap-1 mb-1.5 flex-shrink-0 min-w-0">
+                <button onClick={() => setOpenFeedId(null)} className="flex-1 flex items-center gap-1 text-[9px] font-bold text-white hover:text-cyan-300 min-w-0">
+                    <ArrowLeft size={10} /> <span className="truncate">{openFeed.title}</span>
+                </button>
+                <button onClick={() => refreshFeed(openFeed.id)} className="p-0.5 text-gray-400 hover:text-white" title={t('music.refresh')}>
+                    <RotateCw size={10} />
+                </button>
+                <button
+                    onClick={() => { streams.unsubscribe(openFeed.id); setOpenFeedId(null); }}
+                    className="p-0.5 text-gray-500 hover:text-red-400"
+                    title={t('music.unsubscribe')}
+                >
+                    <Trash2 size={10} />
+                </button>
+            </div>
+        ) : (
+            <form onSubmit={(e) => { e.preventDefault(); submitStreamUrl(); }} className="flex items-center gap-1 mb-1.5 flex-shrink-0">
+                <input
+                    value={streamUrl}
+                    onChange={(e) => setStreamUrl(e.target.value)}
+                    placeholder={isRadio ? t('music.streamUrl') : t('music.feedUrl')}
+                    className="flex-1 min-w-0 bg-black/40 border border-white/10 rounded px-1.5 py-0.5 text-[8px] text-white outline-none"
+                />
+                <button type="submit" className="p-0.5 text-cyan-400 hover:text-white" title={isRadio ? t('music.addStation') : t('music.subscribe')}>
+                    <Plus size={12} />
+                </button>
+            </form>
+        )}
+        {streamStatus && (
+            <div className="mb-1 text-[8px] text-center text-cyan-300 flex-shrink-0">{streamStatus}</div>
+        )}
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar pr-1 space-y-1 pb-6">
+            {isRadio && streams.stations.map(station => (
+                <div key={station.id} className={rowClass(currentTrack.id === station.id)}>
+                    <Radio size={12} className="text-pink-400 flex-shrink-0 ml-1.5" />
+                    <button onClick={() => playNetworkTrack(stationTrack(station, locale))} className="flex-1 text-left py-1.5 flex flex-col truncate">
+                        <span className="font-bold text-gray-300 truncate">{station.name}</span>
+                        <span className="text-[8px] text-gray-500 truncate">{station.url}</span>
+                    </button>
+                    <button onClick={() => streams.removeStation(station.id)} className="p-1 text-gray-500 hover:text-red-400" title={t('music.remove')}>
+                        <X size={12} />
+                    </button>
+                </div>
+            ))}
+
+            {!isRadio && !openFeed && streams.feeds.map(feed => (
+                <button key={feed.id} onClick={() => setOpenFeedId(feed.id)} className={clsx(rowClass(false), "p-1.5 text-left")}>
+                    {renderCover(feed.imageUrl, 22)}
+                    <span className="flex-1 flex flex-col truncate">
+                        <span className="font-bold text-gray-300 truncate">{feed.title}</span>
+                        <span className="text-[8px] text-gray-500 truncate">{feed.author ?? feed.url}</span>
+                    </span>
+                    <span className="text-[8px] text-gray-500">{feed.episodes.length}</span>
+                    <ChevronRight size={10} className="text-gray-500" />
+                </button>
+            ))}
+
+            {openFeed?.episodes.map(episode => {
+                const track = episodeTrack(openFeed, episode, locale);
+                const resumeAt = music.resumePositions[track.id];
+                return (
+                    <button key={episode.id} onClick={() => playNetworkTrack(track)} className={clsx(rowClass(currentTrack.id === track.id), "px-2 py-1.5 text-left")}>
+                        <span className="flex-1 flex flex-col truncate">
+                            <span className="font-bold text-gray-300 truncate">{track.title}</span>
+                            <span className="text-[8px] text-gray-500 truncate">
+                                {episode.publishedAt ? new Date(episode.publishedAt).toLocaleDateString(locale) : ''}
+                                {resumeAt ? ` · ${t('music.resumeAt', { time: formatTime(resumeAt) })}` : ''}
+                            </span>
+                        </span>
+                        <span className="text-[8px] text-gray-500 font-mono">{track.duration}</span>
+                    </button>
+                );
+            })}
+
+            {(isRadio ? streams.stations.length === 0 : !openFeed && streams.feeds.length === 0) && (
+                <div className="text-center text-gray-500 text-[10px] mt-10 italic">
+                    {isRadio
+                        ? <>{t('music.noStations')}<br/>{t('music.noStationsHint')}</>
+                        : <>{t('music.noPodcasts')}<br/>{t('music.noPodcastsHint')}</>}
+                </div>
+            )}
+        </div>
+    </div>
+    );
+  };
+
+  const renderMusicPlaylist = () => {
+    const isQueue = musicListId === QUEUE_LIST;
+    const isLibrary = musicListId === LIBRARY_ID;
+    const playlist = music.playlists.find(p => p.id === musicListId);
+
+    // The library can be searched and grouped by artist or album
+    const searched = library.filter(track => matchesSearch(track, librarySearch));
+    const groups = isLibrary && libraryGrouping !== 'SONGS' ? groupTracks(searched, libraryGrouping, t(libraryGrouping === 'ARTISTS' ? 'music.unknownArtist' : 'music.unknownAlbum')) : [];
+    const openGroup = groups.find(g => g.name === libraryGroup);
+    const showGroups = isLibrary && libraryGrouping !== 'SONGS' && !openGroup;
+    const tracks = isQueue ? music.queue
+        : !isLibrary ? music.tracksOf(musicListId)
+        : libraryGrouping === 'SONGS' ? searched
+        : openGroup?.tracks ?? [];
+    // Indices only match the stored order in the unfiltered list
+    const canReorder = !isLibrary || (libraryGrouping === 'SONGS' && !librarySearch.trim());
+    const isNetwork = musicListId === RADIO_LIST || musicListId === PODCASTS_LIST;
+    const tabs = [
+        { id: LIBRARY_ID, label: t('music.library') },
+        { id: QUEUE_LIST, label: `${t('music.upNext')}${music.queue.length ? ` ${music.queue.length}` : ''}` },
+        { id: RADIO_LIST, label: t('music.radio') },
+        { id: PODCASTS_LIST, label: t('music.podcasts') },
+        ...music.playlists.map(p => ({ id: p.id, label: p.name }))
+    ];
+
+    const playFromList = (track: MusicTrack, index: number) => {
+        if (isQueue) {
+            music.removeFromQueue(index);
+            music.selectTrack(track);
+        } else {
+            music.selectTrack(track, musicListId);
+        }
+        music.setPlaying(true);
+        setMusicView('PLAYER');
+    };
+
+    return (
+    <div
+        className="absolute inset-0 bg-gradient-to-b from-gray-900 to-gray-800 flex flex-col p-4 z-40 font-tech text-cyan-400"
+        onDragOver={(e) => {
+            if (!e.dataTransfer.types.includes('Files')) return;
+            e.preventDefault();
+            setIsDraggingFiles(true);
+        }}
+    >
+        {/* Files and folders dropped anywhere here go into the library */}
+        {isDraggingFiles && (
+            <div
+                className="absolute inset-2 z-50 rounded-xl border-2 border-dashed border-cyan-400 bg-black/80 flex flex-col items-center justify-center gap-1 text-[10px] font-bold"
+                onDragOver={(e) => e.preventDefault()}
+                onDragLeave={() => setIsDraggingFiles(false)}
+                onDrop={handleMusicDrop}
+            >
+                <Upload size={18} />
+                {t('music.drop')}
+            </div>
+        )}
+
+        <div className="flex items-center justify-between mb-1 border-b border-cyan-500/30 pb-2 pt-2">
+            <div className="flex items-center gap-2 min-w-0">
                 <button onClick={(e) => setMusicView('PLAYER')} className="hover:text-white p-1"><ArrowLeft size={16} /></button>
-                <span className="text-[10px] font-bold tracking-wider text-white">PLAYLIST</span>
+                <span className="text-[10px] font-bold tracking-wider text-white truncate">{playlist ? playlist.name.toUpperCase() : tabs.find(tab => tab.id === musicListId)?.label ?? t('music.library')}</span>
             </div>
-            
-            {/* File Upload Button */}
-            <label className="p-1 hover:bg-white/10 rounded cursor-pointer text-cyan-400 hover:text-white">
-                <Plus size={16} />
-                <input 
-                    type="file" 
-                    ref={fileInputRef}
-                    onChange={handleFileUpload} 
-                    className="hidden" 
-                    accept="audio/*" 
-                    multiple 
+
+            {/* File and folder import */}
+            {isLibrary && (
+                <div className="flex items-center">
+                    <button onClick={handleFolderImport} className="p-1 hover:bg-white/10 rounded text-cyan-400 hover:text-white" title={t('music.importFolder')}>
+                        <FolderOpen size={14} />
+                    </button>
+                    <input
+                        type="file"
+                        ref={folderInputRef}
+                        onChange={handleFileUpload}
+                        className="hidden"
+                        webkitdirectory=""
+                        multiple
+                    />
+                    <label className="p-1 hover:bg-white/10 rounded cursor-pointer text-cyan-400 hover:text-white" title={t('music.addFiles')}>
+                        <Plus size={16} />
+                        <input 
+                            type="file" 
+                            ref={fileInputRef}
+                            onChange={handleFileUpload} 
+                            className="hidden" 
+                            accept="audio/*" 
+                            multiple 
+                        />
+                    </label>
+                </div>
+            )}
+            {playlist && (
+                <button
+                    onClick={() => { music.deletePlaylist(playlist.id); setMusicListId(LIBRARY_ID); }}
+                    className="p-1 text-gray-500 hover:text-red-400"
+                    title={t('music.deletePlaylist')}
+                >
+                    <Trash2 size={14} />
+                </button>
+            )}
+        </div>
+
+        {/* Library / queue / playlist tabs */}
+        <div className="flex items-center gap-1 mb-2 overflow-x-auto custom-scrollbar pb-1 flex-shrink-0">
+            {tabs.map(tab => (
+                <button
+                    key={tab.id}
+                    onClick={() => { setMusicListId(tab.id); setTrackMenuId(null); setOpenFeedId(null); setStreamStatus(null); }}
+                    className={clsx(
+                        "px-2 py-0.5 rounded text-[8px] font-bold whitespace-nowrap transition-colors",
+                        musicListId === tab.id ? "bg-cyan-500 text-black" : "bg-white/5 text-gray-400 hover:text-white"
+                    )}
+                >
+                    {tab.label}
+                </button>
+            ))}
+            {newPlaylistName === null ? (
+                <button onClick={() => setNewPlaylistName('')} className="p-0.5 text-gray-400 hover:text-white" title={t('music.newPlaylist')}>
+                    <Plus size={12} />
+                </button>
+            ) : (
+                <input
+                    autoFocus
+                    value={newPlaylistName}
+                    onChange={(e) => setNewPlaylistName(e.target.value)}
+                    onKeyDown={(e) => {
+                        if (e.key === 'Enter') submitNewPlaylist();
+                        if (e.key === 'Escape') setNewPlaylistName(null);
+                    }}
+                    onBlur={submitNewPlaylist}
+                    placeholder={t('music.playlistName')}
+                    className="w-16 bg-black/40 border border-cyan-500/50 rounded px-1 text-[8px] text-white outline-none"
                 />
-            </label>
+            )}
         </div>
+
+        {/* Library search and grouping */}
+        {isLibrary && (
+            <div className="flex items-center gap-1 mb-1.5 flex-shrink-0">
+                <div className="flex-1 flex items-center gap-1 bg-black/40 border border-white/10 rounded px-1.5 py-0.5">
+                    <Search size={9} className="text-gray-500 flex-shrink-0" />
+                    <input
+                        value={librarySearch}
+                        onChange={(e) => setLibrarySearch(e.target.value)}
+                        placeholder={t('music.search')}
+                        className="w-full bg-transparent text-[8px] text-white outline-none"
+                    />
+                </div>
+                {(['SONGS', 'ARTISTS', 'ALBUMS'] as LibraryGrouping[]).map(grouping => (
+                    <button
+                        key={grouping}
+                        onClick={() => { setLibraryGrouping(grouping); setLibraryGroup(null); }}
+                        className={clsx(
+                            "px-1 py-0.5 rounded text-[7px] font-bold",
+                            libraryGrouping === grouping ? "bg-white/20 text-white" : "text-gray-500 hover:text-white"
+                        )}
+                    >
+                        {t(`music.${grouping}`)}
+                    </button>
+                ))}
+            </div>
+        )}
+        {openGroup && (
+            <button onClick={() => setLibraryGroup(null)} className="flex items-center gap-1 mb-1 text-[9px] font-bold text-white hover:text-cyan-300 flex-shrink-0 min-w-0">
+                <ArrowLeft size={10} /> <span className="truncate">{openGroup.name}</span>
+            </button>
+        )}
+        {importStatus && (
+            <div className="mb-1 text-[8px] text-center text-cyan-300 flex-shrink-0">{importStatus}</div>
+        )}
         
+        {isNetwork ? renderNetworkAudio() : (
         <div className="flex-1 overflow-y-auto custom-scrollbar pr-1 space-y-1 pb-6">
-            {playlist.length === 0 && (
+            {showGroups && groups.map(group => (
+                <button
+                    key={group.name}
+                    onClick={() => setLibraryGroup(group.name)}
+                    className="w-full rounded text-[10px] flex items-center gap-1.5 bg-white/5 hover:bg-white/10 p-1.5 text-left"
+                >
+                    {renderCover(group.tracks.find(track => track.coverArt)?.coverArt, 22)}
+                    <span className="flex-1 font-bold text-gray-300 truncate">{group.name}</span>
+                    <span className="text-[8px] text-gray-500">{group.tracks.length}</span>
+                    <ChevronRight size={10} className="text-gray-500" />
+                </button>
+            ))}
+            {tracks.length === 0 && (!showGroups || groups.length === 0) && (
                 <div className="text-center text-gray-500 text-[10px] mt-10 italic">
-                    Playlist is empty.<br/>Click + to add music.
+                    {isLibrary && (library.length === 0
+                        ? <>{t('music.libraryEmpty')}<br/>{t('music.libraryEmptyHint')}</>
+                        : t('music.noMatches'))}
+                    {isQueue && <>{t('music.queueEmpty')}<br/>{t('music.queueEmptyHint')}</>}
+                    {playlist && <>{t('music.playlistEmpty')}<br/>{t('music.playlistEmptyHint')}</>}
                 </div>
             )}
-            {playlist.map((track, i) => (
+            {tracks.map((track, i) => (
+                <div key={`${track.id}-${i}`}>
                 <div 
-                    key={track.id}
+                    draggable={canReorder}
+                    onDragStart={() => setDragIndex(i)}
+                    onDragOver={(e) => e.preventDefault()}
+                    onDrop={() => handleTrackDrop(i)}
+                    onDragEnd={() => setDragIndex(null)}
                     className={clsx(
-                        "w-full rounded text-[10px] flex items-center justify-between transition-colors pr-2 group",
-                        currentTrack.id === track.id ? "bg-cyan-900/50 border border-cyan-500/30" : "bg-white/5 hover:bg-white/10 border border-transparent"
+                        "w-full rounded text-[10px] flex items-center justify-between transition-colors pr-1 group",
+                        currentTrack.id === track.id && !isQueue ? "bg-cyan-900/50 border border-cyan-500/30" : "bg-white/5 hover:bg-white/10 border border-transparent",
+                        dragIndex === i && "opacity-40"
                     )}
                 >
+                    {canReorder && <GripVertical size={10} className="text-gray-600 cursor-grab flex-shrink-0 ml-0.5" />}
+                    {renderCover(track.coverArt, 22)}
                     <button 
-                        onClick={(e) => { setCurrentTrack(track); setMusicView('PLAYER'); }}
-                        className="flex-1 text-left p-2 flex flex-col truncate"
+                        onClick={(e) => playFromList(track, i)}
+                        className="flex-1 text-left px-1.5 py-1.5 flex flex-col truncate"
                     >
                         <span className={clsx("font-bold truncate", currentTrack.id === track.id ? "text-white" : "text-gray-300")}>{track.title}</span>
-                        <span className="text-[8px] text-gray-400 truncate">{track.artist}</span>
+                        <span className="text-[8px] text-gray-400 truncate">{[track.artist || t('music.unknownArtist'), track.album].filter(Boolean).join(' · ')}</span>
                     </button>
 
-                    <div className="flex items-center gap-2">
-                        {currentTrack.id === track.id && <div className="w-1.5 h-1.5 rounded-full bg-cyan-400 animate-pulse shadow-[0_0_5px_cyan] flex-shrink-0"></div>}
-                        <button 
-                            onClick={(e) => {
-                                e.stopPropagation();
-                                handleDeleteTrack(track.id);
-                            }}
-                            className="p-1.5 text-gray-600 hover:text-red-400 transition-colors"
-                            title="Delete"
+                    <div className="flex items-center gap-0.5">
+                        <span className="text-[8px] text-gray-500 font-mono mr-1">{track.duration}</span>
+                        {currentTrack.id === track.id && !isQueue && <div className="w-1.5 h-1.5 rounded-full bg-cyan-400 animate-pulse shadow-[0_0_5px_cyan] flex-shrink-0 mr-1"></div>}
+                        {!isQueue && (
+                            <button onClick={() => music.enqueue(track.id)} className="p-1 text-gray-500 hover:text-cyan-300" title={t('music.addToQueue')}>
+                                <ListPlus size={12} />
+                            </button>
+                        )}
+                        {isLibrary && (
+                            <button
+                                onClick={() => setTrackMenuId(trackMenuId === track.id ? null : track.id)}
+                                className="p-1 text-gray-500 hover:text-white"
+                                title={t('music.more')}
+                            >
+                                <EllipsisVertical size={12} />
+                            </button>
+                        )}
+                        {!isLibrary && (
+                            <button 
+                                onClick={() => isQueue ? music.removeFromQueue(i) : music.removeFromPlaylist(musicListId, i)}
+                                className="p-1 text-gray-500 hover:text-red-400 transition-colors"
+                                title={t('music.remove')}
+                            >
+                                <X size={12} />
+                            </button>
+                        )}
+                    </div>
+                </div>
+
+                {/* Library track menu */}
+                {isLibrary && trackMenuId === track.id && (
+                    <div className="flex flex-wrap gap-1 px-2 py-1 text-[8px]">
+                        <button onClick={() => { music.enqueue(track.id, true); setTrackMenuId(null); }} className="px-1.5 py-0.5 rounded bg-white/10 text-gray-300 hover:text-white">
+                            {t('music.playNext')}
+                        </button>
+                        {music.playlists.map(p => (
+                            <button
+                                key={p.id}
+                                onClick={() => { music.addToPlaylist(p.id, track.id); setTrackMenuId(null); }}
+                                disabled={p.trackIds.includes(track.id)}
+                                className="px-1.5 py-0.5 rounded bg-white/10 text-gray-300 hover:text-white disabled:opacity-40"
+                            >
+                                + {p.name}
+                            </button>
+                        ))}
+                        <button
+                            onClick={() => { music.deleteTrack(track.id); setTrackMenuId(null); }}
+                            className="px-1.5 py-0.5 rounded bg-red-900/40 text-red-300 hover:text-red-200 flex items-center gap-1"
                         >
-                            <Trash2 size={12} />
+                            <Trash2 size={8} /> {t('music.delete')}
                         </button>
                     </div>
+                )}
                 </div>
             ))}
         </div>
+        )}
         {renderTeeth()}
     </div>
-  );
+    );
+  };
 
   const renderMusicPlayer = () => {
     // Current times
-    const currentTimeStr = formatTime(audioRef.current?.currentTime || 0);
-    const durationStr = currentDuration ? formatTime(currentDuration) : (currentTrack.duration || '--:--');
+    const currentTimeStr = formatTime(music.position);
+    const isStream = currentTrack.kind === 'STREAM';
+    const isEmpty = currentTrack.id === EMPTY_TRACK_ID;
+    const durationStr = isStream ? t('music.live') : music.duration ? formatTime(music.duration) : (currentTrack.duration || '--:--');
 
     return (
         <div className="absolute inset-0 bg-gradient-to-b from-gray-900 to-gray-800 flex flex-col items-center justify-center z-40 font-tech overflow-hidden">
@@ -739,10 +1329,13 @@ const RobotFace: React.FC<RobotFaceProps> = ({
                     <ArrowLeft size={14} />
                 </button>
                 
-                <div className="flex-1 text-center overflow-hidden px-2">
-                    <h3 className="text-white font-bold text-[10px] tracking-wider truncate">{currentTrack.title}</h3>
-                    <p className="text-[8px] text-gray-400 truncate">{currentTrack.artist}</p>
-                    {!currentTrack.url && currentTrack.id !== 'empty' && <p className="text-[7px] text-yellow-500 mt-0.5">DEMO ONLY</p>}
+                <div className="flex-1 flex items-center justify-center gap-1.5 overflow-hidden px-2">
+                    {currentTrack.coverArt && renderCover(currentTrack.coverArt, 22)}
+                    <div className="text-center overflow-hidden">
+                        <h3 className="text-white font-bold text-[10px] tracking-wider truncate">{isEmpty ? t('music.noMusic') : currentTrack.title}</h3>
+                        <p className="text-[8px] text-gray-400 truncate">{isEmpty ? t('music.noMusicHint') : (isStream && music.nowPlaying) || currentTrack.artist || t('music.unknownArtist')}</p>
+                        {!currentTrack.url && !isEmpty && <p className="text-[7px] text-yellow-500 mt-0.5">{t('music.demoOnly')}</p>}
+                    </div>
                 </div>
 
                 <button onClick={(e) => setMusicView('PLAYLIST')} className="text-cyan-400 hover:text-white p-1 rounded-full hover:bg-white/5 transition-colors">
@@ -752,11 +1345,11 @@ const RobotFace: React.FC<RobotFaceProps> = ({
 
             {/* Visualizer */}
             <div className="flex items-end justify-center gap-0.5 h-6 w-full max-w-[140px] mb-1">
-            {bars.map((height, i) => (
+            {output.bands.map((band, i) => (
                 <div 
                 key={i} 
-                className="w-1.5 bg-gradient-to-t from-pink-500 to-cyan-400 rounded-full transition-all duration-100 ease-in-out shadow-[0_0_5px_rgba(236,72,153,0.5)]"
-                style={{ height: `${height}%` }}
+                className="w-1.5 bg-gradient-to-t from-pink-500 to-cyan-400 rounded-full transition-all duration-75 ease-out shadow-[0_0_5px_rgba(236,72,153,0.5)]"
+                style={{ height: `${Math.max(10, band * 100)}%` }}
                 ></div>
             ))}
             </div>
@@ -769,8 +1362,8 @@ const RobotFace: React.FC<RobotFaceProps> = ({
                 </div>
                 <div className="h-5 flex items-center">
                     <InteractiveSlider 
-                        value={trackProgress} 
-                        onChange={handleSeek} 
+                        value={music.progress} 
+                        onChange={music.seek} 
                         colorClass="bg-pink-500" 
                         thumbColorClass="bg-pink-500 scale-50"
                     />
@@ -791,10 +1384,17 @@ const RobotFace: React.FC<RobotFaceProps> = ({
             </div>
 
             {/* Controls */}
-            <div className="flex items-center justify-between w-[120px] mt-1">
-            <button onClick={handlePrevTrack} className="text-gray-300 hover:text-white active:scale-90 p-1"><SkipBack size={14} /></button>
+            <div className="flex items-center justify-between w-[160px] mt-1">
+            <button
+                onClick={() => music.setShuffle(!music.shuffle)}
+                className={clsx("p-1 active:scale-90", music.shuffle ? "text-pink-400" : "text-gray-500 hover:text-white")}
+                title={t('music.shuffle')}
+            >
+                <Shuffle size={11} />
+            </button>
+            <button onClick={music.previous} className="text-gray-300 hover:text-white active:scale-90 p-1"><SkipBack size={14} /></button>
             <button 
-                onClick={(e) => setIsPlaying(!isPlaying)}
+                onClick={(e) => music.setPlaying(!isPlaying)}
                 disabled={!currentTrack.url}
                 className={clsx(
                     "w-7 h-7 rounded-full flex items-center justify-center text-black shadow-[0_0_8px_rgba(34,211,238,0.4)] active:scale-95 transition-all",
@@ -803,7 +1403,14 @@ const RobotFace: React.FC<RobotFaceProps> = ({
             >
                 {isPlaying ? <Pause size={12} fill="black" /> : <Play size={12} fill="black" className="ml-0.5" />}
             </button>
-            <button onClick={handleNextTrack} className="text-gray-300 hover:text-white active:scale-90 p-1"><SkipForward size={14} /></button>
+            <button onClick={music.next} className="text-gray-300 hover:text-white active:scale-90 p-1"><SkipForward size={14} /></button>
+            <button
+                onClick={cycleRepeat}
+                className={clsx("p-1 active:scale-90", music.repeat !== 'OFF' ? "text-pink-400" : "text-gray-500 hover:text-white")}
+                title={t(`music.repeat${music.repeat as RepeatMode}`)}
+            >
+                {music.repeat === 'ONE' ? <Repeat1 size={11} /> : <Repeat size={11} />}
+            </button>
             </div>
         </div>
         {renderTeeth()}
@@ -811,30 +1418,196 @@ const RobotFace: React.FC<RobotFaceProps> = ({
     );
   };
 
+  const renderClockFace = () => {
+    return (
+      <>
+          <Clock size={28} className="mb-2 opacity-80" />
+          <div className="text-4xl font-mono font-bold tracking-widest drop-shadow-[0_0_10px_rgba(251,191,36,0.5)]">
+              {formatClockTime(currentTime, locale)}
+          </div>
+          <div className="mt-1 text-xs opacity-60 font-tech">
+              {formatClockDate(currentTime, locale)}
+          </div>
+      </>
+    );
+  };
+
+  const renderClockButton = (label: React.ReactNode, onClick: () => void, primary = false, disabled = false) => (
+    <button
+        onClick={(e) => {
+            e.stopPropagation();
+            onClick();
+        }}
+        disabled={disabled}
+        className={clsx(
+            "px-3 py-1 rounded-full text-[9px] font-bold tracking-wider transition-colors disabled:opacity-30 flex items-center gap-1",
+            primary ? "bg-amber-400 text-black hover:bg-amber-300" : "bg-white/10 text-white hover:bg-white/20"
+        )}
+    >
+        {label}
+    </button>
+  );
+
+  const renderCountdownTimer = (timers: ClockTimers) => {
+    const { countdown } = timers;
+    const running = countdown.endsAt !== null;
+    const untouched = !running && countdown.remainingMs === countdown.durationMs;
+    const remaining = countdownRemaining(countdown, clockNow);
+
+    return (
+      <>
+          <div className="flex items-center gap-2">
+              {untouched && (
+                  <button onClick={() => timers.setCountdownDuration(countdown.durationMs - 60000)} className="p-1 hover:bg-white/10 rounded-full"><Minus size={14} /></button>
+              )}
+              <div className="text-3xl font-mono font-bold tracking-widest drop-shadow-[0_0_10px_rgba(251,191,36,0.5)]">
+                  {formatClockDuration(remaining)}
+              </div>
+              {untouched && (
+                  <button onClick={() => timers.setCountdownDuration(countdown.durationMs + 60000)} className="p-1 hover:bg-white/10 rounded-full"><Plus size={14} /></button>
+              )}
+          </div>
+          <div className="w-3/4 h-1 bg-white/10 rounded-full mt-2 overflow-hidden">
+              <div className="h-full bg-amber-400" style={{ width: `${countdown.durationMs ? (remaining / countdown.durationMs) * 100 : 0}%` }} />
+          </div>
+          <div className="flex gap-2 mt-3">
+              {renderClockButton(running ? t('clock.pause') : untouched ? t('clock.start') : t('clock.resume'), timers.toggleCountdown, true, countdown.durationMs === 0)}
+              {renderClockButton(<RotateCw size={10} />, timers.resetCountdown, false, untouched)}
+          </div>
+      </>
+    );
+  };
+
+  const renderStopwatch = (timers: ClockTimers) => {
+    const { stopwatch } = timers;
+    const running = stopwatch.startedAt !== null;
+    const elapsed = stopwatchElapsed(stopwatch, clockNow);
+    // Newest lap first, each with its own length
+    const laps = stopwatch.laps.map((split, i) => ({ n: i + 1, split, lap: split - (stopwatch.laps[i - 1] ?? 0) })).reverse();
+
+    return (
+      <>
+          <div className="text-3xl font-mono font-bold tracking-wider drop-shadow-[0_0_10px_rgba(251,191,36,0.5)]">
+              {formatClockDuration(elapsed, true)}
+          </div>
+          <div className="flex gap-2 mt-2">
+              {renderClockButton(running ? t('clock.pause') : elapsed > 0 ? t('clock.resume') : t('clock.start'), timers.toggleStopwatch, true)}
+              {running
+                  ? renderClockButton(<><Flag size={10} /> {t('clock.lap')}</>, timers.lapStopwatch)
+                  : renderClockButton(<RotateCw size={10} />, timers.resetStopwatch, false, elapsed === 0)}
+          </div>
+          {laps.length > 0 && (
+              <div className="w-3/4 max-h-10 overflow-y-auto custom-scrollbar mt-2 space-y-0.5">
+                  {laps.map(({ n, split, lap }) => (
+                      <div key={n} className="flex justify-between text-[8px] font-mono text-white/70">
+                          <span>#{n}</span>
+                          <span>{formatClockDuration(lap, true)}</span>
+                          <span className="text-white/40">{formatClockDuration(split, true)}</span>
+                      </div>
+                  ))}
+              </div>
+          )}
+      </>
+    );
+  };
+
+  const renderPomodoro = (timers: ClockTimers) => {
+    const { pomodoro, pomodoroSettings } = timers;
+    const running = pomodoro.timer.endsAt !== null;
+    const untouched = !running && pomodoro.timer.remainingMs === pomodoro.timer.durationMs;
+
+    if (showPomodoroSettings) {
+        const renderStepper = (label: string, key: keyof typeof pomodoroSettings, min: number, max: number, unit = 'm') => (
+            <div className="w-full flex items-center justify-between text-[9px]">
+                <span className="text-white/60">{label}</span>
+                <div className="flex items-center gap-1.5">
+                    <button onClick={() => timers.updatePomodoroSettings({ [key]: Math.max(min, pomodoroSettings[key] - 1) })} className="p-0.5 hover:bg-white/10 rounded"><Minus size={10} /></button>
+                    <span className="w-7 text-center font-mono text-white">{pomodoroSettings[key]}{unit}</span>
+                    <button onClick={() => timers.updatePomodoroSettings({ [key]: Math.min(max, pomodoroSettings[key] + 1) })} className="p-0.5 hover:bg-white/10 rounded"><Plus size={10} /></button>
+                </div>
+            </div>
+        );
+
+        return (
+          <div className="w-3/4 flex flex-col gap-1">
+              {renderStepper(t('clock.focus'), 'workMinutes', 1, 90)}
+              {renderStepper(t('clock.break'), 'shortBreakMinutes', 1, 30)}
+              {renderStepper(t('clock.longBreak'), 'longBreakMinutes', 1, 60)}
+              {renderStepper(t('clock.longEvery'), 'longBreakEvery', 2, 8, '')}
+              <div className="flex justify-center mt-1">
+                  {renderClockButton(<><Check size={10} /> {t('clock.done')}</>, () => setShowPomodoroSettings(false), true)}
+              </div>
+          </div>
+        );
+    }
+
+    // Dots for the focus blocks of the current set
+    const blocksInSet = pomodoro.completedWorkBlocks % pomodoroSettings.longBreakEvery;
+
+    return (
+      <>
+          <div className={clsx("text-[9px] font-bold tracking-[0.2em]", pomodoro.phase === 'WORK' ? "text-red-400" : "text-green-400")}>
+              {t(`clock.${pomodoro.phase}`)}
+          </div>
+          <div className="text-3xl font-mono font-bold tracking-widest drop-shadow-[0_0_10px_rgba(251,191,36,0.5)]">
+              {formatClockDuration(countdownRemaining(pomodoro.timer, clockNow))}
+          </div>
+          <div className="flex gap-1 mt-1">
+              {Array.from({ length: pomodoroSettings.longBreakEvery }).map((_, i) => (
+                  <div key={i} className={clsx("w-1.5 h-1.5 rounded-full", i < blocksInSet ? "bg-amber-400" : "bg-white/15")} />
+              ))}
+          </div>
+          <div className="flex gap-2 mt-2">
+              {renderClockButton(running ? t('clock.pause') : untouched ? t('clock.start') : t('clock.resume'), timers.togglePomodoro, true)}
+              {renderClockButton(<SkipForward size={10} />, timers.skipPomodoroPhase)}
+              {renderClockButton(<RotateCw size={10} />, timers.resetPomodoro, false, untouched && pomodoro.phase === 'WORK' && pomodoro.completedWorkBlocks === 0)}
+              {renderClockButton(<Settings2 size={10} />, () => setShowPomodoroSettings(true))}
+          </div>
+      </>
+    );
+  };
+
   const renderClock = () => {
-    const hours = String(currentTime.getHours()).padStart(2, '0');
-    const minutes = String(currentTime.getMinutes()).padStart(2, '0');
-    const dayNames = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
-    const monthNames = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
-    
-    const dayName = dayNames[currentTime.getDay()];
-    const monthName = monthNames[currentTime.getMonth()];
-    const dayNum = currentTime.getDate();
-    const yearNum = currentTime.getFullYear();
-    const dateStr = `${dayName} ${monthName} ${dayNum} ${yearNum}`;
-    
+    const views = [
+        { id: 'TIME', icon: Clock },
+        ...(clockTimers ? [
+            { id: 'TIMER', icon: Timer },
+            { id: 'STOPWATCH', icon: Watch },
+            { id: 'POMODORO', icon: Coffee },
+        ] : []),
+    ];
+
     return (
       <div className="absolute inset-0 bg-[#0f172a] flex flex-col items-center justify-center z-30 text-amber-400 font-tech">
           <button onClick={handleBack} className="absolute top-6 left-10 p-2 hover:bg-white/10 rounded-full transition-colors z-50">
             <ArrowLeft size={18} />
           </button>
-          
-          <Clock size={32} className="mb-2 opacity-80" />
-          <div className="text-4xl font-mono font-bold tracking-widest drop-shadow-[0_0_10px_rgba(251,191,36,0.5)]">
-              {`${hours}:${minutes}`}
-          </div>
-          <div className="mt-1 text-xs opacity-60 font-tech">
-              {dateStr}
+          {views.length > 1 && (
+              <div className="absolute top-7 left-1/2 -translate-x-1/2 flex gap-1 z-50">
+                  {views.map(view => (
+                      <button
+                          key={view.id}
+                          onClick={(e) => {
+                              e.stopPropagation();
+                              setClockView(view.id as ClockView);
+                              setShowPomodoroSettings(false);
+                          }}
+                          className={clsx(
+                              "p-1.5 rounded-full transition-colors",
+                              clockView === view.id ? "bg-amber-400 text-black" : "text-amber-400/60 hover:bg-white/10"
+                          )}
+                      >
+                          <view.icon size={12} />
+                      </button>
+                  ))}
+              </div>
+          )}
+
+          <div className="w-full flex flex-col items-center pt-6">
+              {clockView === 'TIMER' && clockTimers ? renderCountdownTimer(clockTimers)
+                  : clockView === 'STOPWATCH' && clockTimers ? renderStopwatch(clockTimers)
+                  : clockView === 'POMODORO' && clockTimers ? renderPomodoro(clockTimers)
+                  : renderClockFace()}
           </div>
           {renderTeeth()}
       </div>
@@ -845,14 +1618,14 @@ const RobotFace: React.FC<RobotFaceProps> = ({
     <div className="absolute inset-0 bg-[#0f172a] flex flex-col p-4 z-40 text-cyan-400 font-tech">
       <div className="flex items-center gap-2 mb-4 border-b border-cyan-500/30 pb-2 pt-4">
         <button onClick={handleBack}><ArrowLeft size={18} /></button>
-        <span className="text-xs font-bold tracking-wider">NETWORKS</span>
+        <span className="text-xs font-bold tracking-wider">{t('wifi.title')}</span>
       </div>
       
       <div className="flex-1 overflow-y-auto pr-1 custom-scrollbar space-y-2 pb-6">
         {wifiScanning ? (
           <div className="flex flex-col items-center justify-center h-full gap-2 opacity-50">
             <div className="w-6 h-6 border-2 border-cyan-400 border-t-transparent rounded-full animate-spin"></div>
-            <span className="text-[10px]">Scanning...</span>
+            <span className="text-[10px]">{t('wifi.scanning')}</span>
           </div>
         ) : (
           availableNetworks.map((net) => (
@@ -891,18 +1664,18 @@ const RobotFace: React.FC<RobotFaceProps> = ({
         {isConnecting ? (
           <div className="flex flex-col items-center gap-2 animate-pulse">
             <Wifi size={32} />
-            <span className="text-xs">Connecting...</span>
+            <span className="text-xs">{t('wifi.connecting')}</span>
           </div>
         ) : (
           <>
             <div className="space-y-1">
-              <label className="text-[10px] text-gray-400 ml-1">PASSWORD</label>
+              <label className="text-[10px] text-gray-400 ml-1">{t('wifi.password')}</label>
               <input 
                 type="password" 
                 value={passwordInput}
                 onChange={(e) => setPasswordInput(e.target.value)}
                 className="w-full bg-black/40 border border-cyan-500/30 rounded p-2 text-sm text-white focus:outline-none focus:border-cyan-400 font-sans"
-                placeholder="Enter password..."
+                placeholder={t('wifi.passwordHint')}
               />
             </div>
             
@@ -911,7 +1684,7 @@ const RobotFace: React.FC<RobotFaceProps> = ({
               disabled={passwordInput.length < 4}
               className="w-full bg-cyan-600 hover:bg-cyan-500 disabled:opacity-50 disabled:cursor-not-allowed text-white text-xs font-bold py-3 rounded shadow-[0_0_15px_rgba(8,145,178,0.4)] transition-all"
             >
-              CONNECT
+              {t('wifi.connect')}
             </button>
           </>
         )}
@@ -925,13 +1698,13 @@ const RobotFace: React.FC<RobotFaceProps> = ({
       <div className="absolute inset-0 bg-[#0f172a] flex flex-col p-4 z-40 text-cyan-400 font-tech">
         <div className="flex items-center gap-2 mb-2 border-b border-cyan-500/30 pb-2 pt-4">
           <button onClick={handleBack}><ArrowLeft size={18} /></button>
-          <span className="text-xs font-bold tracking-wider">TIME & DATE</span>
+          <span className="text-xs font-bold tracking-wider">{t('time.title')}</span>
         </div>
         
         <div className="flex-1 overflow-y-auto pb-6 custom-scrollbar pr-1 flex items-center justify-center">
              <div className="text-center space-y-2 opacity-70">
-                 <p className="text-xs text-white">Auto-Synced</p>
-                 <p className="text-[10px] text-gray-500">Internet Time</p>
+                 <p className="text-xs text-white">{t('time.autoSynced')}</p>
+                 <p className="text-[10px] text-gray-500">{t('time.internet')}</p>
              </div>
         </div>
         {renderTeeth()}
@@ -943,25 +1716,68 @@ const RobotFace: React.FC<RobotFaceProps> = ({
       if (alarmEditMode === 'EDIT') {
           return (
             <div className="absolute inset-0 bg-[#0f172a] flex flex-col p-4 z-40 text-cyan-400 font-tech">
-                <div className="flex items-center gap-2 mb-2 border-b border-cyan-500/30 pb-2 pt-4">
-                    <button onClick={(e) => setAlarmEditMode('LIST')}><ArrowLeft size={18} /></button>
-                    <span className="text-xs font-bold tracking-wider">{editingAlarmId ? 'EDIT ALARM' : 'ADD ALARM'}</span>
+                <div className="flex items-center justify-between mb-2 border-b border-cyan-500/30 pb-2 pt-4">
+                    <div className="flex items-center gap-2">
+                        <button onClick={(e) => setAlarmEditMode('LIST')}><ArrowLeft size={18} /></button>
+                        <span className="text-xs font-bold tracking-wider">{editingAlarmId ? t('alarm.edit') : t('alarm.add')}</span>
+                    </div>
+                    <div className="flex items-center gap-1">
+                        {editingAlarmId !== null && (
+                            <button onClick={handleDeleteAlarm} className="p-1 text-gray-400 hover:text-red-400"><Trash2 size={14} /></button>
+                        )}
+                        <button onClick={handleSaveAlarm} className="p-1 hover:text-white"><Check size={18} /></button>
+                    </div>
                 </div>
                 
-                <div className="flex-1 flex flex-col items-center justify-center gap-6">
-                    <div className="flex items-center gap-4 text-4xl font-mono text-white">
-                        <div className="flex flex-col items-center gap-2">
-                             <button onClick={(e) => setEditHour(h => (h + 1) % 24)} className="p-2 hover:bg-white/10 rounded"><ChevronUp /></button>
+                <div className="flex-1 overflow-y-auto pb-6 custom-scrollbar pr-1 flex flex-col items-center gap-2">
+                    <div className="flex items-center gap-3 text-2xl font-mono text-white flex-shrink-0">
+                        <div className="flex flex-col items-center">
+                             <button onClick={(e) => setEditHour(h => (h + 1) % 24)} className="px-2 hover:bg-white/10 rounded"><ChevronUp size={16} /></button>
                              <span>{String(editHour).padStart(2, '0')}</span>
-                             <button onClick={(e) => setEditHour(h => (h - 1 + 24) % 24)} className="p-2 hover:bg-white/10 rounded"><ChevronDown /></button>
+                             <button onClick={(e) => setEditHour(h => (h - 1 + 24) % 24)} className="px-2 hover:bg-white/10 rounded"><ChevronDown size={16} /></button>
                         </div>
                         <span>:</span>
-                        <div className="flex flex-col items-center gap-2">
-                             <button onClick={(e) => setEditMinute(m => (m + 5) % 60)} className="p-2 hover:bg-white/10 rounded"><ChevronUp /></button>
+                        <div className="flex flex-col items-center">
+                             <button onClick={(e) => setEditMinute(m => (m + 5) % 60)} className="px-2 hover:bg-white/10 rounded"><ChevronUp size={16} /></button>
                              <span>{String(editMinute).padStart(2, '0')}</span>
-                             <button onClick={(e) => setEditMinute(m => (m - 5 + 60) % 60)} className="p-2 hover:bg-white/10 rounded"><ChevronDown /></button>
+                             <button onClick={(e) => setEditMinute(m => (m - 5 + 60) % 60)} className="px-2 hover:bg-white/10 rounded"><ChevronDown size={16} /></button>
                         </div>
                     </div>
+
+                    <input
+                        value={editLabel}
+                        onChange={(e) => setEditLabel(e.target.value)}
+                        placeholder={t('alarm.label')}
+                        maxLength={24}
+                        className="w-full bg-black/40 border border-cyan-500/30 rounded px-2 py-1 text-[10px] text-white placeholder:text-gray-500 outline-none focus:border-cyan-400 flex-shrink-0"
+                    />
+
+                    <div className="w-full flex justify-between flex-shrink-0">
+                        {weekdayLetters(locale).map((letter, day) => (
+                            <button
+                                key={day}
+                                onClick={() => toggleRepeatDay(day)}
+                                className={clsx(
+                                    "w-5 h-5 rounded-full text-[8px] font-bold transition-colors",
+                                    editRepeatDays.includes(day) ? "bg-cyan-500 text-black" : "bg-white/5 text-gray-400 hover:bg-white/10"
+                                )}
+                            >
+                                {letter}
+                            </button>
+                        ))}
+                    </div>
+
+                    <button
+                        onClick={cycleTone}
+                        className="w-full flex items-center justify-between bg-white/5 hover:bg-white/10 px-2 py-1.5 rounded flex-shrink-0"
+                    >
+                        <span className="text-[9px] text-gray-400">{t('alarm.tone')}</span>
+                        <span className="flex items-center gap-1 text-[9px] text-white truncate">
+                            {editTone.tone === 'TRACK' && <Music size={9} />}
+                            {describeTone(editTone)}
+                            <ChevronRight size={10} className="text-cyan-500/50" />
+                        </span>
+                    </button>
                 </div>
                 {renderTeeth()}
             </div>
@@ -973,16 +1789,38 @@ const RobotFace: React.FC<RobotFaceProps> = ({
             <div className="flex items-center justify-between mb-2 border-b border-cyan-500/30 pb-2 pt-4">
                 <div className="flex items-center gap-2">
                     <button onClick={handleBack}><ArrowLeft size={18} /></button>
-                    <span className="text-xs font-bold tracking-wider">ALARMS</span>
+                    <span className="text-xs font-bold tracking-wider">{t('alarm.title')}</span>
                 </div>
-                <button className="p-1 hover:text-white"><Plus size={18} /></button>
+                <button onClick={() => openAlarmEditor()} className="p-1 hover:text-white"><Plus size={18} /></button>
             </div>
             
             <div className="flex-1 overflow-y-auto pb-6 custom-scrollbar space-y-2 pr-1">
+                {alarms.length === 0 && (
+                    <div className="text-center text-[10px] text-gray-500 mt-4">{t('alarm.empty')}</div>
+                )}
                 {alarms.map(alarm => (
-                    <div key={alarm.id} className="flex items-center justify-between bg-white/5 p-3 rounded hover:bg-white/10 group cursor-pointer">
-                        <span className="text-2xl font-mono text-white">{String(alarm.hour).padStart(2, '0')}:{String(alarm.minute).padStart(2, '0')}</span>
-                        <div className="text-green-400"><ToggleRight size={24} /></div>
+                    <div
+                        key={alarm.id}
+                        onClick={() => openAlarmEditor(alarm)}
+                        className="flex items-center justify-between bg-white/5 p-2 rounded hover:bg-white/10 group cursor-pointer"
+                    >
+                        <div className="flex flex-col min-w-0">
+                            <span className={clsx("text-xl font-mono", alarm.enabled ? "text-white" : "text-gray-500")}>{formatAlarmTime(alarm)}</span>
+                            <span className="text-[8px] text-gray-400 truncate flex items-center gap-1">
+                                {alarm.repeatDays.length > 0 && <Repeat size={8} />}
+                                {[alarm.label, describeRepeatDays(alarm.repeatDays, locale)].filter(Boolean).join(' · ')}
+                                {alarm.enabled && alarm.snoozedUntil && ` · ${t('alarm.snoozed')}`}
+                            </span>
+                        </div>
+                        <button
+                            onClick={(e) => {
+                                e.stopPropagation();
+                                handleToggleAlarm(alarm.id);
+                            }}
+                            className={alarm.enabled ? "text-green-400" : "text-gray-500"}
+                        >
+                            {alarm.enabled ? <ToggleRight size={24} /> : <ToggleLeft size={24} />}
+                        </button>
                     </div>
                 ))}
             </div>
@@ -991,13 +1829,49 @@ const RobotFace: React.FC<RobotFaceProps> = ({
       );
   };
 
+  const renderAlarmRinging = () => {
+    if (!ringingAlarm) return null;
+
+    return (
+      <div className="absolute inset-0 z-40">
+        {renderFace()}
+        <div className="absolute top-7 inset-x-0 flex flex-col items-center z-20 pointer-events-none font-tech">
+            <span className="flex items-center gap-1 text-[9px] font-bold tracking-widest text-yellow-400 animate-pulse">
+                <BellRing size={10} /> {ringingAlarm.label || t('alarm.ringing')}
+            </span>
+            <span className="text-sm font-bold text-white">{formatAlarmTime({ hour: currentTime.getHours(), minute: currentTime.getMinutes() })}</span>
+        </div>
+        <div className="absolute bottom-8 inset-x-0 flex justify-center gap-3 z-30 font-tech">
+            <button
+                onClick={(e) => {
+                    e.stopPropagation();
+                    onSnoozeAlarm && onSnoozeAlarm();
+                }}
+                className="px-3 py-1 rounded-full bg-white/10 hover:bg-white/20 text-white text-[9px] font-bold tracking-wider"
+            >
+                {t('alarm.snooze', { minutes: SNOOZE_MINUTES })}
+            </button>
+            <button
+                onClick={(e) => {
+                    e.stopPropagation();
+                    onDismissAlarm && onDismissAlarm();
+                }}
+                className="px-3 py-1 rounded-full bg-yellow-400 hover:bg-yellow-300 text-black text-[9px] font-bold tracking-wider"
+            >
+                {t('alarm.dismiss')}
+            </button>
+        </div>
+      </div>
+    );
+  };
+
   const renderDisplaySettings = () => {
     const displayValue = Math.round((brightness || 1) * 100);
     return (
       <div className="absolute inset-0 bg-[#0f172a] flex flex-col z-40 text-cyan-400 font-tech overflow-hidden">
           <div className="absolute top-8 left-0 right-0 flex items-center justify-center gap-2 px-6 z-50 pointer-events-none">
              <button onClick={handleBack} className="absolute left-6 pointer-events-auto p-2 hover:bg-white/5 rounded-full"><ArrowLeft size={16} /></button>
-             <span className="text-[10px] font-bold tracking-wider opacity-80">DISPLAY</span>
+             <span className="text-[10px] font-bold tracking-wider opacity-80">{t('display.title')}</span>
           </div>
 
           <div className="flex-1 flex flex-col items-center justify-center w-full h-full pt-4">
@@ -1017,17 +1891,19 @@ const RobotFace: React.FC<RobotFaceProps> = ({
     );
   };
 
+  const formatBand = (hz: number) => hz >= 1000 ? `${hz / 1000}k` : `${hz}`;
+
   const renderSoundSettings = () => {
     const displayValue = Math.round((volume || 0) * 100);
     return (
       <div className="absolute inset-0 bg-[#0f172a] flex flex-col z-40 text-cyan-400 font-tech overflow-hidden">
           <div className="absolute top-8 left-0 right-0 flex items-center justify-center gap-2 px-6 z-50 pointer-events-none">
              <button onClick={handleBack} className="absolute left-6 pointer-events-auto p-2 hover:bg-white/5 rounded-full"><ArrowLeft size={16} /></button>
-             <span className="text-[10px] font-bold tracking-wider opacity-80">SOUND</span>
+             <span className="text-[10px] font-bold tracking-wider opacity-80">{t('sound.title')}</span>
           </div>
 
-          <div className="flex-1 flex flex-col items-center justify-center w-full h-full pt-4">
-                <span className="text-4xl font-bold text-white tracking-widest mb-4 shadow-lg drop-shadow-[0_0_10px_rgba(255,255,255,0.3)]">{displayValue}%</span>
+          <div className="flex-1 flex flex-col items-center w-full h-full pt-16 pb-8 overflow-y-auto custom-scrollbar">
+                <span className="text-2xl font-bold text-white tracking-widest mb-1 shadow-lg drop-shadow-[0_0_10px_rgba(255,255,255,0.3)]">{displayValue}%</span>
                 
                 <div className="w-4/5 flex flex-col items-center">
                     <InteractiveSlider 
@@ -1037,19 +1913,387 @@ const RobotFace: React.FC<RobotFaceProps> = ({
                         thumbColorClass="bg-cyan-400"
                     />
                 </div>
+
+                {/* Music equalizer */}
+                {equalizer && onEqualizerChange && (
+                    <div className="w-4/5 mt-3 flex flex-col gap-1">
+                        <span className="text-[8px] font-bold tracking-wider text-gray-400">{t('sound.musicEq')}</span>
+                        <div className="flex flex-wrap gap-1">
+                            {(Object.keys(EQ_PRESETS) as EqPreset[]).map(preset => (
+                                <button
+                                    key={preset}
+                                    onClick={() => onEqualizerChange({ preset, gains: EQ_PRESETS[preset].gains })}
+                                    className={clsx(
+                                        "px-1.5 py-0.5 rounded text-[8px] font-bold",
+                                        equalizer.preset === preset ? "bg-cyan-500 text-black" : "bg-white/5 text-gray-400 hover:text-white"
+                                    )}
+                                >
+                                    {t(`sound.${preset}`)}
+                                </button>
+                            ))}
+                            {equalizer.preset === 'CUSTOM' && (
+                                <span className="px-1.5 py-0.5 rounded text-[8px] font-bold bg-pink-500 text-black">{t('sound.CUSTOM')}</span>
+                            )}
+                        </div>
+                        {EQ_BANDS_HZ.map((hz, i) => {
+                            const gain = equalizer.gains[i] ?? 0;
+                            return (
+                                <div key={hz} className="flex items-center gap-1.5 text-[8px] font-mono">
+                                    <span className="w-5 text-gray-500 text-right">{formatBand(hz)}</span>
+                                    <div className="flex-1 h-4 flex items-center">
+                                        <InteractiveSlider
+                                            value={(gain + EQ_MAX_DB) / (EQ_MAX_DB * 2)}
+                                            onChange={(v) => {
+                                                const gains = [...equalizer.gains];
+                                                gains[i] = Math.round(v * EQ_MAX_DB * 2 - EQ_MAX_DB);
+                                                onEqualizerChange({ preset: 'CUSTOM', gains });
+                                            }}
+                                            colorClass="bg-pink-500"
+                                            thumbColorClass="bg-pink-500 scale-50"
+                                        />
+                                    </div>
+                                    <span className="w-6 text-gray-400">{gain > 0 ? `+${gain}` : gain}dB</span>
+                                </div>
+                            );
+                        })}
+                    </div>
+                )}
           </div>
           {renderTeeth()}
       </div>
     );
   };
 
+  const renderVoiceSettings = () => {
+    if (!voiceSettings) return null;
+    const templateCount = voiceSettings.wakeWordTemplates.length;
+
+    const renderToggle = (label: string, hint: string, enabled: boolean, onToggle: () => void, disabled = false) => (
+        <button
+            onClick={onToggle}
+            disabled={disabled}
+            className="w-full flex items-center justify-between bg-white/5 hover:bg-white/10 px-3 py-2 rounded-lg disabled:opacity-40 flex-shrink-0"
+        >
+            <div className="flex flex-col items-start">
+                <span className="text-[10px] font-bold tracking-wider text-white">{label}</span>
+                <span className="text-[8px] text-gray-400">{hint}</span>
+            </div>
+            <div className={enabled ? "text-green-400" : "text-gray-500"}>
+                {enabled ? <ToggleRight size={20} /> : <ToggleLeft size={20} />}
+            </div>
+        </button>
+    );
+
+    const renderSlider = (label: string, value: number, onChange: (v: number) => void) => (
+        <div className="w-full bg-white/5 px-3 py-1.5 rounded-lg flex-shrink-0">
+            <div className="flex justify-between text-[8px] text-gray-400">
+                <span>{label}</span>
+                <span>{Math.round(value * 100)}%</span>
+            </div>
+            <InteractiveSlider value={value} onChange={onChange} colorClass="bg-cyan-400" thumbColorClass="bg-cyan-400 scale-50" />
+        </div>
+    );
+
+    return (
+      <div className="absolute inset-0 bg-[#0f172a] flex flex-col p-4 z-40 text-cyan-400 font-tech">
+        <div className="flex items-center gap-2 mb-2 border-b border-cyan-500/30 pb-2 pt-4">
+          <button onClick={handleBack}><ArrowLeft size={18} /></button>
+          <span className="text-xs font-bold tracking-wider">{t('voice.title')}</span>
+        </div>
+
+        <div className="flex-1 overflow-y-auto pb-6 custom-scrollbar pr-1 space-y-2">
+            {renderToggle(t('voice.autoStop'), t('voice.autoStopHint'), voiceSettings.autoStop,
+                () => onVoiceSettingsChange({ autoStop: !voiceSettings.autoStop }))}
+            {renderSlider(t('voice.speechSensitivity'), voiceSettings.vadSensitivity,
+                (v) => onVoiceSettingsChange({ vadSensitivity: v }))}
+            {renderToggle(t('voice.wakeWord'), templateCount > 0 ? t('voice.wakeWordHint') : t('voice.wakeWordNeedsSample'), voiceSettings.wakeWordEnabled,
+                () => onVoiceSettingsChange({ wakeWordEnabled: !voiceSettings.wakeWordEnabled }), templateCount === 0)}
+            {renderSlider(t('voice.wakeWordSensitivity'), voiceSettings.wakeWordSensitivity,
+                (v) => onVoiceSettingsChange({ wakeWordSensitivity: v }))}
+
+            <div className="flex gap-2 flex-shrink-0">
+                <button
+                    onClick={() => onEnrollWakeWord && onEnrollWakeWord()}
+                    disabled={isEnrollingWakeWord || !onEnrollWakeWord}
+                    className="flex-1 flex items-center justify-center gap-1.5 bg-cyan-600 hover:bg-cyan-500 disabled:opacity-50 text-white text-[10px] font-bold py-2 rounded"
+                >
+                    <Mic size={12} className={isEnrollingWakeWord ? "animate-pulse" : ""} />
+                    {isEnrollingWakeWord ? t('voice.sayItNow') : t('voice.record', { count: templateCount })}
+                </button>
+                <button
+                    onClick={() => onVoiceSettingsChange({ wakeWordTemplates: [], wakeWordEnabled: false })}
+                    disabled={templateCount === 0}
+                    className="px-3 bg-white/5 hover:bg-red-500/20 text-gray-400 hover:text-red-400 disabled:opacity-40 rounded"
+                    title={t('voice.clearSamples')}
+                >
+                    <Trash2 size={12} />
+                </button>
+            </div>
+        </div>
+        {renderTeeth()}
+      </div>
+    );
+  };
+
+  // --- PERSONAS ---
+
+  const editingPersona = customPersonas.find(p => p.id === editingPersonaId);
+
+  const updatePersona = (id: string, changes: Partial<Persona>) => {
+    onCustomPersonasChange(customPersonas.map(p => p.id === id ? { ...p, ...changes } : p));
+  };
+
+  // Built-ins are read-only; editing one starts from a copy
+  const duplicatePersona = (source: Persona) => {
+    const copy: Persona = { ...source, id: `persona-${Date.now()}`, name: t('persona.copyName', { name: source.name }) };
+    onCustomPersonasChange([...customPersonas, copy]);
+    onSelectPersona && onSelectPersona(copy.id);
+    setEditingPersonaId(copy.id);
+  };
+
+  const deletePersona = (id: string) => {
+    onCustomPersonasChange(customPersonas.filter(p => p.id !== id));
+    if (id === activePersonaId && onSelectPersona) onSelectPersona(personas[0].id);
+    setEditingPersonaId(null);
+  };
+
+  const importPersonas = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parsePersonaPack(await file.text()).filter(p => !isBuiltInPersona(p.id));
+      onCustomPersonasChange(mergeById(customPersonas, imported, p => p.id));
+      setPersonaStatus(t('persona.imported', { count: imported.length }));
+    } catch (err) {
+      console.error("Persona import failed", err);
+      setPersonaStatus(isPersonaPackError(err) ? t(PERSONA_PACK_ERRORS[err.code], err.params) : t('persona.notJson'));
+    }
+  };
+
+  const renderPersonaList = () => (
+    <div className="absolute inset-0 bg-[#0f172a] flex flex-col p-4 z-40 text-cyan-400 font-tech">
+      <div className="flex items-center gap-2 mb-2 border-b border-cyan-500/30 pb-2 pt-4">
+        <button onClick={handleBack}><ArrowLeft size={18} /></button>
+        <span className="text-xs font-bold tracking-wider flex-1">{t('persona.title')}</span>
+        <button onClick={() => personaFileRef.current?.click()} className="p-1 hover:text-white" title={t('persona.import')}><Upload size={12} /></button>
+        <button
+          onClick={() => downloadText('bangboo-personas.json', exportPersonaPack(customPersonas))}
+          disabled={customPersonas.length === 0}
+          className="p-1 hover:text-white disabled:opacity-40"
+          title={t('persona.export')}
+        >
+          <Download size={12} />
+        </button>
+        <input ref={personaFileRef} type="file" accept="application/json,.json" className="hidden" onChange={importPersonas} />
+      </div>
+
+      {personaStatus && <p className="text-[8px] text-gray-400 mb-1 truncate">{personaStatus}</p>}
+
+      <div className="flex-1 overflow-y-auto pb-6 custom-scrollbar pr-1 space-y-1.5">
+        {personas.map((persona: Persona) => {
+          const builtIn = isBuiltInPersona(persona.id);
+          return (
+            <div
+              key={persona.id}
+              className={clsx(
+                "flex items-center gap-2 px-3 py-1.5 rounded-lg border",
+                persona.id === activePersonaId ? "bg-cyan-500/20 border-cyan-500/50" : "bg-white/5 border-transparent"
+              )}
+            >
+              <button onClick={() => onSelectPersona && onSelectPersona(persona.id)} className="flex-1 flex flex-col items-start min-w-0">
+                <span className="text-[10px] font-bold text-white truncate max-w-full">{persona.name}</span>
+                <span className="text-[8px] text-gray-400">
+                  {PERSONA_LANGUAGES[persona.language] ?? persona.language} · {t(`persona.${persona.replyLength}`)}{persona.voice && ` · ${persona.voice}`}
+                </span>
+              </button>
+              {persona.id === activePersonaId && <Check size={12} className="text-cyan-400 flex-shrink-0" />}
+              {builtIn ? (
+                <button onClick={() => duplicatePersona(persona)} className="p-1 text-gray-400 hover:text-white" title={t('persona.duplicate')}><Copy size={11} /></button>
+              ) : (
+                <button onClick={() => setEditingPersonaId(persona.id)} className="p-1 text-gray-400 hover:text-white" title={t('persona.edit')}><Pencil size={11} /></button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      {renderTeeth()}
+    </div>
+  );
+
+  const renderPersonaEditor = (persona: Persona) => {
+    const fieldClass = "w-full bg-white/5 border border-white/10 rounded px-2 py-1 text-[10px] text-white outline-none focus:border-cyan-500/50";
+    const labelClass = "text-[8px] font-bold tracking-wider text-gray-400";
+    return (
+      <div className="absolute inset-0 bg-[#0f172a] flex flex-col p-4 z-40 text-cyan-400 font-tech">
+        <div className="flex items-center gap-2 mb-2 border-b border-cyan-500/30 pb-2 pt-4">
+          <button onClick={handleBack}><ArrowLeft size={18} /></button>
+          <span className="text-xs font-bold tracking-wider flex-1">{t('persona.editTitle')}</span>
+          <button onClick={() => deletePersona(persona.id)} className="p-1 text-gray-400 hover:text-red-400" title={t('persona.delete')}><Trash2 size={12} /></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto pb-6 custom-scrollbar pr-1 space-y-1.5" onClick={(e) => e.stopPropagation()}>
+          <span className={labelClass}>{t('persona.name')}</span>
+          <input value={persona.name} onChange={(e) => updatePersona(persona.id, { name: e.target.value })} className={fieldClass} />
+
+          <span className={labelClass}>{t('persona.prompt')}</span>
+          <textarea
+            value={persona.systemPrompt}
+            onChange={(e) => updatePersona(persona.id, { systemPrompt: e.target.value })}
+            rows={4}
+            className={clsx(fieldClass, "resize-none")}
+          />
+
+          <span className={labelClass}>{t('persona.replyLength')}</span>
+          <div className="flex gap-1">
+            {REPLY_LENGTHS.map(length => (
+              <button
+                key={length}
+                onClick={() => updatePersona(persona.id, { replyLength: length })}
+                className={clsx(
+                  "flex-1 py-0.5 rounded text-[8px] font-bold",
+                  persona.replyLength === length ? "bg-cyan-500 text-black" : "bg-white/5 text-gray-400 hover:text-white"
+                )}
+              >
+                {t(`persona.${length}`)}
+              </button>
+            ))}
+          </div>
+
+          <span className={labelClass}>{t('persona.language')}</span>
+          <select value={persona.language} onChange={(e) => updatePersona(persona.id, { language: e.target.value })} className={fieldClass}>
+            {Object.entries(PERSONA_LANGUAGES).map(([tag, label]) => <option key={tag} value={tag}>{label}</option>)}
+            {!PERSONA_LANGUAGES[persona.language] && <option value={persona.language}>{persona.language}</option>}
+          </select>
+
+          <span className={labelClass}>{t('persona.voice')}</span>
+          <input
+            value={persona.voice}
+            onChange={(e) => updatePersona(persona.id, { voice: e.target.value })}
+            list="persona-voices"
+            placeholder={t('persona.voiceDefault')}
+            className={fieldClass}
+          />
+          <datalist id="persona-voices">
+            {personaVoices.map(voice => <option key={voice} value={voice} />)}
+          </datalist>
+
+          <span className={labelClass}>{t('persona.skin')}</span>
+          <select
+            value={persona.skinId ?? ''}
+            onChange={(e) => updatePersona(persona.id, { skinId: e.target.value || undefined })}
+            className={fieldClass}
+          >
+            <option value="">{t('persona.keepSkin')}</option>
+            {skins.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+          </select>
+
+          <span className={labelClass}>{t('persona.greeting')}</span>
+          <input
+            value={persona.greeting}
+            onChange={(e) => updatePersona(persona.id, { greeting: e.target.value })}
+            placeholder={t('persona.greetingHint')}
+            className={fieldClass}
+          />
+        </div>
+        {renderTeeth()}
+      </div>
+    );
+  };
+
+  const renderLanguageSettings = (settings: LanguageSettings) => {
+    const update = (changes: Partial<LanguageSettings>) => onLanguageSettingsChange({ ...settings, ...changes });
+    const chipClass = (active: boolean) => clsx(
+        "px-2 py-0.5 rounded text-[9px] font-bold",
+        active ? "bg-cyan-500 text-black" : "bg-white/5 text-gray-400 hover:text-white"
+    );
+    const locales = Object.keys(UI_LOCALES) as UiLocale[];
+    const replyOptions: ReplyLanguage[] = ['PERSONA', 'FOLLOW_USER', ...locales];
+
+    return (
+      <div className="absolute inset-0 bg-[#0f172a] flex flex-col p-4 z-40 text-cyan-400 font-tech">
+        <div className="flex items-center gap-2 mb-2 border-b border-cyan-500/30 pb-2 pt-4">
+          <button onClick={handleBack}><ArrowLeft size={18} /></button>
+          <span className="text-xs font-bold tracking-wider">{t('language.title')}</span>
+        </div>
+
+        <div className="flex-1 overflow-y-auto pb-6 custom-scrollbar pr-1 space-y-1.5" onClick={(e) => e.stopPropagation()}>
+          <span className="text-[8px] font-bold tracking-wider text-gray-400">{t('language.interface')}</span>
+          <div className="flex flex-wrap gap-1">
+            {locales.map(option => (
+              <button key={option} onClick={() => update({ uiLocale: option })} className={chipClass(settings.uiLocale === option)}>
+                {UI_LOCALES[option]}
+              </button>
+            ))}
+          </div>
+
+          <span className="text-[8px] font-bold tracking-wider text-gray-400">{t('language.replies')}</span>
+          <div className="flex flex-wrap gap-1">
+            {replyOptions.map(option => (
+              <button key={option} onClick={() => update({ replyLanguage: option })} className={chipClass(settings.replyLanguage === option)}>
+                {option === 'PERSONA' || option === 'FOLLOW_USER' ? t(`language.${option}`) : UI_LOCALES[option]}
+              </button>
+            ))}
+          </div>
+
+          <span className="text-[8px] font-bold tracking-wider text-gray-400">{t('language.voices')}</span>
+          {locales.map(option => (
+            <div key={option} className="flex items-center gap-2">
+              <span className="w-12 text-[9px] text-gray-300">{UI_LOCALES[option]}</span>
+              <input
+                value={settings.voices[option] ?? ''}
+                onChange={(e) => update({ voices: { ...settings.voices, [option]: e.target.value || undefined } })}
+                list="language-voices"
+                placeholder={t('language.voiceDefault')}
+                className="flex-1 min-w-0 bg-white/5 border border-white/10 rounded px-2 py-0.5 text-[10px] text-white outline-none focus:border-cyan-500/50"
+              />
+            </div>
+          ))}
+          <datalist id="language-voices">
+            {personaVoices.map(voice => <option key={voice} value={voice} />)}
+          </datalist>
+        </div>
+        {renderTeeth()}
+      </div>
+    );
+  };
+
+  const renderFactoryReset = () => (
+    <div className="absolute inset-0 bg-[#0f172a] flex flex-col p-4 z-40 text-cyan-400 font-tech">
+      <div className="flex items-center gap-2 mb-2 border-b border-cyan-500/30 pb-2 pt-4">
+        <button onClick={handleBack}><ArrowLeft size={18} /></button>
+        <span className="text-xs font-bold tracking-wider">{t('reset.title')}</span>
+      </div>
+
+      <div className="flex-1 flex flex-col items-center justify-center gap-3 pb-6">
+        <p className="text-[10px] text-gray-300 text-center leading-relaxed">
+            {t('reset.question')}<br/>{t('reset.question2')}
+        </p>
+        <button
+          onClick={(e) => {
+              e.stopPropagation();
+              onFactoryReset && onFactoryReset();
+          }}
+          className="px-6 bg-red-600 hover:bg-red-500 text-white text-xs font-bold py-2 rounded shadow-[0_0_15px_rgba(220,38,38,0.4)] transition-all"
+        >
+          {t('reset.confirm')}
+        </button>
+      </div>
+      {renderTeeth()}
+    </div>
+  );
+
   const renderStatus = () => {
     const menuItems = [
-        { id: 'WIFI_LIST', icon: Wifi, label: 'Network', value: connectedNetwork || 'Disconnected' },
-        { id: 'TIME', icon: Calendar, label: 'Time & Date', value: `${String(currentTime.getHours()).padStart(2, '0')}:${String(currentTime.getMinutes()).padStart(2, '0')}` },
-        { id: 'DISPLAY', icon: Sun, label: 'Display', value: `${Math.round((brightness || 1) * 100)}%` },
-        { id: 'SOUND', icon: Volume2, label: 'Sound', value: `${Math.round((volume || 0) * 100)}%` },
-        { id: 'ALARM', icon: Clock, label: 'Alarms', value: `${alarms.filter(a => a.enabled).length} Active` },
+        { id: 'WIFI_LIST', icon: Wifi, label: t('status.network'), value: connectedNetwork || t('status.disconnected') },
+        { id: 'TIME', icon: Calendar, label: t('status.time'), value: formatClockTime(currentTime, locale) },
+        { id: 'DISPLAY', icon: Sun, label: t('status.display'), value: `${Math.round((brightness || 1) * 100)}%` },
+        { id: 'SOUND', icon: Volume2, label: t('status.sound'), value: `${Math.round((volume || 0) * 100)}%` },
+        { id: 'ALARM', icon: Clock, label: t('status.alarms'), value: t('status.activeAlarms', { count: alarms.filter(a => a.enabled).length }) },
+        ...(personas.length > 0 ? [{ id: 'PERSONA', icon: UserRound, label: t('status.persona'), value: personas.find(p => p.id === activePersonaId)?.name ?? '' }] : []),
+        ...(languageSettings ? [{ id: 'LANGUAGE', icon: Languages, label: t('status.language'), value: UI_LOCALES[locale] }] : []),
+        ...(voiceSettings ? [{ id: 'VOICE', icon: AudioLines, label: t('status.voice'), value: voiceSettings.wakeWordEnabled ? t('status.handsFree') : t('status.tapToTalk') }] : []),
+        ...(onFactoryReset ? [{ id: 'RESET', icon: RotateCcw, label: t('status.reset'), value: t('status.resetHint') }] : []),
     ];
 
     return (
@@ -1085,7 +2329,7 @@ const RobotFace: React.FC<RobotFaceProps> = ({
                         <div className="p-1 rounded-full bg-green-500/20 text-green-400">
                             <Battery size={12} />
                         </div>
-                        <span className="text-[10px] font-bold tracking-wider text-white">Battery</span>
+                        <span className="text-[10px] font-bold tracking-wider text-white">{t('status.battery')}</span>
                      </div>
                      <span className="text-green-400 text-[10px] font-bold">{batteryLevel}%</span>
                 </div>
@@ -1103,6 +2347,10 @@ const RobotFace: React.FC<RobotFaceProps> = ({
       return renderBootSequence();
   }
 
+  if (ringingAlarm) {
+      return renderAlarmRinging();
+  }
+
   switch(screenMode) {
     case ScreenMode.CHAT: return renderChat();
     case ScreenMode.MUSIC: 
@@ -1117,6 +2365,10 @@ const RobotFace: React.FC<RobotFaceProps> = ({
         if (systemView === 'DISPLAY') return renderDisplaySettings();
         if (systemView === 'SOUND') return renderSoundSettings();
         if (systemView === 'ALARM') return renderAlarmSettings();
+        if (systemView === 'VOICE' && voiceSettings) return renderVoiceSettings();
+        if (systemView === 'PERSONA') return editingPersona ? renderPersonaEditor(editingPersona) : renderPersonaList();
+        if (systemView === 'LANGUAGE' && languageSettings) return renderLanguageSettings(languageSettings);
+        if (systemView === 'RESET') return renderFactoryReset();
         return renderStatus();
     default: 
         if (isCharging) return renderCharging();
@@ -0,0 +1,31 @@
+import { useEffect, useState } from 'react';
+import { AudioAnalyser, AudioLevels, silentLevels } from '../utils/audioAnalyser';
+
+// ~30fps is plenty for a mouth and a bar graph, and halves the re-renders
+const FRAME_INTERVAL_MS = 33;
+
+// Samples `analyser` every animation frame while `active`; silent otherwise
+export const useAudioLevels = (analyser: AudioAnalyser | null | undefined, bandCount: number, active: boolean): AudioLevels => {
+  const [levels, setLevels] = useState(() => silentLevels(bandCount));
+
+  useEffect(() => {
+    if (!analyser || !active) {
+      setLevels(silentLevels(bandCount));
+      return;
+    }
+
+    let frame = 0;
+    let lastRead = 0;
+    const tick = (time: number) => {
+      if (time - lastRead >= FRAME_INTERVAL_MS) {
+        lastRead = time;
+        setLevels(analyser.read(bandCount));
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [analyser, bandCount, active]);
+
+  return levels;
+};
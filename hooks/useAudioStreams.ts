@@ -0,0 +1,51 @@
+import { PodcastFeed, RadioStation } from '../types';
+import { usePersistentState } from './usePersistentState';
+import { fetchPodcastFeed, stationNameFromUrl } from '../services/audioStreams';
+
+export interface AudioStreams {
+  stations: RadioStation[];
+  feeds: PodcastFeed[];
+  addStation: (url: string, name?: string) => RadioStation;
+  removeStation: (stationId: string) => void;
+  subscribe: (url: string) => Promise<PodcastFeed>; // Rejects with a FeedError
+  refresh: (feedId: string) => Promise<void>;
+  unsubscribe: (feedId: string) => void;
+}
+
+// Saved radio stations and podcast subscriptions; feeds keep their last
+// fetched episode list so they can be browsed offline
+export const useAudioStreams = (): AudioStreams => {
+  const [stations, setStations] = usePersistentState('radioStations', []);
+  const [feeds, setFeeds] = usePersistentState('podcastFeeds', []);
+
+  const addStation = (url: string, name?: string): RadioStation => {
+    const station: RadioStation = { id: `station-${Date.now()}`, name: name?.trim() || stationNameFromUrl(url), url };
+    setStations(prev => [...prev, station]);
+    return station;
+  };
+
+  const storeFeed = (feed: PodcastFeed) => {
+    setFeeds(prev => prev.some(f => f.id === feed.id) ? prev.map(f => f.id === feed.id ? feed : f) : [...prev, feed]);
+  };
+
+  const subscribe = async (url: string): Promise<PodcastFeed> => {
+    const feed = await fetchPodcastFeed(url);
+    storeFeed(feed);
+    return feed;
+  };
+
+  const refresh = async (feedId: string) => {
+    const feed = feeds.find(f => f.id === feedId);
+    if (feed) storeFeed(await fetchPodcastFeed(feed.url));
+  };
+
+  return {
+    stations,
+    feeds,
+    addStation,
+    removeStation: (stationId) => setStations(prev => prev.filter(s => s.id !== stationId)),
+    subscribe,
+    refresh,
+    unsubscribe: (feedId) => setFeeds(prev => prev.filter(f => f.id !== feedId))
+  };
+};
@@ -0,0 +1,103 @@
+import { useEffect, useRef, useState } from 'react';
+import { Countdown, PomodoroSettings, PomodoroState, Stopwatch } from '../types';
+import { usePersistentState } from './usePersistentState';
+import {
+  advancePomodoro, createCountdown, createPomodoro, createStopwatch, DEFAULT_POMODORO_SETTINGS,
+  isCountdownFinished, lapStopwatch, pauseCountdown, pauseStopwatch, pomodoroPhaseMs, startCountdown, startStopwatch
+} from '../services/clockTimers';
+
+// Completion checks run this often while something counts down; a throttled
+// background tab checks less often but still sees the right remaining time
+const CHECK_INTERVAL_MS = 250;
+const DEFAULT_COUNTDOWN_MS = 5 * 60 * 1000;
+
+export interface ClockTimerHandlers {
+  onCountdownDone: () => void;
+  // `finished` is the phase that just ended, `next` the one now running
+  onPomodoroPhaseDone: (finished: PomodoroState, next: PomodoroState) => void;
+}
+
+export interface ClockTimers {
+  countdown: Countdown;
+  stopwatch: Stopwatch;
+  pomodoro: PomodoroState;
+  pomodoroSettings: PomodoroSettings;
+  setCountdownDuration: (durationMs: number) => void;
+  startTimer: (durationMs: number) => void; // Set and start in one go
+  toggleCountdown: () => void;
+  resetCountdown: () => void;
+  toggleStopwatch: () => void;
+  lapStopwatch: () => void;
+  resetStopwatch: () => void;
+  togglePomodoro: () => void;
+  skipPomodoroPhase: () => void;
+  resetPomodoro: () => void;
+  updatePomodoroSettings: (changes: Partial<PomodoroSettings>) => void;
+}
+
+export const useClockTimers = (handlers: ClockTimerHandlers): ClockTimers => {
+  const [countdown, setCountdown] = useState(() => createCountdown(DEFAULT_COUNTDOWN_MS));
+  const [stopwatch, setStopwatch] = useState(createStopwatch);
+  const [pomodoroSettings, setPomodoroSettings] = usePersistentState('pomodoroSettings', DEFAULT_POMODORO_SETTINGS);
+  const [pomodoro, setPomodoro] = useState(() => createPomodoro(pomodoroSettings));
+
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (countdown.endsAt === null && pomodoro.timer.endsAt === null) return;
+
+    const check = () => {
+      const now = Date.now();
+      if (isCountdownFinished(countdown, now)) {
+        setCountdown(createCountdown(countdown.durationMs));
+        handlersRef.current.onCountdownDone();
+      }
+      if (isCountdownFinished(pomodoro.timer, now)) {
+        const next = advancePomodoro(pomodoro, pomodoroSettings, now);
+        setPomodoro(next);
+        handlersRef.current.onPomodoroPhaseDone(pomodoro, next);
+      }
+    };
+
+    check();
+    const timer = setInterval(check, CHECK_INTERVAL_MS);
+    // Catch up immediately when the tab comes back to the foreground
+    document.addEventListener('visibilitychange', check);
+    return () => {
+      clearInterval(timer);
+      document.removeEventListener('visibilitychange', check);
+    };
+  }, [countdown, pomodoro, pomodoroSettings]);
+
+  return {
+    countdown,
+    stopwatch,
+    pomodoro,
+    pomodoroSettings,
+    setCountdownDuration: (durationMs) => setCountdown(createCountdown(Math.max(0, durationMs))),
+    startTimer: (durationMs) => setCountdown(startCountdown(createCountdown(durationMs), Date.now())),
+    toggleCountdown: () => setCountdown(prev =>
+      prev.endsAt === null ? startCountdown(prev, Date.now()) : pauseCountdown(prev, Date.now())),
+    resetCountdown: () => setCountdown(prev => createCountdown(prev.durationMs)),
+    toggleStopwatch: () => setStopwatch(prev =>
+      prev.startedAt === null ? startStopwatch(prev, Date.now()) : pauseStopwatch(prev, Date.now())),
+    lapStopwatch: () => setStopwatch(prev => lapStopwatch(prev, Date.now())),
+    resetStopwatch: () => setStopwatch(createStopwatch()),
+    togglePomodoro: () => setPomodoro(prev => ({
+      ...prev,
+      timer: prev.timer.endsAt === null ? startCountdown(prev.timer, Date.now()) : pauseCountdown(prev.timer, Date.now())
+    })),
+    // Skipping is silent: no announcement for a phase the user cut short
+    skipPomodoroPhase: () => setPomodoro(prev => advancePomodoro(prev, pomodoroSettings, Date.now())),
+    resetPomodoro: () => setPomodoro(createPomodoro(pomodoroSettings)),
+    updatePomodoroSettings: (changes) => {
+      const next = { ...pomodoroSettings, ...changes };
+      setPomodoroSettings(next);
+      // Re-time the current phase if it hasn't started yet
+      setPomodoro(prev => prev.timer.endsAt === null && prev.timer.remainingMs === prev.timer.durationMs
+        ? { ...prev, timer: createCountdown(pomodoroPhaseMs(prev.phase, next)) }
+        : prev);
+    }
+  };
+};
@@ -0,0 +1,114 @@
+import { RefObject, useEffect, useRef, useState } from 'react';
+import {
+  applyBlink, applyGaze, easeInOutCubic, EyePose, getExpression, lerpPose, sampleExpression
+} from '../services/eyeAnimation';
+
+const MORPH_MS = 250; // Tween between two expressions
+const BLINK_MS = 160;
+const BLINK_MIN_GAP_MS = 2000;
+const BLINK_MAX_GAP_MS = 6000;
+const DOUBLE_BLINK_CHANCE = 0.2;
+const POINTER_ATTENTION_MS = 3000; // Eyes follow the pointer this long after it moves
+const SACCADE_MIN_GAP_MS = 600;
+const SACCADE_MAX_GAP_MS = 2500;
+const SACCADE_RANGE = 0.4; // Share of the full gaze range used when looking around
+const GAZE_FOLLOW_MS = 60; // Time constant of the eyes catching up with their target
+
+const randomBetween = (min: number, max: number) => min + Math.random() * (max - min);
+const clamp = (value: number) => Math.max(-1, Math.min(1, value));
+
+// Per-frame pose of `expression`: eased morphs on every change, keyframe
+// cycles, random blinks, and a gaze that follows the pointer or wanders.
+// `containerRef` is what the eyes look out from.
+export const useEyeAnimation = (expression: string, containerRef: RefObject<HTMLElement | null>): EyePose => {
+  const [pose, setPose] = useState(() => sampleExpression(getExpression(expression), 0));
+
+  const poseRef = useRef(pose);
+  const morphRef = useRef({ from: pose, startedAt: 0 });
+  const pointerRef = useRef({ x: 0, y: 0, movedAt: -Infinity });
+
+  // Start every change from wherever the eyes are right now
+  useEffect(() => {
+    morphRef.current = { from: poseRef.current, startedAt: performance.now() };
+  }, [expression]);
+
+  useEffect(() => {
+    const handlePointer = (e: PointerEvent | TouchEvent) => {
+      const point = 'touches' in e ? e.touches[0] : e;
+      if (!point) return;
+      const rect = containerRef.current?.getBoundingClientRect();
+      const centerX = rect ? rect.left + rect.width / 2 : window.innerWidth / 2;
+      const centerY = rect ? rect.top + rect.height / 2 : window.innerHeight / 2;
+      pointerRef.current = {
+        x: clamp((point.clientX - centerX) / (window.innerWidth / 2)),
+        y: clamp((point.clientY - centerY) / (window.innerHeight / 2)),
+        movedAt: performance.now()
+      };
+    };
+    window.addEventListener('pointermove', handlePointer);
+    window.addEventListener('touchmove', handlePointer);
+    return () => {
+      window.removeEventListener('pointermove', handlePointer);
+      window.removeEventListener('touchmove', handlePointer);
+    };
+  }, [containerRef]);
+
+  useEffect(() => {
+    const startedAt = morphRef.current.startedAt || performance.now();
+
+    let frame = 0;
+    let lastTime = performance.now();
+    let nextBlinkAt = lastTime + randomBetween(BLINK_MIN_GAP_MS, BLINK_MAX_GAP_MS);
+    let blinkStartedAt = -Infinity;
+    let nextSaccadeAt = lastTime;
+    let saccade = { x: 0, y: 0 };
+    const gaze = { x: 0, y: 0 };
+
+    const tick = (now: number) => {
+      const dt = now - lastTime;
+      lastTime = now;
+
+      // Looked up every frame so edits to a custom expression show immediately
+      const definition = getExpression(expression);
+      let target = sampleExpression(definition, now - startedAt);
+      const { from, startedAt: morphStart } = morphRef.current;
+      const morph = Math.min(1, (now - morphStart) / MORPH_MS);
+      if (morph < 1) target = lerpPose(from, target, easeInOutCubic(morph));
+
+      if (definition.idleMotion !== false) {
+        if (now >= nextBlinkAt) {
+          blinkStartedAt = now;
+          nextBlinkAt = now + (Math.random() < DOUBLE_BLINK_CHANCE
+            ? BLINK_MS * 1.5
+            : randomBetween(BLINK_MIN_GAP_MS, BLINK_MAX_GAP_MS));
+        }
+        const blinkProgress = (now - blinkStartedAt) / BLINK_MS;
+        if (blinkProgress < 1) target = applyBlink(target, 1 - Math.abs(blinkProgress * 2 - 1));
+
+        const pointer = pointerRef.current;
+        let lookAt = saccade;
+        if (now - pointer.movedAt < POINTER_ATTENTION_MS) {
+          lookAt = pointer;
+        } else if (now >= nextSaccadeAt) {
+          saccade = { x: randomBetween(-SACCADE_RANGE, SACCADE_RANGE), y: randomBetween(-SACCADE_RANGE, SACCADE_RANGE) / 2 };
+          nextSaccadeAt = now + randomBetween(SACCADE_MIN_GAP_MS, SACCADE_MAX_GAP_MS);
+          lookAt = saccade;
+        }
+        const follow = Math.min(1, dt / GAZE_FOLLOW_MS);
+        gaze.x += (lookAt.x - gaze.x) * follow;
+        gaze.y += (lookAt.y - gaze.y) * follow;
+        target = applyGaze(target, gaze);
+      }
+
+      if (target.left.spin) target = { ...target, left: { ...target.left, rotate: (now - startedAt) * 0.36 % 360 } };
+
+      poseRef.current = target;
+      setPose(target);
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [expression]);
+
+  return pose;
+};
@@ -0,0 +1,515 @@
+import { useEffect, useRef, useState } from 'react';
+import { MusicTrack, Playlist, RepeatMode } from '../types';
+import { usePersistentState } from './usePersistentState';
+import {
+  deleteTrackBlob, loadLibrary, loadSetting, loadTrackBlobs, requestPersistentStorage, saveLibrary, saveSetting, saveTrackBlob
+} from '../services/storage';
+import { LIBRARY_ID, moveItem, shuffleIds, stepInOrder, syncShuffleOrder } from '../services/musicQueue';
+import { createCoverThumbnail, readAudioDuration, readAudioTags } from '../utils/audioTags';
+import { hashBlob } from '../utils/audioFiles';
+import { watchIcyMetadata } from '../utils/icyMetadata';
+
+// Default Demo Playlist (No Audio URLs)
+const DEFAULT_LIBRARY: MusicTrack[] = [
+  { id: '1', title: 'Cyber Funk 2077', artist: 'Neon City', duration: '3:45' },
+  { id: '2', title: 'Ocean Waves', artist: 'Relax LoFi', duration: '2:30' },
+  { id: '3', title: 'Shark Attack', artist: 'Deep Blue', duration: '4:12' },
+];
+
+// Placeholder while the library is empty; the UI shows its own text for it
+export const EMPTY_TRACK_ID = 'empty';
+const UNKNOWN_DURATION = '--:--';
+const EMPTY_TRACK: MusicTrack = { id: EMPTY_TRACK_ID, title: '', artist: '', duration: UNKNOWN_DURATION };
+// Uploads used to save this untranslated placeholder; now an unknown artist is ''
+const LEGACY_UNKNOWN_ARTIST = 'Local Audio';
+const SAVE_DELAY_MS = 500;
+const RESUME_SAVE_EVERY_S = 5;
+const RESUME_MIN_S = 10; // Episodes barely started don't need a resume point
+
+// CORS mode lets network streams through the Web Audio graph (it would
+// otherwise output silence for them); Blob URLs aren't affected
+const createMusicElement = () => {
+  const audio = new Audio();
+  audio.crossOrigin = 'anonymous';
+  return audio;
+};
+
+// Blob URLs die with the page, so only metadata is persisted with the library
+const stripTrackUrl = ({ url, ...track }: MusicTrack): MusicTrack => track;
+
+const formatDuration = (seconds: number): string =>
+  `${Math.floor(seconds / 60)}:${Math.floor(seconds % 60).toString().padStart(2, '0')}`;
+
+// Title, artist, album, cover and length from the file itself; the file
+// name and placeholders stay for anything it doesn't say
+const describeFile = async (track: MusicTrack, file: Blob, url: string): Promise<Partial<MusicTrack>> => {
+  const [tags, seconds] = await Promise.all([readAudioTags(file), readAudioDuration(url)]);
+  const coverArt = tags.picture && await createCoverThumbnail(tags.picture);
+  return {
+    title: tags.title ?? track.title,
+    artist: tags.artist ?? track.artist,
+    album: tags.album ?? track.album,
+    coverArt: coverArt ?? track.coverArt,
+    duration: seconds !== undefined ? formatDuration(seconds) : track.duration
+  };
+};
+
+export interface MusicImportResult {
+  added: MusicTrack[];
+  duplicates: number; // Files skipped because the library already has them
+}
+
+export interface MusicPlayer {
+  library: MusicTrack[];
+  playlists: Playlist[];
+  queue: MusicTrack[]; // Up next; played before the rest of the source
+  sourceId: string; // LIBRARY_ID or the id of the playlist being played
+  currentTrack: MusicTrack;
+  isPlaying: boolean;
+  progress: number; // 0-1
+  position: number; // Seconds into the current track
+  duration: number; // Seconds, 0 until known
+  shuffle: boolean;
+  repeat: RepeatMode;
+  nowPlaying: string | null; // Title announced by the current radio stream
+  resumePositions: Record<string, number>; // Seconds into unfinished episodes, by track id
+  setPlaying: (playing: boolean) => void;
+  // Also makes `sourceId` the play order; streams and episodes needn't be in the library
+  selectTrack: (track: MusicTrack, sourceId?: string) => void;
+  next: () => MusicTrack | undefined; // Returns the track switched to
+  previous: () => MusicTrack | undefined;
+  seek: (progress: number) => void;
+  setShuffle: (shuffle: boolean) => void;
+  setRepeat: (repeat: RepeatMode) => void;
+  tracksOf: (sourceId: string) => MusicTrack[];
+  moveTrack: (sourceId: string, from: number, to: number) => void;
+  enqueue: (trackId: string, playNext?: boolean) => void;
+  removeFromQueue: (index: number) => void;
+  moveInQueue: (from: number, to: number) => void;
+  createPlaylist: (name: string) => Playlist;
+  renamePlaylist: (playlistId: string, name: string) => void;
+  deletePlaylist: (playlistId: string) => void;
+  addToPlaylist: (playlistId: string, trackId: string) => void;
+  removeFromPlaylist: (playlistId: string, index: number) => void;
+  addFiles: (files: File[]) => Promise<MusicImportResult>;
+  deleteTrack: (trackId: string) => void;
+  // Plays through `destination` instead of straight to the speakers (first call wins)
+  connectOutput: (ctx: AudioContext, destination: AudioNode) => void;
+}
+
+// Owns the library, playlists, queue and the <audio> element, so both the
+// music screen and voice commands drive the same player
+export const useMusicPlayer = (volume: number): MusicPlayer => {
+  // Starts from the pre-IndexedDB copy in the settings until the saved library loads
+  const [library, setLibrary] = useState<MusicTrack[]>(() => loadSetting('library') ?? DEFAULT_LIBRARY);
+  const [libraryLoaded, setLibraryLoaded] = useState(false);
+  const [playlists, setPlaylists] = usePersistentState('playlists', []);
+  const [playback, setPlayback] = usePersistentState('musicPlayback', { shuffle: false, repeat: 'OFF' });
+  const [queueIds, setQueueIds] = useState<string[]>([]);
+  const [sourceId, setSourceId] = useState(LIBRARY_ID);
+  const [shuffleOrder, setShuffleOrder] = useState<string[]>([]);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [duration, setDuration] = useState(0);
+  const [currentTrack, setCurrentTrack] = useState<MusicTrack>(library[0] || EMPTY_TRACK);
+  const [resumePositions, setResumePositions] = usePersistentState('resumePositions', {});
+  const [nowPlaying, setNowPlaying] = useState<string | null>(null);
+
+  const audioRef = useRef<HTMLAudioElement>(createMusicElement());
+  const routedRef = useRef(false); // Volume is applied downstream once routed
+  const currentTrackRef = useRef(currentTrack); // For the element's listeners
+  currentTrackRef.current = currentTrack;
+  const pendingSeekRef = useRef<number | null>(null); // Resume position, applied once metadata loads
+  // Track id -> hash for restored tracks still being fingerprinted; imports
+  // wait for it so a file already in the library isn't added twice
+  const restoredHashesRef = useRef<Promise<Map<string, string>>>(Promise.resolve(new Map()));
+  // Imports read the library here; addFiles updates it ahead of the render
+  const libraryRef = useRef(library);
+  libraryRef.current = library;
+  // Hashes of files an import is still adding, so a second import running
+  // at the same time skips them too
+  const importingHashesRef = useRef(new Set<string>());
+
+  const findTrack = (id: string) => library.find(t => t.id === id);
+
+  // A deleted playlist falls back to the library
+  const tracksOf = (id: string): MusicTrack[] => {
+    if (id === LIBRARY_ID) return library;
+    const playlist = playlists.find(p => p.id === id);
+    if (!playlist) return library;
+    return playlist.trackIds.map(findTrack).filter((t): t is MusicTrack => t !== undefined);
+  };
+
+  const sourceIds = tracksOf(sourceId).map(t => t.id);
+  const sourceKey = sourceIds.join('|');
+  const playOrder = playback.shuffle ? syncShuffleOrder(shuffleOrder, sourceIds) : sourceIds;
+
+  // Keep the shuffle stable while tracks come and go
+  useEffect(() => {
+    if (playback.shuffle) setShuffleOrder(prev => syncShuffleOrder(prev, sourceIds));
+  }, [sourceKey, playback.shuffle]);
+
+  const restart = () => {
+    audioRef.current.currentTime = 0;
+    setProgress(0);
+    if (isPlaying && currentTrack.url) audioRef.current.play().catch(e => console.error("Play failed", e));
+  };
+
+  const switchTo = (track: MusicTrack): MusicTrack => {
+    if (track.id === currentTrack.id) restart();
+    else setCurrentTrack(track);
+    return track;
+  };
+
+  // Queued tracks come first, then the source in (shuffled) order. Skipping
+  // wraps around; running off the end only continues with repeat-all.
+  const advance = (offset: number, ended = false): MusicTrack | undefined => {
+    if (offset > 0 && queueIds.length > 0) {
+      const [nextId, ...rest] = queueIds;
+      setQueueIds(rest);
+      const queued = findTrack(nextId);
+      if (queued) return switchTo(queued);
+    }
+    // A finished episode doesn't roll over into the library
+    if (ended && currentTrack.kind) {
+      setIsPlaying(false);
+      return undefined;
+    }
+    const nextId = stepInOrder(playOrder, currentTrack.id, offset, !ended || playback.repeat === 'ALL');
+    const track = nextId === undefined ? undefined : findTrack(nextId);
+    if (!track) {
+      if (ended) setIsPlaying(false);
+      return undefined;
+    }
+    return switchTo(track);
+  };
+
+  // The 'ended' listener is attached once, so it goes through a ref
+  const nextRef = useRef(() => advance(1, true));
+  nextRef.current = () => advance(1, true);
+
+  useEffect(() => {
+    // Sync volume to audio element
+    audioRef.current.volume = routedRef.current ? 1 : volume || 0.5;
+  }, [volume]);
+
+  // Repeat-one loops in the element itself, so 'ended' never fires
+  useEffect(() => {
+    audioRef.current.loop = playback.repeat === 'ONE';
+  }, [playback.repeat]);
+
+  useEffect(() => {
+    const audio = audioRef.current;
+
+    let lastSavedAt = 0;
+
+    const setResumePosition = (trackId: string, seconds: number | null) => {
+      setResumePositions(prev => {
+        const { [trackId]: _, ...rest } = prev;
+        return seconds === null ? rest : { ...rest, [trackId]: seconds };
+      });
+    };
+
+    // Live streams report an infinite duration and have no progress
+    const handleTimeUpdate = () => {
+      if (!Number.isFinite(audio.duration) || !audio.duration) return;
+      setProgress(audio.currentTime / audio.duration);
+      setDuration(audio.duration);
+
+      const track = currentTrackRef.current;
+      if (track.kind === 'EPISODE' && audio.currentTime >= RESUME_MIN_S
+        && Math.abs(audio.currentTime - lastSavedAt) >= RESUME_SAVE_EVERY_S) {
+        lastSavedAt = audio.currentTime;
+        setResumePosition(track.id, Math.floor(audio.currentTime));
+      }
+    };
+
+    // Keep playing through the queue and the source
+    const handleEnded = () => {
+      setProgress(0);
+      if (currentTrackRef.current.kind === 'EPISODE') setResumePosition(currentTrackRef.current.id, null);
+      nextRef.current();
+    };
+
+    const handleLoadedMetadata = () => {
+      lastSavedAt = 0;
+      setDuration(Number.isFinite(audio.duration) ? audio.duration : 0);
+      if (pendingSeekRef.current !== null) {
+        audio.currentTime = pendingSeekRef.current;
+        pendingSeekRef.current = null;
+      }
+    };
+
+    const handleError = () => {
+      if (!audio.getAttribute('src')) return;
+      console.error("Music playback failed", audio.error);
+      setIsPlaying(false);
+    };
+
+    audio.addEventListener('timeupdate', handleTimeUpdate);
+    audio.addEventListener('ended', handleEnded);
+    audio.addEventListener('loadedmetadata', handleLoadedMetadata);
+    audio.addEventListener('error', handleError);
+
+    return () => {
+      audio.removeEventListener('timeupdate', handleTimeUpdate);
+      audio.removeEventListener('ended', handleEnded);
+      audio.removeEventListener('loadedmetadata', handleLoadedMetadata);
+      audio.removeEventListener('error', handleError);
+    };
+  }, []);
+
+  useEffect(() => {
+    // Load track when currentTrack changes
+    setProgress(0);
+    setDuration(0);
+    if (currentTrack.url) {
+      // Episodes pick up where they were left off
+      pendingSeekRef.current = currentTrack.kind === 'EPISODE' ? resumePositions[currentTrack.id] ?? null : null;
+      if (audioRef.current.src !== currentTrack.url) audioRef.current.src = currentTrack.url;
+      if (isPlaying) {
+        audioRef.current.play().catch(e => console.error("Play failed", e));
+      }
+    } else {
+      // Stop if it's a dummy track
+      audioRef.current.pause();
+    }
+  }, [currentTrack.id, currentTrack.url]);
+
+  useEffect(() => {
+    if (currentTrack.url) {
+      if (isPlaying) audioRef.current.play().catch(e => console.error("Play failed", e));
+      else audioRef.current.pause();
+    }
+  }, [isPlaying]);
+
+  // Radio stations announce the song on air
+  useEffect(() => {
+    setNowPlaying(null);
+    if (currentTrack.kind !== 'STREAM' || !currentTrack.url || !isPlaying) return;
+    const controller = new AbortController();
+    watchIcyMetadata(currentTrack.url, setNowPlaying, controller.signal);
+    return () => controller.abort();
+  }, [currentTrack.id, currentTrack.url, isPlaying]);
+
+  const updateTrack = (id: string, changes: Partial<MusicTrack>) => {
+    setLibrary(prev => prev.map(t => t.id === id ? { ...t, ...changes } : t));
+    setCurrentTrack(prev => prev.id === id ? { ...prev, ...changes } : prev);
+  };
+
+  const describeInBackground = (track: MusicTrack, file: Blob, url: string) => {
+    describeFile(track, file, url)
+      .then(changes => updateTrack(track.id, changes))
+      .catch(err => console.error("Failed to read track details", err));
+  };
+
+  // Restore the library and re-attach its files from IndexedDB after a reload
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([loadLibrary(), loadTrackBlobs()])
+      .then(([saved, stored]) => {
+        if (cancelled) return;
+        const urls = new Map(stored.map(t => [t.id, URL.createObjectURL(t.blob)]));
+        const attach = (track: MusicTrack) => urls.has(track.id) ? { ...track, url: urls.get(track.id) } : track;
+        const tracks = (saved ?? library)
+          .map(track => track.artist === LEGACY_UNKNOWN_ARTIST ? { ...track, artist: '' } : track)
+          .map(attach);
+        setLibrary(tracks);
+        setCurrentTrack(prev => attach(tracks.find(t => t.id === prev.id) ?? tracks[0] ?? EMPTY_TRACK));
+
+        // Uploads from before durations were read still need theirs
+        stored.forEach(({ id, blob }) => {
+          const track = tracks.find(t => t.id === id);
+          if (track?.duration === UNKNOWN_DURATION) describeInBackground(track, blob, urls.get(id)!);
+        });
+        // ... and older ones a hash for dedupe, one file at a time
+        const hashes = new Map<string, string>();
+        restoredHashesRef.current = stored
+          .filter(({ id }) => !tracks.find(t => t.id === id)?.contentHash)
+          .reduce((chain, { id, blob }) => chain
+            .then(() => hashBlob(blob))
+            .then(contentHash => {
+              hashes.set(id, contentHash);
+              if (!cancelled) updateTrack(id, { contentHash });
+            }), Promise.resolve())
+          .catch(err => console.error("Failed to fingerprint music files", err))
+          .then(() => hashes);
+      })
+      .catch(err => console.error("Failed to restore music files", err))
+      .finally(() => { if (!cancelled) setLibraryLoaded(true); });
+    return () => { cancelled = true; };
+  }, []);
+
+  useEffect(() => {
+    if (!libraryLoaded) return;
+    const timer = setTimeout(() => {
+      saveLibrary(library.map(stripTrackUrl))
+        // The copy in the settings has served its purpose once IndexedDB has one
+        .then(() => { if (loadSetting('library')) saveSetting('library', undefined); })
+        .catch(err => console.error("Failed to save the music library", err));
+    }, SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [library, libraryLoaded]);
+
+  // Adds the files that aren't in the library yet (same bytes = same track).
+  // Playback starts if there was nothing playable before; tags and durations
+  // fill in once the files have been read.
+  const addFiles = async (files: File[]): Promise<MusicImportResult> => {
+    const wasEmpty = currentTrackRef.current.id === EMPTY_TRACK_ID || libraryRef.current.every(t => !t.url);
+    const restoredHashes = await restoredHashesRef.current;
+    // Checked per file: the library may change while the files are hashed
+    const isKnown = (contentHash: string) => importingHashesRef.current.has(contentHash)
+      || libraryRef.current.some(t => (t.contentHash ?? restoredHashes.get(t.id)) === contentHash);
+    const newTracks: MusicTrack[] = [];
+    let duplicates = 0;
+
+    try {
+      // One file in memory at a time, folders can be large
+      for (const [index, file] of files.entries()) {
+        const contentHash = await hashBlob(file);
+        if (isKnown(contentHash)) {
+          duplicates++;
+          continue;
+        }
+        importingHashesRef.current.add(contentHash);
+
+        const track: MusicTrack = {
+          id: `local-${Date.now()}-${index}`,
+          title: file.name.replace(/\.[^/.]+$/, ""), // Remove extension
+          artist: '', // Until the tags are read
+          duration: UNKNOWN_DURATION,
+          contentHash,
+          url: URL.createObjectURL(file)
+        };
+        newTracks.push(track);
+        await saveTrackBlob({ id: track.id, blob: file });
+        describeInBackground(track, file, track.url!);
+      }
+
+      if (newTracks.length > 0) {
+        requestPersistentStorage().catch(err => console.warn("Persistent storage not granted", err));
+        // Filter out the 'empty' placeholder if it exists
+        const withNewTracks = (tracks: MusicTrack[]) => [...tracks.filter(t => t.id !== EMPTY_TRACK_ID), ...newTracks];
+        libraryRef.current = withNewTracks(libraryRef.current);
+        setLibrary(withNewTracks);
+        if (wasEmpty) {
+          setCurrentTrack(newTracks[0]);
+          setSourceId(LIBRARY_ID);
+          setIsPlaying(true);
+        }
+      }
+    } finally {
+      newTracks.forEach(track => importingHashesRef.current.delete(track.contentHash!));
+    }
+    return { added: newTracks, duplicates };
+  };
+
+  const deleteTrack = (trackId: string) => {
+    deleteTrackBlob(trackId).catch(err => console.error("Failed to delete music file", err));
+    // Frees the file's memory; only uploads have an object URL
+    const url = findTrack(trackId)?.url;
+    if (url?.startsWith('blob:')) URL.revokeObjectURL(url);
+    const newLibrary = library.filter(t => t.id !== trackId);
+    setLibrary(newLibrary);
+    setPlaylists(prev => prev.map(p => ({ ...p, trackIds: p.trackIds.filter(id => id !== trackId) })));
+    setQueueIds(prev => prev.filter(id => id !== trackId));
+
+    if (currentTrack.id === trackId) {
+      setIsPlaying(false);
+      audioRef.current.pause();
+      // Placeholder for empty state
+      setCurrentTrack(newLibrary[0] || EMPTY_TRACK);
+    }
+  };
+
+  const selectTrack = (track: MusicTrack, source = sourceId) => {
+    if (playback.shuffle && source !== sourceId) {
+      setShuffleOrder(shuffleIds(tracksOf(source).map(t => t.id), track.id));
+    }
+    setSourceId(source);
+    setCurrentTrack(track);
+  };
+
+  const setShuffle = (shuffle: boolean) => {
+    // A fresh shuffle starts from the current track
+    if (shuffle) setShuffleOrder(shuffleIds(sourceIds, currentTrack.id));
+    setPlayback(prev => ({ ...prev, shuffle }));
+  };
+
+  const moveTrack = (id: string, from: number, to: number) => {
+    if (id === LIBRARY_ID) setLibrary(prev => moveItem(prev, from, to));
+    else setPlaylists(prev => prev.map(p => p.id === id ? { ...p, trackIds: moveItem(p.trackIds, from, to) } : p));
+  };
+
+  const enqueue = (trackId: string, playNext = false) => {
+    setQueueIds(prev => playNext ? [trackId, ...prev] : [...prev, trackId]);
+  };
+
+  const createPlaylist = (name: string): Playlist => {
+    const playlist: Playlist = { id: `playlist-${Date.now()}`, name, trackIds: [] };
+    setPlaylists(prev => [...prev, playlist]);
+    return playlist;
+  };
+
+  const deletePlaylist = (playlistId: string) => {
+    setPlaylists(prev => prev.filter(p => p.id !== playlistId));
+    if (sourceId === playlistId) setSourceId(LIBRARY_ID);
+  };
+
+  const updatePlaylist = (playlistId: string, update: (playlist: Playlist) => Playlist) => {
+    setPlaylists(prev => prev.map(p => p.id === playlistId ? update(p) : p));
+  };
+
+  const seek = (value: number) => {
+    const audio = audioRef.current;
+    if (Number.isFinite(audio.duration) && audio.duration) {
+      audio.currentTime = value * audio.duration;
+      setProgress(value);
+    }
+  };
+
+  const connectOutput = (ctx: AudioContext, destination: AudioNode) => {
+    if (routedRef.current) return;
+    ctx.createMediaElementSource(audioRef.current).connect(destination);
+    routedRef.current = true;
+    audioRef.current.volume = 1;
+  };
+
+  return {
+    library,
+    playlists,
+    queue: queueIds.map(findTrack).filter((t): t is MusicTrack => t !== undefined),
+    sourceId,
+    currentTrack,
+    isPlaying,
+    progress,
+    position: progress * duration,
+    duration,
+    shuffle: playback.shuffle,
+    repeat: playback.repeat,
+    nowPlaying,
+    resumePositions,
+    setPlaying: setIsPlaying,
+    selectTrack,
+    next: () => advance(1),
+    previous: () => advance(-1),
+    seek,
+    setShuffle,
+    setRepeat: (repeat) => setPlayback(prev => ({ ...prev, repeat })),
+    tracksOf,
+    moveTrack,
+    enqueue,
+    removeFromQueue: (index) => setQueueIds(prev => prev.filter((_, i) => i !== index)),
+    moveInQueue: (from, to) => setQueueIds(prev => moveItem(prev, from, to)),
+    createPlaylist,
+    renamePlaylist: (playlistId, name) => updatePlaylist(playlistId, p => ({ ...p, name })),
+    deletePlaylist,
+    addToPlaylist: (playlistId, trackId) =>
+      updatePlaylist(playlistId, p => p.trackIds.includes(trackId) ? p : { ...p, trackIds: [...p.trackIds, trackId] }),
+    removeFromPlaylist: (playlistId, index) =>
+      updatePlaylist(playlistId, p => ({ ...p, trackIds: p.trackIds.filter((_, i) => i !== index) })),
+    addFiles,
+    deleteTrack,
+    connectOutput
+  };
+};
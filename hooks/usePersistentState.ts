@@ -0,0 +1,24 @@
+import { useEffect, useState } from 'react';
+import { loadSetting, PersistedSettings, saveSetting } from '../services/storage';
+
+// Writes are debounced so slider drags don't hammer localStorage
+const SAVE_DELAY_MS = 250;
+
+// useState backed by a persisted setting, restored on reload.
+// `toStored` can drop fields that must not outlive the page (e.g. Blob URLs).
+export const usePersistentState = <K extends keyof PersistedSettings>(
+  key: K,
+  defaultValue: Exclude<PersistedSettings[K], undefined>,
+  toStored?: (value: Exclude<PersistedSettings[K], undefined>) => PersistedSettings[K]
+) => {
+  const [value, setValue] = useState<Exclude<PersistedSettings[K], undefined>>(
+    () => (loadSetting(key) ?? defaultValue) as Exclude<PersistedSettings[K], undefined>
+  );
+
+  useEffect(() => {
+    const timer = setTimeout(() => saveSetting(key, toStored ? toStored(value) : value), SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [key, value]);
+
+  return [value, setValue] as const;
+};
@@ -0,0 +1,21 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createAlarm } from './alarmEngine';
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('createAlarm', () => {
+  it('gives alarms created in the same millisecond different ids', () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date(2025, 5, 1, 7, 0));
+    const first = createAlarm(7, 0);
+    const second = createAlarm(7, 30);
+    expect(second.id).not.toBe(first.id);
+    expect(second.id).toBeGreaterThan(first.id);
+  });
+
+  it('starts enabled, one-off and unlabelled', () => {
+    expect(createAlarm(6, 45)).toMatchObject({ hour: 6, minute: 45, enabled: true, label: '', repeatDays: [] });
+  });
+});
@@ -0,0 +1,83 @@
+import { Alarm, UiLocale } from "../types";
+import { createTranslator, weekdayLetters } from "./i18n";
+
+export const SNOOZE_MINUTES = 5;
+// An alarm still rings if the tab was asleep through its minute, up to this late
+const MISSED_ALARM_GRACE_MS = 2 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Ids are creation times, bumped when two alarms share a millisecond (a
+// reply setting several at once)
+let lastAlarmId = 0;
+const nextAlarmId = (): number => {
+  lastAlarmId = Math.max(Date.now(), lastAlarmId + 1);
+  return lastAlarmId;
+};
+
+export const createAlarm = (hour: number, minute: number): Alarm => ({
+  id: nextAlarmId(),
+  hour,
+  minute,
+  enabled: true,
+  label: '',
+  repeatDays: [],
+  tone: 'CHIME'
+});
+
+// Most recent scheduled time at or before `now`, honouring repeat days
+const lastScheduledAt = (alarm: Alarm, now: Date): number | null => {
+  for (let daysBack = 0; daysBack <= 7; daysBack++) {
+    const candidate = new Date(now.getTime() - daysBack * DAY_MS);
+    candidate.setHours(alarm.hour, alarm.minute, 0, 0);
+    if (candidate.getTime() > now.getTime()) continue;
+    if (alarm.repeatDays.length === 0 || alarm.repeatDays.includes(candidate.getDay())) {
+      return candidate.getTime();
+    }
+  }
+  return null;
+};
+
+export const isAlarmDue = (alarm: Alarm, now: Date): boolean => {
+  if (!alarm.enabled) return false;
+
+  if (alarm.snoozedUntil) {
+    return now.getTime() >= alarm.snoozedUntil;
+  }
+
+  const scheduled = lastScheduledAt(alarm, now);
+  if (scheduled === null) return false;
+  if (now.getTime() - scheduled > MISSED_ALARM_GRACE_MS) return false;
+  return (alarm.lastFiredAt ?? 0) < scheduled;
+};
+
+export const markAlarmFired = (alarm: Alarm, now: Date): Alarm => ({
+  ...alarm,
+  lastFiredAt: now.getTime(),
+  snoozedUntil: undefined
+});
+
+export const snoozeAlarm = (alarm: Alarm, now: Date, minutes: number = SNOOZE_MINUTES): Alarm => ({
+  ...alarm,
+  snoozedUntil: now.getTime() + minutes * 60 * 1000
+});
+
+// One-shot alarms switch themselves off once dismissed
+export const dismissAlarm = (alarm: Alarm): Alarm => ({
+  ...alarm,
+  snoozedUntil: undefined,
+  enabled: alarm.repeatDays.length > 0 ? alarm.enabled : false
+});
+
+export const describeRepeatDays = (repeatDays: number[], locale: UiLocale = 'en'): string => {
+  const t = createTranslator(locale);
+  if (repeatDays.length === 0) return t('alarm.once');
+  if (repeatDays.length === 7) return t('alarm.everyDay');
+  const sorted = [...repeatDays].sort();
+  if (sorted.join() === '1,2,3,4,5') return t('alarm.weekdays');
+  if (sorted.join() === '0,6') return t('alarm.weekends');
+  const letters = weekdayLetters(locale);
+  return sorted.map(d => letters[d]).join(' ');
+};
+
+export const formatAlarmTime = (alarm: Pick<Alarm, 'hour' | 'minute'>): string =>
+  `${String(alarm.hour).padStart(2, '0')}:${String(alarm.minute).padStart(2, '0')}`;
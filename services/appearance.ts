@@ -0,0 +1,188 @@
+import { BangbooSkin } from "../types";
+import { ExpressionDefinition, EyeShape, NUMERIC_KEYS } from "./eyeAnimation";
+
+// Skins and custom expressions are plain JSON, so they can be saved with the
+// settings and shared as files.
+
+export const BUILT_IN_SKINS: BangbooSkin[] = [
+  {
+    id: 'shark',
+    name: 'Shark Boo',
+    eyeColor: '#facc15',
+    teethColor: '#f3f4f6',
+    screenRim: '#dc2626',
+    body: '#60a5fa',
+    bodyShade: '#2563eb',
+    limbs: '#3b82f6',
+    belly: '#f9fafb',
+    fin: true,
+    patch: { text: 'SHARK', color: '#dc2626' }
+  },
+  {
+    id: 'classic',
+    name: 'Classic',
+    eyeColor: '#22d3ee',
+    teethColor: '#e5e7eb',
+    screenRim: '#f59e0b',
+    body: '#6b7280',
+    bodyShade: '#374151',
+    limbs: '#4b5563',
+    belly: '#d1d5db',
+    fin: false
+  },
+  {
+    id: 'sakura',
+    name: 'Sakura',
+    eyeColor: '#f0abfc',
+    teethColor: '#fdf2f8',
+    screenRim: '#a855f7',
+    body: '#f9a8d4',
+    bodyShade: '#db2777',
+    limbs: '#ec4899',
+    belly: '#fff1f2',
+    fin: false,
+    patch: { text: 'BLOOM', color: '#a855f7' }
+  }
+];
+
+export const DEFAULT_SKIN_ID = 'shark';
+
+export const findSkin = (skins: BangbooSkin[], id: string): BangbooSkin =>
+  skins.find(skin => skin.id === id) ?? BUILT_IN_SKINS[0];
+
+export const isBuiltInSkin = (id: string): boolean => BUILT_IN_SKINS.some(skin => skin.id === id);
+
+// --- IMPORT / EXPORT ---
+
+const PACK_FORMAT = 'bangboo-appearance';
+const PACK_VERSION = 1;
+
+export interface AppearancePack {
+  skins: BangbooSkin[];
+  expressions: ExpressionDefinition[];
+}
+
+export const exportAppearancePack = (pack: AppearancePack): string =>
+  JSON.stringify({ format: PACK_FORMAT, version: PACK_VERSION, ...pack }, null, 2);
+
+const SKIN_COLOR_KEYS = ['eyeColor', 'teethColor', 'screenRim', 'body', 'bodyShade', 'limbs', 'belly'] as const;
+const COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// The UI shows these translated, filling in `params` (the skin or
+// expression at fault); the message has the detail for the console
+export type AppearancePackErrorCode = 'NOT_JSON' | 'WRONG_FILE' | 'VERSION' | 'BAD_SKIN' | 'BAD_EXPRESSION';
+
+export interface AppearancePackError extends Error {
+  code: AppearancePackErrorCode;
+  params: Record<string, string | number>;
+}
+
+const packError = (code: AppearancePackErrorCode, message: string, params: Record<string, string | number> = {}): AppearancePackError =>
+  Object.assign(new Error(message), { name: 'AppearancePackError', code, params });
+
+export const isAppearancePackError = (error: unknown): error is AppearancePackError =>
+  error instanceof Error && error.name === 'AppearancePackError';
+
+const validateSkin = (value: unknown, index: number): BangbooSkin => {
+  const badSkin = (skin: string | number, message: string) => packError('BAD_SKIN', message, { skin });
+  if (!isObject(value)) throw badSkin(index + 1, `Skin ${index + 1} is not an object`);
+  if (typeof value.id !== 'string' || !value.id) throw badSkin(index + 1, `Skin ${index + 1} has no id`);
+  if (typeof value.name !== 'string') throw badSkin(`"${value.id}"`, `Skin "${value.id}" has no name`);
+  for (const key of SKIN_COLOR_KEYS) {
+    if (typeof value[key] !== 'string' || !COLOR_PATTERN.test(value[key])) {
+      throw badSkin(`"${value.id}"`, `Skin "${value.id}": ${key} must be a #rrggbb color`);
+    }
+  }
+  const patch = isObject(value.patch) && typeof value.patch.text === 'string' && COLOR_PATTERN.test(value.patch.color)
+    ? { text: value.patch.text, color: value.patch.color }
+    : undefined;
+  return {
+    id: value.id,
+    name: value.name,
+    eyeColor: value.eyeColor,
+    teethColor: value.teethColor,
+    screenRim: value.screenRim,
+    body: value.body,
+    bodyShade: value.bodyShade,
+    limbs: value.limbs,
+    belly: value.belly,
+    fin: Boolean(value.fin),
+    patch
+  };
+};
+
+const badExpression = (expression: string | number, message: string) =>
+  packError('BAD_EXPRESSION', message, { expression });
+
+// Keeps the known shape fields with the right types, drops anything else
+const validateShape = (value: unknown, name: string, where: string): Partial<EyeShape> => {
+  if (value === undefined) return {};
+  if (!isObject(value)) throw badExpression(`"${name}"`, `"${name}".${where} must be an object`);
+  const shape: Partial<EyeShape> = {};
+  for (const key of NUMERIC_KEYS) {
+    if (value[key] === undefined) continue;
+    if (typeof value[key] !== 'number' || !Number.isFinite(value[key])) {
+      throw badExpression(`"${name}"`, `"${name}".${where}.${key} must be a number`);
+    }
+    shape[key] = value[key];
+  }
+  if (typeof value.glyph === 'string') shape.glyph = value.glyph;
+  if (typeof value.spin === 'boolean') shape.spin = value.spin;
+  return shape;
+};
+
+export const validateExpression = (value: unknown, index: number): ExpressionDefinition => {
+  if (!isObject(value)) throw badExpression(index + 1, `Expression ${index + 1} is not an object`);
+  if (typeof value.name !== 'string' || !value.name.trim()) throw badExpression(index + 1, `Expression ${index + 1} has no name`);
+  const name = value.name.trim();
+
+  const keyframes = value.keyframes;
+  if (keyframes !== undefined && !Array.isArray(keyframes)) throw badExpression(`"${name}"`, `"${name}": keyframes must be a list`);
+
+  return {
+    name,
+    left: validateShape(value.left, name, 'left'),
+    right: value.right === undefined ? undefined : validateShape(value.right, name, 'right'),
+    keyframes: keyframes?.map((frame: unknown, i: number) => {
+      if (!isObject(frame) || typeof frame.at !== 'number') {
+        throw badExpression(`"${name}"`, `"${name}": keyframe ${i + 1} needs an "at" between 0 and 1`);
+      }
+      return {
+        at: Math.max(0, Math.min(1, frame.at)),
+        both: frame.both === undefined ? undefined : validateShape(frame.both, name, `keyframes[${i}].both`),
+        left: frame.left === undefined ? undefined : validateShape(frame.left, name, `keyframes[${i}].left`),
+        right: frame.right === undefined ? undefined : validateShape(frame.right, name, `keyframes[${i}].right`)
+      };
+    }),
+    durationMs: typeof value.durationMs === 'number' && value.durationMs > 0 ? value.durationMs : undefined,
+    loop: typeof value.loop === 'boolean' ? value.loop : undefined,
+    idleMotion: typeof value.idleMotion === 'boolean' ? value.idleMotion : undefined
+  };
+};
+
+// Throws an AppearancePackError when the file isn't a valid pack
+export const parseAppearancePack = (json: string): AppearancePack => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (e) {
+    throw packError('NOT_JSON', 'Not a JSON file');
+  }
+  if (!isObject(data) || data.format !== PACK_FORMAT) throw packError('WRONG_FILE', 'Not a Bangboo appearance file');
+  if (typeof data.version !== 'number' || data.version > PACK_VERSION) {
+    throw packError('VERSION', `Unsupported appearance file version ${data.version}`, { version: String(data.version) });
+  }
+  return {
+    skins: Array.isArray(data.skins) ? data.skins.map(validateSkin) : [],
+    expressions: Array.isArray(data.expressions) ? data.expressions.map(validateExpression) : []
+  };
+};
+
+// Imported entries replace saved ones with the same id / name
+export const mergeById = <T>(current: T[], incoming: T[], key: (item: T) => string): T[] => [
+  ...current.filter(item => !incoming.some(other => key(other) === key(item))),
+  ...incoming
+];
@@ -0,0 +1,76 @@
+import { EqPreset, EqualizerSettings } from "../types";
+
+// One Web Audio graph for everything Bangboo plays, so sources can be mixed,
+// ducked and analysed together:
+//
+//   music element -> EQ bands -> music gain (ducking) --\
+//   speech (TTS, live audio) -> speech gain -------------+-> master gain -> speakers
+//   effects (alarms) -> effects gain -------------------/
+
+export const EQ_BANDS_HZ = [60, 230, 910, 3600, 14000];
+export const EQ_MAX_DB = 12;
+
+// Labels live in the i18n bundles under `sound.<preset>`
+export const EQ_PRESETS: Record<EqPreset, { gains: number[] }> = {
+  FLAT: { gains: [0, 0, 0, 0, 0] },
+  BASS_BOOST: { gains: [7, 4, 0, 0, 0] },
+  VOCAL: { gains: [-3, -1, 3, 4, 1] },
+  TREBLE_BOOST: { gains: [0, 0, 0, 4, 7] },
+  NIGHT: { gains: [-6, -2, 1, 0, -4] } // Soft lows and highs for quiet rooms
+};
+
+export const DEFAULT_EQUALIZER: EqualizerSettings = { preset: 'FLAT', gains: EQ_PRESETS.FLAT.gains };
+
+const DUCK_GAIN = 0.25; // Music level while Bangboo listens or speaks
+const DUCK_ATTACK_S = 0.08; // Time constants of the gain ramps
+const DUCK_RELEASE_S = 0.4;
+const VOLUME_RAMP_S = 0.1;
+
+export interface AudioEngine {
+  ctx: AudioContext;
+  musicInput: AudioNode;
+  speechInput: AudioNode;
+  effectsInput: AudioNode;
+  output: AudioNode; // Master mix, for analysers
+  setVolume(volume: number): void; // 0-1
+  setEqualizer(gains: number[]): void; // dB per band
+  setDucked(ducked: boolean): void;
+}
+
+export const createAudioEngine = (ctx: AudioContext, volume: number, eqGains: number[]): AudioEngine => {
+  const master = ctx.createGain();
+  master.gain.value = volume;
+  master.connect(ctx.destination);
+
+  const musicGain = ctx.createGain();
+  const speechGain = ctx.createGain();
+  const effectsGain = ctx.createGain();
+  [musicGain, speechGain, effectsGain].forEach(bus => bus.connect(master));
+
+  // Shelves at both ends, peaking bands in between
+  const bands = EQ_BANDS_HZ.map((frequency, i) => {
+    const filter = ctx.createBiquadFilter();
+    filter.type = i === 0 ? 'lowshelf' : i === EQ_BANDS_HZ.length - 1 ? 'highshelf' : 'peaking';
+    filter.frequency.value = frequency;
+    filter.Q.value = 1;
+    filter.gain.value = eqGains[i] ?? 0;
+    return filter;
+  });
+  bands.slice(0, -1).forEach((band, i) => band.connect(bands[i + 1]));
+  bands[bands.length - 1].connect(musicGain);
+
+  return {
+    ctx,
+    musicInput: bands[0],
+    speechInput: speechGain,
+    effectsInput: effectsGain,
+    output: master,
+    setVolume: (value) => master.gain.setTargetAtTime(value, ctx.currentTime, VOLUME_RAMP_S),
+    setEqualizer: (gains) => bands.forEach((band, i) => {
+      band.gain.setTargetAtTime(gains[i] ?? 0, ctx.currentTime, VOLUME_RAMP_S);
+    }),
+    setDucked: (ducked) => musicGain.gain.setTargetAtTime(
+      ducked ? DUCK_GAIN : 1, ctx.currentTime, ducked ? DUCK_ATTACK_S : DUCK_RELEASE_S
+    )
+  };
+};
@@ -0,0 +1,93 @@
+import { readFileSync } from 'fs';
+import { JSDOM } from 'jsdom';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { FixtureServer, startFixtureServer } from '../utils/fixtures/server';
+import { episodeTrack, fetchPodcastFeed, parsePodcastFeed } from './audioStreams';
+
+const podcastXml = readFileSync(new URL('../utils/fixtures/podcast.xml', import.meta.url), 'utf-8');
+
+// Node has no DOMParser; fetch stays Node's own
+vi.stubGlobal('DOMParser', new JSDOM().window.DOMParser);
+
+const expectFeedError = (run: () => unknown, code: string) => {
+  try {
+    run();
+  } catch (e) {
+    expect(e).toMatchObject({ code });
+    return;
+  }
+  throw new Error(`Expected a ${code} feed error`);
+};
+
+describe('parsePodcastFeed', () => {
+  const feed = parsePodcastFeed(podcastXml, 'https://example.com/feed.xml');
+
+  it('reads the channel', () => {
+    expect(feed).toMatchObject({
+      id: 'https://example.com/feed.xml',
+      title: 'Sixth Street Radio',
+      author: 'Bangboo Network',
+      imageUrl: 'https://example.com/cover.jpg'
+    });
+  });
+
+  it('keeps items with audio, newest first', () => {
+    expect(feed.episodes.map(episode => episode.title)).toEqual(['Episode 3', 'Episode 2', 'Episode 1']);
+  });
+
+  it('falls back to the enclosure URL when an item has no guid', () => {
+    expect(feed.episodes[1].id).toBe('https://example.com/ep2.mp3');
+  });
+
+  it('reads itunes:duration as seconds, MM:SS or HH:MM:SS', () => {
+    expect(feed.episodes.map(episode => episode.durationSeconds)).toEqual([3723, 90, 2710]);
+    expect(episodeTrack(feed, feed.episodes[0], 'en').duration).toBe('1:02:03');
+  });
+
+  it('names untitled episodes in the UI language', () => {
+    const xml = '<rss><channel><title>Feed</title><item><enclosure url="https://example.com/a.mp3"/></item></channel></rss>';
+    const untitled = parsePodcastFeed(xml, 'x');
+    expect(untitled.episodes[0].title).toBe('');
+    expect(episodeTrack(untitled, untitled.episodes[0], 'ja').title).toBe('無題のエピソード');
+  });
+
+  it('takes the RSS image when there is no itunes:image', () => {
+    const xml = podcastXml.replace(/<itunes:image[^>]*\/>/, '');
+    expect(parsePodcastFeed(xml, 'https://example.com/feed.xml').imageUrl).toBe('https://example.com/rss-cover.jpg');
+  });
+
+  it('rejects what is not a podcast feed with a code', () => {
+    expectFeedError(() => parsePodcastFeed('<rss><channel>', 'x'), 'NOT_XML');
+    expectFeedError(() => parsePodcastFeed('<html><body/></html>', 'x'), 'NOT_RSS');
+    expectFeedError(() => parsePodcastFeed('<rss><channel><item><title>No audio</title></item></channel></rss>', 'x'), 'NO_EPISODES');
+  });
+});
+
+describe('fetchPodcastFeed', () => {
+  let server: FixtureServer;
+
+  beforeAll(async () => {
+    server = await startFixtureServer({
+      '/feed.xml': (req, res) => res.writeHead(200, { 'Content-Type': 'application/rss+xml' }).end(podcastXml),
+      '/gone.xml': (req, res) => res.writeHead(410).end()
+    });
+  });
+
+  afterAll(() => server.close());
+
+  it('loads and parses a feed over HTTP', async () => {
+    const feed = await fetchPodcastFeed(server.url('/feed.xml'));
+    expect(feed.url).toBe(server.url('/feed.xml'));
+    expect(feed.episodes).toHaveLength(3);
+  });
+
+  it('reports the status of a failed answer', async () => {
+    await expect(fetchPodcastFeed(server.url('/gone.xml'))).rejects.toMatchObject({ code: 'HTTP', status: 410 });
+  });
+
+  it('reports an unreachable server', async () => {
+    const url = server.url('/feed.xml');
+    await server.close();
+    await expect(fetchPodcastFeed(url)).rejects.toMatchObject({ code: 'UNREACHABLE' });
+  });
+});
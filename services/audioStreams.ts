@@ -0,0 +1,126 @@
+import { MusicTrack, PodcastEpisode, PodcastFeed, RadioStation, UiLocale } from "../types";
+import { createTranslator } from "./i18n";
+
+// Network audio for the music app: internet radio streams and podcast RSS
+// feeds. Both end up as MusicTracks with an HTTP URL; the feed server has
+// to allow CORS for the browser to read it.
+
+const MAX_EPISODES = 50; // Newest first; keeps the saved feeds small
+const ITUNES_NS = 'http://www.itunes.com/dtds/podcast-1.0.dtd';
+
+// The UI shows these translated; the message is only for the console
+export type FeedErrorCode =
+  | 'UNREACHABLE' // Offline, or the server doesn't allow CORS
+  | 'HTTP' // Non-2xx answer; see `status`
+  | 'NOT_XML'
+  | 'NOT_RSS'
+  | 'NO_EPISODES'; // No item has an audio enclosure
+
+export interface FeedError extends Error {
+  code: FeedErrorCode;
+  status?: number;
+}
+
+const feedError = (code: FeedErrorCode, message: string, status?: number): FeedError =>
+  Object.assign(new Error(message), { name: 'FeedError', code, status });
+
+export const isFeedError = (error: unknown): error is FeedError =>
+  error instanceof Error && typeof (error as FeedError).code === 'string';
+
+export const stationTrack = (station: RadioStation, locale: UiLocale): MusicTrack => ({
+  id: station.id,
+  title: station.name,
+  artist: createTranslator(locale)('music.radioArtist'),
+  duration: 'LIVE',
+  kind: 'STREAM',
+  url: station.url
+});
+
+const formatDuration = (seconds: number): string => {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor(seconds % 3600 / 60);
+  const s = Math.floor(seconds % 60).toString().padStart(2, '0');
+  return h > 0 ? `${h}:${m.toString().padStart(2, '0')}:${s}` : `${m}:${s}`;
+};
+
+export const episodeTrack = (feed: PodcastFeed, episode: PodcastEpisode, locale: UiLocale): MusicTrack => ({
+  id: `episode:${feed.id}:${episode.id}`,
+  title: episode.title || createTranslator(locale)('music.untitledEpisode'),
+  artist: feed.title,
+  duration: episode.durationSeconds ? formatDuration(episode.durationSeconds) : '--:--',
+  coverArt: feed.imageUrl,
+  kind: 'EPISODE',
+  url: episode.audioUrl
+});
+
+// A name for a stream added by URL alone, e.g. "radio.example.com"
+export const stationNameFromUrl = (url: string): string => {
+  try {
+    return new URL(url).hostname;
+  } catch (e) {
+    return url;
+  }
+};
+
+// itunes:duration is seconds, MM:SS or HH:MM:SS
+const parseDuration = (value: string | null | undefined): number | undefined => {
+  if (!value) return undefined;
+  const seconds = value.trim().split(':').reduce((total, part) => total * 60 + Number(part), 0);
+  return Number.isFinite(seconds) && seconds > 0 ? seconds : undefined;
+};
+
+const childText = (parent: Element, tag: string): string | undefined =>
+  parent.getElementsByTagName(tag)[0]?.textContent?.trim() || undefined;
+
+const itunesChild = (parent: Element, tag: string): Element | undefined =>
+  parent.getElementsByTagNameNS(ITUNES_NS, tag)[0];
+
+// Throws a FeedError when `xml` isn't an RSS podcast feed
+export const parsePodcastFeed = (xml: string, url: string): PodcastFeed => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) throw feedError('NOT_XML', 'The feed is not valid XML');
+  const channel = doc.getElementsByTagName('channel')[0];
+  if (!channel) throw feedError('NOT_RSS', 'Not an RSS feed');
+
+  const episodes: PodcastEpisode[] = Array.from(channel.getElementsByTagName('item'))
+    .map((item): PodcastEpisode | null => {
+      const enclosure = item.getElementsByTagName('enclosure')[0];
+      const audioUrl = enclosure?.getAttribute('url');
+      if (!audioUrl) return null;
+      const published = Date.parse(childText(item, 'pubDate') ?? '');
+      return {
+        id: childText(item, 'guid') ?? audioUrl,
+        title: childText(item, 'title') ?? '', // episodeTrack names it in the UI language
+        audioUrl,
+        publishedAt: Number.isNaN(published) ? undefined : published,
+        durationSeconds: parseDuration(itunesChild(item, 'duration')?.textContent)
+      };
+    })
+    .filter((episode): episode is PodcastEpisode => episode !== null)
+    .sort((a, b) => (b.publishedAt ?? 0) - (a.publishedAt ?? 0))
+    .slice(0, MAX_EPISODES);
+  if (episodes.length === 0) throw feedError('NO_EPISODES', 'The feed has no audio episodes');
+
+  // <image><url> is RSS; itunes:image carries it as an attribute
+  const channelImage = Array.from(channel.children).find(child => child.tagName === 'image');
+  return {
+    id: url,
+    url,
+    title: childText(channel, 'title') ?? stationNameFromUrl(url),
+    author: itunesChild(channel, 'author')?.textContent?.trim() || undefined,
+    imageUrl: itunesChild(channel, 'image')?.getAttribute('href') ?? (channelImage && childText(channelImage, 'url')),
+    episodes,
+    fetchedAt: Date.now()
+  };
+};
+
+export const fetchPodcastFeed = async (url: string): Promise<PodcastFeed> => {
+  let response: Response;
+  try {
+    response = await fetch(url);
+  } catch (e) {
+    throw feedError('UNREACHABLE', "Couldn't reach the feed (offline, or the server doesn't allow CORS)");
+  }
+  if (!response.ok) throw feedError('HTTP', `The feed server answered ${response.status}`, response.status);
+  return parsePodcastFeed(await response.text(), url);
+};
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import {
+  advancePomodoro, countdownRemaining, createCountdown, createPomodoro, createStopwatch, DEFAULT_POMODORO_SETTINGS,
+  isCountdownFinished, lapStopwatch, pauseCountdown, pauseStopwatch, startCountdown, startStopwatch, stopwatchElapsed
+} from './clockTimers';
+
+const T0 = 1_000_000;
+const MINUTE = 60_000;
+
+describe('countdown', () => {
+  it('counts down from wall-clock time while running', () => {
+    const running = startCountdown(createCountdown(10 * MINUTE), T0);
+    expect(countdownRemaining(running, T0 + 4 * MINUTE)).toBe(6 * MINUTE);
+    expect(isCountdownFinished(running, T0 + 9 * MINUTE)).toBe(false);
+    expect(isCountdownFinished(running, T0 + 10 * MINUTE)).toBe(true);
+    expect(countdownRemaining(running, T0 + 15 * MINUTE)).toBe(0);
+  });
+
+  it('keeps the remaining time while paused', () => {
+    const paused = pauseCountdown(startCountdown(createCountdown(10 * MINUTE), T0), T0 + 3 * MINUTE);
+    expect(countdownRemaining(paused, T0 + 60 * MINUTE)).toBe(7 * MINUTE);
+    expect(isCountdownFinished(paused, T0 + 60 * MINUTE)).toBe(false);
+    const resumed = startCountdown(paused, T0 + 60 * MINUTE);
+    expect(resumed.endsAt).toBe(T0 + 67 * MINUTE);
+  });
+
+  it('ignores starting twice, pausing when stopped and starting when empty', () => {
+    const running = startCountdown(createCountdown(MINUTE), T0);
+    expect(startCountdown(running, T0 + 1000)).toBe(running);
+    const stopped = createCountdown(MINUTE);
+    expect(pauseCountdown(stopped, T0)).toBe(stopped);
+    const empty = createCountdown(0);
+    expect(startCountdown(empty, T0)).toBe(empty);
+  });
+});
+
+describe('stopwatch', () => {
+  it('adds up running spans across pauses', () => {
+    let stopwatch = startStopwatch(createStopwatch(), T0);
+    stopwatch = pauseStopwatch(stopwatch, T0 + 5000);
+    expect(stopwatchElapsed(stopwatch, T0 + 60_000)).toBe(5000);
+    stopwatch = startStopwatch(stopwatch, T0 + 60_000);
+    expect(stopwatchElapsed(stopwatch, T0 + 62_000)).toBe(7000);
+  });
+
+  it('records laps only while running', () => {
+    let stopwatch = startStopwatch(createStopwatch(), T0);
+    stopwatch = lapStopwatch(stopwatch, T0 + 1500);
+    stopwatch = lapStopwatch(stopwatch, T0 + 4000);
+    expect(stopwatch.laps).toEqual([1500, 4000]);
+    const paused = pauseStopwatch(stopwatch, T0 + 5000);
+    expect(lapStopwatch(paused, T0 + 6000)).toBe(paused);
+  });
+});
+
+describe('advancePomodoro', () => {
+  const settings = DEFAULT_POMODORO_SETTINGS;
+
+  it('alternates work and breaks, with a long break every fourth block', () => {
+    let state = createPomodoro(settings);
+    const phases: string[] = [];
+    for (let i = 0; i < 8; i++) {
+      state = advancePomodoro(state, settings, T0);
+      phases.push(state.phase);
+    }
+    expect(phases).toEqual(['SHORT_BREAK', 'WORK', 'SHORT_BREAK', 'WORK', 'SHORT_BREAK', 'WORK', 'LONG_BREAK', 'WORK']);
+    expect(state.completedWorkBlocks).toBe(4);
+  });
+
+  it('starts the next phase when the last one ended', () => {
+    const running = { ...createPomodoro(settings), timer: startCountdown(createCountdown(25 * MINUTE), T0) };
+    const next = advancePomodoro(running, settings, T0 + 25 * MINUTE + 800);
+    expect(next.phase).toBe('SHORT_BREAK');
+    expect(next.timer.endsAt).toBe(T0 + 30 * MINUTE);
+  });
+
+  it('starts now when the next phase would already be over', () => {
+    const running = { ...createPomodoro(settings), timer: startCountdown(createCountdown(25 * MINUTE), T0) };
+    const now = T0 + 120 * MINUTE;
+    expect(advancePomodoro(running, settings, now).timer.endsAt).toBe(now + 5 * MINUTE);
+  });
+
+  it('leaves a paused cycle paused', () => {
+    expect(advancePomodoro(createPomodoro(settings), settings, T0).timer.endsAt).toBeNull();
+  });
+});
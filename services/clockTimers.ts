@@ -0,0 +1,90 @@
+import { Countdown, PomodoroPhase, PomodoroSettings, PomodoroState, Stopwatch } from "../types";
+
+// Pure state transitions for the Clock app. Every function takes `now`
+// (ms since epoch) so displays and completion checks derive from wall-clock
+// time instead of counting ticks.
+
+export const DEFAULT_POMODORO_SETTINGS: PomodoroSettings = {
+  workMinutes: 25,
+  shortBreakMinutes: 5,
+  longBreakMinutes: 15,
+  longBreakEvery: 4
+};
+
+// --- COUNTDOWN ---
+
+export const createCountdown = (durationMs: number): Countdown => ({
+  durationMs,
+  remainingMs: durationMs,
+  endsAt: null
+});
+
+export const countdownRemaining = (countdown: Countdown, now: number): number =>
+  countdown.endsAt === null ? countdown.remainingMs : Math.max(0, countdown.endsAt - now);
+
+export const startCountdown = (countdown: Countdown, now: number): Countdown =>
+  countdown.endsAt !== null || countdown.remainingMs <= 0
+    ? countdown
+    : { ...countdown, endsAt: now + countdown.remainingMs };
+
+export const pauseCountdown = (countdown: Countdown, now: number): Countdown =>
+  countdown.endsAt === null
+    ? countdown
+    : { ...countdown, remainingMs: countdownRemaining(countdown, now), endsAt: null };
+
+export const isCountdownFinished = (countdown: Countdown, now: number): boolean =>
+  countdown.endsAt !== null && now >= countdown.endsAt;
+
+// --- STOPWATCH ---
+
+export const createStopwatch = (): Stopwatch => ({ elapsedMs: 0, startedAt: null, laps: [] });
+
+export const stopwatchElapsed = (stopwatch: Stopwatch, now: number): number =>
+  stopwatch.elapsedMs + (stopwatch.startedAt === null ? 0 : now - stopwatch.startedAt);
+
+export const startStopwatch = (stopwatch: Stopwatch, now: number): Stopwatch =>
+  stopwatch.startedAt !== null ? stopwatch : { ...stopwatch, startedAt: now };
+
+export const pauseStopwatch = (stopwatch: Stopwatch, now: number): Stopwatch =>
+  stopwatch.startedAt === null
+    ? stopwatch
+    : { ...stopwatch, elapsedMs: stopwatchElapsed(stopwatch, now), startedAt: null };
+
+export const lapStopwatch = (stopwatch: Stopwatch, now: number): Stopwatch =>
+  stopwatch.startedAt === null
+    ? stopwatch
+    : { ...stopwatch, laps: [...stopwatch.laps, stopwatchElapsed(stopwatch, now)] };
+
+// --- POMODORO ---
+
+export const pomodoroPhaseMs = (phase: PomodoroPhase, settings: PomodoroSettings): number => {
+  const minutes = phase === 'WORK' ? settings.workMinutes
+    : phase === 'SHORT_BREAK' ? settings.shortBreakMinutes
+    : settings.longBreakMinutes;
+  return minutes * 60 * 1000;
+};
+
+export const createPomodoro = (settings: PomodoroSettings): PomodoroState => ({
+  phase: 'WORK',
+  completedWorkBlocks: 0,
+  timer: createCountdown(pomodoroPhaseMs('WORK', settings))
+});
+
+// Moves to the following phase. A running cycle keeps running: the next phase
+// starts exactly when the last one ended, unless that is already over too
+// (the tab slept through it), in which case it starts now.
+export const advancePomodoro = (state: PomodoroState, settings: PomodoroSettings, now: number): PomodoroState => {
+  const completedWorkBlocks = state.phase === 'WORK' ? state.completedWorkBlocks + 1 : state.completedWorkBlocks;
+  const phase: PomodoroPhase = state.phase !== 'WORK' ? 'WORK'
+    : completedWorkBlocks % settings.longBreakEvery === 0 ? 'LONG_BREAK'
+    : 'SHORT_BREAK';
+
+  const timer = createCountdown(pomodoroPhaseMs(phase, settings));
+  if (state.timer.endsAt === null) {
+    return { phase, completedWorkBlocks, timer };
+  }
+
+  const startAt = Math.min(state.timer.endsAt, now);
+  const endsAt = startAt + timer.durationMs > now ? startAt + timer.durationMs : now + timer.durationMs;
+  return { phase, completedWorkBlocks, timer: { ...timer, endsAt } };
+};
@@ -0,0 +1,208 @@
+import { EyeExpression } from "../types";
+
+// Procedural eye model. Every expression is a pair of numeric eye shapes, so
+// any two can be tweened into each other, plus optional keyframes that
+// animate the shape over a cycle. New expressions are plain data: register a
+// definition and the renderer draws it by name.
+
+export interface EyeShape {
+  width: number; // px
+  height: number; // px
+  radius: number; // Corner radius, % of the size (50 = ellipse)
+  ring: number; // Outline thickness in px; 0 draws a solid eye
+  arc: number; // 0-1 of the eye cut away from the bottom (a ring cut in half is a ^ eye)
+  rotate: number; // deg
+  x: number; // Offset from the resting position, px
+  y: number;
+  scale: number;
+  glow: number; // Glow radius, px
+  opacity: number;
+  glyph?: string; // Drawn as text instead of the shape, e.g. "X"
+  spin?: boolean; // Open-topped ring that keeps turning (loading)
+}
+
+export interface EyePose {
+  left: EyeShape;
+  right: EyeShape;
+}
+
+// Overrides applied at `at` (0-1 through the cycle); in between, values ease
+export interface ExpressionKeyframe {
+  at: number;
+  both?: Partial<EyeShape>;
+  left?: Partial<EyeShape>;
+  right?: Partial<EyeShape>;
+}
+
+export interface ExpressionDefinition {
+  name: string;
+  left: Partial<EyeShape>; // Missing values come from BASE_EYE
+  right?: Partial<EyeShape>; // Mirrored from `left` when omitted
+  keyframes?: ExpressionKeyframe[];
+  durationMs?: number; // Length of one keyframe cycle
+  loop?: boolean;
+  idleMotion?: boolean; // Blinks and looks around; default true
+}
+
+export const BASE_EYE: EyeShape = {
+  width: 56,
+  height: 20,
+  radius: 50,
+  ring: 0,
+  arc: 0,
+  rotate: 0,
+  x: 0,
+  y: 0,
+  scale: 1,
+  glow: 15,
+  opacity: 1
+};
+
+const ROUND_EYE: Partial<EyeShape> = { width: 40, height: 40, ring: 4 };
+
+const BUILT_IN_EXPRESSIONS: ExpressionDefinition[] = [
+  { name: EyeExpression.NORMAL, left: { rotate: -8 } },
+  { name: EyeExpression.HAPPY, left: { height: 32, ring: 6, arc: 0.55, y: 6, glow: 10 } },
+  { name: EyeExpression.SLEEPING, left: { height: 4, radius: 0, glow: 5 }, idleMotion: false },
+  { name: EyeExpression.SURPRISED, left: ROUND_EYE },
+  {
+    name: EyeExpression.LOADING,
+    left: { ...ROUND_EYE, x: 40, spin: true },
+    right: { ...ROUND_EYE, opacity: 0 },
+    idleMotion: false
+  },
+  {
+    name: EyeExpression.THINKING,
+    left: { ...ROUND_EYE, x: 40, spin: true },
+    right: { ...ROUND_EYE, opacity: 0 },
+    idleMotion: false
+  },
+  {
+    name: EyeExpression.LISTENING,
+    left: { width: 48, height: 48, ring: 6, glow: 20 },
+    keyframes: [{ at: 0, both: { scale: 1 } }, { at: 0.5, both: { scale: 1.08, glow: 26 } }, { at: 1, both: { scale: 1 } }],
+    durationMs: 1500,
+    loop: true
+  },
+  { name: EyeExpression.WIDE, left: { width: 64, height: 64, ring: 10, glow: 20 } },
+  {
+    name: EyeExpression.WINKING,
+    left: { rotate: -8 },
+    right: { height: 6, y: 8, glow: 5 }
+  },
+  { name: EyeExpression.DEAD, left: { width: 40, height: 60, glyph: 'X' }, idleMotion: false },
+  {
+    name: EyeExpression.HEART,
+    left: { width: 48, height: 48, glyph: '♥' },
+    keyframes: [{ at: 0, both: { scale: 1 } }, { at: 0.15, both: { scale: 1.15 } }, { at: 0.3, both: { scale: 1 } }],
+    durationMs: 1200,
+    loop: true
+  },
+  {
+    name: EyeExpression.MUSIC,
+    left: { width: 40, height: 48, glyph: '♪' },
+    keyframes: [{ at: 0, both: { y: 0 } }, { at: 0.5, both: { y: -6 } }, { at: 1, both: { y: 0 } }],
+    durationMs: 800,
+    loop: true
+  }
+];
+
+const builtIns = new Map<string, ExpressionDefinition>(BUILT_IN_EXPRESSIONS.map(def => [def.name, def]));
+// User-made expressions; a custom one with a built-in name overrides it
+const custom = new Map<string, ExpressionDefinition>();
+
+// Adds or replaces a named expression
+export const registerExpression = (definition: ExpressionDefinition) => {
+  custom.set(definition.name, definition);
+};
+
+// Replaces every custom expression, e.g. after the saved set changed
+export const setCustomExpressions = (definitions: ExpressionDefinition[]) => {
+  custom.clear();
+  definitions.forEach(registerExpression);
+};
+
+export const isBuiltInExpression = (name: string): boolean => builtIns.has(name);
+
+export const listBuiltInExpressions = (): string[] => [...builtIns.keys()];
+
+// Unknown names fall back to NORMAL
+export const getExpression = (name: string): ExpressionDefinition =>
+  custom.get(name) ?? builtIns.get(name) ?? builtIns.get(EyeExpression.NORMAL)!;
+
+export const easeInOutCubic = (t: number): number =>
+  t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+export const NUMERIC_KEYS = ['width', 'height', 'radius', 'ring', 'arc', 'rotate', 'x', 'y', 'scale', 'glow', 'opacity'] as const;
+
+// Numbers tween; glyph and spin can't, so they switch halfway
+export const lerpShape = (a: EyeShape, b: EyeShape, t: number): EyeShape => {
+  const shape = { ...(t < 0.5 ? a : b) };
+  for (const key of NUMERIC_KEYS) shape[key] = lerp(a[key], b[key], t);
+  return shape;
+};
+
+export const lerpPose = (a: EyePose, b: EyePose, t: number): EyePose => ({
+  left: lerpShape(a.left, b.left, t),
+  right: lerpShape(a.right, b.right, t)
+});
+
+// The right eye mirrors the left across the middle of the face
+const mirror = (shape: Partial<EyeShape>): Partial<EyeShape> => ({
+  ...shape,
+  ...(shape.rotate !== undefined && { rotate: -shape.rotate }),
+  ...(shape.x !== undefined && { x: -shape.x })
+});
+
+const basePose = (definition: ExpressionDefinition): EyePose => ({
+  left: { ...BASE_EYE, ...definition.left },
+  right: { ...BASE_EYE, ...(definition.right ?? mirror(definition.left)) }
+});
+
+const applyKeyframe = (pose: EyePose, frame: ExpressionKeyframe): EyePose => ({
+  left: { ...pose.left, ...frame.both, ...frame.left },
+  right: { ...pose.right, ...(frame.both && mirror(frame.both)), ...frame.right }
+});
+
+// Pose of `definition` `elapsedMs` after it started
+export const sampleExpression = (definition: ExpressionDefinition, elapsedMs: number): EyePose => {
+  const base = basePose(definition);
+  const frames = [...(definition.keyframes ?? [])].sort((a, b) => a.at - b.at);
+  if (frames.length === 0) return base;
+
+  const duration = definition.durationMs ?? 1000;
+  const progress = definition.loop ? (elapsedMs % duration) / duration : Math.min(1, elapsedMs / duration);
+
+  const nextIndex = frames.findIndex(frame => frame.at > progress);
+  if (nextIndex === -1) return applyKeyframe(base, frames[frames.length - 1]);
+  if (nextIndex === 0) return applyKeyframe(base, frames[0]);
+
+  const from = frames[nextIndex - 1];
+  const to = frames[nextIndex];
+  const t = (progress - from.at) / (to.at - from.at);
+  return lerpPose(applyKeyframe(base, from), applyKeyframe(base, to), easeInOutCubic(t));
+};
+
+// Squashes open eyes shut; `amount` 0 = open, 1 = closed
+export const applyBlink = (pose: EyePose, amount: number): EyePose => {
+  if (amount <= 0) return pose;
+  const blink = (shape: EyeShape): EyeShape =>
+    shape.glyph ? shape : { ...shape, height: Math.max(2, shape.height * (1 - amount)), ring: Math.min(shape.ring, shape.height * (1 - amount) / 2) };
+  return { left: blink(pose.left), right: blink(pose.right) };
+};
+
+// Maximum look-around offset, px
+const GAZE_RANGE_X = 10;
+const GAZE_RANGE_Y = 6;
+
+// Shifts both eyes towards `gaze` (-1..1 on each axis)
+export const applyGaze = (pose: EyePose, gaze: { x: number; y: number }): EyePose => {
+  const look = (shape: EyeShape): EyeShape => ({
+    ...shape,
+    x: shape.x + gaze.x * GAZE_RANGE_X,
+    y: shape.y + gaze.y * GAZE_RANGE_Y
+  });
+  return { left: look(pose.left), right: look(pose.right) };
+};
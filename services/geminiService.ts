@@ -1,78 +1,219 @@
-import { GoogleGenAI, Modality } from "@google/genai";
-import { blobToBase64 } from "../utils/audioUtils";
+import { ChatMessage, EyeExpression, InlineAudio, LanguageSettings, Persona, UiLocale } from "../types";
+import { DEFAULT_HISTORY_TOKEN_BUDGET, hasTranscript, trimHistory } from "../utils/chatHistory";
+import { parseEmotionTag, PROMPT_EMOTION_TAGS, speechStyleFor, stripEmotionTags } from "../utils/emotionTags";
+import { createSentenceSplitter } from "../utils/sentenceSplitter";
+import { createTranslator, detectLanguage, matchLocale, MessageKey, pinnedReplyLocale } from "./i18n";
+import { buildPersonaPrompt, BUILT_IN_PERSONAS } from "./personas";
+import { getProvider } from "./providers";
+import { classifyError, isRetryable, ProviderError, retryDelay, waitFor, withIdleTimeout, withRetry } from "./providers/errors";
+import { SynthesizedSpeech, ToolCall } from "./providers/types";
+import { dispatchRobotCommand, ROBOT_COMMANDS, RobotCommandHandlers } from "./robotCommands";
 
-// Initialize Gemini Client
-// NOTE: We recreate the client in calls to ensure fresh keys if needed, 
-// but for this environment, process.env.API_KEY is static.
-const getAiClient = () => new GoogleGenAI({ apiKey: process.env.API_KEY });
+// Per request; a streamed reply may take longer as long as it keeps talking
+const TTS_TIMEOUT_MS = 15000;
+const TRANSCRIBE_TIMEOUT_MS = 20000;
+const REPLY_IDLE_TIMEOUT_MS = 20000;
+const REPLY_ATTEMPTS = 3;
 
-export const generateRobotResponse = async (
-  input: string | Blob
-): Promise<{ text: string; audioBase64?: string }> => {
-  const ai = getAiClient();
-  const modelId = "gemini-2.5-flash"; // Logic model
+const COMMANDS_PROMPT = "你可以调用工具来操作自己的设备（闹钟、计时器、音乐、音量、亮度、切换屏幕、睡觉）。用户让你做这些事时一定要调用工具，然后根据工具返回的结果用一句话确认；如果失败了就如实告诉用户。";
+
+// Text replies only: live audio has no way to hide the tags
+const EMOTION_PROMPT = `每句话开头加一个表情标签表示你说这句话时的心情，只能从这些里选：${PROMPT_EMOTION_TAGS.map(tag => `[${tag}]`).join(' ')}。标签不会被念出来，例如：[happy]好哒！[surprised]咦，已经这么晚了吗？`;
+
+// One synthesized sentence of the reply, delivered in reply order
+export interface SpeechChunk {
+  text: string;
+  audioBase64?: string; // Missing if TTS failed for this sentence
+  mimeType?: string; // Format of audioBase64, as the TTS provider labelled it
+  language?: UiLocale; // What the sentence is spoken in, for a local fallback voice
+  expression?: EyeExpression; // Mood the model tagged this sentence (or an earlier one) with
+}
+
+export interface RobotResponseOptions {
+  // Max estimated tokens of chat history replayed to the model
+  tokenBudget?: number;
+  // Called for every sentence as soon as its audio is ready
+  onSpeech?: (chunk: SpeechChunk) => void;
+  // Called as soon as the newest voice turn has been transcribed
+  onTranscript?: (transcript: string) => void;
+  // Lets the model operate the device; without handlers it can only talk
+  commands?: RobotCommandHandlers;
+  // Who Bangboo is playing; defaults to the first built-in persona
+  persona?: Persona;
+  // Reply language and the voices for it; defaults to the persona's language
+  language?: LanguageSettings;
+  // Cancels the reply, its transcription and any TTS still pending
+  signal?: AbortSignal;
+}
+
+export interface RobotResponse {
+  text: string;
+  transcript?: string; // What the user said, when the newest turn was voice
+  error?: ProviderError; // Why the reply failed; `text` is whatever streamed before it did
+}
+
+// Voice names to suggest in the persona editor; empty when any name goes
+export const availableVoices = (): string[] => getProvider().tts.voices ?? [];
+
+// `voice` if the current backend has it; otherwise the provider's
+// configured voice is used
+export const supportedVoice = (voice?: string): string | undefined => {
+  const voices = getProvider().tts.voices;
+  if (!voice) return undefined;
+  return !voices || voices.includes(voice) ? voice : undefined;
+};
+
+// The persona speaks its own language in its own voice; other languages
+// use the voice picked for them in the language settings, if any
+export const personaVoice = (persona: Persona, settings?: LanguageSettings, language?: UiLocale): string => {
+  const ownLanguage = !language || matchLocale(persona.language) === language;
+  return ownLanguage ? persona.voice : settings?.voices[language] || persona.voice;
+};
 
+export const voiceForLanguage = (persona: Persona, settings?: LanguageSettings, language?: UiLocale): string | undefined =>
+  supportedVoice(personaVoice(persona, settings, language));
+
+// Best-effort transcript of a recorded voice turn
+const transcribeVoiceMessage = async (audio: InlineAudio, signal?: AbortSignal): Promise<string | undefined> => {
+  const provider = getProvider();
   try {
-    let userPart: any;
-
-    if (typeof input === 'string') {
-      userPart = { text: input };
-    } else {
-      const base64 = await blobToBase64(input);
-      userPart = {
-        inlineData: {
-          // Default to webm for browser recordings (Chrome/Firefox default)
-          // Sending webm data labeled as wav can cause server-side decode errors
-          mimeType: input.type || 'audio/webm',
-          data: base64
-        }
-      };
-    }
+    const transcript = await withRetry(
+      inner => provider.transcription.transcribe(audio, { signal: inner }),
+      { signal, timeoutMs: TRANSCRIBE_TIMEOUT_MS }
+    );
+    return transcript || undefined;
+  } catch (error) {
+    if (!signal?.aborted) console.error(`${provider.name} transcription error:`, error);
+    return undefined;
+  }
+};
 
-    // 1. Get Text Response
-    const response = await ai.models.generateContent({
-      model: modelId,
-      contents: [
-        {
-          role: 'user',
-          parts: [
-            { text: "你是一个名为'鲨鱼邦布'的桌面机器人助手。你的性格非常活泼可爱，说话像二次元的元气少女。请用中文回答用户，回答要简短（2句话以内），语气要萌一点，喜欢加语气词（比如'呐'、'嘿嘿'）。" },
-            userPart
-          ]
-        }
-      ]
+// `history` is the running conversation, ending with the newest user turn.
+// The reply is streamed, split into sentences and synthesized sentence by
+// sentence, so playback can start before the model has finished.
+export const generateRobotResponse = async (
+  history: ChatMessage[],
+  options: RobotResponseOptions = {}
+): Promise<RobotResponse> => {
+  const provider = getProvider();
+  const splitter = createSentenceSplitter();
+
+  // A dedicated transcription call runs alongside the reply, so it never
+  // delays the first spoken sentence
+  const newest = history[history.length - 1];
+  const transcription = newest?.audio && !hasTranscript(newest)
+    ? transcribeVoiceMessage(newest.audio, options.signal).then(transcript => {
+        if (transcript) options.onTranscript?.(transcript);
+        return transcript;
+      })
+    : Promise.resolve(undefined);
+
+  // TTS requests run in parallel, but chunks are delivered in sentence order.
+  // A sentence without a tag keeps the mood of the one before it.
+  let delivery = Promise.resolve();
+  const persona = options.persona ?? BUILT_IN_PERSONAS[0];
+  const replyLanguage = options.language?.replyLanguage ?? 'PERSONA';
+  // Pinned replies keep one voice; followed ones pick it per sentence
+  let language = pinnedReplyLocale(replyLanguage, persona.language) ?? matchLocale(persona.language);
+  let expression: EyeExpression | undefined;
+  // Text we add ourselves follows the reply language, else the UI's
+  const ownText = (key: MessageKey) => createTranslator(language ?? options.language?.uiLocale ?? 'en')(key);
+  const speak = (tagged: string) => {
+    expression = parseEmotionTag(tagged) ?? expression;
+    const sentence = stripEmotionTags(tagged);
+    if (!sentence) return;
+
+    if (replyLanguage === 'FOLLOW_USER') language = detectLanguage(sentence, language);
+    const voice = voiceForLanguage(persona, options.language, language);
+    const sentenceExpression = expression;
+    const sentenceLanguage = language;
+    const pending = withRetry(
+      signal => provider.tts.synthesize(sentence, { style: speechStyleFor(sentenceExpression), voice, signal }),
+      { signal: options.signal, timeoutMs: TTS_TIMEOUT_MS }
+    ).catch((error) => {
+      if (!options.signal?.aborted) console.error(`${provider.name} TTS error:`, error);
+      return undefined;
+    });
+    delivery = delivery.then(async () => {
+      const speech = await pending;
+      if (options.signal?.aborted) return;
+      options.onSpeech?.({ text: sentence, audioBase64: speech?.audioBase64, mimeType: speech?.mimeType, language: sentenceLanguage, expression: sentenceExpression });
     });
+  };
 
-    const textResponse = response.text || "哎呀，没听清呢~";
+  let textResponse = '';
+  let commandRan = false;
+  try {
+    const { turns, summary } = trimHistory(history, options.tokenBudget ?? DEFAULT_HISTORY_TOKEN_BUDGET);
+    const prompt = [buildPersonaPrompt(persona, replyLanguage), EMOTION_PROMPT, options.commands && COMMANDS_PROMPT].filter(Boolean).join('\n\n');
+    const systemInstruction = summary
+      ? `${prompt}\n\n${ownText('reply.summary')}\n${summary}`
+      : prompt;
 
-    // 2. Get Audio Response (TTS)
-    // We use a separate call for TTS
-    const ttsResponse = await ai.models.generateContent({
-      model: "gemini-2.5-flash-preview-tts",
-      contents: [
-        {
-          parts: [{ text: textResponse }]
-        }
-      ],
-      config: {
-        responseModalities: [Modality.AUDIO],
-        speechConfig: {
-          voiceConfig: {
-            prebuiltVoiceConfig: { voiceName: 'Kore' } // Kore works well for female/neutral tones
+    const commands = options.commands;
+    const request = commands
+      ? {
+          systemInstruction,
+          turns,
+          tools: Object.values(ROBOT_COMMANDS),
+          onToolCall: async (call: ToolCall) => {
+            commandRan = true;
+            return dispatchRobotCommand(call, commands);
           }
         }
+      : { systemInstruction, turns };
+
+    // Retried from scratch only while nothing has been said or done, so a
+    // retry can't repeat a sentence or set the same alarm twice
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const stream = withIdleTimeout(signal => provider.text.streamText({ ...request, signal }), REPLY_IDLE_TIMEOUT_MS, options.signal);
+        for await (const delta of stream) {
+          textResponse += delta;
+          splitter.push(delta).forEach(speak);
+        }
+        break;
+      } catch (e) {
+        const error = classifyError(e);
+        if (textResponse || commandRan || attempt + 1 >= REPLY_ATTEMPTS || !isRetryable(error) || options.signal?.aborted) throw error;
+        console.warn(`${provider.name} reply failed (${error.kind}), retrying`, error);
+        await waitFor(retryDelay(attempt, error), options.signal);
       }
-    });
+    }
 
-    const audioBase64 = ttsResponse.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+    const rest = splitter.flush();
+    if (rest) speak(rest);
+
+    if (!stripEmotionTags(textResponse)) {
+      textResponse = `[surprised]${ownText('reply.empty')}`;
+      speak(textResponse);
+    }
 
-    return {
-      text: textResponse,
-      audioBase64: audioBase64
-    };
+    await delivery;
+    return { text: stripEmotionTags(textResponse), transcript: await transcription };
 
+  } catch (e) {
+    const error = classifyError(e);
+    if (error.kind !== 'CANCELLED') console.error(`${provider.name} provider error (${error.kind}):`, error);
+    await delivery;
+    return { text: stripEmotionTags(textResponse), transcript: await transcription, error };
+  }
+};
+
+// Speaks a fixed line (timer done, alarm...) in Bangboo's voice, outside any conversation
+export const synthesizeAnnouncement = async (
+  text: string,
+  expression?: EyeExpression,
+  voice?: string
+): Promise<SynthesizedSpeech | undefined> => {
+  const provider = getProvider();
+  try {
+    return await withRetry(
+      signal => provider.tts.synthesize(text, { style: speechStyleFor(expression), voice, signal }),
+      { timeoutMs: TTS_TIMEOUT_MS }
+    );
   } catch (error) {
-    console.error("Gemini Error:", error);
-    return { text: "系统出错了呜呜呜..." };
+    console.error(`${provider.name} TTS error:`, error);
+    return undefined;
   }
-};
\ No newline at end of file
+};
@@ -0,0 +1,915 @@
+import { LanguageSettings, ReplyLanguage, UiLocale } from "../types";
+
+// UI strings for the robot screen. English is the reference bundle: the
+// others must have the same keys, so a missing translation is a type error.
+
+const EN = {
+  'boot.ready': 'IS READY',
+
+  'menu.music': 'Music',
+  'menu.chat': 'Chat',
+  'menu.clock': 'Clock',
+  'menu.system': 'System',
+  'menu.sleep': 'Sleep',
+  'menu.powerOff': 'Power Off',
+  'menu.workshop': 'Workshop',
+
+  'chat.title': 'CHAT',
+  'chat.live': 'LIVE',
+  'chat.listening': 'LISTENING...',
+  'chat.thinking': 'THINKING...',
+  'chat.end': 'END',
+  'chat.emptyLive': 'JUST TALK!',
+  'chat.empty': 'TAP TO TALK OR TYPE',
+  'chat.inputLive': 'Live mode on',
+  'chat.input': 'Say something...',
+  'chat.noTranscript': 'No transcript',
+
+  'music.noMusic': 'No Music',
+  'music.noMusicHint': 'Add tracks (+)',
+  'music.unknownArtist': 'Unknown Artist',
+  'music.unknownAlbum': 'Unknown Album',
+  'music.noAudioFiles': 'No audio files found',
+  'music.importing': 'Importing {count}...',
+  'music.added': 'Added {count}',
+  'music.addedWithDuplicates': 'Added {count}, {duplicates} already in library',
+  'music.importFailed': 'Import failed',
+  'music.folderFailed': "Couldn't open the folder",
+  'music.enterUrl': 'Enter an http(s) URL',
+  'music.loadingFeed': 'Loading feed...',
+  'music.feedFailed': 'Failed to load the feed',
+  'music.refreshing': 'Refreshing...',
+  'music.refreshFailed': 'Failed to refresh the feed',
+  'music.feedUnreachable': "Couldn't reach the feed (offline, or the server doesn't allow CORS)",
+  'music.feedHttp': 'The feed server answered {status}',
+  'music.feedNotXml': 'The feed is not valid XML',
+  'music.feedNotRss': 'Not an RSS feed',
+  'music.feedNoEpisodes': 'The feed has no audio episodes',
+  'music.radioArtist': 'Radio',
+  'music.untitledEpisode': 'Untitled episode',
+  'music.refresh': 'Refresh',
+  'music.unsubscribe': 'Unsubscribe',
+  'music.streamUrl': 'Stream URL',
+  'music.feedUrl': 'Podcast feed URL',
+  'music.addStation': 'Add station',
+  'music.subscribe': 'Subscribe',
+  'music.remove': 'Remove',
+  'music.resumeAt': 'resume at {time}',
+  'music.noStations': 'No stations yet.',
+  'music.noStationsHint': 'Add an internet radio stream URL.',
+  'music.noPodcasts': 'No podcasts yet.',
+  'music.noPodcastsHint': 'Add an RSS feed URL.',
+  'music.library': 'LIBRARY',
+  'music.upNext': 'UP NEXT',
+  'music.radio': 'RADIO',
+  'music.podcasts': 'PODCASTS',
+  'music.drop': 'DROP MUSIC OR FOLDERS',
+  'music.importFolder': 'Import folder',
+  'music.addFiles': 'Add files',
+  'music.deletePlaylist': 'Delete playlist',
+  'music.newPlaylist': 'New playlist',
+  'music.playlistName': 'Name',
+  'music.search': 'Search',
+  'music.SONGS': 'SONGS',
+  'music.ARTISTS': 'ARTISTS',
+  'music.ALBUMS': 'ALBUMS',
+  'music.libraryEmpty': 'Library is empty.',
+  'music.libraryEmptyHint': 'Click + or drop a folder here.',
+  'music.noMatches': 'No matches.',
+  'music.queueEmpty': 'Nothing queued.',
+  'music.queueEmptyHint': 'Add tracks from the library.',
+  'music.playlistEmpty': 'Playlist is empty.',
+  'music.playlistEmptyHint': 'Add tracks from the library menu.',
+  'music.addToQueue': 'Add to queue',
+  'music.more': 'More',
+  'music.playNext': 'PLAY NEXT',
+  'music.delete': 'DELETE',
+  'music.live': 'LIVE',
+  'music.demoOnly': 'DEMO ONLY',
+  'music.shuffle': 'Shuffle',
+  'music.repeatOFF': 'Repeat off',
+  'music.repeatALL': 'Repeat all',
+  'music.repeatONE': 'Repeat one',
+
+  'clock.start': 'START',
+  'clock.pause': 'PAUSE',
+  'clock.resume': 'RESUME',
+  'clock.lap': 'LAP',
+  'clock.done': 'DONE',
+  'clock.focus': 'Focus',
+  'clock.break': 'Break',
+  'clock.longBreak': 'Long break',
+  'clock.longEvery': 'Long every',
+  'clock.WORK': 'FOCUS',
+  'clock.SHORT_BREAK': 'BREAK',
+  'clock.LONG_BREAK': 'LONG BREAK',
+
+  'wifi.title': 'NETWORKS',
+  'wifi.scanning': 'Scanning...',
+  'wifi.connecting': 'Connecting...',
+  'wifi.password': 'PASSWORD',
+  'wifi.passwordHint': 'Enter password...',
+  'wifi.connect': 'CONNECT',
+
+  'time.title': 'TIME & DATE',
+  'time.autoSynced': 'Auto-Synced',
+  'time.internet': 'Internet Time',
+
+  'alarm.title': 'ALARMS',
+  'alarm.add': 'ADD ALARM',
+  'alarm.edit': 'EDIT ALARM',
+  'alarm.label': 'Label',
+  'alarm.tone': 'Tone',
+  'alarm.chime': 'Chime',
+  'alarm.beep': 'Beep',
+  'alarm.missingTrack': 'Missing track',
+  'alarm.empty': 'No alarms. Tap + to add one.',
+  'alarm.snoozed': 'Snoozed',
+  'alarm.ringing': 'ALARM',
+  'alarm.snooze': 'SNOOZE {minutes}M',
+  'alarm.dismiss': 'DISMISS',
+  'alarm.once': 'Once',
+  'alarm.everyDay': 'Every day',
+  'alarm.weekdays': 'Weekdays',
+  'alarm.weekends': 'Weekends',
+
+  'display.title': 'DISPLAY',
+  'sound.title': 'SOUND',
+  'sound.musicEq': 'MUSIC EQ',
+  'sound.FLAT': 'Flat',
+  'sound.BASS_BOOST': 'Bass',
+  'sound.VOCAL': 'Vocal',
+  'sound.TREBLE_BOOST': 'Treble',
+  'sound.NIGHT': 'Night',
+  'sound.CUSTOM': 'Custom',
+
+  'voice.title': 'VOICE',
+  'voice.autoStop': 'Auto Stop',
+  'voice.autoStopHint': 'End turn after silence',
+  'voice.speechSensitivity': 'Speech sensitivity',
+  'voice.wakeWord': 'Wake Word',
+  'voice.wakeWordHint': 'Listen while idle',
+  'voice.wakeWordNeedsSample': 'Record a sample first',
+  'voice.wakeWordSensitivity': 'Wake word sensitivity',
+  'voice.sayItNow': 'SAY IT NOW...',
+  'voice.record': 'RECORD ({count}/3)',
+  'voice.clearSamples': 'Clear samples',
+
+  'persona.title': 'PERSONA',
+  'persona.import': 'Import personas',
+  'persona.export': 'Export custom personas',
+  'persona.imported': 'Imported {count}',
+  'persona.duplicate': 'Duplicate to edit',
+  'persona.copyName': '{name} copy',
+  'persona.edit': 'Edit',
+  'persona.editTitle': 'EDIT PERSONA',
+  'persona.delete': 'Delete persona',
+  'persona.name': 'NAME',
+  'persona.prompt': 'SYSTEM PROMPT',
+  'persona.replyLength': 'REPLY LENGTH',
+  'persona.SHORT': 'SHORT',
+  'persona.MEDIUM': 'MEDIUM',
+  'persona.LONG': 'LONG',
+  'persona.language': 'LANGUAGE',
+  'persona.voice': 'VOICE',
+  'persona.voiceDefault': 'Provider default',
+  'persona.skin': 'SKIN',
+  'persona.keepSkin': 'Keep current skin',
+  'persona.greeting': 'GREETING',
+  'persona.greetingHint': 'Said after power on',
+  'persona.notJson': 'Not a JSON file',
+  'persona.wrongFile': 'Not a Bangboo persona file',
+  'persona.version': 'Unsupported persona file version {version}',
+  'persona.notObject': 'Persona {persona} is not an object',
+  'persona.noId': 'Persona {persona} has no id',
+  'persona.noName': 'Persona {persona} has no name',
+  'persona.noPrompt': 'Persona {persona} has no system prompt',
+
+  'studio.title': 'WORKSHOP',
+  'studio.SKINS': 'SKINS',
+  'studio.EXPRESSIONS': 'EXPRESSIONS',
+  'studio.eyeColor': 'Eyes',
+  'studio.teethColor': 'Teeth',
+  'studio.screenRim': 'Screen rim',
+  'studio.body': 'Body',
+  'studio.bodyShade': 'Body shade',
+  'studio.limbs': 'Limbs & fin',
+  'studio.belly': 'Belly',
+  'studio.fin': 'Shark fin',
+  'studio.badge': 'Badge',
+  'studio.noBadge': 'none',
+  'studio.duplicateSkin': 'Duplicate as custom skin',
+  'studio.copyName': '{name} Copy',
+  'studio.deleteSkin': 'Delete skin',
+  'studio.builtInSkin': "Built-in skins can't be changed. Duplicate one to edit it.",
+  'studio.width': 'Width',
+  'studio.height': 'Height',
+  'studio.radius': 'Roundness',
+  'studio.ring': 'Outline',
+  'studio.arc': 'Cut away',
+  'studio.rotate': 'Tilt',
+  'studio.x': 'Offset X',
+  'studio.y': 'Offset Y',
+  'studio.glow': 'Glow',
+  'studio.mirror': 'Mirror eyes',
+  'studio.idleMotion': 'Blink & look',
+  'studio.left': 'LEFT EYE',
+  'studio.right': 'RIGHT EYE',
+  'studio.glyph': 'Glyph (replaces the shape)',
+  'studio.keyframes': 'Keyframes',
+  'studio.example': 'e.g. {json}',
+  'studio.restore': 'Restore built-in',
+  'studio.deleteExpression': 'Delete expression',
+  'studio.previewHint': "The selected expression is previewed on Bangboo's home screen.",
+  'studio.duplicateExpression': 'Duplicate as custom expression',
+  'studio.builtInExpression': "Built-in expressions can't be changed. Duplicate one to edit it.",
+  'studio.nameTaken': '"{name}" already exists',
+  'studio.export': 'Export',
+  'studio.import': 'Import',
+  'studio.notJson': 'Not valid JSON',
+  'studio.wrongFile': 'Not a Bangboo appearance file',
+  'studio.version': 'Unsupported appearance file version {version}',
+  'studio.badSkin': 'Skin {skin} has no name or an invalid color',
+  'studio.badExpression': 'Expression {expression} has an invalid name, shape or keyframe',
+
+  'language.title': 'LANGUAGE',
+  'language.interface': 'INTERFACE',
+  'language.replies': 'REPLIES',
+  'language.PERSONA': "Persona's language",
+  'language.FOLLOW_USER': 'Follow my language',
+  'language.voices': 'VOICE PER LANGUAGE',
+  'language.voiceDefault': "Persona's voice",
+
+  'reset.title': 'FACTORY RESET',
+  'reset.question': 'Erase chats, music, alarms',
+  'reset.question2': 'and all settings?',
+  'reset.confirm': 'RESET',
+
+  'status.network': 'Network',
+  'status.disconnected': 'Disconnected',
+  'status.time': 'Time & Date',
+  'status.display': 'Display',
+  'status.sound': 'Sound',
+  'status.alarms': 'Alarms',
+  'status.activeAlarms': '{count} Active',
+  'status.persona': 'Persona',
+  'status.language': 'Language',
+  'status.voice': 'Voice',
+  'status.handsFree': 'Hands-free',
+  'status.tapToTalk': 'Tap to talk',
+  'status.reset': 'Factory Reset',
+  'status.resetHint': 'Erase all data',
+  'status.battery': 'Battery',
+
+  // Spoken by Bangboo, in the reply language
+  'announce.timerDone': 'Time is up! The timer is done~',
+  'announce.breakOver': "Break's over, let's keep going!",
+  'announce.longBreak': "That's {count} pomodoros, amazing! Take a good long rest~",
+  'announce.focusDone': 'Focus time is over! Take a little break, hehe~',
+  // Offline fallback
+  'offline.badge': 'OFFLINE',
+  'offline.noVoice': "I'm offline and can't understand voice right now. Type to me instead: I can still tell the time, set alarms and timers, and play music.",
+  'offline.unavailable': "I'm offline... I can only tell the time, set alarms and timers, and control the music right now.",
+  'offline.time': "It's {time}.",
+  'offline.alarmSet': 'Alarm set for {time}.',
+  'offline.timerStarted': 'Timer started for {minutes} minutes.',
+  'offline.musicPlaying': 'Okay, music on.',
+  'offline.musicPaused': 'Music paused.',
+  'offline.failed': "That didn't work, sorry...",
+  // Failed replies, by cause
+  'error.auth': "Huh? My API key isn't working. Could you check it?",
+  'error.quota': "I've talked too much and ran out of quota... let me rest a moment.",
+  'error.safety': "Hehe, I'd rather not answer that one. Let's talk about something else~",
+  'error.decode': 'I got a garbled answer... could you say that again?',
+  'error.timeout': 'Hmm, the answer is taking too long. Try again?',
+  'error.unknown': 'Oops, something went wrong...',
+  // Reply text the model didn't write; in the reply language
+  'reply.empty': "Huh? I didn't quite catch that~",
+  'reply.summary': 'Summary of the earlier conversation (older messages left out):'
+};
+
+export type MessageKey = keyof typeof EN;
+
+const ZH_CN: Record<MessageKey, string> = {
+  'boot.ready': '已就绪',
+
+  'menu.music': '音乐',
+  'menu.chat': '聊天',
+  'menu.clock': '时钟',
+  'menu.system': '系统',
+  'menu.sleep': '睡眠',
+  'menu.powerOff': '关机',
+  'menu.workshop': '工坊',
+
+  'chat.title': '聊天',
+  'chat.live': '实时',
+  'chat.listening': '聆听中...',
+  'chat.thinking': '思考中...',
+  'chat.end': '结束',
+  'chat.emptyLive': '直接说话吧！',
+  'chat.empty': '点按说话或输入文字',
+  'chat.inputLive': '实时模式已开启',
+  'chat.input': '说点什么...',
+  'chat.noTranscript': '没有文字记录',
+
+  'music.noMusic': '没有音乐',
+  'music.noMusicHint': '添加曲目 (+)',
+  'music.unknownArtist': '未知艺术家',
+  'music.unknownAlbum': '未知专辑',
+  'music.noAudioFiles': '没有找到音频文件',
+  'music.importing': '正在导入 {count} 首...',
+  'music.added': '已添加 {count} 首',
+  'music.addedWithDuplicates': '已添加 {count} 首，{duplicates} 首已在曲库中',
+  'music.importFailed': '导入失败',
+  'music.folderFailed': '无法打开文件夹',
+  'music.enterUrl': '请输入 http(s) 地址',
+  'music.loadingFeed': '正在加载订阅...',
+  'music.feedFailed': '订阅加载失败',
+  'music.refreshing': '正在刷新...',
+  'music.refreshFailed': '订阅刷新失败',
+  'music.feedUnreachable': '无法连接订阅（离线，或服务器不允许跨域访问）',
+  'music.feedHttp': '订阅服务器返回了 {status}',
+  'music.feedNotXml': '订阅不是有效的 XML',
+  'music.feedNotRss': '这不是 RSS 订阅',
+  'music.feedNoEpisodes': '订阅里没有音频节目',
+  'music.radioArtist': '电台',
+  'music.untitledEpisode': '未命名节目',
+  'music.refresh': '刷新',
+  'music.unsubscribe': '取消订阅',
+  'music.streamUrl': '电台地址',
+  'music.feedUrl': '播客订阅地址',
+  'music.addStation': '添加电台',
+  'music.subscribe': '订阅',
+  'music.remove': '移除',
+  'music.resumeAt': '从 {time} 继续',
+  'music.noStations': '还没有电台。',
+  'music.noStationsHint': '添加一个网络电台地址吧。',
+  'music.noPodcasts': '还没有播客。',
+  'music.noPodcastsHint': '添加一个 RSS 订阅地址吧。',
+  'music.library': '曲库',
+  'music.upNext': '待播',
+  'music.radio': '电台',
+  'music.podcasts': '播客',
+  'music.drop': '拖放音乐或文件夹',
+  'music.importFolder': '导入文件夹',
+  'music.addFiles': '添加文件',
+  'music.deletePlaylist': '删除歌单',
+  'music.newPlaylist': '新建歌单',
+  'music.playlistName': '名称',
+  'music.search': '搜索',
+  'music.SONGS': '歌曲',
+  'music.ARTISTS': '歌手',
+  'music.ALBUMS': '专辑',
+  'music.libraryEmpty': '曲库是空的。',
+  'music.libraryEmptyHint': '点 + 或把文件夹拖到这里。',
+  'music.noMatches': '没有匹配的曲目。',
+  'music.queueEmpty': '待播列表为空。',
+  'music.queueEmptyHint': '从曲库里添加曲目吧。',
+  'music.playlistEmpty': '歌单是空的。',
+  'music.playlistEmptyHint': '从曲库菜单里添加曲目吧。',
+  'music.addToQueue': '加入待播',
+  'music.more': '更多',
+  'music.playNext': '下一首播放',
+  'music.delete': '删除',
+  'music.live': '直播',
+  'music.demoOnly': '仅演示',
+  'music.shuffle': '随机播放',
+  'music.repeatOFF': '不循环',
+  'music.repeatALL': '列表循环',
+  'music.repeatONE': '单曲循环',
+
+  'clock.start': '开始',
+  'clock.pause': '暂停',
+  'clock.resume': '继续',
+  'clock.lap': '计圈',
+  'clock.done': '完成',
+  'clock.focus': '专注',
+  'clock.break': '休息',
+  'clock.longBreak': '长休息',
+  'clock.longEvery': '长休息间隔',
+  'clock.WORK': '专注',
+  'clock.SHORT_BREAK': '休息',
+  'clock.LONG_BREAK': '长休息',
+
+  'wifi.title': '网络',
+  'wifi.scanning': '正在扫描...',
+  'wifi.connecting': '正在连接...',
+  'wifi.password': '密码',
+  'wifi.passwordHint': '输入密码...',
+  'wifi.connect': '连接',
+
+  'time.title': '时间和日期',
+  'time.autoSynced': '自动同步',
+  'time.internet': '网络时间',
+
+  'alarm.title': '闹钟',
+  'alarm.add': '添加闹钟',
+  'alarm.edit': '编辑闹钟',
+  'alarm.label': '标签',
+  'alarm.tone': '铃声',
+  'alarm.chime': '风铃',
+  'alarm.beep': '蜂鸣',
+  'alarm.missingTrack': '曲目已丢失',
+  'alarm.empty': '没有闹钟。点 + 添加一个。',
+  'alarm.snoozed': '稍后提醒',
+  'alarm.ringing': '闹钟',
+  'alarm.snooze': '{minutes}分钟后提醒',
+  'alarm.dismiss': '关闭',
+  'alarm.once': '仅一次',
+  'alarm.everyDay': '每天',
+  'alarm.weekdays': '工作日',
+  'alarm.weekends': '周末',
+
+  'display.title': '显示',
+  'sound.title': '声音',
+  'sound.musicEq': '音乐均衡器',
+  'sound.FLAT': '平直',
+  'sound.BASS_BOOST': '低音',
+  'sound.VOCAL': '人声',
+  'sound.TREBLE_BOOST': '高音',
+  'sound.NIGHT': '夜间',
+  'sound.CUSTOM': '自定义',
+
+  'voice.title': '语音',
+  'voice.autoStop': '自动结束',
+  'voice.autoStopHint': '静音后结束这一轮',
+  'voice.speechSensitivity': '语音灵敏度',
+  'voice.wakeWord': '唤醒词',
+  'voice.wakeWordHint': '待机时聆听',
+  'voice.wakeWordNeedsSample': '请先录制样本',
+  'voice.wakeWordSensitivity': '唤醒词灵敏度',
+  'voice.sayItNow': '请现在说...',
+  'voice.record': '录制 ({count}/3)',
+  'voice.clearSamples': '清除样本',
+
+  'persona.title': '角色',
+  'persona.import': '导入角色',
+  'persona.export': '导出自定义角色',
+  'persona.imported': '已导入 {count} 个',
+  'persona.duplicate': '复制后编辑',
+  'persona.copyName': '{name} 副本',
+  'persona.edit': '编辑',
+  'persona.editTitle': '编辑角色',
+  'persona.delete': '删除角色',
+  'persona.name': '名字',
+  'persona.prompt': '系统提示词',
+  'persona.replyLength': '回答长度',
+  'persona.SHORT': '简短',
+  'persona.MEDIUM': '适中',
+  'persona.LONG': '详细',
+  'persona.language': '语言',
+  'persona.voice': '声音',
+  'persona.voiceDefault': '服务默认',
+  'persona.skin': '外观',
+  'persona.keepSkin': '保持当前外观',
+  'persona.greeting': '问候语',
+  'persona.greetingHint': '开机后说的话',
+  'persona.notJson': '不是 JSON 文件',
+  'persona.wrongFile': '不是邦布角色文件',
+  'persona.version': '不支持的角色文件版本 {version}',
+  'persona.notObject': '角色 {persona} 格式不正确',
+  'persona.noId': '角色 {persona} 没有 id',
+  'persona.noName': '角色 {persona} 没有名字',
+  'persona.noPrompt': '角色 {persona} 没有系统提示词',
+
+  'studio.title': '工坊',
+  'studio.SKINS': '外观',
+  'studio.EXPRESSIONS': '表情',
+  'studio.eyeColor': '眼睛',
+  'studio.teethColor': '牙齿',
+  'studio.screenRim': '屏幕边框',
+  'studio.body': '身体',
+  'studio.bodyShade': '身体阴影',
+  'studio.limbs': '四肢和鳍',
+  'studio.belly': '肚子',
+  'studio.fin': '鲨鱼鳍',
+  'studio.badge': '徽章',
+  'studio.noBadge': '无',
+  'studio.duplicateSkin': '复制为自定义外观',
+  'studio.copyName': '{name} 副本',
+  'studio.deleteSkin': '删除外观',
+  'studio.builtInSkin': '内置外观不能修改。复制一份再编辑吧。',
+  'studio.width': '宽度',
+  'studio.height': '高度',
+  'studio.radius': '圆角',
+  'studio.ring': '描边',
+  'studio.arc': '切除',
+  'studio.rotate': '倾斜',
+  'studio.x': '水平偏移',
+  'studio.y': '垂直偏移',
+  'studio.glow': '发光',
+  'studio.mirror': '双眼对称',
+  'studio.idleMotion': '眨眼和张望',
+  'studio.left': '左眼',
+  'studio.right': '右眼',
+  'studio.glyph': '字符（替代形状）',
+  'studio.keyframes': '关键帧',
+  'studio.example': '例如 {json}',
+  'studio.restore': '恢复内置',
+  'studio.deleteExpression': '删除表情',
+  'studio.previewHint': '选中的表情会在邦布的主屏幕上预览。',
+  'studio.duplicateExpression': '复制为自定义表情',
+  'studio.builtInExpression': '内置表情不能修改。复制一份再编辑吧。',
+  'studio.nameTaken': '"{name}" 已存在',
+  'studio.export': '导出',
+  'studio.import': '导入',
+  'studio.notJson': '不是有效的 JSON',
+  'studio.wrongFile': '不是邦布外观文件',
+  'studio.version': '不支持的外观文件版本 {version}',
+  'studio.badSkin': '外观 {skin} 没有名字或颜色无效',
+  'studio.badExpression': '表情 {expression} 的名字、形状或关键帧无效',
+
+  'language.title': '语言',
+  'language.interface': '界面',
+  'language.replies': '回答',
+  'language.PERSONA': '角色的语言',
+  'language.FOLLOW_USER': '跟随我说的语言',
+  'language.voices': '各语言的声音',
+  'language.voiceDefault': '角色的声音',
+
+  'reset.title': '恢复出厂设置',
+  'reset.question': '要清除聊天、音乐、闹钟',
+  'reset.question2': '以及所有设置吗？',
+  'reset.confirm': '重置',
+
+  'status.network': '网络',
+  'status.disconnected': '未连接',
+  'status.time': '时间和日期',
+  'status.display': '显示',
+  'status.sound': '声音',
+  'status.alarms': '闹钟',
+  'status.activeAlarms': '{count} 个已开启',
+  'status.persona': '角色',
+  'status.language': '语言',
+  'status.voice': '语音',
+  'status.handsFree': '免提',
+  'status.tapToTalk': '点按说话',
+  'status.reset': '恢复出厂设置',
+  'status.resetHint': '清除所有数据',
+  'status.battery': '电池',
+
+  'announce.timerDone': '时间到啦！计时结束咯~',
+  'announce.breakOver': '休息结束，继续加油呐！',
+  'announce.longBreak': '完成{count}个番茄钟啦，好厉害！好好休息一下呐~',
+  'announce.focusDone': '专注时间结束啦！休息一下吧，嘿嘿~',
+  'offline.badge': '离线',
+  'offline.noVoice': '呜…网络断开了，现在听不懂语音。打字告诉我吧：我还能报时、定闹钟和计时器、放音乐。',
+  'offline.unavailable': '呜…现在离线了，只能报时、定闹钟和计时器、控制音乐哦。',
+  'offline.time': '现在是{time}。',
+  'offline.alarmSet': '闹钟定好啦，{time}叫你。',
+  'offline.timerStarted': '开始计时{minutes}分钟。',
+  'offline.musicPlaying': '好哒，放音乐咯。',
+  'offline.musicPaused': '音乐暂停了。',
+  'offline.failed': '呜，没有成功…',
+  'error.auth': '咦？API 密钥好像不对，帮邦布检查一下吧。',
+  'error.quota': '说太多话，额度用完啦…让邦布歇一会儿。',
+  'error.safety': '嘿嘿，这个问题邦布就不回答啦，聊点别的吧~',
+  'error.decode': '收到的回答乱码了…能再说一遍吗？',
+  'error.timeout': '呜，回答太久了，再试一次吧？',
+  'error.unknown': '系统出错了呜呜呜...',
+  'reply.empty': '哎呀，没听清呢~',
+  'reply.summary': '之前的对话摘要（较早的内容已省略）：'
+};
+
+const JA: Record<MessageKey, string> = {
+  'boot.ready': '準備完了',
+
+  'menu.music': '音楽',
+  'menu.chat': 'チャット',
+  'menu.clock': '時計',
+  'menu.system': 'システム',
+  'menu.sleep': 'スリープ',
+  'menu.powerOff': '電源オフ',
+  'menu.workshop': 'ワークショップ',
+
+  'chat.title': 'チャット',
+  'chat.live': 'ライブ',
+  'chat.listening': '聞き取り中...',
+  'chat.thinking': '考え中...',
+  'chat.end': '終了',
+  'chat.emptyLive': '話しかけてね！',
+  'chat.empty': 'タップして話すか入力',
+  'chat.inputLive': 'ライブモード中',
+  'chat.input': '何か話して...',
+  'chat.noTranscript': '文字起こしなし',
+
+  'music.noMusic': '音楽なし',
+  'music.noMusicHint': '曲を追加 (+)',
+  'music.unknownArtist': '不明なアーティスト',
+  'music.unknownAlbum': '不明なアルバム',
+  'music.noAudioFiles': '音声ファイルが見つかりません',
+  'music.importing': '{count} 曲を読み込み中...',
+  'music.added': '{count} 曲を追加',
+  'music.addedWithDuplicates': '{count} 曲を追加、{duplicates} 曲は追加済み',
+  'music.importFailed': '読み込みに失敗しました',
+  'music.folderFailed': 'フォルダを開けませんでした',
+  'music.enterUrl': 'http(s) の URL を入力してください',
+  'music.loadingFeed': 'フィードを読み込み中...',
+  'music.feedFailed': 'フィードを読み込めませんでした',
+  'music.refreshing': '更新中...',
+  'music.refreshFailed': 'フィードを更新できませんでした',
+  'music.feedUnreachable': 'フィードに接続できません（オフライン、またはサーバーが CORS を許可していません）',
+  'music.feedHttp': 'フィードのサーバーが {status} を返しました',
+  'music.feedNotXml': 'フィードが正しい XML ではありません',
+  'music.feedNotRss': 'RSS フィードではありません',
+  'music.feedNoEpisodes': 'フィードに音声エピソードがありません',
+  'music.radioArtist': 'ラジオ',
+  'music.untitledEpisode': '無題のエピソード',
+  'music.refresh': '更新',
+  'music.unsubscribe': '購読解除',
+  'music.streamUrl': 'ストリーム URL',
+  'music.feedUrl': 'ポッドキャストのフィード URL',
+  'music.addStation': '局を追加',
+  'music.subscribe': '購読',
+  'music.remove': '削除',
+  'music.resumeAt': '{time} から再開',
+  'music.noStations': 'ラジオ局がありません。',
+  'music.noStationsHint': 'ネットラジオの URL を追加してね。',
+  'music.noPodcasts': 'ポッドキャストがありません。',
+  'music.noPodcastsHint': 'RSS フィードの URL を追加してね。',
+  'music.library': 'ライブラリ',
+  'music.upNext': '次に再生',
+  'music.radio': 'ラジオ',
+  'music.podcasts': 'ポッドキャスト',
+  'music.drop': '音楽やフォルダをドロップ',
+  'music.importFolder': 'フォルダを読み込む',
+  'music.addFiles': 'ファイルを追加',
+  'music.deletePlaylist': 'プレイリストを削除',
+  'music.newPlaylist': '新しいプレイリスト',
+  'music.playlistName': '名前',
+  'music.search': '検索',
+  'music.SONGS': '曲',
+  'music.ARTISTS': 'アーティスト',
+  'music.ALBUMS': 'アルバム',
+  'music.libraryEmpty': 'ライブラリは空です。',
+  'music.libraryEmptyHint': '+ を押すかフォルダをドロップしてね。',
+  'music.noMatches': '一致する曲がありません。',
+  'music.queueEmpty': 'キューは空です。',
+  'music.queueEmptyHint': 'ライブラリから曲を追加してね。',
+  'music.playlistEmpty': 'プレイリストは空です。',
+  'music.playlistEmptyHint': 'ライブラリのメニューから曲を追加してね。',
+  'music.addToQueue': 'キューに追加',
+  'music.more': 'その他',
+  'music.playNext': '次に再生',
+  'music.delete': '削除',
+  'music.live': 'ライブ',
+  'music.demoOnly': 'デモのみ',
+  'music.shuffle': 'シャッフル',
+  'music.repeatOFF': 'リピートなし',
+  'music.repeatALL': '全曲リピート',
+  'music.repeatONE': '1曲リピート',
+
+  'clock.start': 'スタート',
+  'clock.pause': '一時停止',
+  'clock.resume': '再開',
+  'clock.lap': 'ラップ',
+  'clock.done': '完了',
+  'clock.focus': '集中',
+  'clock.break': '休憩',
+  'clock.longBreak': '長い休憩',
+  'clock.longEvery': '長い休憩の間隔',
+  'clock.WORK': '集中',
+  'clock.SHORT_BREAK': '休憩',
+  'clock.LONG_BREAK': '長い休憩',
+
+  'wifi.title': 'ネットワーク',
+  'wifi.scanning': 'スキャン中...',
+  'wifi.connecting': '接続中...',
+  'wifi.password': 'パスワード',
+  'wifi.passwordHint': 'パスワードを入力...',
+  'wifi.connect': '接続',
+
+  'time.title': '日付と時刻',
+  'time.autoSynced': '自動同期',
+  'time.internet': 'インターネット時刻',
+
+  'alarm.title': 'アラーム',
+  'alarm.add': 'アラームを追加',
+  'alarm.edit': 'アラームを編集',
+  'alarm.label': 'ラベル',
+  'alarm.tone': 'サウンド',
+  'alarm.chime': 'チャイム',
+  'alarm.beep': 'ビープ',
+  'alarm.missingTrack': '曲が見つかりません',
+  'alarm.empty': 'アラームがありません。+ で追加できます。',
+  'alarm.snoozed': 'スヌーズ中',
+  'alarm.ringing': 'アラーム',
+  'alarm.snooze': 'スヌーズ {minutes}分',
+  'alarm.dismiss': '止める',
+  'alarm.once': '1回のみ',
+  'alarm.everyDay': '毎日',
+  'alarm.weekdays': '平日',
+  'alarm.weekends': '週末',
+
+  'display.title': 'ディスプレイ',
+  'sound.title': 'サウンド',
+  'sound.musicEq': 'イコライザー',
+  'sound.FLAT': 'フラット',
+  'sound.BASS_BOOST': '低音',
+  'sound.VOCAL': 'ボーカル',
+  'sound.TREBLE_BOOST': '高音',
+  'sound.NIGHT': 'ナイト',
+  'sound.CUSTOM': 'カスタム',
+
+  'voice.title': '音声',
+  'voice.autoStop': '自動終了',
+  'voice.autoStopHint': '無音になったら終了',
+  'voice.speechSensitivity': '音声の感度',
+  'voice.wakeWord': 'ウェイクワード',
+  'voice.wakeWordHint': '待機中に聞き取る',
+  'voice.wakeWordNeedsSample': '先にサンプルを録音してね',
+  'voice.wakeWordSensitivity': 'ウェイクワードの感度',
+  'voice.sayItNow': '今話して...',
+  'voice.record': '録音 ({count}/3)',
+  'voice.clearSamples': 'サンプルを消去',
+
+  'persona.title': 'キャラクター',
+  'persona.import': 'キャラクターを読み込む',
+  'persona.export': 'カスタムキャラクターを書き出す',
+  'persona.imported': '{count} 件読み込みました',
+  'persona.duplicate': '複製して編集',
+  'persona.copyName': '{name} のコピー',
+  'persona.edit': '編集',
+  'persona.editTitle': 'キャラクターを編集',
+  'persona.delete': 'キャラクターを削除',
+  'persona.name': '名前',
+  'persona.prompt': 'システムプロンプト',
+  'persona.replyLength': '返答の長さ',
+  'persona.SHORT': '短め',
+  'persona.MEDIUM': '普通',
+  'persona.LONG': '長め',
+  'persona.language': '言語',
+  'persona.voice': '声',
+  'persona.voiceDefault': 'サービスの既定',
+  'persona.skin': 'スキン',
+  'persona.keepSkin': '今のスキンのまま',
+  'persona.greeting': 'あいさつ',
+  'persona.greetingHint': '起動後に話す言葉',
+  'persona.notJson': 'JSON ファイルではありません',
+  'persona.wrongFile': 'ボンプのペルソナファイルではありません',
+  'persona.version': '未対応のペルソナファイルのバージョンです: {version}',
+  'persona.notObject': 'ペルソナ {persona} の形式が正しくありません',
+  'persona.noId': 'ペルソナ {persona} に id がありません',
+  'persona.noName': 'ペルソナ {persona} に名前がありません',
+  'persona.noPrompt': 'ペルソナ {persona} にシステムプロンプトがありません',
+
+  'studio.title': 'ワークショップ',
+  'studio.SKINS': 'スキン',
+  'studio.EXPRESSIONS': '表情',
+  'studio.eyeColor': '目',
+  'studio.teethColor': '歯',
+  'studio.screenRim': '画面の縁',
+  'studio.body': 'ボディ',
+  'studio.bodyShade': 'ボディの影',
+  'studio.limbs': '手足とヒレ',
+  'studio.belly': 'お腹',
+  'studio.fin': 'サメのヒレ',
+  'studio.badge': 'バッジ',
+  'studio.noBadge': 'なし',
+  'studio.duplicateSkin': 'カスタムスキンとして複製',
+  'studio.copyName': '{name} のコピー',
+  'studio.deleteSkin': 'スキンを削除',
+  'studio.builtInSkin': '内蔵スキンは変更できません。複製してから編集してください。',
+  'studio.width': '幅',
+  'studio.height': '高さ',
+  'studio.radius': '丸み',
+  'studio.ring': '輪郭',
+  'studio.arc': '切り欠き',
+  'studio.rotate': '傾き',
+  'studio.x': '横オフセット',
+  'studio.y': '縦オフセット',
+  'studio.glow': '光彩',
+  'studio.mirror': '左右対称',
+  'studio.idleMotion': 'まばたきと視線',
+  'studio.left': '左目',
+  'studio.right': '右目',
+  'studio.glyph': '文字（形の代わり）',
+  'studio.keyframes': 'キーフレーム',
+  'studio.example': '例: {json}',
+  'studio.restore': '内蔵に戻す',
+  'studio.deleteExpression': '表情を削除',
+  'studio.previewHint': '選んだ表情はボンプのホーム画面でプレビューされます。',
+  'studio.duplicateExpression': 'カスタム表情として複製',
+  'studio.builtInExpression': '内蔵の表情は変更できません。複製してから編集してください。',
+  'studio.nameTaken': '「{name}」はすでにあります',
+  'studio.export': 'エクスポート',
+  'studio.import': 'インポート',
+  'studio.notJson': '有効な JSON ではありません',
+  'studio.wrongFile': 'ボンプの外観ファイルではありません',
+  'studio.version': '未対応の外観ファイルのバージョンです: {version}',
+  'studio.badSkin': 'スキン {skin} に名前がないか、色が無効です',
+  'studio.badExpression': '表情 {expression} の名前、形、またはキーフレームが無効です',
+
+  'language.title': '言語',
+  'language.interface': '表示',
+  'language.replies': '返答',
+  'language.PERSONA': 'キャラクターの言語',
+  'language.FOLLOW_USER': '話した言語に合わせる',
+  'language.voices': '言語ごとの声',
+  'language.voiceDefault': 'キャラクターの声',
+
+  'reset.title': '初期化',
+  'reset.question': 'チャット、音楽、アラームと',
+  'reset.question2': 'すべての設定を消去しますか？',
+  'reset.confirm': 'リセット',
+
+  'status.network': 'ネットワーク',
+  'status.disconnected': '未接続',
+  'status.time': '日付と時刻',
+  'status.display': 'ディスプレイ',
+  'status.sound': 'サウンド',
+  'status.alarms': 'アラーム',
+  'status.activeAlarms': '{count} 件オン',
+  'status.persona': 'キャラクター',
+  'status.language': '言語',
+  'status.voice': '音声',
+  'status.handsFree': 'ハンズフリー',
+  'status.tapToTalk': 'タップして話す',
+  'status.reset': '初期化',
+  'status.resetHint': 'すべてのデータを消去',
+  'status.battery': 'バッテリー',
+
+  'announce.timerDone': '時間だよ！タイマー終了〜',
+  'announce.breakOver': '休憩おしまい、また頑張ろう！',
+  'announce.longBreak': 'ポモドーロ{count}回達成、すごい！しっかり休んでね〜',
+  'announce.focusDone': '集中タイム終了！ちょっと休憩しよう、えへへ〜',
+  'offline.badge': 'オフライン',
+  'offline.noVoice': 'オフラインだから、今は声が聞き取れないよ。文字で話しかけてね：時刻、アラーム、タイマー、音楽ならできるよ。',
+  'offline.unavailable': 'オフライン中…今できるのは時刻、アラーム、タイマーと音楽の操作だけだよ。',
+  'offline.time': '今は{time}だよ。',
+  'offline.alarmSet': '{time}にアラームをセットしたよ。',
+  'offline.timerStarted': '{minutes}分のタイマーを開始したよ。',
+  'offline.musicPlaying': 'はーい、音楽かけるね。',
+  'offline.musicPaused': '音楽を止めたよ。',
+  'offline.failed': 'ごめん、うまくいかなかった…',
+  'error.auth': 'あれ？APIキーが使えないみたい。確認してくれる？',
+  'error.quota': 'しゃべりすぎて上限に達しちゃった…ちょっと休ませて。',
+  'error.safety': 'えへへ、それには答えないでおくね。別の話をしよう〜',
+  'error.decode': '返事が文字化けしちゃった…もう一回言って？',
+  'error.timeout': 'うーん、返事に時間がかかりすぎ。もう一回試してみて？',
+  'error.unknown': 'うわっ、何かおかしくなっちゃった…',
+  'reply.empty': 'あれっ、よく聞こえなかったよ~',
+  'reply.summary': 'これまでの会話の要約（古い内容は省略）：'
+};
+
+const BUNDLES: Record<UiLocale, Record<MessageKey, string>> = { 'zh-CN': ZH_CN, en: EN, ja: JA };
+
+export const UI_LOCALES: Record<UiLocale, string> = {
+  'zh-CN': '中文',
+  en: 'English',
+  ja: '日本語'
+};
+
+export type Translate = (key: MessageKey, params?: Record<string, string | number>) => string;
+
+// `{name}` placeholders are filled from `params`
+export const createTranslator = (locale: UiLocale): Translate => (key, params) => {
+  const text = BUNDLES[locale][key] ?? EN[key];
+  return params ? text.replace(/\{(\w+)\}/g, (match, name) => String(params[name] ?? match)) : text;
+};
+
+// The closest bundle for a BCP 47 tag, e.g. 'ja-JP' -> 'ja', 'zh-TW' -> 'zh-CN'
+export const matchLocale = (tag: string | undefined): UiLocale | undefined => {
+  const language = tag?.toLowerCase().split('-')[0];
+  if (language === 'zh') return 'zh-CN';
+  if (language === 'ja') return 'ja';
+  if (language === 'en') return 'en';
+  return undefined;
+};
+
+export const defaultLanguageSettings = (): LanguageSettings => ({
+  uiLocale: matchLocale(typeof navigator !== 'undefined' ? navigator.language : undefined) ?? 'en',
+  replyLanguage: 'PERSONA',
+  voices: {}
+});
+
+// --- FORMATTING ---
+
+export const formatClockTime = (date: Date, locale: UiLocale): string =>
+  date.toLocaleTimeString(locale, { hour: '2-digit', minute: '2-digit', hourCycle: 'h23' });
+
+// "Mon, Mar 3, 2025" / "2025年3月3日周一" / "2025年3月3日(月)"
+export const formatClockDate = (date: Date, locale: UiLocale): string =>
+  date.toLocaleDateString(locale, { weekday: 'short', year: 'numeric', month: 'short', day: 'numeric' });
+
+// One-character weekday names, Sunday first
+export const weekdayLetters = (locale: UiLocale): string[] =>
+  // 2023-01-01 was a Sunday
+  Array.from({ length: 7 }, (_, day) => new Date(2023, 0, 1 + day).toLocaleDateString(locale, { weekday: 'narrow' }));
+
+// --- REPLY LANGUAGE ---
+
+// The locale replies are pinned to; undefined when they follow the user
+export const pinnedReplyLocale = (replyLanguage: ReplyLanguage, personaLanguage: string): UiLocale | undefined => {
+  if (replyLanguage === 'FOLLOW_USER') return undefined;
+  return replyLanguage === 'PERSONA' ? matchLocale(personaLanguage) : replyLanguage;
+};
+
+// Script-based guess at what language a reply sentence is in. Kanji alone
+// can't tell Chinese from Japanese, so `previous` breaks the tie.
+export const detectLanguage = (text: string, previous?: UiLocale): UiLocale | undefined => {
+  if (/[぀-ヿ]/.test(text)) return 'ja';
+  if (/[一-鿿]/.test(text)) return previous === 'ja' ? 'ja' : 'zh-CN';
+  if (/[a-z]{2,}/i.test(text)) return 'en';
+  return previous;
+};
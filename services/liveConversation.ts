@@ -0,0 +1,92 @@
+import { downsampleBuffer, float32ToPcm16Base64, getRms } from "../utils/audioUtils";
+import { LanguageSettings, Persona } from "../types";
+import { voiceForLanguage } from "./geminiService";
+import { pinnedReplyLocale } from "./i18n";
+import { buildPersonaPrompt } from "./personas";
+import { getProvider, LIVE_INPUT_SAMPLE_RATE, LiveSession, LiveSessionCallbacks } from "./providers";
+
+// Mic RMS above this for a few frames counts as the user talking (barge-in)
+const SPEECH_RMS_THRESHOLD = 0.04;
+const SPEECH_FRAMES_REQUIRED = 2;
+const CAPTURE_BUFFER_SIZE = 4096;
+
+export interface LiveConversationCallbacks extends LiveSessionCallbacks {
+  // Local mic detected speech; fires before the backend reacts
+  onUserSpeechStart(): void;
+}
+
+export interface LiveConversation {
+  stop(): void;
+}
+
+export const isLiveModeSupported = (): boolean => !!getProvider().live;
+
+// Opens a full-duplex session: mic PCM is streamed up continuously, replies
+// come back through `callbacks.onAudio` for the caller to schedule.
+export const startLiveConversation = async (
+  ctx: AudioContext,
+  persona: Persona,
+  language: LanguageSettings,
+  callbacks: LiveConversationCallbacks
+): Promise<LiveConversation> => {
+  const live = getProvider().live;
+  if (!live) throw new Error(`${getProvider().name} provider has no live API`);
+
+  const stream = await navigator.mediaDevices.getUserMedia({
+    audio: { echoCancellation: true, noiseSuppression: true }
+  });
+
+  let session: LiveSession;
+  try {
+    session = await live.connect({
+      systemInstruction: buildPersonaPrompt(persona, language.replyLanguage),
+      voice: voiceForLanguage(persona, language, pinnedReplyLocale(language.replyLanguage, persona.language))
+    }, callbacks);
+  } catch (e) {
+    stream.getTracks().forEach(track => track.stop());
+    throw e;
+  }
+
+  const source = ctx.createMediaStreamSource(stream);
+  // ScriptProcessor is deprecated, but needs no separate worklet module
+  const processor = ctx.createScriptProcessor(CAPTURE_BUFFER_SIZE, 1, 1);
+  // The processor only runs while connected to the output, so route it through silence
+  const mute = ctx.createGain();
+  mute.gain.value = 0;
+
+  let loudFrames = 0;
+  let userSpeaking = false;
+
+  processor.onaudioprocess = (event) => {
+    const input = event.inputBuffer.getChannelData(0);
+
+    if (getRms(input) > SPEECH_RMS_THRESHOLD) {
+      loudFrames++;
+      if (loudFrames >= SPEECH_FRAMES_REQUIRED && !userSpeaking) {
+        userSpeaking = true;
+        callbacks.onUserSpeechStart();
+      }
+    } else {
+      loudFrames = 0;
+      userSpeaking = false;
+    }
+
+    const samples = downsampleBuffer(input, ctx.sampleRate, LIVE_INPUT_SAMPLE_RATE);
+    session.sendAudio(float32ToPcm16Base64(samples));
+  };
+
+  source.connect(processor);
+  processor.connect(mute);
+  mute.connect(ctx.destination);
+
+  return {
+    stop: () => {
+      processor.onaudioprocess = null;
+      source.disconnect();
+      processor.disconnect();
+      mute.disconnect();
+      stream.getTracks().forEach(track => track.stop());
+      session.close();
+    }
+  };
+};
@@ -0,0 +1,29 @@
+import { MusicTrack } from "../types";
+
+// Browsing helpers for the music library screen
+
+export type LibraryGrouping = 'SONGS' | 'ARTISTS' | 'ALBUMS';
+
+export interface TrackGroup {
+  name: string;
+  tracks: MusicTrack[];
+}
+
+export const matchesSearch = (track: MusicTrack, query: string): boolean => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return true;
+  return [track.title, track.artist, track.album].some(field => field?.toLowerCase().includes(needle));
+};
+
+// Groups in alphabetical order; tracks keep their library order inside a group.
+// Tracks without an artist or album go under `unknownName`.
+export const groupTracks = (tracks: MusicTrack[], by: Exclude<LibraryGrouping, 'SONGS'>, unknownName: string): TrackGroup[] => {
+  const groups = new Map<string, MusicTrack[]>();
+  tracks.forEach(track => {
+    const name = (by === 'ARTISTS' ? track.artist : track.album) || unknownName;
+    groups.set(name, [...(groups.get(name) ?? []), track]);
+  });
+  return [...groups]
+    .map(([name, grouped]) => ({ name, tracks: grouped }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
@@ -0,0 +1,41 @@
+// Pure play-order helpers for the music player. Lists are track ids; the
+// player resolves them against the library.
+
+export const LIBRARY_ID = 'library'; // Source id of the whole library
+
+// Fisher-Yates; `firstId` stays in front so shuffling doesn't skip the current track
+export const shuffleIds = (ids: string[], firstId?: string): string[] => {
+  const rest = ids.filter(id => id !== firstId);
+  for (let i = rest.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [rest[i], rest[j]] = [rest[j], rest[i]];
+  }
+  return firstId !== undefined && ids.includes(firstId) ? [firstId, ...rest] : rest;
+};
+
+// Keeps an existing shuffle when tracks are added or removed: gone ids drop
+// out, new ones are shuffled in after everything already played
+export const syncShuffleOrder = (order: string[], ids: string[]): string[] => {
+  const kept = order.filter(id => ids.includes(id));
+  const added = ids.filter(id => !kept.includes(id));
+  return [...kept, ...shuffleIds(added)];
+};
+
+// Id `offset` steps from `currentId`; past either end it wraps or gives undefined.
+// A current track outside the order starts from the top.
+export const stepInOrder = (order: string[], currentId: string, offset: number, wrap: boolean): string | undefined => {
+  if (order.length === 0) return undefined;
+  const idx = order.indexOf(currentId);
+  if (idx === -1) return order[0];
+  const next = idx + offset;
+  if (next >= 0 && next < order.length) return order[next];
+  return wrap ? order[(next % order.length + order.length) % order.length] : undefined;
+};
+
+export const moveItem = <T>(list: T[], from: number, to: number): T[] => {
+  if (from === to || from < 0 || from >= list.length) return list;
+  const next = [...list];
+  const [item] = next.splice(from, 1);
+  next.splice(Math.max(0, Math.min(next.length, to)), 0, item);
+  return next;
+};
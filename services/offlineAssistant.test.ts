@@ -0,0 +1,95 @@
+import { describe, expect, it, vi } from 'vitest';
+import { answerOffline, matchOfflineIntent, parseClockTime, parseDuration } from './offlineAssistant';
+import { RobotCommandHandlers } from './robotCommands';
+
+describe('parseClockTime', () => {
+  it('reads 24-hour times', () => {
+    expect(parseClockTime('alarm at 07:30')).toEqual({ hour: 7, minute: 30 });
+    expect(parseClockTime('明天 18：05 叫我')).toEqual({ hour: 18, minute: 5 });
+    expect(parseClockTime('23:59')).toEqual({ hour: 23, minute: 59 });
+  });
+
+  it('reads 12-hour times with am / pm', () => {
+    expect(parseClockTime('wake me at 7 pm')).toEqual({ hour: 19, minute: 0 });
+    expect(parseClockTime('wake me at 7:15pm')).toEqual({ hour: 19, minute: 15 });
+    expect(parseClockTime('6 a.m. please')).toEqual({ hour: 6, minute: 0 });
+    expect(parseClockTime('12 am')).toEqual({ hour: 0, minute: 0 });
+    expect(parseClockTime('12 pm')).toEqual({ hour: 12, minute: 0 });
+    expect(parseClockTime("at 9 o'clock")).toEqual({ hour: 9, minute: 0 });
+  });
+
+  it('reads Chinese and Japanese times, halves included', () => {
+    expect(parseClockTime('7点半叫我')).toEqual({ hour: 7, minute: 30 });
+    expect(parseClockTime('下午3点20分')).toEqual({ hour: 15, minute: 20 });
+    expect(parseClockTime('晚上8点')).toEqual({ hour: 20, minute: 0 });
+    expect(parseClockTime('7時15分に起こして')).toEqual({ hour: 7, minute: 15 });
+    expect(parseClockTime('午後2時半')).toEqual({ hour: 14, minute: 30 });
+  });
+
+  it('reads "half past" and "quarter to"', () => {
+    expect(parseClockTime('wake me at half past 7')).toEqual({ hour: 7, minute: 30 });
+    expect(parseClockTime('quarter past 6 pm')).toEqual({ hour: 18, minute: 15 });
+    expect(parseClockTime('Quarter to 8')).toEqual({ hour: 7, minute: 45 });
+    expect(parseClockTime('quarter to 12 pm')).toEqual({ hour: 11, minute: 45 });
+    expect(parseClockTime('quarter to 12 am')).toEqual({ hour: 23, minute: 45 });
+  });
+
+  it('returns null for what is not a time', () => {
+    expect(parseClockTime('set an alarm')).toBeNull();
+    expect(parseClockTime('wake me up early')).toBeNull();
+    expect(parseClockTime('25:00')).toBeNull();
+    expect(parseClockTime('7:75')).toBeNull();
+    expect(parseClockTime('half past 30')).toBeNull();
+  });
+});
+
+describe('parseDuration', () => {
+  it('reads minutes, seconds and hours', () => {
+    expect(parseDuration('timer for 10 minutes')).toBe(10);
+    expect(parseDuration('in 10 min')).toBe(10);
+    expect(parseDuration('90 seconds')).toBe(1.5);
+    expect(parseDuration('1.5 hours')).toBe(90);
+    expect(parseDuration('5分钟')).toBe(5);
+    expect(parseDuration('1時間のタイマー')).toBe(60);
+    expect(parseDuration('30秒')).toBe(0.5);
+  });
+
+  it('returns null without a number and a known unit', () => {
+    expect(parseDuration('a timer please')).toBeNull();
+    expect(parseDuration('5 apples')).toBeNull();
+    expect(parseDuration('')).toBeNull();
+  });
+});
+
+describe('matchOfflineIntent', () => {
+  it('turns requests into commands', () => {
+    expect(matchOfflineIntent('set an alarm for half past 6')).toEqual({
+      kind: 'COMMAND', call: { name: 'set_alarm', args: { hour: 6, minute: 30 } }
+    });
+    expect(matchOfflineIntent('start a timer in 10 minutes')).toEqual({
+      kind: 'COMMAND', call: { name: 'start_timer', args: { minutes: 10 } }
+    });
+    expect(matchOfflineIntent('暂停音乐')).toEqual({ kind: 'COMMAND', call: { name: 'control_music', args: { action: 'pause' } } });
+    expect(matchOfflineIntent('what time is it?')).toEqual({ kind: 'TIME' });
+  });
+
+  it('gives up on an alarm or timer it cannot read', () => {
+    expect(matchOfflineIntent('set an alarm')).toBeNull();
+    expect(matchOfflineIntent('start a timer')).toBeNull();
+    expect(matchOfflineIntent('tell me a story')).toBeNull();
+  });
+});
+
+describe('answerOffline', () => {
+  const commands = { set_alarm: vi.fn(() => 'Alarm set') } as unknown as RobotCommandHandlers;
+
+  it('runs the command and confirms it', () => {
+    expect(answerOffline('alarm at 7:30', commands, 'en')).toBe('Alarm set for 07:30.');
+    expect(commands.set_alarm).toHaveBeenCalledWith({ hour: 7, minute: 30 });
+  });
+
+  it('explains what it can do offline', () => {
+    expect(answerOffline(undefined, commands, 'en')).toMatch(/offline/);
+    expect(answerOffline('tell me a story', commands, 'en')).toMatch(/offline/);
+  });
+});
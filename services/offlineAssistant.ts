@@ -0,0 +1,106 @@
+import { UiLocale } from "../types";
+import { createTranslator, formatClockTime, MessageKey } from "./i18n";
+import { ToolCall } from "./providers/types";
+import { dispatchRobotCommand, RobotCommandHandlers } from "./robotCommands";
+
+// What Bangboo can still do when the model can't be reached: tell the time,
+// set alarms and timers, and drive the music player. Typed requests are
+// matched by keyword in Chinese, English and Japanese; anything else gets an
+// honest "I'm offline".
+
+export type OfflineIntent = { kind: 'TIME' } | { kind: 'COMMAND'; call: ToolCall };
+
+const ALARM = /闹钟|叫醒|叫我|alarm|wake me|アラーム|目覚まし|起こして/i;
+const TIMER = /计时|timer|タイマー/i;
+const PAUSE = /暂停|别放了|停止(播放|音乐)|pause|stop (the )?music|一時停止|止めて/i;
+const NEXT = /下一首|切歌|next (song|track)|skip|次の曲/i;
+const PREVIOUS = /上一首|previous|last (song|track)|前の曲/i;
+const PLAY = /播放|放(首|点)?(歌|音乐)|play|(音楽|曲)を?(かけて|流して|再生)/i;
+const TIME = /几点|时间|what time|the time|何時|なんじ/i;
+
+const AFTERNOON = /\d\s*p\.?m\b|下午|晚上|傍晚|午後|夜/i;
+const MORNING = /\d\s*a\.?m\b|上午|早上|凌晨|午前|朝/i;
+
+// Minutes from the named hour
+const PAST_OR_TO: Record<string, number> = { 'half past': 30, 'quarter past': 15, 'quarter to': -15 };
+
+// "7:30", "7点半", "7時15分", "7 pm", "quarter to 8" -> 24-hour time
+export const parseClockTime = (text: string): { hour: number; minute: number } | null => {
+  const relative = text.match(/\b(half\s+past|quarter\s+past|quarter\s+to)\s+(\d{1,2})\b/i);
+  const match = relative
+    ?? text.match(/(\d{1,2})\s*[:：]\s*(\d{2})/)
+    ?? text.match(/(\d{1,2})\s*(?:点|點|時|时)\s*(?:(\d{1,2})\s*分?|(半))?/)
+    ?? text.match(/(\d{1,2})\s*(?=a\.?m|p\.?m|o'clock)/i);
+  if (!match) return null;
+
+  let hour = parseInt(relative ? relative[2] : match[1], 10);
+  let minute = relative ? 0 : match[3] ? 30 : match[2] ? parseInt(match[2], 10) : 0;
+  if (hour > 23 || minute > 59) return null;
+  if (AFTERNOON.test(text) && hour < 12) hour += 12;
+  else if (MORNING.test(text) && hour === 12) hour = 0;
+  if (relative) {
+    // "quarter to 8" is 7:45
+    const offset = PAST_OR_TO[relative[1].toLowerCase().replace(/\s+/, ' ')];
+    minute = (offset + 60) % 60;
+    if (offset < 0) hour = (hour + 23) % 24;
+  }
+  return { hour, minute };
+};
+
+const UNIT_MINUTES: [RegExp, number][] = [
+  [/^(秒|s|sec|second)/i, 1 / 60],
+  [/^(小时|小時|時間|h|hour)/i, 60],
+  [/^(分|min)/i, 1]
+];
+
+// "5分钟", "90 seconds", "1時間" -> minutes
+export const parseDuration = (text: string): number | null => {
+  const match = text.match(/(\d+(?:\.\d+)?)\s*([^\d\s]+)/);
+  if (!match) return null;
+  const unit = UNIT_MINUTES.find(([pattern]) => pattern.test(match[2]));
+  return unit ? parseFloat(match[1]) * unit[1] : null;
+};
+
+export const matchOfflineIntent = (text: string): OfflineIntent | null => {
+  const command = (name: string, args: Record<string, unknown>): OfflineIntent => ({ kind: 'COMMAND', call: { name, args } });
+
+  if (ALARM.test(text)) {
+    const time = parseClockTime(text);
+    return time ? command('set_alarm', time) : null;
+  }
+  if (TIMER.test(text)) {
+    const minutes = parseDuration(text);
+    return minutes ? command('start_timer', { minutes }) : null;
+  }
+  if (PAUSE.test(text)) return command('control_music', { action: 'pause' });
+  if (NEXT.test(text)) return command('control_music', { action: 'next' });
+  if (PREVIOUS.test(text)) return command('control_music', { action: 'previous' });
+  if (PLAY.test(text)) return command('control_music', { action: 'play' });
+  if (TIME.test(text)) return { kind: 'TIME' };
+  return null;
+};
+
+const confirmationKey = (call: ToolCall): MessageKey => {
+  if (call.name === 'set_alarm') return 'offline.alarmSet';
+  if (call.name === 'start_timer') return 'offline.timerStarted';
+  return call.args.action === 'pause' ? 'offline.musicPaused' : 'offline.musicPlaying';
+};
+
+// The spoken reply to `text`, running the command it asks for. `text` is
+// undefined for voice turns, which can't be understood without the network.
+export const answerOffline = (text: string | undefined, commands: RobotCommandHandlers, locale: UiLocale): string => {
+  const t = createTranslator(locale);
+  if (text === undefined) return t('offline.noVoice');
+
+  const intent = matchOfflineIntent(text);
+  if (!intent) return t('offline.unavailable');
+  if (intent.kind === 'TIME') return t('offline.time', { time: formatClockTime(new Date(), locale) });
+
+  const result = dispatchRobotCommand(intent.call, commands);
+  if (result.startsWith('Error')) return t('offline.failed');
+  const { args } = intent.call;
+  return t(confirmationKey(intent.call), {
+    time: args.hour !== undefined ? formatClockTime(new Date(2000, 0, 1, Number(args.hour), Number(args.minute)), locale) : '',
+    minutes: Math.round(Number(args.minutes) * 10) / 10
+  });
+};
@@ -0,0 +1,141 @@
+import { Persona, ReplyLanguage, ReplyLength } from "../types";
+
+// Personas are plain JSON like skins, so they can be saved with the settings
+// and shared as files.
+
+export const BUILT_IN_PERSONAS: Persona[] = [
+  {
+    id: 'shark',
+    name: '鲨鱼邦布',
+    systemPrompt: "你是一个名为'鲨鱼邦布'的桌面机器人助手。你的性格非常活泼可爱，说话像二次元的元气少女。语气要萌一点，喜欢加语气词（比如'呐'、'嘿嘿'）。",
+    replyLength: 'SHORT',
+    language: 'zh-CN',
+    voice: 'Kore',
+    skinId: 'shark',
+    greeting: '嘿嘿，鲨鱼邦布上线啦！'
+  },
+  {
+    id: 'scholar',
+    name: '博士邦布',
+    systemPrompt: "你是一个名为'博士邦布'的桌面机器人助手。你沉稳、博学又耐心，喜欢用简单的比喻把事情讲清楚，偶尔会推一推并不存在的眼镜。",
+    replyLength: 'MEDIUM',
+    language: 'zh-CN',
+    voice: 'Charon',
+    skinId: 'classic',
+    greeting: '系统自检完毕。今天想研究点什么？'
+  },
+  {
+    id: 'sakura',
+    name: 'Sakura Boo',
+    systemPrompt: "You are 'Sakura Boo', a gentle desk robot who loves flowers, tea and cozy afternoons. You are warm and encouraging, and you notice small good things.",
+    replyLength: 'SHORT',
+    language: 'en',
+    voice: 'Leda',
+    skinId: 'sakura',
+    greeting: 'Good to see you! Shall we make today a cozy one?'
+  },
+  {
+    id: 'cool',
+    name: 'クールボンプ',
+    systemPrompt: "あなたは「クールボンプ」という卓上ロボットです。口数は少ないけれど頼れる相棒で、クールで少しぶっきらぼうな話し方をします。",
+    replyLength: 'SHORT',
+    language: 'ja',
+    voice: 'Fenrir',
+    greeting: '……起動完了。用件は？'
+  }
+];
+
+export const DEFAULT_PERSONA_ID = 'shark';
+
+export const findPersona = (personas: Persona[], id: string): Persona =>
+  personas.find(persona => persona.id === id) ?? BUILT_IN_PERSONAS[0];
+
+export const isBuiltInPersona = (id: string): boolean => BUILT_IN_PERSONAS.some(persona => persona.id === id);
+
+export const REPLY_LENGTHS: ReplyLength[] = ['SHORT', 'MEDIUM', 'LONG'];
+
+const REPLY_LENGTH_PROMPTS: Record<ReplyLength, string> = {
+  SHORT: '回答要简短（2句话以内）。',
+  MEDIUM: '回答控制在4句话以内。',
+  LONG: '可以详细回答，但不要超过两段。'
+};
+
+// Reply languages offered in the editor; any BCP 47 tag works in a pack
+export const PERSONA_LANGUAGES: Record<string, string> = {
+  'zh-CN': '中文',
+  en: 'English',
+  ja: '日本語'
+};
+
+const languageName = (tag: string): string => PERSONA_LANGUAGES[tag] ?? tag;
+
+// The full instruction for the model: personality, then length and language
+export const buildPersonaPrompt = (persona: Persona, replyLanguage: ReplyLanguage = 'PERSONA'): string => {
+  const languagePrompt = replyLanguage === 'FOLLOW_USER'
+    ? `用户用哪种语言说话，就用同一种语言回答；拿不准时用${languageName(persona.language)}。`
+    : `请始终用${languageName(replyLanguage === 'PERSONA' ? persona.language : replyLanguage)}回答用户。`;
+  return [persona.systemPrompt.trim(), REPLY_LENGTH_PROMPTS[persona.replyLength], languagePrompt].join('\n');
+};
+
+// --- IMPORT / EXPORT ---
+
+const PACK_FORMAT = 'bangboo-personas';
+const PACK_VERSION = 1;
+
+export const exportPersonaPack = (personas: Persona[]): string =>
+  JSON.stringify({ format: PACK_FORMAT, version: PACK_VERSION, personas }, null, 2);
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// The UI shows these translated, filling in `params`; the message is only
+// for the console
+export type PersonaPackErrorCode = 'NOT_JSON' | 'WRONG_FILE' | 'VERSION' | 'NOT_OBJECT' | 'NO_ID' | 'NO_NAME' | 'NO_PROMPT';
+
+export interface PersonaPackError extends Error {
+  code: PersonaPackErrorCode;
+  params: Record<string, string | number>;
+}
+
+const packError = (code: PersonaPackErrorCode, message: string, params: Record<string, string | number> = {}): PersonaPackError =>
+  Object.assign(new Error(message), { name: 'PersonaPackError', code, params });
+
+export const isPersonaPackError = (error: unknown): error is PersonaPackError =>
+  error instanceof Error && error.name === 'PersonaPackError';
+
+export const validatePersona = (value: unknown, index: number): Persona => {
+  const position = { persona: index + 1 };
+  if (!isObject(value)) throw packError('NOT_OBJECT', `Persona ${index + 1} is not an object`, position);
+  if (typeof value.id !== 'string' || !value.id) throw packError('NO_ID', `Persona ${index + 1} has no id`, position);
+  if (typeof value.name !== 'string' || !value.name.trim()) {
+    throw packError('NO_NAME', `Persona "${value.id}" has no name`, { persona: `"${value.id}"` });
+  }
+  if (typeof value.systemPrompt !== 'string' || !value.systemPrompt.trim()) {
+    throw packError('NO_PROMPT', `Persona "${value.name}" has no system prompt`, { persona: `"${value.name}"` });
+  }
+  return {
+    id: value.id,
+    name: value.name.trim(),
+    systemPrompt: value.systemPrompt,
+    replyLength: REPLY_LENGTHS.includes(value.replyLength) ? value.replyLength : 'SHORT',
+    language: typeof value.language === 'string' && value.language ? value.language : 'zh-CN',
+    voice: typeof value.voice === 'string' ? value.voice : '',
+    skinId: typeof value.skinId === 'string' ? value.skinId : undefined,
+    greeting: typeof value.greeting === 'string' ? value.greeting : ''
+  };
+};
+
+// Throws a PersonaPackError when the file isn't a valid pack
+export const parsePersonaPack = (json: string): Persona[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (e) {
+    throw packError('NOT_JSON', 'Not a JSON file');
+  }
+  if (!isObject(data) || data.format !== PACK_FORMAT) throw packError('WRONG_FILE', 'Not a Bangboo persona file');
+  if (typeof data.version !== 'number' || data.version > PACK_VERSION) {
+    throw packError('VERSION', `Unsupported persona file version ${data.version}`, { version: String(data.version) });
+  }
+  return Array.isArray(data.personas) ? data.personas.map(validatePersona) : [];
+};
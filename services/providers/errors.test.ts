@@ -0,0 +1,153 @@
+import { describe, expect, it, vi } from 'vitest';
+import { classifyError, httpError, providerError, retryDelay, withRetry, withTimeout } from './errors';
+
+const withStatus = (status: number, message = 'failed') => Object.assign(new Error(message), { status });
+const never = () => new Promise<never>(() => {});
+// Retry-After of 1ms keeps the backoff out of the way
+const transient = () => providerError('NETWORK', 'dropped', { retryAfterMs: 1 });
+
+describe('classifyError', () => {
+  it('sorts HTTP statuses', () => {
+    expect(classifyError(withStatus(429)).kind).toBe('QUOTA');
+    expect(classifyError(withStatus(401)).kind).toBe('AUTH');
+    expect(classifyError(withStatus(403)).kind).toBe('AUTH');
+    expect(classifyError(withStatus(408)).kind).toBe('TIMEOUT');
+    expect(classifyError(withStatus(504)).kind).toBe('TIMEOUT');
+    expect(classifyError(withStatus(503)).kind).toBe('NETWORK');
+    expect(classifyError(withStatus(404)).kind).toBe('UNKNOWN');
+  });
+
+  it('takes a 400 about the API key as AUTH', () => {
+    expect(classifyError(withStatus(400, 'API key not valid. Please pass a valid API key.')).kind).toBe('AUTH');
+  });
+
+  it('reads quota errors without a status from the message', () => {
+    expect(classifyError(new Error('429 RESOURCE_EXHAUSTED')).kind).toBe('QUOTA');
+    expect(classifyError(new Error('You exceeded your current quota')).kind).toBe('QUOTA');
+    expect(classifyError(new Error('Rate limit reached')).kind).toBe('QUOTA');
+  });
+
+  it('takes a rejected fetch as NETWORK and bad JSON as DECODE', () => {
+    expect(classifyError(new TypeError('Failed to fetch')).kind).toBe('NETWORK');
+    expect(classifyError(new TypeError('Load failed')).kind).toBe('NETWORK');
+    expect(classifyError(new TypeError('x is not a function')).kind).toBe('UNKNOWN');
+    expect(classifyError(new SyntaxError('Unexpected token < in JSON')).kind).toBe('DECODE');
+  });
+
+  it('takes an AbortError as CANCELLED', () => {
+    expect(classifyError(new DOMException('The operation was aborted.', 'AbortError')).kind).toBe('CANCELLED');
+  });
+
+  it('keeps a ProviderError, SAFETY included', () => {
+    const refused = providerError('SAFETY', 'Blocked: SAFETY');
+    expect(classifyError(refused)).toBe(refused);
+  });
+
+  it('keeps the original error as the cause', () => {
+    const original = new Error('boom');
+    expect(classifyError(original)).toMatchObject({ kind: 'UNKNOWN', message: 'boom', cause: original });
+  });
+});
+
+describe('httpError', () => {
+  it('reads Retry-After in seconds', () => {
+    const response = new Response(null, { status: 429, statusText: 'Too Many Requests', headers: { 'retry-after': '3' } });
+    expect(httpError(response, 'Chat')).toMatchObject({ kind: 'QUOTA', status: 429, retryAfterMs: 3000 });
+  });
+});
+
+describe('retryDelay', () => {
+  it('backs off exponentially, capped', () => {
+    const error = providerError('NETWORK', 'dropped');
+    expect(retryDelay(0, error)).toBeGreaterThanOrEqual(500);
+    expect(retryDelay(0, error)).toBeLessThanOrEqual(750);
+    expect(retryDelay(2, error)).toBeGreaterThanOrEqual(2000);
+    expect(retryDelay(10, error)).toBe(8000);
+  });
+
+  it('follows the server when it says how long to wait', () => {
+    expect(retryDelay(0, providerError('QUOTA', 'slow down', { retryAfterMs: 4000 }))).toBe(4000);
+  });
+});
+
+describe('withTimeout', () => {
+  it('rejects with TIMEOUT and aborts the work when time runs out', async () => {
+    let inner: AbortSignal | undefined;
+    const run = withTimeout(signal => {
+      inner = signal;
+      return never();
+    }, 20);
+    await expect(run).rejects.toMatchObject({ kind: 'TIMEOUT' });
+    expect(inner?.aborted).toBe(true);
+  });
+
+  it('rejects with CANCELLED when the parent signal aborts', async () => {
+    const controller = new AbortController();
+    const run = withTimeout(never, 10000, controller.signal);
+    controller.abort();
+    await expect(run).rejects.toMatchObject({ kind: 'CANCELLED' });
+  });
+
+  it('passes results and errors through', async () => {
+    await expect(withTimeout(async () => 'ok', 1000)).resolves.toBe('ok');
+    await expect(withTimeout(async () => { throw new SyntaxError('bad'); }, 1000)).rejects.toBeInstanceOf(SyntaxError);
+  });
+});
+
+describe('withRetry', () => {
+  it('retries transient failures until one succeeds', async () => {
+    const run = vi.fn()
+      .mockRejectedValueOnce(transient())
+      .mockRejectedValueOnce(transient())
+      .mockResolvedValue('ok');
+    await expect(withRetry(run)).resolves.toBe('ok');
+    expect(run).toHaveBeenCalledTimes(3);
+  });
+
+  it('gives up after the last attempt', async () => {
+    const run = vi.fn().mockRejectedValue(transient());
+    await expect(withRetry(run, { attempts: 2 })).rejects.toMatchObject({ kind: 'NETWORK' });
+    expect(run).toHaveBeenCalledTimes(2);
+  });
+
+  it('stops at once on errors a retry will not fix', async () => {
+    for (const error of [withStatus(401), providerError('SAFETY', 'Blocked'), new SyntaxError('bad')]) {
+      const run = vi.fn().mockRejectedValue(error);
+      await expect(withRetry(run)).rejects.toMatchObject({ kind: classifyError(error).kind });
+      expect(run).toHaveBeenCalledTimes(1);
+    }
+  });
+
+  it('retries an attempt that timed out', async () => {
+    const run = vi.fn()
+      .mockImplementationOnce(never)
+      .mockResolvedValue('ok');
+    await expect(withRetry(run, { timeoutMs: 20 })).resolves.toBe('ok');
+    expect(run).toHaveBeenCalledTimes(2);
+  });
+
+  it('stops with CANCELLED when the signal aborts mid-attempt', async () => {
+    const controller = new AbortController();
+    const run = vi.fn(never);
+    const pending = withRetry(run, { signal: controller.signal });
+    controller.abort();
+    await expect(pending).rejects.toMatchObject({ kind: 'CANCELLED' });
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops with CANCELLED when the signal aborts during the backoff', async () => {
+    const controller = new AbortController();
+    const run = vi.fn().mockRejectedValue(providerError('QUOTA', 'slow down', { retryAfterMs: 5000 }));
+    const pending = withRetry(run, { signal: controller.signal });
+    await new Promise(resolve => setTimeout(resolve, 20)); // Into the 5s wait
+    expect(run).toHaveBeenCalledTimes(1);
+    controller.abort();
+    await expect(pending).rejects.toMatchObject({ kind: 'CANCELLED' });
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects with CANCELLED when the signal was already aborted', async () => {
+    const run = vi.fn(never);
+    await expect(withRetry(run, { signal: AbortSignal.abort() })).rejects.toMatchObject({ kind: 'CANCELLED' });
+  });
+});
@@ -0,0 +1,180 @@
+// Backend failures sorted by what the robot should do about them: retry a
+// dropped connection, wait out a rate limit, or tell the user their key is
+// wrong. Providers throw whatever their SDK or fetch throws; `classifyError`
+// turns it into a ProviderError.
+
+export type ProviderErrorKind =
+  | 'AUTH' // Missing or rejected API key
+  | 'QUOTA' // 429 / quota exhausted
+  | 'SAFETY' // The model refused or was blocked
+  | 'NETWORK' // Offline, unreachable, or the server fell over (5xx)
+  | 'DECODE' // The answer came back malformed
+  | 'TIMEOUT'
+  | 'CANCELLED' // Aborted by the app, e.g. a new mic press
+  | 'UNKNOWN';
+
+export interface ProviderError extends Error {
+  kind: ProviderErrorKind;
+  status?: number; // HTTP status, when there was a response
+  retryAfterMs?: number; // From Retry-After, when the server sent one
+}
+
+export const providerError = (
+  kind: ProviderErrorKind,
+  message: string,
+  details: { status?: number; retryAfterMs?: number; cause?: unknown } = {}
+): ProviderError => Object.assign(new Error(message), { name: 'ProviderError', kind, ...details });
+
+export const isProviderError = (error: unknown): error is ProviderError =>
+  error instanceof Error && typeof (error as ProviderError).kind === 'string';
+
+const RETRYABLE_KINDS: ProviderErrorKind[] = ['NETWORK', 'QUOTA', 'TIMEOUT'];
+
+export const isRetryable = (error: ProviderError): boolean => RETRYABLE_KINDS.includes(error.kind);
+
+const kindForStatus = (status: number, message = ''): ProviderErrorKind => {
+  if (status === 401 || status === 403) return 'AUTH';
+  if (status === 429) return 'QUOTA';
+  if (status === 408 || status === 504) return 'TIMEOUT';
+  if (status >= 500) return 'NETWORK';
+  // Gemini answers a bad key with 400 INVALID_ARGUMENT
+  if (/api[ _]?key/i.test(message)) return 'AUTH';
+  return 'UNKNOWN';
+};
+
+// For a non-2xx fetch response
+export const httpError = (response: Response, what: string): ProviderError => {
+  const retryAfter = Number(response.headers.get('retry-after'));
+  return providerError(kindForStatus(response.status), `${what} failed: ${response.status} ${response.statusText}`, {
+    status: response.status,
+    retryAfterMs: retryAfter > 0 ? retryAfter * 1000 : undefined
+  });
+};
+
+export const classifyError = (error: unknown): ProviderError => {
+  if (isProviderError(error)) return error;
+  const message = error instanceof Error ? error.message : String(error);
+  const status = typeof (error as { status?: unknown })?.status === 'number' ? (error as { status: number }).status : undefined;
+
+  let kind: ProviderErrorKind = 'UNKNOWN';
+  if (error instanceof Error && error.name === 'AbortError') kind = 'CANCELLED';
+  else if (status !== undefined) kind = kindForStatus(status, message);
+  else if (/RESOURCE_EXHAUSTED|quota|rate.?limit/i.test(message)) kind = 'QUOTA';
+  // fetch rejects with a bare TypeError when offline or refused by CORS
+  else if (error instanceof TypeError && /fetch|network|load failed/i.test(message)) kind = 'NETWORK';
+  else if (error instanceof SyntaxError) kind = 'DECODE';
+  return providerError(kind, message, { status, cause: error });
+};
+
+// --- TIMEOUTS & RETRIES ---
+
+// A signal that aborts when `parent` does or `timeoutMs` passes without a
+// restart, and `race` to make a promise reject with the matching error even
+// if whatever it's waiting on ignores the signal
+const createDeadline = (timeoutMs: number | undefined, parent?: AbortSignal) => {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let timedOut = false;
+
+  const reason = (): ProviderError => timedOut
+    ? providerError('TIMEOUT', `No answer within ${Math.round((timeoutMs ?? 0) / 1000)}s`)
+    : providerError('CANCELLED', 'Request cancelled');
+  const aborted = new Promise<never>((_, reject) => {
+    controller.signal.addEventListener('abort', () => reject(reason()));
+  });
+  aborted.catch(() => {}); // Only awaited through race()
+
+  const onParentAbort = () => controller.abort();
+  parent?.addEventListener('abort', onParentAbort);
+  if (parent?.aborted) controller.abort();
+
+  const restart = () => {
+    clearTimeout(timer);
+    if (timeoutMs) {
+      timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, timeoutMs);
+    }
+  };
+  restart();
+
+  return {
+    signal: controller.signal,
+    restart,
+    race: <T>(promise: Promise<T>): Promise<T> =>
+      Promise.race([promise, aborted]).catch(error => { throw controller.signal.aborted ? reason() : error; }),
+    release: () => {
+      clearTimeout(timer);
+      parent?.removeEventListener('abort', onParentAbort);
+    }
+  };
+};
+
+export const withTimeout = async <T>(
+  run: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number | undefined,
+  parent?: AbortSignal
+): Promise<T> => {
+  const deadline = createDeadline(timeoutMs, parent);
+  try {
+    return await deadline.race(run(deadline.signal));
+  } finally {
+    deadline.release();
+  }
+};
+
+// Streams from `open`, failing with TIMEOUT when no item arrives for `idleMs`
+export async function* withIdleTimeout<T>(
+  open: (signal: AbortSignal) => AsyncIterable<T>,
+  idleMs: number,
+  parent?: AbortSignal
+): AsyncGenerator<T> {
+  const deadline = createDeadline(idleMs, parent);
+  const iterator = open(deadline.signal)[Symbol.asyncIterator]();
+  try {
+    for (;;) {
+      const next = await deadline.race(iterator.next());
+      if (next.done) return;
+      deadline.restart();
+      yield next.value;
+    }
+  } finally {
+    deadline.release();
+    iterator.return?.(undefined).catch(() => {});
+  }
+}
+
+const MAX_RETRY_DELAY_MS = 8000;
+
+// 0.5s, 1s, 2s... with jitter, or what the server asked for
+export const retryDelay = (attempt: number, error: ProviderError, baseDelayMs = 500): number =>
+  Math.min(MAX_RETRY_DELAY_MS, error.retryAfterMs ?? baseDelayMs * 2 ** attempt * (1 + Math.random() * 0.5));
+
+// Resolves after `ms`, or rejects with CANCELLED as soon as `signal` aborts
+export const waitFor = (ms: number, signal?: AbortSignal): Promise<void> =>
+  withTimeout(inner => new Promise<void>(resolve => {
+    const timer = setTimeout(resolve, ms);
+    inner.addEventListener('abort', () => clearTimeout(timer));
+  }), undefined, signal);
+
+export interface RetryOptions {
+  signal?: AbortSignal;
+  attempts?: number; // Including the first one
+  timeoutMs?: number; // Per attempt
+}
+
+// Runs `run` until it succeeds, retrying transient failures (network,
+// quota, timeout) with exponential backoff. Always rejects with a ProviderError.
+export const withRetry = async <T>(run: (signal: AbortSignal) => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+  const attempts = options.attempts ?? 3;
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await withTimeout(run, options.timeoutMs, options.signal);
+    } catch (e) {
+      const error = classifyError(e);
+      if (attempt + 1 >= attempts || !isRetryable(error) || options.signal?.aborted) throw error;
+      await waitFor(retryDelay(attempt, error), options.signal);
+    }
+  }
+};
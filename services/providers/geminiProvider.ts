@@ -0,0 +1,206 @@
+import { Content, FinishReason, GenerateContentResponse, GoogleGenAI, Modality, Part } from "@google/genai";
+import { ChatMessage } from "../../types";
+import { parseAudioMimeType } from "../../utils/audioCodec";
+import { providerError } from "./errors";
+import {
+  GeminiProviderConfig, LIVE_INPUT_SAMPLE_RATE, LIVE_OUTPUT_SAMPLE_RATE, LLMProvider, MAX_TOOL_ROUNDS,
+  TextGenerationRequest, toolParametersSchema
+} from "./types";
+
+// Prebuilt voices for speech output
+const GEMINI_VOICES = ['Kore', 'Puck', 'Charon', 'Fenrir', 'Aoede', 'Leda', 'Orus', 'Zephyr'];
+
+const toPart = (message: ChatMessage): Part => {
+  if (message.audio) {
+    return { inlineData: { mimeType: message.audio.mimeType, data: message.audio.data } };
+  }
+  return { text: message.text };
+};
+
+// Maps chat turns onto Gemini multi-turn contents, merging consecutive
+// turns from the same speaker into one content entry.
+export const toGeminiContents = (turns: ChatMessage[]): Content[] => {
+  const contents: Content[] = [];
+  for (const message of turns) {
+    const last = contents[contents.length - 1];
+    if (last && last.role === message.role) {
+      last.parts!.push(toPart(message));
+    } else {
+      contents.push({ role: message.role, parts: [toPart(message)] });
+    }
+  }
+  return contents;
+};
+
+// Raw parts of a streamed chunk; `chunk.text` would warn on function call parts
+const chunkParts = (chunk: GenerateContentResponse): Part[] => chunk.candidates?.[0]?.content?.parts ?? [];
+
+const BLOCKED_FINISH_REASONS: string[] = [
+  FinishReason.SAFETY, FinishReason.BLOCKLIST, FinishReason.PROHIBITED_CONTENT, FinishReason.SPII
+];
+
+// A blocked prompt or reply comes back as a normal response, not an error
+const checkBlocked = (chunk: GenerateContentResponse) => {
+  const blockReason = chunk.promptFeedback?.blockReason;
+  if (blockReason) throw providerError('SAFETY', `Prompt blocked: ${blockReason}`);
+  const finishReason = chunk.candidates?.[0]?.finishReason;
+  if (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason)) throw providerError('SAFETY', `Reply blocked: ${finishReason}`);
+};
+
+export const createGeminiProvider = (config: GeminiProviderConfig): LLMProvider => {
+  // NOTE: We recreate the client in calls to ensure fresh keys if needed,
+  // but for this environment, the API key is static.
+  const getAiClient = () => new GoogleGenAI({ apiKey: config.apiKey });
+
+  // Streams the reply; when the model calls tools, their results are sent
+  // back and the model continues (usually by confirming what it did)
+  const streamText = async function* ({ systemInstruction, turns, tools, onToolCall, signal }: TextGenerationRequest) {
+    const contents = toGeminiContents(turns);
+    const toolConfig = tools?.length && onToolCall
+      ? {
+          tools: [{
+            functionDeclarations: tools.map(tool => ({
+              name: tool.name,
+              description: tool.description,
+              parametersJsonSchema: toolParametersSchema(tool)
+            }))
+          }]
+        }
+      : {};
+
+    for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
+      const stream = await getAiClient().models.generateContentStream({
+        model: config.textModel,
+        contents,
+        config: { systemInstruction, abortSignal: signal, ...toolConfig }
+      });
+
+      const modelParts: Part[] = [];
+      for await (const chunk of stream) {
+        checkBlocked(chunk);
+        const parts = chunkParts(chunk);
+        modelParts.push(...parts);
+        for (const part of parts) {
+          if (part.text && !part.thought) yield part.text;
+        }
+      }
+
+      const calls = modelParts.filter(part => part.functionCall).map(part => part.functionCall!);
+      if (calls.length === 0 || !onToolCall) return;
+
+      // The model turn goes back verbatim, thought signatures included
+      contents.push({ role: 'model', parts: modelParts });
+      const responses: Part[] = [];
+      for (const call of calls) {
+        const result = await onToolCall({ name: call.name || '', args: call.args || {} });
+        responses.push({ functionResponse: { id: call.id, name: call.name, response: { result } } });
+      }
+      contents.push({ role: 'user', parts: responses });
+    }
+  };
+
+  return {
+    name: 'gemini',
+
+    text: {
+      generateText: async (request) => {
+        let text = '';
+        for await (const delta of streamText(request)) text += delta;
+        return text;
+      },
+
+      streamText
+    },
+
+    tts: {
+      voices: GEMINI_VOICES,
+      synthesize: async (text, options) => {
+        // Gemini TTS takes delivery directions as a spoken-style prefix
+        const prompt = options?.style ? `Say ${options.style}: ${text}` : text;
+        const response = await getAiClient().models.generateContent({
+          model: config.ttsModel,
+          contents: [{ parts: [{ text: prompt }] }],
+          config: {
+            responseModalities: [Modality.AUDIO],
+            speechConfig: {
+              voiceConfig: {
+                prebuiltVoiceConfig: { voiceName: options?.voice || config.ttsVoice }
+              }
+            },
+            abortSignal: options?.signal
+          }
+        });
+
+        checkBlocked(response);
+        const inlineData = response.candidates?.[0]?.content?.parts?.[0]?.inlineData;
+        if (!inlineData?.data) return undefined;
+        return {
+          audioBase64: inlineData.data,
+          // Gemini TTS returns headerless 16-bit PCM at 24kHz
+          mimeType: inlineData.mimeType || 'audio/L16;rate=24000'
+        };
+      }
+    },
+
+    transcription: {
+      transcribe: async (audio, options) => {
+        const response = await getAiClient().models.generateContent({
+          model: config.textModel,
+          contents: [{
+            role: 'user',
+            parts: [
+              { text: 'Transcribe this audio verbatim in its original language. Reply with the transcript only.' },
+              { inlineData: { mimeType: audio.mimeType, data: audio.data } }
+            ]
+          }],
+          config: { abortSignal: options?.signal }
+        });
+        return (response.text || '').trim();
+      }
+    },
+
+    live: {
+      connect: async ({ systemInstruction, voice }, callbacks) => {
+        const session = await getAiClient().live.connect({
+          model: config.liveModel,
+          config: {
+            responseModalities: [Modality.AUDIO],
+            systemInstruction,
+            inputAudioTranscription: {},
+            outputAudioTranscription: {},
+            speechConfig: {
+              voiceConfig: {
+                prebuiltVoiceConfig: { voiceName: voice || config.ttsVoice }
+              }
+            }
+          },
+          callbacks: {
+            onmessage: (message) => {
+              const content = message.serverContent;
+              if (!content) return;
+
+              if (content.interrupted) callbacks.onInterrupted();
+              content.modelTurn?.parts?.forEach(part => {
+                if (part.inlineData?.data) {
+                  callbacks.onAudio(part.inlineData.data, parseAudioMimeType(part.inlineData.mimeType).sampleRate ?? LIVE_OUTPUT_SAMPLE_RATE);
+                }
+              });
+              if (content.inputTranscription?.text) callbacks.onInputTranscript?.(content.inputTranscription.text);
+              if (content.outputTranscription?.text) callbacks.onOutputTranscript?.(content.outputTranscription.text);
+              if (content.turnComplete) callbacks.onTurnComplete();
+            },
+            onerror: (e) => callbacks.onError?.(new Error(e.message)),
+            onclose: (e) => callbacks.onClose?.(e.reason)
+          }
+        });
+
+        return {
+          sendAudio: (data) => session.sendRealtimeInput({
+            audio: { data, mimeType: `audio/pcm;rate=${LIVE_INPUT_SAMPLE_RATE}` }
+          }),
+          close: () => session.close()
+        };
+      }
+    }
+  };
+};
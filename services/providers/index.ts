@@ -0,0 +1,57 @@
+import { createGeminiProvider } from "./geminiProvider";
+import { createMockProvider } from "./mockProvider";
+import { createOpenAIProvider } from "./openAiProvider";
+import { LLMProvider, ProviderName } from "./types";
+import { createWebSocketLiveProvider } from "./webSocketLiveProvider";
+
+export * from "./types";
+export * from "./errors";
+
+// Falls back to the offline mock when no Gemini key is configured,
+// so the robot still boots and talks without network access.
+const resolveProviderName = (): ProviderName => {
+  const requested = (process.env.LLM_PROVIDER || '').toLowerCase();
+  if (requested === 'gemini' || requested === 'openai' || requested === 'mock') {
+    return requested;
+  }
+  return process.env.GEMINI_API_KEY ? 'gemini' : 'mock';
+};
+
+// NOTE: process.env.* values are substituted at build time by vite.config.ts,
+// so they must be referenced literally (no destructuring).
+export const createProvider = (name: ProviderName): LLMProvider => {
+  switch (name) {
+    case 'openai':
+      return createOpenAIProvider({
+        baseUrl: process.env.OPENAI_BASE_URL || 'http://localhost:8080/v1',
+        apiKey: process.env.OPENAI_API_KEY,
+        textModel: process.env.OPENAI_MODEL || 'gpt-4o-mini',
+        ttsModel: process.env.OPENAI_TTS_MODEL || 'tts-1',
+        ttsVoice: process.env.OPENAI_TTS_VOICE || 'nova',
+        transcriptionModel: process.env.OPENAI_TRANSCRIBE_MODEL || 'whisper-1'
+      });
+    case 'mock':
+      return createMockProvider();
+    default:
+      return createGeminiProvider({
+        apiKey: process.env.GEMINI_API_KEY,
+        textModel: process.env.GEMINI_MODEL || 'gemini-2.5-flash',
+        ttsModel: process.env.GEMINI_TTS_MODEL || 'gemini-2.5-flash-preview-tts',
+        ttsVoice: 'Kore', // Kore works well for female/neutral tones
+        liveModel: process.env.GEMINI_LIVE_MODEL || 'gemini-live-2.5-flash-preview'
+      });
+  }
+};
+
+let activeProvider: LLMProvider | null = null;
+
+export const getProvider = (): LLMProvider => {
+  if (!activeProvider) {
+    const provider = createProvider(resolveProviderName());
+    // A local WebSocket stand-in replaces the backend's live API when configured
+    activeProvider = process.env.LIVE_WS_URL
+      ? { ...provider, live: createWebSocketLiveProvider(process.env.LIVE_WS_URL) }
+      : provider;
+  }
+  return activeProvider;
+};
@@ -0,0 +1,108 @@
+import { ChatMessage } from "../../types";
+import { bytesToBase64 } from "../../utils/audioUtils";
+import { LLMProvider, TextGenerationRequest, ToolCall } from "./types";
+
+// Tagged like a real reply would be (see utils/emotionTags)
+const MOCK_REPLIES = [
+  "[happy]嘿嘿，邦布在这里呐~ [excited]今天也要元气满满哦！",
+  "[thinking]呐呐，这个问题邦布要想一想... [wink]嗯，交给邦布吧！",
+  "[surprised]哇，好厉害！[love]邦布也想试试看呐~",
+  "[happy]嘿嘿，邦布听到啦！[wink]还有什么想聊的吗？",
+];
+
+const MOCK_SAMPLE_RATE = 24000;
+const MOCK_STREAM_CHUNK = 5; // Characters per streamed delta
+
+// Small deterministic string hash (djb2) so identical inputs give identical replies
+const hashString = (value: string): number => {
+  let hash = 5381;
+  for (let i = 0; i < value.length; i++) {
+    hash = ((hash << 5) + hash + value.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+};
+
+// Renders one short chirp per character so the speaking animation has
+// something to play without any network access.
+const renderChirps = (text: string): Uint8Array => {
+  const syllables = Math.min(Array.from(text).length, 24);
+  const syllableSamples = Math.floor(MOCK_SAMPLE_RATE * 0.09);
+  const samples = new Int16Array(syllables * syllableSamples);
+
+  for (let s = 0; s < syllables; s++) {
+    const frequency = 420 + (hashString(text.slice(0, s + 1)) % 8) * 40;
+    for (let i = 0; i < syllableSamples; i++) {
+      const envelope = Math.sin(Math.PI * i / syllableSamples);
+      const value = Math.sin(2 * Math.PI * frequency * i / MOCK_SAMPLE_RATE) * envelope * 0.3;
+      samples[s * syllableSamples + i] = Math.round(value * 32767);
+    }
+  }
+  return new Uint8Array(samples.buffer);
+};
+
+const pickReply = (turns: ChatMessage[]): string => {
+  const last = turns[turns.length - 1];
+  const seed = last ? (last.audio ? last.audio.data.length.toString() : last.text) : '';
+  return MOCK_REPLIES[hashString(seed) % MOCK_REPLIES.length];
+};
+
+// Keyword intents standing in for real function calling, e.g. "set an alarm
+// for 7:30", "下一首", "turn the volume down"
+const matchToolCall = (text: string): ToolCall | undefined => {
+  const lower = text.toLowerCase();
+  const time = lower.match(/(\d{1,2})\s*[:：点]\s*(\d{1,2}|半)?/);
+  const minutes = lower.match(/(\d+(?:\.\d+)?)\s*(?:分钟|min)/);
+  const down = /小|低|暗|down|lower|quieter|dimmer/.test(lower);
+
+  if (/闹钟|alarm/.test(lower) && time) {
+    const minute = time[2] === '半' ? 30 : Number(time[2] || 0);
+    return { name: 'set_alarm', args: { hour: Number(time[1]), minute } };
+  }
+  if (/计时|timer/.test(lower) && minutes) return { name: 'start_timer', args: { minutes: Number(minutes[1]) } };
+  if (/下一首|next (song|track)|skip/.test(lower)) return { name: 'control_music', args: { action: 'next' } };
+  if (/上一首|previous (song|track)/.test(lower)) return { name: 'control_music', args: { action: 'previous' } };
+  if (/暂停|pause/.test(lower)) return { name: 'control_music', args: { action: 'pause' } };
+  if (/音量|声音|volume/.test(lower)) return { name: 'set_volume', args: { direction: down ? 'down' : 'up' } };
+  if (/亮度|brightness/.test(lower)) return { name: 'set_brightness', args: { direction: down ? 'down' : 'up' } };
+  if (/播放|放首歌|play/.test(lower)) return { name: 'control_music', args: { action: 'play' } };
+  if (/时钟|clock/.test(lower)) return { name: 'open_app', args: { app: 'clock' } };
+  if (/睡觉|晚安|sleep/.test(lower)) return { name: 'go_to_sleep', args: {} };
+  return undefined;
+};
+
+const respond = async ({ turns, tools, onToolCall }: TextGenerationRequest): Promise<string> => {
+  const last = turns[turns.length - 1];
+  const call = last && !last.audio && onToolCall ? matchToolCall(last.text) : undefined;
+  if (call && tools?.some(tool => tool.name === call.name)) {
+    const result = await onToolCall!(call);
+    return result.startsWith('Error') ? `[sad]呜呜，没做到呢...（${result}）` : `[happy]好哒，交给邦布吧！（${result}）`;
+  }
+  return pickReply(turns);
+};
+
+export const createMockProvider = (): LLMProvider => ({
+  name: 'mock',
+
+  text: {
+    generateText: respond,
+
+    // Streams the canned reply in fixed-size slices, like a real backend would
+    streamText: async function* (request) {
+      const chars = Array.from(await respond(request));
+      for (let i = 0; i < chars.length; i += MOCK_STREAM_CHUNK) {
+        yield chars.slice(i, i + MOCK_STREAM_CHUNK).join('');
+      }
+    }
+  },
+
+  tts: {
+    synthesize: async (text) => ({
+      audioBase64: bytesToBase64(renderChirps(text)),
+      mimeType: `audio/L16;rate=${MOCK_SAMPLE_RATE}`
+    })
+  },
+
+  transcription: {
+    transcribe: async (audio) => `（模拟转写：${audio.data.length} 字节的语音）`
+  }
+});
@@ -0,0 +1,185 @@
+import { ChatMessage, InlineAudio } from "../../types";
+import { base64ToBlob, bytesToBase64 } from "../../utils/audioUtils";
+import { httpError, providerError } from "./errors";
+import { LLMProvider, MAX_TOOL_ROUNDS, OpenAIProviderConfig, TextGenerationRequest, toolParametersSchema } from "./types";
+
+const OPENAI_VOICES = ['alloy', 'echo', 'fable', 'onyx', 'nova', 'shimmer'];
+
+// Replayed voice turns are transcribed once and reused on later turns
+const TRANSCRIPT_CACHE_SIZE = 50;
+
+interface StreamedToolCall {
+  id: string;
+  name: string;
+  arguments: string; // JSON, accumulated across deltas
+}
+
+// Parses the server-sent events of a streamed chat completion into choices
+async function* readCompletionChoices(response: Response): AsyncGenerator<any> {
+  if (!response.body) return;
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += value;
+
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    for (const line of lines) {
+      const data = line.replace(/^data:\s*/, '').trim();
+      if (!line.startsWith('data:') || !data) continue;
+      if (data === '[DONE]') return;
+      let choice: any;
+      try {
+        choice = JSON.parse(data).choices?.[0];
+      } catch (e) {
+        throw providerError('DECODE', `Malformed stream event: ${data.slice(0, 80)}`, { cause: e });
+      }
+      if (choice) yield choice;
+    }
+  }
+}
+
+const fileExtensionFor = (mimeType: string): string => {
+  const subtype = mimeType.split(';')[0].split('/')[1] || 'webm';
+  return subtype === 'mpeg' ? 'mp3' : subtype;
+};
+
+// Talks to any server implementing the OpenAI REST surface
+// (chat/completions, audio/speech, audio/transcriptions), e.g. a local
+// llama.cpp, LocalAI or vLLM instance.
+export const createOpenAIProvider = (config: OpenAIProviderConfig): LLMProvider => {
+  const baseUrl = config.baseUrl.replace(/\/+$/, '');
+  const transcriptCache = new Map<string, string>();
+
+  const headers = (extra: Record<string, string> = {}): Record<string, string> => ({
+    ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+    ...extra
+  });
+
+  const request = async (path: string, init: RequestInit): Promise<Response> => {
+    const response = await fetch(`${baseUrl}${path}`, init);
+    if (!response.ok) throw httpError(response, `OpenAI-compatible request ${path}`);
+    return response;
+  };
+
+  const transcribe = async (audio: InlineAudio, options?: { signal?: AbortSignal }): Promise<string> => {
+    const cached = transcriptCache.get(audio.data);
+    if (cached !== undefined) return cached;
+
+    const form = new FormData();
+    form.append('model', config.transcriptionModel);
+    form.append('file', base64ToBlob(audio.data, audio.mimeType), `speech.${fileExtensionFor(audio.mimeType)}`);
+
+    const response = await request('/audio/transcriptions', { method: 'POST', headers: headers(), body: form, signal: options?.signal });
+    const json = await response.json();
+    const text = String(json.text || '').trim();
+
+    transcriptCache.set(audio.data, text);
+    if (transcriptCache.size > TRANSCRIPT_CACHE_SIZE) {
+      transcriptCache.delete(transcriptCache.keys().next().value!);
+    }
+    return text;
+  };
+
+  const toMessage = async (message: ChatMessage, signal?: AbortSignal) => ({
+    role: message.role === 'model' ? 'assistant' : 'user',
+    content: message.audio ? await transcribe(message.audio, { signal }) : message.text
+  });
+
+  // Streams the reply; tool calls are run and their results sent back
+  // until the model answers with plain text
+  const streamText = async function* ({ systemInstruction, turns, tools, onToolCall, signal }: TextGenerationRequest) {
+    const messages: any[] = [
+      { role: 'system', content: systemInstruction },
+      ...(await Promise.all(turns.map(turn => toMessage(turn, signal))))
+    ];
+    const toolSpecs = tools?.length && onToolCall
+      ? tools.map(tool => ({
+          type: 'function',
+          function: { name: tool.name, description: tool.description, parameters: toolParametersSchema(tool) }
+        }))
+      : undefined;
+
+    for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
+      const response = await request('/chat/completions', {
+        method: 'POST',
+        headers: headers({ 'Content-Type': 'application/json' }),
+        body: JSON.stringify({ model: config.textModel, messages, stream: true, ...(toolSpecs ? { tools: toolSpecs } : {}) }),
+        signal
+      });
+
+      const calls: StreamedToolCall[] = [];
+      for await (const choice of readCompletionChoices(response)) {
+        if (choice.finish_reason === 'content_filter') throw providerError('SAFETY', 'Reply blocked by the content filter');
+        const delta = choice.delta ?? {};
+        if (delta.content) yield delta.content as string;
+        for (const part of delta.tool_calls ?? []) {
+          const call = calls[part.index ?? 0] || (calls[part.index ?? 0] = { id: '', name: '', arguments: '' });
+          if (part.id) call.id = part.id;
+          if (part.function?.name) call.name += part.function.name;
+          if (part.function?.arguments) call.arguments += part.function.arguments;
+        }
+      }
+
+      if (calls.length === 0 || !onToolCall) return;
+
+      messages.push({
+        role: 'assistant',
+        content: null,
+        tool_calls: calls.map(call => ({ id: call.id, type: 'function', function: { name: call.name, arguments: call.arguments } }))
+      });
+      for (const call of calls) {
+        let args: Record<string, unknown> = {};
+        try {
+          args = JSON.parse(call.arguments || '{}');
+        } catch (e) {
+          console.warn(`Malformed arguments for tool ${call.name}`, call.arguments);
+        }
+        messages.push({ role: 'tool', tool_call_id: call.id, content: await onToolCall({ name: call.name, args }) });
+      }
+    }
+  };
+
+  return {
+    name: 'openai',
+
+    text: {
+      generateText: async (req) => {
+        let text = '';
+        for await (const delta of streamText(req)) text += delta;
+        return text;
+      },
+
+      streamText
+    },
+
+    tts: {
+      voices: OPENAI_VOICES,
+      synthesize: async (text, options) => {
+        const response = await request('/audio/speech', {
+          method: 'POST',
+          headers: headers({ 'Content-Type': 'application/json' }),
+          body: JSON.stringify({
+            model: config.ttsModel,
+            voice: options?.voice || config.ttsVoice,
+            input: text,
+            response_format: 'wav',
+            // Only the gpt-4o TTS models take instructions; tts-1 rejects them
+            ...(options?.style && config.ttsModel.startsWith('gpt-4o')
+              ? { instructions: `Speak ${options.style}.` }
+              : {})
+          }),
+          signal: options?.signal
+        });
+        const bytes = new Uint8Array(await response.arrayBuffer());
+        if (bytes.length === 0) return undefined;
+        return { audioBase64: bytesToBase64(bytes), mimeType: 'audio/wav' };
+      }
+    },
+
+    transcription: { transcribe }
+  };
+};
@@ -0,0 +1,120 @@
+import { ChatMessage, InlineAudio } from "../../types";
+
+export type ProviderName = 'gemini' | 'openai' | 'mock';
+
+// A device action the model may call. Parameters are a flat JSON Schema
+// subset that every backend understands.
+export interface ToolParameter {
+  type: 'string' | 'integer' | 'number' | 'boolean';
+  description: string;
+  enum?: string[];
+  minimum?: number;
+  maximum?: number;
+}
+
+export interface ToolDeclaration {
+  name: string;
+  description: string;
+  parameters: Record<string, ToolParameter>;
+  required?: string[];
+}
+
+export interface ToolCall {
+  name: string;
+  args: Record<string, unknown>;
+}
+
+// Model <-> tool round trips allowed for one reply
+export const MAX_TOOL_ROUNDS = 3;
+
+export const toolParametersSchema = (tool: ToolDeclaration) => ({
+  type: 'object',
+  properties: tool.parameters,
+  required: tool.required ?? []
+});
+
+export interface TextGenerationRequest {
+  systemInstruction: string;
+  turns: ChatMessage[]; // Already trimmed to the token budget
+  tools?: ToolDeclaration[];
+  // Runs a tool the model called; the returned text is sent back to the model
+  onToolCall?: (call: ToolCall) => Promise<string>;
+  signal?: AbortSignal; // Aborts the request; backends should stop streaming
+}
+
+export interface SynthesizedSpeech {
+  audioBase64: string;
+  mimeType: string; // e.g. 'audio/wav' or 'audio/L16;rate=24000' for raw PCM
+}
+
+export interface TextGenerator {
+  generateText(request: TextGenerationRequest): Promise<string>;
+  // Yields text deltas as they arrive
+  streamText(request: TextGenerationRequest): AsyncGenerator<string>;
+}
+
+export interface SpeechOptions {
+  // Natural-language delivery, e.g. "cheerfully". Backends that can't steer
+  // the voice ignore it.
+  style?: string;
+  voice?: string; // Overrides the configured voice
+  signal?: AbortSignal;
+}
+
+export interface SpeechSynthesizer {
+  synthesize(text: string, options?: SpeechOptions): Promise<SynthesizedSpeech | undefined>;
+  voices?: string[]; // Voice names the backend accepts, when it has a fixed set
+}
+
+export interface Transcriber {
+  transcribe(audio: InlineAudio, options?: { signal?: AbortSignal }): Promise<string>;
+}
+
+// Live (full-duplex) audio: mic audio goes up as 16kHz PCM,
+// the model answers with 24kHz PCM.
+export const LIVE_INPUT_SAMPLE_RATE = 16000;
+export const LIVE_OUTPUT_SAMPLE_RATE = 24000;
+
+export interface LiveSessionCallbacks {
+  onAudio(pcmBase64: string, sampleRate: number): void; // 16-bit mono PCM
+  onInterrupted(): void; // The backend heard the user talk over the reply
+  onTurnComplete(): void;
+  onInputTranscript?(text: string): void; // Partial transcript of the user
+  onOutputTranscript?(text: string): void; // Partial transcript of the reply
+  onClose?(reason?: string): void;
+  onError?(error: Error): void;
+}
+
+export interface LiveSession {
+  sendAudio(pcmBase64: string): void; // 16-bit mono PCM at LIVE_INPUT_SAMPLE_RATE
+  close(): void;
+}
+
+export interface LiveConversationProvider {
+  connect(options: { systemInstruction: string; voice?: string }, callbacks: LiveSessionCallbacks): Promise<LiveSession>;
+}
+
+export interface LLMProvider {
+  name: ProviderName;
+  text: TextGenerator;
+  tts: SpeechSynthesizer;
+  transcription: Transcriber;
+  live?: LiveConversationProvider; // Not every backend offers a realtime API
+}
+
+export interface GeminiProviderConfig {
+  apiKey?: string;
+  textModel: string;
+  ttsModel: string;
+  ttsVoice: string;
+  liveModel: string;
+}
+
+export interface OpenAIProviderConfig {
+  baseUrl: string; // e.g. http://localhost:8080/v1 for a local server
+  apiKey?: string;
+  textModel: string;
+  ttsModel: string;
+  ttsVoice: string;
+  transcriptionModel: string;
+}
@@ -0,0 +1,165 @@
+import { AddressInfo } from 'net';
+import { WebSocket, WebSocketServer } from 'ws';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { LiveConversation, LiveConversationCallbacks, startLiveConversation } from '../liveConversation';
+import { buildPersonaPrompt, BUILT_IN_PERSONAS } from '../personas';
+import { createMockProvider } from './mockProvider';
+import { LLMProvider } from './types';
+import { createWebSocketLiveProvider } from './webSocketLiveProvider';
+
+// The backend is picked from build-time env, so hand liveConversation the stand-in directly
+const backend = vi.hoisted(() => ({ provider: null as LLMProvider | null }));
+vi.mock('./index', async importOriginal => ({
+  ...await importOriginal<typeof import('./index')>(),
+  getProvider: () => backend.provider
+}));
+
+// Node 20 has neither a WebSocket nor a microphone
+vi.stubGlobal('WebSocket', WebSocket);
+
+const persona = BUILT_IN_PERSONAS[0];
+const language = { uiLocale: 'en', replyLanguage: 'PERSONA', voices: {} } as const;
+
+type ClientMessage = { type: string; data?: string; systemInstruction?: string };
+
+let server: WebSocketServer;
+let socket: WebSocket | null = null; // The app's connection, server side
+let received: ClientMessage[] = [];
+let serverSawClose = false;
+
+const send = (message: unknown) => socket!.send(typeof message === 'string' ? message : JSON.stringify(message));
+
+const waitForMessage = (type: string): Promise<ClientMessage> => vi.waitFor(() => {
+  const message = received.find(m => m.type === type);
+  expect(message).toBeDefined();
+  return message!;
+});
+
+// Just enough of an AudioContext for the capture graph
+const createFakeAudio = () => {
+  const node = () => ({ connect: vi.fn(), disconnect: vi.fn() });
+  const processor = { ...node(), onaudioprocess: null as ((event: unknown) => void) | null };
+  const ctx = {
+    sampleRate: 16000,
+    destination: {},
+    createMediaStreamSource: node,
+    createScriptProcessor: () => processor,
+    createGain: () => ({ ...node(), gain: { value: 1 } })
+  };
+  const track = { stop: vi.fn() };
+  vi.stubGlobal('navigator', { mediaDevices: { getUserMedia: async () => ({ getTracks: () => [track] }) } });
+  const capture = (samples: Float32Array) => processor.onaudioprocess?.({ inputBuffer: { getChannelData: () => samples } });
+  return { ctx: ctx as unknown as AudioContext, track, capture };
+};
+
+const createCallbacks = () => ({
+  onAudio: vi.fn(),
+  onInterrupted: vi.fn(),
+  onTurnComplete: vi.fn(),
+  onInputTranscript: vi.fn(),
+  onOutputTranscript: vi.fn(),
+  onClose: vi.fn(),
+  onError: vi.fn(),
+  onUserSpeechStart: vi.fn()
+}) satisfies LiveConversationCallbacks;
+
+beforeAll(async () => {
+  server = new WebSocketServer({ host: '127.0.0.1', port: 0 });
+  await new Promise(resolve => server.once('listening', resolve));
+  server.on('connection', connection => {
+    socket = connection;
+    connection.on('message', data => received.push(JSON.parse(data.toString())));
+    connection.on('close', () => { serverSawClose = true; });
+  });
+  const { port } = server.address() as AddressInfo;
+  backend.provider = { ...createMockProvider(), live: createWebSocketLiveProvider(`ws://127.0.0.1:${port}`) };
+});
+
+afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+describe('live conversation over the WebSocket stand-in', () => {
+  let audio: ReturnType<typeof createFakeAudio>;
+  let callbacks: ReturnType<typeof createCallbacks>;
+  let conversation: LiveConversation;
+
+  beforeEach(async () => {
+    received = [];
+    serverSawClose = false;
+    audio = createFakeAudio();
+    callbacks = createCallbacks();
+    conversation = await startLiveConversation(audio.ctx, persona, language, callbacks);
+  });
+
+  afterEach(() => conversation.stop());
+
+  it('sends the persona prompt first', async () => {
+    const setup = await waitForMessage('setup');
+    expect(received[0]).toBe(setup);
+    expect(setup.systemInstruction).toBe(buildPersonaPrompt(persona, 'PERSONA'));
+  });
+
+  it('streams mic audio up as 16-bit PCM and flags the user talking', async () => {
+    const loud = new Float32Array(1600).fill(0.5);
+    audio.capture(loud);
+    expect(callbacks.onUserSpeechStart).not.toHaveBeenCalled();
+    audio.capture(loud);
+    expect(callbacks.onUserSpeechStart).toHaveBeenCalledTimes(1);
+
+    await vi.waitFor(() => expect(received.filter(m => m.type === 'audio')).toHaveLength(2));
+    const pcm = new Int16Array(new Uint8Array(Buffer.from(received[1].data!, 'base64')).buffer);
+    expect(pcm).toHaveLength(1600);
+    expect(pcm[0]).toBe(Math.trunc(0.5 * 0x7fff));
+  });
+
+  it('hands transcripts, reply audio and the end of the turn to the app', async () => {
+    await waitForMessage('setup');
+    send({ type: 'transcript', role: 'user', text: 'hello' });
+    send({ type: 'transcript', role: 'model', text: 'hi there' });
+    send({ type: 'audio', data: 'AAAA' });
+    send({ type: 'audio', data: 'BBBB', sampleRate: 16000 });
+    send({ type: 'turnComplete' });
+
+    await vi.waitFor(() => expect(callbacks.onTurnComplete).toHaveBeenCalled());
+    expect(callbacks.onInputTranscript).toHaveBeenCalledWith('hello');
+    expect(callbacks.onOutputTranscript).toHaveBeenCalledWith('hi there');
+    expect(callbacks.onAudio.mock.calls).toEqual([['AAAA', 24000], ['BBBB', 16000]]);
+  });
+
+  it('reports an interruption and skips malformed messages', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    await waitForMessage('setup');
+    send('not json');
+    send({ type: 'interrupted' });
+
+    await vi.waitFor(() => expect(callbacks.onInterrupted).toHaveBeenCalledTimes(1));
+    expect(warn).toHaveBeenCalledWith('Ignoring malformed live message', 'not json');
+    warn.mockRestore();
+  });
+
+  it('closes the socket and releases the mic on stop', async () => {
+    await waitForMessage('setup');
+    conversation.stop();
+    expect(audio.track.stop).toHaveBeenCalled();
+    await vi.waitFor(() => expect(serverSawClose).toBe(true));
+    await vi.waitFor(() => expect(callbacks.onClose).toHaveBeenCalled());
+
+    // Late mic buffers go nowhere
+    audio.capture(new Float32Array(1600).fill(0.5));
+    expect(received.filter(m => m.type === 'audio')).toHaveLength(0);
+  });
+
+  it('reports the stand-in closing the session', async () => {
+    await waitForMessage('setup');
+    socket!.close(1000, 'bye');
+    await vi.waitFor(() => expect(callbacks.onClose).toHaveBeenCalledWith('bye'));
+  });
+});
+
+it('releases the mic when the stand-in is unreachable', async () => {
+  const saved = backend.provider;
+  backend.provider = { ...createMockProvider(), live: createWebSocketLiveProvider('ws://127.0.0.1:1') };
+  const audio = createFakeAudio();
+  await expect(startLiveConversation(audio.ctx, persona, language, createCallbacks())).rejects.toThrow('failed');
+  expect(audio.track.stop).toHaveBeenCalled();
+  backend.provider = saved;
+});
@@ -0,0 +1,69 @@
+import { LIVE_OUTPUT_SAMPLE_RATE, LiveConversationProvider } from "./types";
+
+// Minimal JSON protocol for a local live-audio stand-in server:
+//
+//   client -> server  { type: 'setup', systemInstruction }
+//                     { type: 'audio', data }              16kHz PCM, base64
+//   server -> client  { type: 'audio', data, sampleRate? } PCM, base64
+//                     { type: 'interrupted' }
+//                     { type: 'turnComplete' }
+//                     { type: 'transcript', role: 'user' | 'model', text }
+type StandInMessage =
+  | { type: 'audio'; data: string; sampleRate?: number }
+  | { type: 'interrupted' }
+  | { type: 'turnComplete' }
+  | { type: 'transcript'; role: 'user' | 'model'; text: string };
+
+export const createWebSocketLiveProvider = (url: string): LiveConversationProvider => ({
+  connect: ({ systemInstruction }, callbacks) => new Promise((resolve, reject) => {
+    const socket = new WebSocket(url);
+    let opened = false;
+
+    socket.onopen = () => {
+      opened = true;
+      socket.send(JSON.stringify({ type: 'setup', systemInstruction }));
+      resolve({
+        sendAudio: (data) => {
+          if (socket.readyState === WebSocket.OPEN) {
+            socket.send(JSON.stringify({ type: 'audio', data }));
+          }
+        },
+        close: () => socket.close()
+      });
+    };
+
+    socket.onmessage = (event) => {
+      let message: StandInMessage;
+      try {
+        message = JSON.parse(event.data);
+      } catch (e) {
+        console.warn('Ignoring malformed live message', event.data);
+        return;
+      }
+
+      switch (message.type) {
+        case 'audio':
+          callbacks.onAudio(message.data, message.sampleRate || LIVE_OUTPUT_SAMPLE_RATE);
+          break;
+        case 'interrupted':
+          callbacks.onInterrupted();
+          break;
+        case 'turnComplete':
+          callbacks.onTurnComplete();
+          break;
+        case 'transcript':
+          if (message.role === 'user') callbacks.onInputTranscript?.(message.text);
+          else callbacks.onOutputTranscript?.(message.text);
+          break;
+      }
+    };
+
+    socket.onerror = () => {
+      const error = new Error(`Live stand-in connection to ${url} failed`);
+      if (!opened) reject(error);
+      else callbacks.onError?.(error);
+    };
+
+    socket.onclose = (event) => callbacks.onClose?.(event.reason);
+  })
+});
@@ -0,0 +1,80 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { adjustLevel, dispatchRobotCommand, RobotCommandHandlers } from './robotCommands';
+
+let handlers: { [K in keyof RobotCommandHandlers]: ReturnType<typeof vi.fn> };
+
+beforeEach(() => {
+  handlers = {
+    set_alarm: vi.fn(() => 'Alarm set'),
+    start_timer: vi.fn(() => 'Timer started'),
+    control_music: vi.fn(() => 'Music playing'),
+    set_volume: vi.fn(() => 'Volume set'),
+    set_brightness: vi.fn(() => 'Brightness set'),
+    open_app: vi.fn(() => 'Opened'),
+    go_to_sleep: vi.fn(() => 'Sleeping')
+  };
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+const dispatch = (name: string, args: Record<string, unknown> = {}) =>
+  dispatchRobotCommand({ name, args }, handlers as unknown as RobotCommandHandlers);
+
+describe('dispatchRobotCommand', () => {
+  it('runs the handler with valid arguments', () => {
+    expect(dispatch('set_alarm', { hour: 7, minute: 30, label: 'Gym' })).toBe('Alarm set');
+    expect(handlers.set_alarm).toHaveBeenCalledWith({ hour: 7, minute: 30, label: 'Gym' });
+    expect(dispatch('go_to_sleep')).toBe('Sleeping');
+  });
+
+  it('coerces numeric strings', () => {
+    dispatch('set_alarm', { hour: '6', minute: '05' });
+    expect(handlers.set_alarm).toHaveBeenCalledWith({ hour: 6, minute: 5 });
+  });
+
+  it('rejects an out-of-range hour or minute', () => {
+    expect(dispatch('set_alarm', { hour: 24, minute: 0 })).toBe('Error: "hour" must be at most 23');
+    expect(dispatch('set_alarm', { hour: -1, minute: 0 })).toBe('Error: "hour" must be at least 0');
+    expect(dispatch('set_alarm', { hour: 7, minute: 60 })).toBe('Error: "minute" must be at most 59');
+    expect(dispatch('set_alarm', { hour: 7.5, minute: 0 })).toBe('Error: "hour" must be a whole number');
+    expect(handlers.set_alarm).not.toHaveBeenCalled();
+  });
+
+  it('rejects out-of-range volume and brightness levels', () => {
+    expect(dispatch('set_volume', { level: 101 })).toBe('Error: "level" must be at most 100');
+    expect(dispatch('set_brightness', { level: -5 })).toBe('Error: "level" must be at least 0');
+    expect(dispatch('set_volume', { level: 'loud' })).toBe('Error: "level" must be a number');
+    expect(dispatch('set_brightness', { direction: 'sideways' })).toBe('Error: "direction" must be one of up, down');
+    expect(handlers.set_volume).not.toHaveBeenCalled();
+    expect(handlers.set_brightness).not.toHaveBeenCalled();
+  });
+
+  it('rejects a missing required argument', () => {
+    expect(dispatch('set_alarm', { hour: 7 })).toBe('Error: missing argument "minute"');
+    expect(dispatch('start_timer', { minutes: null })).toBe('Error: missing argument "minutes"');
+    expect(dispatch('open_app')).toBe('Error: missing argument "app"');
+  });
+
+  it('rejects unknown commands and arguments', () => {
+    expect(dispatch('launch_rocket')).toBe('Error: unknown command "launch_rocket"');
+    expect(dispatch('toString')).toBe('Error: unknown command "toString"');
+    expect(dispatch('go_to_sleep', { now: true })).toBe('Error: unknown argument "now"');
+  });
+
+  it('reports a handler that throws', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    handlers.open_app.mockImplementation(() => { throw new Error('No such screen'); });
+    expect(dispatch('open_app', { app: 'music' })).toBe('Error: No such screen');
+  });
+});
+
+describe('adjustLevel', () => {
+  it('sets a percentage or steps, within bounds', () => {
+    expect(adjustLevel(0.5, 30)).toBe(0.3);
+    expect(adjustLevel(0.5, undefined, 'up')).toBeCloseTo(0.7);
+    expect(adjustLevel(0.9, undefined, 'up')).toBe(1);
+    expect(adjustLevel(0.2, undefined, 'down', 0.1)).toBe(0.1);
+  });
+});
@@ -0,0 +1,138 @@
+import { ToolCall, ToolDeclaration } from "./providers/types";
+
+// Device actions the assistant can take. Each command has a typed argument
+// shape, a declaration the model sees, and a handler supplied by the app.
+
+export type LevelDirection = 'up' | 'down';
+export type RobotApp = 'home' | 'music' | 'chat' | 'clock' | 'settings';
+
+export interface RobotCommandArgs {
+  set_alarm: { hour: number; minute: number; label?: string };
+  start_timer: { minutes: number };
+  control_music: { action: 'play' | 'pause' | 'next' | 'previous' };
+  set_volume: { level?: number; direction?: LevelDirection };
+  set_brightness: { level?: number; direction?: LevelDirection };
+  open_app: { app: RobotApp };
+  go_to_sleep: {};
+}
+
+export type RobotCommandName = keyof RobotCommandArgs;
+
+// Performs the action and returns a short result the model confirms to the user
+export type RobotCommandHandlers = {
+  [K in RobotCommandName]: (args: RobotCommandArgs[K]) => string;
+};
+
+const LEVEL_PARAMETERS: ToolDeclaration['parameters'] = {
+  level: { type: 'integer', description: 'Absolute level in percent', minimum: 0, maximum: 100 },
+  direction: { type: 'string', description: 'Relative change when no level is given', enum: ['up', 'down'] }
+};
+
+export const ROBOT_COMMANDS: Record<RobotCommandName, ToolDeclaration> = {
+  set_alarm: {
+    name: 'set_alarm',
+    description: 'Create an alarm that rings once at the given local time (24-hour clock).',
+    parameters: {
+      hour: { type: 'integer', description: 'Hour, 0-23', minimum: 0, maximum: 23 },
+      minute: { type: 'integer', description: 'Minute, 0-59', minimum: 0, maximum: 59 },
+      label: { type: 'string', description: 'Optional short label, e.g. "Meeting"' }
+    },
+    required: ['hour', 'minute']
+  },
+  start_timer: {
+    name: 'start_timer',
+    description: 'Start a countdown timer in the Clock app.',
+    parameters: {
+      minutes: { type: 'number', description: 'Length in minutes', minimum: 0.1, maximum: 600 }
+    },
+    required: ['minutes']
+  },
+  control_music: {
+    name: 'control_music',
+    description: 'Control the music player: play, pause, skip to the next song or go back to the previous one.',
+    parameters: {
+      action: { type: 'string', description: 'What to do', enum: ['play', 'pause', 'next', 'previous'] }
+    },
+    required: ['action']
+  },
+  set_volume: {
+    name: 'set_volume',
+    description: 'Set the speaker volume, either to a level or a step up/down.',
+    parameters: LEVEL_PARAMETERS
+  },
+  set_brightness: {
+    name: 'set_brightness',
+    description: 'Set the screen brightness, either to a level or a step up/down.',
+    parameters: LEVEL_PARAMETERS
+  },
+  open_app: {
+    name: 'open_app',
+    description: "Switch the robot's screen to one of its apps, or back to the face (home).",
+    parameters: {
+      app: { type: 'string', description: 'App to open', enum: ['home', 'music', 'chat', 'clock', 'settings'] }
+    },
+    required: ['app']
+  },
+  go_to_sleep: {
+    name: 'go_to_sleep',
+    description: 'Put the robot to sleep once it has finished replying. Alarms still wake it up.',
+    parameters: {}
+  }
+};
+
+const LEVEL_STEP = 0.2;
+
+// New 0-1 level from a percentage or a step in `direction`
+export const adjustLevel = (current: number, level?: number, direction?: LevelDirection, min = 0): number => {
+  const target = level !== undefined ? level / 100 : current + (direction === 'down' ? -LEVEL_STEP : LEVEL_STEP);
+  return Math.max(min, Math.min(1, target));
+};
+
+// Returns an error message, or null when `args` satisfy the declaration.
+// Numeric strings are coerced in place, since some backends send them.
+const validateArgs = (declaration: ToolDeclaration, args: Record<string, unknown>): string | null => {
+  for (const name of declaration.required ?? []) {
+    if (args[name] === undefined || args[name] === null) return `missing argument "${name}"`;
+  }
+
+  for (const [name, value] of Object.entries(args)) {
+    const parameter = declaration.parameters[name];
+    if (!parameter) return `unknown argument "${name}"`;
+    if (value === undefined || value === null) continue;
+
+    if (parameter.type === 'integer' || parameter.type === 'number') {
+      const numeric = typeof value === 'string' ? Number(value) : value;
+      if (typeof numeric !== 'number' || Number.isNaN(numeric)) return `"${name}" must be a number`;
+      if (parameter.type === 'integer' && !Number.isInteger(numeric)) return `"${name}" must be a whole number`;
+      if (parameter.minimum !== undefined && numeric < parameter.minimum) return `"${name}" must be at least ${parameter.minimum}`;
+      if (parameter.maximum !== undefined && numeric > parameter.maximum) return `"${name}" must be at most ${parameter.maximum}`;
+      args[name] = numeric;
+    } else if (parameter.type === 'boolean') {
+      if (typeof value !== 'boolean') return `"${name}" must be true or false`;
+    } else {
+      if (typeof value !== 'string') return `"${name}" must be a string`;
+      if (parameter.enum && !parameter.enum.includes(value)) return `"${name}" must be one of ${parameter.enum.join(', ')}`;
+    }
+  }
+  return null;
+};
+
+// Runs a model tool call against the app. Failures are reported back to the
+// model as text rather than thrown, so it can apologise or retry.
+export const dispatchRobotCommand = (call: ToolCall, handlers: RobotCommandHandlers): string => {
+  if (!Object.prototype.hasOwnProperty.call(ROBOT_COMMANDS, call.name)) {
+    return `Error: unknown command "${call.name}"`;
+  }
+  const name = call.name as RobotCommandName;
+  const args = { ...call.args };
+
+  const error = validateArgs(ROBOT_COMMANDS[name], args);
+  if (error) return `Error: ${error}`;
+
+  try {
+    return (handlers[name] as (args: unknown) => string)(args);
+  } catch (e) {
+    console.error(`Command ${name} failed`, e);
+    return `Error: ${e instanceof Error ? e.message : String(e)}`;
+  }
+};
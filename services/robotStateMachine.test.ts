@@ -0,0 +1,160 @@
+import { describe, expect, it } from 'vitest';
+import { EyeExpression, RobotMode, ScreenMode } from '../types';
+import { INITIAL_ROBOT_STATE, MODE_TRANSITIONS, resolveExpression, RobotEvent, robotReducer, RobotState } from './robotStateMachine';
+
+const run = (state: RobotState, ...events: RobotEvent[]): RobotState => events.reduce(robotReducer, state);
+
+const booted = run(INITIAL_ROBOT_STATE, { type: 'POWER_ON' }, { type: 'BOOT_COMPLETE' });
+const inMode = (mode: RobotMode): RobotState => ({ ...booted, mode });
+
+const ALL_MODES = [RobotMode.IDLE, RobotMode.LISTENING, RobotMode.THINKING, RobotMode.SPEAKING, RobotMode.SLEEP];
+
+describe('power', () => {
+  it('boots through BOOTING into IDLE', () => {
+    const booting = run(INITIAL_ROBOT_STATE, { type: 'POWER_ON' });
+    expect(booting.power).toBe('BOOTING');
+    expect(booted.power).toBe('ON');
+    expect(booted.mode).toBe(RobotMode.IDLE);
+  });
+
+  it('ignores everything else while off', () => {
+    expect(run(INITIAL_ROBOT_STATE, { type: 'LISTEN' }, { type: 'ALARM_START' })).toEqual(INITIAL_ROBOT_STATE);
+  });
+
+  it('powers off to the initial state but keeps reaction ids unique', () => {
+    const reacted = run(booted, { type: 'REACT', expression: EyeExpression.HAPPY, priority: 'TOUCH' });
+    const off = run(reacted, { type: 'POWER_OFF' });
+    expect(off).toEqual({ ...INITIAL_ROBOT_STATE, nextReactionId: reacted.nextReactionId });
+  });
+});
+
+describe('MODE_TRANSITIONS', () => {
+  for (const [type, transition] of Object.entries(MODE_TRANSITIONS)) {
+    for (const mode of ALL_MODES) {
+      const allowed = transition.from.includes(mode);
+      it(`${type} from ${mode} ${allowed ? `goes to ${transition.to}` : 'is ignored'}`, () => {
+        const next = robotReducer(inMode(mode), { type } as RobotEvent);
+        expect(next.mode).toBe(allowed ? transition.to : mode);
+      });
+    }
+  }
+
+  it('SPEAK carries the speaking expression, defaulting to HAPPY', () => {
+    expect(run(booted, { type: 'SPEAK', expression: EyeExpression.WIDE }).speakingExpression).toBe(EyeExpression.WIDE);
+    expect(run(booted, { type: 'SPEAK' }).speakingExpression).toBe(EyeExpression.HAPPY);
+  });
+
+  it('SLEEP returns to the home screen and clears reactions', () => {
+    const state = run(booted,
+      { type: 'OPEN_SCREEN', screen: ScreenMode.MUSIC },
+      { type: 'REACT', expression: EyeExpression.SURPRISED, priority: 'EVENT' },
+      { type: 'SLEEP' });
+    expect(state.mode).toBe(RobotMode.SLEEP);
+    expect(state.screen).toBe(ScreenMode.HOME);
+    expect(state.reaction).toBeNull();
+  });
+
+  it('starting an exchange drops minor reactions but keeps events', () => {
+    const touched = run(booted, { type: 'REACT', expression: EyeExpression.WINKING, priority: 'TOUCH' }, { type: 'LISTEN' });
+    expect(touched.reaction).toBeNull();
+    const event = run(booted, { type: 'REACT', expression: EyeExpression.SURPRISED, priority: 'EVENT' }, { type: 'LISTEN' });
+    expect(event.reaction?.expression).toBe(EyeExpression.SURPRISED);
+  });
+
+  it('opening a screen wakes the robot', () => {
+    expect(run(inMode(RobotMode.SLEEP), { type: 'OPEN_SCREEN', screen: ScreenMode.CLOCK }).mode).toBe(RobotMode.IDLE);
+  });
+});
+
+describe('reactions', () => {
+  it('IDLE fidgets only show on the idle home screen', () => {
+    const react = { type: 'REACT', expression: EyeExpression.WINKING, priority: 'IDLE' } as const;
+    expect(run(booted, react).reaction).not.toBeNull();
+    expect(run(booted, { type: 'OPEN_SCREEN', screen: ScreenMode.MUSIC }, react).reaction).toBeNull();
+    expect(run(inMode(RobotMode.SPEAKING), react).reaction).toBeNull();
+  });
+
+  it('TOUCH reactions need an idle robot', () => {
+    const react = { type: 'REACT', expression: EyeExpression.HAPPY, priority: 'TOUCH' } as const;
+    expect(run(booted, react).reaction).not.toBeNull();
+    expect(run(inMode(RobotMode.THINKING), react).reaction).toBeNull();
+  });
+
+  it('a lower priority cannot replace a higher one', () => {
+    const state = run(booted,
+      { type: 'REACT', expression: EyeExpression.SURPRISED, priority: 'EVENT' },
+      { type: 'REACT', expression: EyeExpression.HAPPY, priority: 'TOUCH' });
+    expect(state.reaction?.expression).toBe(EyeExpression.SURPRISED);
+  });
+
+  it('an equal or higher priority replaces the current one', () => {
+    const state = run(booted,
+      { type: 'REACT', expression: EyeExpression.HAPPY, priority: 'TOUCH' },
+      { type: 'REACT', expression: EyeExpression.WIDE, priority: 'EVENT' });
+    expect(state.reaction?.expression).toBe(EyeExpression.WIDE);
+  });
+
+  it('expires only the reaction it was scheduled for', () => {
+    const first = run(booted, { type: 'REACT', expression: EyeExpression.HAPPY, priority: 'EVENT', durationMs: 1000 });
+    const firstId = first.reaction!.id;
+    const second = run(first, { type: 'REACT', expression: EyeExpression.WIDE, priority: 'EVENT' });
+    expect(second.reaction?.id).not.toBe(firstId);
+
+    // The first reaction's late timer must not clear the second one
+    expect(run(second, { type: 'REACTION_END', id: firstId }).reaction?.expression).toBe(EyeExpression.WIDE);
+    expect(run(second, { type: 'REACTION_END', id: second.reaction!.id }).reaction).toBeNull();
+  });
+
+  it('keeps the duration, or null for an open-ended reaction', () => {
+    expect(run(booted, { type: 'REACT', expression: EyeExpression.HAPPY, priority: 'EVENT', durationMs: 500 }).reaction?.durationMs).toBe(500);
+    expect(run(booted, { type: 'REACT', expression: EyeExpression.HAPPY, priority: 'EVENT' }).reaction?.durationMs).toBeNull();
+  });
+});
+
+describe('alarm guards', () => {
+  const ringing = run(booted, { type: 'OPEN_SCREEN', screen: ScreenMode.MUSIC }, { type: 'SPEAK' }, { type: 'ALARM_START' });
+
+  it('takes over the face and the screen', () => {
+    expect(ringing.alarmRinging).toBe(true);
+    expect(ringing.mode).toBe(RobotMode.IDLE);
+    expect(ringing.screen).toBe(ScreenMode.HOME);
+  });
+
+  it('blocks mode changes except SETTLE, and screen changes', () => {
+    expect(run(ringing, { type: 'LISTEN' }).mode).toBe(RobotMode.IDLE);
+    expect(run(ringing, { type: 'SLEEP' }).mode).toBe(RobotMode.IDLE);
+    expect(run(ringing, { type: 'OPEN_SCREEN', screen: ScreenMode.CHAT }).screen).toBe(ScreenMode.HOME);
+  });
+
+  it('only accepts ALARM reactions while ringing', () => {
+    expect(run(ringing, { type: 'REACT', expression: EyeExpression.HAPPY, priority: 'EVENT' }).reaction).toBeNull();
+    expect(run(ringing, { type: 'REACT', expression: EyeExpression.WIDE, priority: 'ALARM' }).reaction?.expression).toBe(EyeExpression.WIDE);
+    expect(run(booted, { type: 'REACT', expression: EyeExpression.WIDE, priority: 'ALARM' }).reaction).toBeNull();
+  });
+
+  it('stopping the alarm clears its reaction and frees the robot', () => {
+    const stopped = run(ringing, { type: 'REACT', expression: EyeExpression.WIDE, priority: 'ALARM' }, { type: 'ALARM_STOP' });
+    expect(stopped.alarmRinging).toBe(false);
+    expect(stopped.reaction).toBeNull();
+    expect(run(stopped, { type: 'LISTEN' }).mode).toBe(RobotMode.LISTENING);
+  });
+
+  it('ignores ALARM_STOP when nothing rings', () => {
+    expect(run(booted, { type: 'ALARM_STOP' })).toBe(booted);
+  });
+});
+
+describe('resolveExpression', () => {
+  it('shows the face of each mode', () => {
+    expect(resolveExpression(inMode(RobotMode.IDLE))).toBe(EyeExpression.NORMAL);
+    expect(resolveExpression(inMode(RobotMode.LISTENING))).toBe(EyeExpression.LISTENING);
+    expect(resolveExpression(inMode(RobotMode.THINKING))).toBe(EyeExpression.LOADING);
+    expect(resolveExpression(inMode(RobotMode.SLEEP))).toBe(EyeExpression.SLEEPING);
+    expect(resolveExpression(run(booted, { type: 'SPEAK', expression: EyeExpression.HEART }))).toBe(EyeExpression.HEART);
+  });
+
+  it('lets an active reaction win over the mode', () => {
+    const state = run(inMode(RobotMode.THINKING), { type: 'REACT', expression: EyeExpression.DEAD, priority: 'EVENT' });
+    expect(resolveExpression(state)).toBe(EyeExpression.DEAD);
+  });
+});
@@ -0,0 +1,183 @@
+import { EyeExpression, RobotMode, ScreenMode } from "../types";
+
+// Single source of truth for what the robot is doing, in four layers:
+//   power       OFF -> BOOTING -> ON
+//   interaction RobotMode (idle, listening, thinking, speaking, sleep)
+//   screen      ScreenMode shown on the mouth display
+//   expression  derived from the interaction, unless a transient reaction
+//               (idle fidget, tap, timer, alarm...) of enough priority overrides it
+// Every change goes through `robotReducer`, so guards live in one place and
+// late timers can't clobber newer state.
+
+export type PowerStatus = 'OFF' | 'BOOTING' | 'ON';
+
+// Higher wins: idle fidgets < taps < app events (timers, enrollment) < alarms
+export const REACTION_PRIORITY = { IDLE: 0, TOUCH: 1, EVENT: 2, ALARM: 3 } as const;
+export type ReactionPriority = keyof typeof REACTION_PRIORITY;
+
+export interface Reaction {
+  id: number; // Lets a late expiry recognise that it has been replaced
+  expression: EyeExpression;
+  priority: ReactionPriority;
+  durationMs: number | null; // null = until replaced or cleared
+}
+
+export interface RobotState {
+  power: PowerStatus;
+  mode: RobotMode;
+  screen: ScreenMode;
+  alarmRinging: boolean;
+  speakingExpression: EyeExpression;
+  reaction: Reaction | null;
+  nextReactionId: number;
+}
+
+export type RobotEvent =
+  | { type: 'POWER_ON' }
+  | { type: 'BOOT_COMPLETE' }
+  | { type: 'POWER_OFF' }
+  | { type: 'OPEN_SCREEN'; screen: ScreenMode }
+  | { type: 'LISTEN' }
+  | { type: 'THINK' }
+  | { type: 'SPEAK'; expression?: EyeExpression }
+  | { type: 'SETTLE' } // The exchange is over, back to idle
+  | { type: 'SLEEP' }
+  | { type: 'WAKE' }
+  | { type: 'ALARM_START' }
+  | { type: 'ALARM_STOP' }
+  | { type: 'REACT'; expression: EyeExpression; priority: ReactionPriority; durationMs?: number }
+  | { type: 'REACTION_END'; id: number };
+
+type ModeEvent = Extract<RobotEvent, { type: 'LISTEN' | 'THINK' | 'SPEAK' | 'SETTLE' | 'SLEEP' | 'WAKE' }>['type'];
+
+const { IDLE, LISTENING, THINKING, SPEAKING, SLEEP } = RobotMode;
+
+// Interaction transitions: the modes each event may leave from.
+// Events arriving in any other mode are ignored.
+export const MODE_TRANSITIONS: Record<ModeEvent, { from: RobotMode[]; to: RobotMode }> = {
+  LISTEN: { from: [IDLE, LISTENING, THINKING, SPEAKING, SLEEP], to: LISTENING },
+  THINK: { from: [IDLE, LISTENING, THINKING, SPEAKING], to: THINKING },
+  SPEAK: { from: [IDLE, LISTENING, THINKING, SPEAKING], to: SPEAKING },
+  SETTLE: { from: [LISTENING, THINKING, SPEAKING], to: IDLE },
+  SLEEP: { from: [IDLE, LISTENING, THINKING, SPEAKING], to: SLEEP },
+  WAKE: { from: [SLEEP], to: IDLE },
+};
+
+export const INITIAL_ROBOT_STATE: RobotState = {
+  power: 'OFF',
+  mode: RobotMode.OFF,
+  screen: ScreenMode.HOME,
+  alarmRinging: false,
+  speakingExpression: EyeExpression.HAPPY,
+  reaction: null,
+  nextReactionId: 1
+};
+
+// Whether a reaction of `priority` may show right now
+const canReact = (state: RobotState, priority: ReactionPriority): boolean => {
+  if (state.reaction && REACTION_PRIORITY[state.reaction.priority] > REACTION_PRIORITY[priority]) return false;
+  switch (priority) {
+    case 'IDLE': return state.mode === IDLE && state.screen === ScreenMode.HOME && !state.alarmRinging;
+    case 'TOUCH': return state.mode === IDLE && !state.alarmRinging;
+    case 'EVENT': return !state.alarmRinging;
+    case 'ALARM': return state.alarmRinging;
+  }
+};
+
+// Starting a new exchange drops fidgets and taps so the mode's face shows
+const dropMinorReaction = (reaction: Reaction | null): Reaction | null =>
+  reaction && REACTION_PRIORITY[reaction.priority] >= REACTION_PRIORITY.EVENT ? reaction : null;
+
+const transitionMode = (state: RobotState, event: Extract<RobotEvent, { type: ModeEvent }>): RobotState => {
+  const transition = MODE_TRANSITIONS[event.type];
+  if (!transition.from.includes(state.mode)) return state;
+  // The ringing screen owns the robot until the alarm is handled
+  if (state.alarmRinging && event.type !== 'SETTLE') return state;
+
+  const next: RobotState = { ...state, mode: transition.to };
+  if (event.type === 'SPEAK') next.speakingExpression = event.expression ?? EyeExpression.HAPPY;
+  if (event.type === 'SLEEP') {
+    next.screen = ScreenMode.HOME;
+    next.reaction = null;
+  } else if (transition.to !== IDLE) {
+    next.reaction = dropMinorReaction(state.reaction);
+  }
+  return next;
+};
+
+export const robotReducer = (state: RobotState, event: RobotEvent): RobotState => {
+  switch (event.type) {
+    case 'POWER_ON':
+      return state.power === 'OFF' ? { ...state, power: 'BOOTING' } : state;
+    case 'BOOT_COMPLETE':
+      return state.power === 'BOOTING' ? { ...state, power: 'ON', mode: IDLE } : state;
+    case 'POWER_OFF':
+      return state.power === 'OFF' ? state : { ...INITIAL_ROBOT_STATE, nextReactionId: state.nextReactionId };
+  }
+
+  // Everything else needs a running robot
+  if (state.power !== 'ON') return state;
+
+  switch (event.type) {
+    case 'OPEN_SCREEN':
+      if (state.alarmRinging) return state;
+      return {
+        ...state,
+        screen: event.screen,
+        mode: state.mode === SLEEP ? IDLE : state.mode
+      };
+
+    case 'LISTEN':
+    case 'THINK':
+    case 'SPEAK':
+    case 'SETTLE':
+    case 'SLEEP':
+    case 'WAKE':
+      return transitionMode(state, event);
+
+    case 'ALARM_START':
+      return {
+        ...state,
+        alarmRinging: true,
+        mode: IDLE,
+        screen: ScreenMode.HOME,
+        reaction: null
+      };
+
+    case 'ALARM_STOP':
+      if (!state.alarmRinging) return state;
+      return {
+        ...state,
+        alarmRinging: false,
+        reaction: state.reaction?.priority === 'ALARM' ? null : state.reaction
+      };
+
+    case 'REACT':
+      if (!canReact(state, event.priority)) return state;
+      return {
+        ...state,
+        reaction: {
+          id: state.nextReactionId,
+          expression: event.expression,
+          priority: event.priority,
+          durationMs: event.durationMs ?? null
+        },
+        nextReactionId: state.nextReactionId + 1
+      };
+
+    case 'REACTION_END':
+      return state.reaction?.id === event.id ? { ...state, reaction: null } : state;
+  }
+};
+
+// What the eyes show: the active reaction, else the face of the current mode
+export const resolveExpression = (state: RobotState): EyeExpression => {
+  if (state.reaction) return state.reaction.expression;
+  switch (state.mode) {
+    case LISTENING: return EyeExpression.LISTENING;
+    case THINKING: return EyeExpression.LOADING;
+    case SPEAKING: return state.speakingExpression;
+    case SLEEP: return EyeExpression.SLEEPING;
+    default: return EyeExpression.NORMAL;
+  }
+};
@@ -0,0 +1,226 @@
+import {
+  Alarm, BangbooSkin, ChatMessage, EqualizerSettings, LanguageSettings, MusicPlaybackSettings, MusicTrack, Persona, Playlist, PodcastFeed,
+  PomodoroSettings, RadioStation, VoiceSettings
+} from "../types";
+import { ExpressionDefinition } from "./eyeAnimation";
+import { base64ToBlob, blobToBase64 } from "../utils/audioUtils";
+
+// Small settings live in localStorage (sync, read at startup); blobs such
+// as uploaded tracks and recorded chat audio live in IndexedDB.
+
+const SETTINGS_KEY = 'bangboo.settings';
+const DB_NAME = 'bangboo';
+
+export interface PersistedSettings {
+  volume?: number;
+  brightness?: number;
+  connectedNetwork?: string | null;
+  voiceSettings?: VoiceSettings;
+  alarms?: Alarm[];
+  library?: MusicTrack[]; // Legacy: the library moved to IndexedDB, read once to carry it over
+  playlists?: Playlist[];
+  musicPlayback?: MusicPlaybackSettings;
+  equalizer?: EqualizerSettings;
+  radioStations?: RadioStation[];
+  podcastFeeds?: PodcastFeed[];
+  resumePositions?: Record<string, number>; // Seconds into unfinished podcast episodes, by track id
+  pomodoroSettings?: PomodoroSettings;
+  skinId?: string;
+  customSkins?: BangbooSkin[];
+  customExpressions?: ExpressionDefinition[];
+  personaId?: string;
+  customPersonas?: Persona[];
+  languageSettings?: LanguageSettings;
+}
+
+// --- SETTINGS (localStorage) ---
+
+interface SettingsEnvelope {
+  version: number;
+  data: PersistedSettings;
+}
+
+// Each entry upgrades the stored data from version N to N + 1.
+// Append a step whenever a persisted shape changes.
+const SETTINGS_MIGRATIONS: Array<(data: any) => any> = [
+  // v0 -> v1: first versioned layout, nothing to convert
+  (data) => data,
+  // v1 -> v2: alarms gained labels, repeat days and tones
+  (data) => ({
+    ...data,
+    alarms: data.alarms?.map((alarm: any) => ({ label: '', repeatDays: [], tone: 'CHIME', ...alarm }))
+  }),
+  // v2 -> v3: the single playlist became the library, next to named playlists
+  ({ playlist, ...data }) => ({ ...data, library: playlist }),
+];
+
+export const SETTINGS_VERSION = SETTINGS_MIGRATIONS.length;
+
+const readSettings = (): PersistedSettings => {
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    if (!raw) return {};
+
+    const envelope: SettingsEnvelope = JSON.parse(raw);
+    let { version, data } = envelope;
+    if (version > SETTINGS_VERSION) {
+      console.warn(`Settings v${version} are newer than this build (v${SETTINGS_VERSION}), ignoring them`);
+      return {};
+    }
+    while (version < SETTINGS_VERSION) {
+      data = SETTINGS_MIGRATIONS[version](data);
+      version++;
+    }
+    return data || {};
+  } catch (e) {
+    console.error("Failed to read settings, starting fresh", e);
+    return {};
+  }
+};
+
+let settingsCache: PersistedSettings | null = null;
+let resetting = false; // Blocks late debounced writes during a factory reset
+
+export const loadSetting = <K extends keyof PersistedSettings>(key: K): PersistedSettings[K] => {
+  if (!settingsCache) settingsCache = readSettings();
+  return settingsCache[key];
+};
+
+export const saveSetting = <K extends keyof PersistedSettings>(key: K, value: PersistedSettings[K]) => {
+  if (resetting) return;
+  if (!settingsCache) settingsCache = readSettings();
+  settingsCache = { ...settingsCache, [key]: value };
+  try {
+    const envelope: SettingsEnvelope = { version: SETTINGS_VERSION, data: settingsCache };
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(envelope));
+  } catch (e) {
+    console.error("Failed to save settings", e);
+  }
+};
+
+// --- BLOBS (IndexedDB) ---
+
+const KV_STORE = 'kv';
+const TRACKS_STORE = 'tracks';
+const CHAT_HISTORY_KEY = 'chatHistory';
+const LIBRARY_KEY = 'library';
+
+// Each entry creates the object stores of one schema version (index = old version)
+const DB_MIGRATIONS: Array<(db: IDBDatabase) => void> = [
+  // v1: key/value records and uploaded music files
+  (db) => {
+    db.createObjectStore(KV_STORE);
+    db.createObjectStore(TRACKS_STORE, { keyPath: 'id' });
+  },
+];
+
+export interface StoredTrack {
+  id: string;
+  blob: Blob;
+}
+
+interface StoredChatMessage extends Omit<ChatMessage, 'audio'> {
+  audio?: { mimeType: string; blob: Blob };
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_MIGRATIONS.length);
+      request.onupgradeneeded = (event) => {
+        for (let v = event.oldVersion; v < DB_MIGRATIONS.length; v++) {
+          DB_MIGRATIONS[v](request.result);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const saveTrackBlob = (track: StoredTrack) =>
+  runRequest(TRACKS_STORE, 'readwrite', store => store.put(track));
+
+export const deleteTrackBlob = (id: string) =>
+  runRequest(TRACKS_STORE, 'readwrite', store => store.delete(id));
+
+export const loadTrackBlob = (id: string) =>
+  runRequest<StoredTrack | undefined>(TRACKS_STORE, 'readonly', store => store.get(id));
+
+export const loadTrackBlobs = () =>
+  runRequest<StoredTrack[]>(TRACKS_STORE, 'readonly', store => store.getAll());
+
+// Track metadata in library order, without Blob URLs. Undefined until first
+// saved, in which case the library from the settings (if any) still applies.
+export const saveLibrary = async (tracks: MusicTrack[]) => {
+  if (resetting) return;
+  return runRequest(KV_STORE, 'readwrite', store => store.put(tracks, LIBRARY_KEY));
+};
+
+export const loadLibrary = () =>
+  runRequest<MusicTrack[] | undefined>(KV_STORE, 'readonly', store => store.get(LIBRARY_KEY));
+
+// Asks the browser not to evict the music files when space runs low
+export const requestPersistentStorage = async (): Promise<boolean> => {
+  if (!navigator.storage?.persist) return false;
+  return (await navigator.storage.persisted()) || navigator.storage.persist();
+};
+
+// Voice recordings are stored as Blobs rather than base64 (a third smaller)
+export const saveChatHistory = async (messages: ChatMessage[]) => {
+  if (resetting) return;
+  const stored: StoredChatMessage[] = messages.map(({ audio, ...message }) => ({
+    ...message,
+    ...(audio ? { audio: { mimeType: audio.mimeType, blob: base64ToBlob(audio.data, audio.mimeType) } } : {})
+  }));
+  return runRequest(KV_STORE, 'readwrite', store => store.put(stored, CHAT_HISTORY_KEY));
+};
+
+export const loadChatHistory = async (): Promise<ChatMessage[]> => {
+  const stored = await runRequest<StoredChatMessage[] | undefined>(KV_STORE, 'readonly', store => store.get(CHAT_HISTORY_KEY));
+  if (!stored) return [];
+
+  return Promise.all(stored.map(async ({ audio, ...message }) => ({
+    ...message,
+    ...(audio ? { audio: { mimeType: audio.mimeType, data: await blobToBase64(audio.blob) } } : {})
+  })));
+};
+
+// --- FACTORY RESET ---
+
+// Wipes everything; the caller should reload the page afterwards
+export const factoryReset = async () => {
+  resetting = true;
+  localStorage.removeItem(SETTINGS_KEY);
+  settingsCache = null;
+
+  if (dbPromise) {
+    (await dbPromise).close();
+    dbPromise = null;
+  }
+  await new Promise<void>((resolve) => {
+    const request = indexedDB.deleteDatabase(DB_NAME);
+    request.onsuccess = () => resolve();
+    request.onerror = () => resolve();
+    request.onblocked = () => resolve();
+  });
+};
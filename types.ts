@@ -33,9 +33,71 @@ export enum EyeExpression {
   WIDE = 'WIDE'
 }
 
+export interface InlineAudio {
+  mimeType: string;
+  data: string; // Base64 payload
+}
+
+// How a turn was made: typed, push-to-talk recording, or a live voice session
+export type InputModality = 'text' | 'voice' | 'live';
+
+export interface MessageMeta {
+  timestamp: number; // ms since epoch
+  modality: InputModality;
+  durationMs?: number; // Length of the recording, voice turns only
+  transcriptFailed?: boolean; // Voice turn whose transcription came back empty or errored
+}
+
 export interface ChatMessage {
   role: 'user' | 'model';
-  text: string;
+  text: string; // Transcript for voice turns once known
+  audio?: InlineAudio; // Raw recording for voice turns, replayed to the model as history
+  meta: MessageMeta;
+}
+
+// Synthesized chime/beep, or a track from the playlist
+export type AlarmTone = 'CHIME' | 'BEEP' | 'TRACK';
+
+export interface Alarm {
+  id: number;
+  hour: number;
+  minute: number;
+  enabled: boolean;
+  label: string;
+  repeatDays: number[]; // 0 = Sunday; empty rings once
+  tone: AlarmTone;
+  trackId?: string; // Playlist track for the TRACK tone
+  snoozedUntil?: number; // ms since epoch
+  lastFiredAt?: number; // ms since epoch, stops a single occurrence ringing twice
+}
+
+// Wall-clock based: while running only `endsAt` matters, so throttled
+// timers in a background tab never drift
+export interface Countdown {
+  durationMs: number;
+  remainingMs: number; // Frozen value while paused
+  endsAt: number | null; // ms since epoch while running
+}
+
+export interface Stopwatch {
+  elapsedMs: number; // Accumulated before the current run
+  startedAt: number | null; // ms since epoch while running
+  laps: number[]; // Split times (total elapsed at each lap)
+}
+
+export type PomodoroPhase = 'WORK' | 'SHORT_BREAK' | 'LONG_BREAK';
+
+export interface PomodoroSettings {
+  workMinutes: number;
+  shortBreakMinutes: number;
+  longBreakMinutes: number;
+  longBreakEvery: number; // Focus blocks between long breaks
+}
+
+export interface PomodoroState {
+  phase: PomodoroPhase;
+  completedWorkBlocks: number;
+  timer: Countdown;
 }
 
 export interface MusicTrack {
@@ -43,5 +105,105 @@ export interface MusicTrack {
   title: string;
   artist: string;
   duration: string; // Display string
-  url?: string; // URL for local playback (Blob URL)
-}
\ No newline at end of file
+  album?: string;
+  coverArt?: string; // Thumbnail data URL from the file's tags
+  contentHash?: string; // SHA-256 of the uploaded file, to skip duplicates
+  kind?: 'STREAM' | 'EPISODE'; // Played from the network; unset for library tracks
+  url?: string; // Blob URL for library tracks, HTTP(S) for streams and episodes
+}
+
+export interface RadioStation {
+  id: string;
+  name: string;
+  url: string;
+}
+
+export interface PodcastEpisode {
+  id: string; // The item's guid, or its audio URL
+  title: string;
+  audioUrl: string;
+  publishedAt?: number; // ms since epoch
+  durationSeconds?: number;
+}
+
+export interface PodcastFeed {
+  id: string;
+  url: string;
+  title: string;
+  author?: string;
+  imageUrl?: string;
+  episodes: PodcastEpisode[]; // Newest first
+  fetchedAt: number;
+}
+
+// A named, ordered selection of library tracks
+export interface Playlist {
+  id: string;
+  name: string;
+  trackIds: string[];
+}
+
+export type RepeatMode = 'OFF' | 'ALL' | 'ONE';
+
+export type EqPreset = 'FLAT' | 'BASS_BOOST' | 'VOCAL' | 'TREBLE_BOOST' | 'NIGHT';
+
+export interface EqualizerSettings {
+  preset: EqPreset | 'CUSTOM'; // CUSTOM once a band is moved by hand
+  gains: number[]; // dB per band, see EQ_BANDS_HZ
+}
+
+export interface MusicPlaybackSettings {
+  shuffle: boolean;
+  repeat: RepeatMode;
+}
+export interface VoiceSettings {
+  autoStop: boolean; // End a voice turn after trailing silence
+  vadSensitivity: number; // 0-1
+  trailingSilenceMs: number;
+  wakeWordEnabled: boolean; // Listen for the wake word while IDLE
+  wakeWordSensitivity: number; // 0-1
+  wakeWordTemplates: number[][][]; // Enrolled feature sequences
+}
+
+// Colors and trim of the robot body; the screen contents follow eyeColor
+export interface BangbooSkin {
+  id: string;
+  name: string;
+  eyeColor: string;
+  teethColor: string;
+  screenRim: string; // Border around the mouth screen
+  body: string; // Shell gradient, top-left to bottom-right
+  bodyShade: string;
+  limbs: string; // Arms, legs and fin
+  belly: string;
+  fin: boolean; // Shark fin on top of the head
+  patch?: { text: string; color: string }; // Badge on the belly
+}
+
+export type ReplyLength = 'SHORT' | 'MEDIUM' | 'LONG';
+
+// A character Bangboo can play: how it talks, sounds and looks by default
+export interface Persona {
+  id: string;
+  name: string;
+  systemPrompt: string; // Personality and speaking style; length and language are added from the fields below
+  replyLength: ReplyLength;
+  language: string; // BCP 47 tag of the replies, e.g. 'zh-CN'
+  voice: string; // TTS voice name; '' keeps the backend's default
+  skinId?: string; // Applied when the persona is picked
+  greeting: string; // Said after booting; '' to stay quiet
+}
+
+export type UiLocale = 'zh-CN' | 'en' | 'ja';
+
+// 'PERSONA' replies in the persona's language, 'FOLLOW_USER' in whatever
+// language the user spoke; a locale pins the replies to that language
+export type ReplyLanguage = 'PERSONA' | 'FOLLOW_USER' | UiLocale;
+
+export interface LanguageSettings {
+  uiLocale: UiLocale;
+  replyLanguage: ReplyLanguage;
+  // TTS voice per reply language, for replies outside the persona's own
+  // language; missing ones keep the persona's voice
+  voices: Partial<Record<UiLocale, string>>;
+}
@@ -0,0 +1,84 @@
+import { AlarmTone } from "../types";
+
+// Synthesized ringtones: a short note pattern repeated until stopped.
+// [frequency Hz, start offset s, length s]
+const TONE_PATTERNS: Record<Exclude<AlarmTone, 'TRACK'>, { notes: [number, number, number][]; periodMs: number }> = {
+  CHIME: {
+    notes: [[880, 0, 0.35], [1175, 0.2, 0.35], [1568, 0.4, 0.6]],
+    periodMs: 1600
+  },
+  BEEP: {
+    notes: [[1000, 0, 0.1], [1000, 0.18, 0.1], [1000, 0.36, 0.1], [1000, 0.54, 0.1]],
+    periodMs: 1200
+  }
+};
+
+export interface AlarmTonePlayer {
+  stop(): void;
+}
+
+// Plays through `destination` (the app's master gain) so the volume setting applies
+export const startAlarmTone = (
+  ctx: AudioContext,
+  destination: AudioNode,
+  tone: AlarmTone,
+  trackUrl?: string
+): AlarmTonePlayer => {
+  if (tone === 'TRACK' && trackUrl) {
+    const element = new Audio(trackUrl);
+    element.loop = true;
+    const source = ctx.createMediaElementSource(element);
+    source.connect(destination);
+    element.play().catch(e => console.error("Alarm track failed to play", e));
+
+    return {
+      stop: () => {
+        element.pause();
+        source.disconnect();
+      }
+    };
+  }
+
+  // A TRACK alarm whose file is gone falls back to the chime
+  const pattern = TONE_PATTERNS[tone === 'TRACK' ? 'CHIME' : tone];
+  const oscillators = new Set<OscillatorNode>();
+
+  const playPattern = () => {
+    const startAt = ctx.currentTime + 0.05;
+    pattern.notes.forEach(([frequency, offset, length]) => {
+      const osc = ctx.createOscillator();
+      const envelope = ctx.createGain();
+      osc.type = tone === 'BEEP' ? 'square' : 'sine';
+      osc.frequency.value = frequency;
+
+      // Quick attack, exponential decay, so notes don't click
+      const t = startAt + offset;
+      envelope.gain.setValueAtTime(0.0001, t);
+      envelope.gain.exponentialRampToValueAtTime(tone === 'BEEP' ? 0.25 : 0.5, t + 0.01);
+      envelope.gain.exponentialRampToValueAtTime(0.0001, t + length);
+
+      osc.connect(envelope);
+      envelope.connect(destination);
+      osc.onended = () => {
+        oscillators.delete(osc);
+        envelope.disconnect();
+      };
+      osc.start(t);
+      osc.stop(t + length);
+      oscillators.add(osc);
+    });
+  };
+
+  playPattern();
+  const interval = setInterval(playPattern, pattern.periodMs);
+
+  return {
+    stop: () => {
+      clearInterval(interval);
+      oscillators.forEach(osc => {
+        try { osc.stop(); } catch (e) {}
+      });
+      oscillators.clear();
+    }
+  };
+};
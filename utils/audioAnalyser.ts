@@ -0,0 +1,60 @@
+import { getRms } from "./audioUtils";
+
+const FFT_SIZE = 1024;
+const SMOOTHING = 0.6; // Keeps bars from flickering between frames
+const FULL_SCALE_RMS = 0.25; // RMS reported as level 1
+
+// Log-spaced bands over the audible range, so bass doesn't take half the bars
+const BAND_MIN_HZ = 60;
+const BAND_MAX_HZ = 12000;
+
+export interface AudioLevels {
+  level: number; // 0-1 loudness of the current frame
+  bands: number[]; // 0-1 per frequency band, low to high
+}
+
+export interface AudioAnalyser {
+  read(bandCount: number): AudioLevels;
+  disconnect(): void;
+}
+
+export const silentLevels = (bandCount: number): AudioLevels => ({
+  level: 0,
+  bands: new Array(bandCount).fill(0)
+});
+
+// Taps `source` without changing what it plays; read() samples the latest frame
+export const createAudioAnalyser = (ctx: AudioContext, source: AudioNode): AudioAnalyser => {
+  const analyser = ctx.createAnalyser();
+  analyser.fftSize = FFT_SIZE;
+  analyser.smoothingTimeConstant = SMOOTHING;
+  source.connect(analyser);
+
+  const timeData = new Float32Array(analyser.fftSize);
+  const frequencyData = new Uint8Array(analyser.frequencyBinCount);
+  const binHz = ctx.sampleRate / 2 / analyser.frequencyBinCount;
+
+  const read = (bandCount: number): AudioLevels => {
+    analyser.getFloatTimeDomainData(timeData);
+    analyser.getByteFrequencyData(frequencyData);
+
+    const ratio = Math.pow(BAND_MAX_HZ / BAND_MIN_HZ, 1 / bandCount);
+    const bands: number[] = [];
+    for (let b = 0; b < bandCount; b++) {
+      const lo = Math.floor(BAND_MIN_HZ * Math.pow(ratio, b) / binHz);
+      const hi = Math.min(frequencyData.length, Math.max(lo + 1, Math.floor(BAND_MIN_HZ * Math.pow(ratio, b + 1) / binHz)));
+      let sum = 0;
+      for (let i = lo; i < hi; i++) sum += frequencyData[i];
+      bands.push(sum / Math.max(1, hi - lo) / 255);
+    }
+
+    return { level: Math.min(1, getRms(timeData) / FULL_SCALE_RMS), bands };
+  };
+
+  return {
+    read,
+    disconnect: () => {
+      try { source.disconnect(analyser); } catch (e) {}
+    }
+  };
+};
@@ -0,0 +1,112 @@
+import { readFileSync } from 'fs';
+import { describe, expect, it } from 'vitest';
+import { decodePcm, isRawPcm, parseAudioMimeType, parseWavHeader, resampleLinear } from './audioCodec';
+
+// Every fixture holds the samples 0, +0.5, -0.5 and full scale (per channel)
+const fixture = (name: string): Uint8Array => new Uint8Array(readFileSync(new URL(`./fixtures/${name}`, import.meta.url)));
+
+const decodeWav = (name: string): { info: NonNullable<ReturnType<typeof parseWavHeader>>; channels: Float32Array[] } => {
+  const bytes = fixture(name);
+  const info = parseWavHeader(bytes)!;
+  return { info, channels: decodePcm(bytes.subarray(info.dataOffset, info.dataOffset + info.dataLength), info) };
+};
+
+const expectSamples = (channel: Float32Array, expected: number[]) => {
+  expect(channel.length).toBe(expected.length);
+  // Full scale is one step short of 1 in integer formats
+  expected.forEach((value, i) => expect(Math.abs(channel[i] - value)).toBeLessThan(0.01));
+};
+
+describe('parseWavHeader', () => {
+  it('reads 8-bit unsigned PCM', () => {
+    const { info, channels } = decodeWav('pcm8-mono-8000.wav');
+    expect(info).toMatchObject({ sampleRate: 8000, channels: 1, bitsPerSample: 8, float: false });
+    expectSamples(channels[0], [0, 0.5, -0.5, 1]);
+  });
+
+  it('reads 16-bit stereo and skips chunks before the data, padding included', () => {
+    const { info, channels } = decodeWav('pcm16-stereo-22050.wav');
+    expect(info).toMatchObject({ sampleRate: 22050, channels: 2, bitsPerSample: 16, float: false, dataLength: 16 });
+    expectSamples(channels[0], [0, 0.5, -0.5, 1]);
+    expectSamples(channels[1], [0, -0.5, 0.5, -1]);
+  });
+
+  it('reads 24-bit PCM', () => {
+    const { info, channels } = decodeWav('pcm24-mono-48000.wav');
+    expect(info).toMatchObject({ sampleRate: 48000, bitsPerSample: 24 });
+    expectSamples(channels[0], [0, 0.5, -0.5, 1]);
+  });
+
+  it('reads 32-bit integer PCM', () => {
+    const { info, channels } = decodeWav('pcm32-mono-44100.wav');
+    expect(info).toMatchObject({ sampleRate: 44100, bitsPerSample: 32, float: false });
+    expectSamples(channels[0], [0, 0.5, -0.5, 1]);
+  });
+
+  it('reads 32-bit float', () => {
+    const { info, channels } = decodeWav('float32-mono-16000.wav');
+    expect(info).toMatchObject({ sampleRate: 16000, bitsPerSample: 32, float: true });
+    expectSamples(channels[0], [0, 0.5, -0.5, 1]);
+  });
+
+  it('reads the real format out of WAVE_FORMAT_EXTENSIBLE', () => {
+    const { info, channels } = decodeWav('extensible-pcm16-mono-24000.wav');
+    expect(info).toMatchObject({ sampleRate: 24000, channels: 1, bitsPerSample: 16, float: false });
+    expectSamples(channels[0], [0, 0.5, -0.5, 1]);
+  });
+
+  it('rejects a truncated header', () => {
+    expect(() => parseWavHeader(fixture('truncated.wav'))).toThrow('truncated');
+  });
+
+  it('returns null for anything that is not RIFF/WAVE', () => {
+    expect(parseWavHeader(fixture('l16-mono-24000.pcm'))).toBeNull();
+    expect(parseWavHeader(new Uint8Array(0))).toBeNull();
+  });
+});
+
+describe('parseAudioMimeType', () => {
+  it('reads rate and channels from raw PCM types', () => {
+    expect(parseAudioMimeType('audio/L16;rate=24000')).toEqual({ type: 'audio/l16', sampleRate: 24000 });
+    expect(parseAudioMimeType('audio/L16; rate=16000; channels=2')).toEqual({ type: 'audio/l16', sampleRate: 16000, channels: 2 });
+    expect(isRawPcm('audio/L16;rate=24000')).toBe(true);
+  });
+
+  it('leaves container types without parameters alone', () => {
+    expect(parseAudioMimeType('audio/webm;codecs=opus')).toEqual({ type: 'audio/webm' });
+    expect(parseAudioMimeType(undefined)).toEqual({ type: '' });
+    expect(isRawPcm('audio/wav')).toBe(false);
+  });
+});
+
+describe('decodePcm', () => {
+  it('decodes headerless little-endian L16', () => {
+    const [channel] = decodePcm(fixture('l16-mono-24000.pcm'), { sampleRate: 24000, channels: 1, bitsPerSample: 16, float: false });
+    expectSamples(channel, [0, 0.5, -0.5, 1]);
+  });
+
+  it('drops a trailing partial frame', () => {
+    const bytes = new Uint8Array([0, 0x40, 0, 0xc0, 0x12]);
+    const channels = decodePcm(bytes, { sampleRate: 8000, channels: 2, bitsPerSample: 16, float: false });
+    expectSamples(channels[0], [0.5]);
+    expectSamples(channels[1], [-0.5]);
+  });
+});
+
+describe('resampleLinear', () => {
+  it('returns the input when the rates match', () => {
+    const input = new Float32Array([1, 2, 3]);
+    expect(resampleLinear(input, 24000, 24000)).toBe(input);
+  });
+
+  it('upsamples by interpolating between neighbours', () => {
+    expectSamples(resampleLinear(new Float32Array([0, 1, 0]), 8000, 16000), [0, 0.5, 1, 0.5, 0, 0]);
+  });
+
+  it('downsamples to the target length', () => {
+    const ramp = Float32Array.from({ length: 48 }, (_, i) => i);
+    const output = resampleLinear(ramp, 48000, 16000);
+    expect(output.length).toBe(16);
+    expect(output[5]).toBeCloseTo(15);
+  });
+});
@@ -0,0 +1,179 @@
+// Audio formats in and out of the robot: what the microphone records, and
+// what the speech providers send back. Providers label their audio with a
+// mime type; raw PCM carries its layout in the parameters
+// ('audio/L16;rate=24000;channels=1'), WAV in its header.
+
+// Best first. Opus is small and every transcriber takes it; Safari only records mp4.
+const RECORDER_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/ogg;codecs=opus', 'audio/webm', 'audio/mp4'];
+
+// undefined lets the browser pick its own default
+export const pickRecorderMimeType = (): string | undefined => {
+  if (typeof MediaRecorder === 'undefined' || !MediaRecorder.isTypeSupported) return undefined;
+  return RECORDER_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+};
+
+export interface AudioMimeType {
+  type: string; // Lowercased, without parameters, e.g. 'audio/l16'
+  sampleRate?: number;
+  channels?: number;
+}
+
+export const parseAudioMimeType = (mimeType: string | undefined): AudioMimeType => {
+  const [type, ...params] = (mimeType ?? '').split(';').map(part => part.trim());
+  const result: AudioMimeType = { type: type.toLowerCase() };
+  for (const param of params) {
+    const [key, value] = param.split('=').map(part => part.trim().toLowerCase());
+    const n = parseInt(value, 10);
+    if (!Number.isFinite(n) || n <= 0) continue;
+    if (key === 'rate') result.sampleRate = n;
+    if (key === 'channels') result.channels = n;
+  }
+  return result;
+};
+
+const RAW_PCM_TYPES = ['audio/l16', 'audio/pcm', 'audio/raw'];
+
+export const isRawPcm = (mimeType: string | undefined): boolean =>
+  RAW_PCM_TYPES.includes(parseAudioMimeType(mimeType).type);
+
+export interface PcmFormat {
+  sampleRate: number;
+  channels: number;
+  bitsPerSample: 8 | 16 | 24 | 32;
+  float: boolean;
+}
+
+export interface WavInfo extends PcmFormat {
+  dataOffset: number;
+  dataLength: number;
+}
+
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_FLOAT = 3;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+const fourCC = (view: DataView, offset: number): string =>
+  String.fromCharCode(view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3));
+
+// null when the bytes aren't a RIFF/WAVE file at all; throws a readable Error
+// when they are but can't be played
+export const parseWavHeader = (bytes: Uint8Array): WavInfo | null => {
+  if (bytes.byteLength < 12) return null;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (fourCC(view, 0) !== 'RIFF' || fourCC(view, 8) !== 'WAVE') return null;
+
+  let format: PcmFormat | null = null;
+  let offset = 12;
+  while (offset + 8 <= bytes.byteLength) {
+    const id = fourCC(view, offset);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (id === 'fmt ') {
+      if (size < 16) throw new Error('WAV fmt chunk is too short');
+      if (body + size > bytes.byteLength) throw new Error('WAV header is truncated');
+      let tag = view.getUint16(body, true);
+      // Extensible files keep the real format in the first two bytes of the sub-format GUID
+      if (tag === WAVE_FORMAT_EXTENSIBLE && size >= 40) tag = view.getUint16(body + 24, true);
+      const bits = view.getUint16(body + 14, true);
+      const float = tag === WAVE_FORMAT_FLOAT;
+      if (tag !== WAVE_FORMAT_PCM && !float) throw new Error(`Unsupported WAV encoding ${tag}`);
+      if (float ? bits !== 32 : ![8, 16, 24, 32].includes(bits)) throw new Error(`Unsupported WAV bit depth ${bits}`);
+      format = {
+        channels: view.getUint16(body + 2, true),
+        sampleRate: view.getUint32(body + 4, true),
+        bitsPerSample: bits as PcmFormat['bitsPerSample'],
+        float
+      };
+      if (!format.channels || !format.sampleRate) throw new Error('WAV header has no channels or sample rate');
+    } else if (id === 'data') {
+      if (!format) throw new Error('WAV data comes before its fmt chunk');
+      // Streamed WAVs often leave the size at 0 or 0xFFFFFFFF; take what's there
+      const available = bytes.byteLength - body;
+      return { ...format, dataOffset: body, dataLength: size > 0 && size <= available ? size : available };
+    }
+    offset = body + size + (size % 2); // Chunks are padded to even sizes
+  }
+  throw new Error('WAV file has no data chunk');
+};
+
+// Interleaved little-endian samples to one Float32Array per channel
+export const decodePcm = (bytes: Uint8Array, format: PcmFormat): Float32Array[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const bytesPerSample = format.bitsPerSample / 8;
+  const frameSize = bytesPerSample * format.channels;
+  const frames = Math.floor(bytes.byteLength / frameSize);
+  const channels = Array.from({ length: format.channels }, () => new Float32Array(frames));
+
+  const read = (at: number): number => {
+    if (format.float) return view.getFloat32(at, true);
+    switch (format.bitsPerSample) {
+      case 8: return (view.getUint8(at) - 128) / 128; // 8-bit WAV is unsigned
+      case 16: return view.getInt16(at, true) / 32768;
+      case 24: return ((view.getUint8(at + 2) << 24 | view.getUint8(at + 1) << 16 | view.getUint8(at) << 8) >> 8) / 8388608;
+      default: return view.getInt32(at, true) / 2147483648;
+    }
+  };
+
+  for (let frame = 0; frame < frames; frame++) {
+    for (let c = 0; c < format.channels; c++) {
+      channels[c][frame] = read(frame * frameSize + c * bytesPerSample);
+    }
+  }
+  return channels;
+};
+
+// Linear interpolation; fine for speech, and only used when the browser
+// refuses a buffer at the source rate
+export const resampleLinear = (input: Float32Array, inputRate: number, outputRate: number): Float32Array => {
+  if (inputRate === outputRate || input.length === 0) return input;
+  const ratio = inputRate / outputRate;
+  const output = new Float32Array(Math.max(1, Math.round(input.length / ratio)));
+  for (let i = 0; i < output.length; i++) {
+    const position = i * ratio;
+    const index = Math.floor(position);
+    const next = Math.min(index + 1, input.length - 1);
+    const fraction = position - index;
+    output[i] = input[index] * (1 - fraction) + input[next] * fraction;
+  }
+  return output;
+};
+
+// AudioBuffers may use their own sample rate, but browsers only accept a
+// range of them (Safari refuses anything under 22.05kHz)
+export const toAudioBuffer = (channels: Float32Array[], sampleRate: number, ctx: BaseAudioContext): AudioBuffer => {
+  const frames = Math.max(1, channels[0]?.length ?? 0);
+  let rate = sampleRate;
+  let data = channels;
+  let buffer: AudioBuffer;
+  try {
+    buffer = ctx.createBuffer(channels.length, frames, rate);
+  } catch (e) {
+    rate = ctx.sampleRate;
+    data = channels.map(channel => resampleLinear(channel, sampleRate, rate));
+    buffer = ctx.createBuffer(data.length, Math.max(1, data[0]?.length ?? 0), rate);
+  }
+  data.forEach((channel, c) => buffer.copyToChannel(channel, c));
+  return buffer;
+};
+
+// Decodes provider audio by what it says it is: WAV and raw PCM ourselves,
+// anything else (mp3, opus...) by the browser
+export const decodeAudio = async (bytes: Uint8Array, mimeType: string | undefined, ctx: BaseAudioContext): Promise<AudioBuffer> => {
+  const wav = parseWavHeader(bytes);
+  if (wav) {
+    const channels = decodePcm(bytes.subarray(wav.dataOffset, wav.dataOffset + wav.dataLength), wav);
+    return toAudioBuffer(channels, wav.sampleRate, ctx);
+  }
+
+  const mime = parseAudioMimeType(mimeType);
+  if (RAW_PCM_TYPES.includes(mime.type)) {
+    if (!mime.sampleRate) throw new Error(`Raw PCM audio without a sample rate (${mimeType})`);
+    // Gemini's L16 is little-endian, unlike the RFC's network order
+    const channels = decodePcm(bytes, { sampleRate: mime.sampleRate, channels: mime.channels ?? 1, bitsPerSample: 16, float: false });
+    return toAudioBuffer(channels, mime.sampleRate, ctx);
+  }
+
+  // decodeAudioData detaches the buffer it's given
+  return ctx.decodeAudioData(bytes.slice().buffer);
+};
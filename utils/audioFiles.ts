@@ -0,0 +1,81 @@
+// Collects audio files from folders, either through the File System Access
+// API (Chromium) or from a drag-and-drop, and fingerprints them for dedupe.
+
+const AUDIO_EXTENSIONS = ['mp3', 'm4a', 'aac', 'flac', 'ogg', 'oga', 'opus', 'wav', 'webm'];
+
+export const isAudioFile = (file: File): boolean =>
+  file.type.startsWith('audio/') || AUDIO_EXTENSIONS.includes(file.name.split('.').pop()?.toLowerCase() ?? '');
+
+// Just the parts of FileSystemDirectoryHandle used here
+interface DirectoryHandle {
+  kind: 'directory';
+  values(): AsyncIterable<DirectoryHandle | { kind: 'file'; getFile(): Promise<File> }>;
+}
+
+// The File System Access picker isn't in TypeScript's DOM types yet, and
+// only Chromium has it
+interface DirectoryPickerWindow extends Window {
+  showDirectoryPicker?(options?: { mode?: 'read' | 'readwrite' }): Promise<DirectoryHandle>;
+}
+
+export const supportsFolderPicker = (): boolean => !!(window as DirectoryPickerWindow).showDirectoryPicker;
+
+const readDirectory = async (directory: DirectoryHandle, files: File[]) => {
+  for await (const entry of directory.values()) {
+    if (entry.kind === 'directory') await readDirectory(entry, files);
+    else {
+      const file = await entry.getFile();
+      if (isAudioFile(file)) files.push(file);
+    }
+  }
+};
+
+// Every audio file under the picked folder; an empty list if the user cancels
+export const pickAudioFolder = async (): Promise<File[]> => {
+  const pickerWindow: DirectoryPickerWindow = window;
+  if (!pickerWindow.showDirectoryPicker) throw new Error('This browser has no folder picker');
+  let directory: DirectoryHandle;
+  try {
+    directory = await pickerWindow.showDirectoryPicker({ mode: 'read' });
+  } catch (e) {
+    if (e instanceof DOMException && e.name === 'AbortError') return [];
+    throw e;
+  }
+  const files: File[] = [];
+  await readDirectory(directory, files);
+  return files;
+};
+
+const readEntry = async (entry: FileSystemEntry, files: File[]): Promise<void> => {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+    if (isAudioFile(file)) files.push(file);
+    return;
+  }
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  // readEntries hands out a batch at a time until it returns nothing
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) break;
+    for (const child of batch) await readEntry(child, files);
+  }
+};
+
+// Dropped files and folders, searched recursively. Entries have to be taken
+// from the event synchronously, before anything is awaited.
+export const filesFromDrop = async (dataTransfer: DataTransfer): Promise<File[]> => {
+  const entries = Array.from(dataTransfer.items)
+    .map(item => item.webkitGetAsEntry())
+    .filter((entry): entry is FileSystemEntry => entry !== null);
+  if (entries.length === 0) return Array.from(dataTransfer.files).filter(isAudioFile);
+
+  const files: File[] = [];
+  for (const entry of entries) await readEntry(entry, files);
+  return files;
+};
+
+// SHA-256 of the file's bytes, so the same song under another name is caught
+export const hashBlob = async (blob: Blob): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
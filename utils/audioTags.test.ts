@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { readAudioTags } from './audioTags';
+import { bytesToBase64, concatBytes } from './audioUtils';
+
+// Files are built in memory: a big cover shows that tags past the first
+// half megabyte are still found
+
+const ascii = (text: string) => new TextEncoder().encode(text);
+
+const uint32 = (value: number, littleEndian = false) => {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, value, littleEndian);
+  return bytes;
+};
+
+const vorbisComment = (entries: string[]) => concatBytes([
+  uint32(6, true), ascii('vendor'),
+  uint32(entries.length, true),
+  ...entries.flatMap(entry => [uint32(ascii(entry).length, true), ascii(entry)])
+]);
+
+const flacPicture = (data: Uint8Array, mime = 'image/png') => concatBytes([
+  uint32(3), // Front cover
+  uint32(mime.length), ascii(mime),
+  uint32(0), // Description
+  new Uint8Array(16), // Width, height, colour depth, palette size
+  uint32(data.length), data
+]);
+
+const flacBlock = (type: number, body: Uint8Array, last = false) =>
+  concatBytes([new Uint8Array([type | (last ? 0x80 : 0), body.length >> 16, (body.length >> 8) & 0xff, body.length & 0xff]), body]);
+
+// Splits packets into pages of at most 255 segments, as an encoder would
+const oggPages = (packets: Uint8Array[]): Uint8Array => {
+  const segments: Uint8Array[] = [];
+  for (const packet of packets) {
+    let offset = 0;
+    do {
+      segments.push(packet.subarray(offset, offset + 255));
+      offset += 255;
+    } while (offset <= packet.length);
+  }
+  const pages: Uint8Array[] = [];
+  for (let i = 0; i < segments.length; i += 255) {
+    const page = segments.slice(i, i + 255);
+    const header = new Uint8Array(27);
+    header.set(ascii('OggS'));
+    header[26] = page.length;
+    pages.push(header, Uint8Array.from(page, segment => segment.length), ...page);
+  }
+  return concatBytes(pages);
+};
+
+const cover = new Uint8Array(600 * 1024).fill(7);
+
+describe('readAudioTags', () => {
+  it('finds FLAC comments behind a large picture block', async () => {
+    const file = new Blob([
+      ascii('fLaC'),
+      flacBlock(0, new Uint8Array(34)), // STREAMINFO
+      flacBlock(6, flacPicture(cover)),
+      flacBlock(1, new Uint8Array(1024)), // PADDING
+      flacBlock(4, vorbisComment(['TITLE=Ocean Waves', 'artist=Relax LoFi', 'ALBUM=Tides']), true)
+    ]);
+    const tags = await readAudioTags(file);
+    expect(tags).toMatchObject({ title: 'Ocean Waves', artist: 'Relax LoFi', album: 'Tides' });
+    expect(tags.picture?.type).toBe('image/png');
+    expect(tags.picture?.size).toBe(cover.length);
+  });
+
+  it('keeps the first FLAC picture', async () => {
+    const file = new Blob([
+      ascii('fLaC'),
+      flacBlock(6, flacPicture(new Uint8Array(10), 'image/jpeg')),
+      flacBlock(6, flacPicture(new Uint8Array(20)), true)
+    ]);
+    expect((await readAudioTags(file)).picture?.size).toBe(10);
+  });
+
+  it('assembles an Opus comment header spread over several pages', async () => {
+    const picture = `METADATA_BLOCK_PICTURE=${bytesToBase64(flacPicture(new Uint8Array(200 * 1024).fill(3), 'image/jpeg'))}`;
+    const comment = concatBytes([ascii('OpusTags'), vorbisComment([picture, 'TITLE=六分街', 'ARTIST=Bangboo'])]);
+    expect(comment.length).toBeGreaterThan(255 * 255 * 2);
+    const file = new Blob([oggPages([ascii('OpusHead'), comment, new Uint8Array(1000)])]);
+
+    const tags = await readAudioTags(file);
+    expect(tags).toMatchObject({ title: '六分街', artist: 'Bangboo' });
+    expect(tags.picture?.size).toBe(200 * 1024);
+  });
+
+  it('reads Vorbis comments', async () => {
+    const identification = concatBytes([new Uint8Array([1]), ascii('vorbis'), new Uint8Array(23)]);
+    const comment = concatBytes([new Uint8Array([3]), ascii('vorbis'), vorbisComment(['ALBUM=Neon City'])]);
+    expect(await readAudioTags(new Blob([oggPages([identification, comment])]))).toEqual({ album: 'Neon City' });
+  });
+
+  it('returns no tags for unknown or truncated files', async () => {
+    expect(await readAudioTags(new Blob([ascii('RIFF....WAVE')]))).toEqual({});
+    expect(await readAudioTags(new Blob([ascii('fLaC'), new Uint8Array([0x84, 0, 1, 0])]))).toEqual({});
+    expect(await readAudioTags(new Blob([oggPages([ascii('OpusHead')])]))).toEqual({});
+  });
+});
@@ -0,0 +1,266 @@
+import { concatBytes } from "./audioUtils";
+
+// Reads title / artist / album / cover art from uploaded audio files:
+// ID3v2 (MP3, some AAC/WAV), FLAC metadata blocks and Ogg Vorbis/Opus comments.
+// Only the parts holding tags are read, never the whole file.
+
+export interface AudioTags {
+  title?: string;
+  artist?: string;
+  album?: string;
+  picture?: Blob;
+}
+
+const MAX_OGG_HEADER_BYTES = 16 * 1024 * 1024; // Comment header, cover art included
+const THUMBNAIL_PX = 96;
+
+const latin1 = new TextDecoder('latin1');
+const utf8 = new TextDecoder('utf-8');
+
+const readAscii = (bytes: Uint8Array, offset: number, length: number) =>
+  latin1.decode(bytes.subarray(offset, offset + length));
+
+const cleanText = (text: string) => text.replace(/\0+$/, '').split('\0')[0].trim() || undefined;
+
+const readBytes = async (file: Blob, offset: number, length: number): Promise<Uint8Array> =>
+  new Uint8Array(await file.slice(offset, offset + length).arrayBuffer());
+
+// --- ID3v2 ---
+
+const syncsafe = (bytes: Uint8Array, offset: number) =>
+  (bytes[offset] << 21) | (bytes[offset + 1] << 14) | (bytes[offset + 2] << 7) | bytes[offset + 3];
+
+const uint32 = (bytes: Uint8Array, offset: number) =>
+  ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+
+// Text encodings: 0 = ISO-8859-1, 1 = UTF-16 with BOM, 2 = UTF-16BE, 3 = UTF-8
+const decodeId3Text = (encoding: number, bytes: Uint8Array): string => {
+  if (encoding === 0) return latin1.decode(bytes);
+  if (encoding === 3) return utf8.decode(bytes);
+  const bigEndian = encoding === 2 || (bytes[0] === 0xfe && bytes[1] === 0xff);
+  const hasBom = (bytes[0] === 0xfe && bytes[1] === 0xff) || (bytes[0] === 0xff && bytes[1] === 0xfe);
+  return new TextDecoder(bigEndian ? 'utf-16be' : 'utf-16le').decode(hasBom ? bytes.subarray(2) : bytes);
+};
+
+// End of a null-terminated string; UTF-16 uses a two-byte terminator
+const findTerminator = (bytes: Uint8Array, from: number, encoding: number): number => {
+  const wide = encoding === 1 || encoding === 2;
+  for (let i = from; i < bytes.length; i += wide ? 2 : 1) {
+    if (bytes[i] === 0 && (!wide || bytes[i + 1] === 0)) return i;
+  }
+  return bytes.length;
+};
+
+// APIC (v2.3/2.4) names the MIME type, PIC (v2.2) a three-letter format
+const readId3Picture = (frame: Uint8Array, legacy: boolean): Blob | undefined => {
+  const encoding = frame[0];
+  let offset = 1;
+  let mime: string;
+  if (legacy) {
+    mime = `image/${readAscii(frame, 1, 3).toLowerCase().replace('jpg', 'jpeg')}`;
+    offset = 4;
+  } else {
+    const end = findTerminator(frame, offset, 0);
+    mime = readAscii(frame, offset, end - offset) || 'image/jpeg';
+    offset = end + 1;
+  }
+  offset += 1; // Picture type
+  const descriptionEnd = findTerminator(frame, offset, encoding);
+  offset = descriptionEnd + (encoding === 1 || encoding === 2 ? 2 : 1);
+  if (offset >= frame.length) return undefined;
+  return new Blob([frame.slice(offset)], { type: mime.includes('/') ? mime : `image/${mime}` });
+};
+
+const ID3_TEXT_FRAMES: Record<string, keyof Omit<AudioTags, 'picture'>> = {
+  TIT2: 'title', TPE1: 'artist', TALB: 'album',
+  TT2: 'title', TP1: 'artist', TAL: 'album'
+};
+
+const parseId3 = (bytes: Uint8Array): AudioTags => {
+  const version = bytes[3];
+  const flags = bytes[5];
+  const end = Math.min(bytes.length, 10 + syncsafe(bytes, 6));
+  const legacy = version === 2;
+  const idLength = legacy ? 3 : 4;
+  const headerLength = legacy ? 6 : 10;
+  const tags: AudioTags = {};
+
+  let offset = 10;
+  if (flags & 0x40 && !legacy) {
+    // Extended header; v2.4 counts its own size, v2.3 doesn't
+    offset += version === 4 ? syncsafe(bytes, offset) : uint32(bytes, offset) + 4;
+  }
+
+  while (offset + headerLength <= end) {
+    const id = readAscii(bytes, offset, idLength);
+    if (!/^[A-Z0-9]+$/.test(id)) break; // Padding
+    const size = legacy
+      ? (bytes[offset + 3] << 16) | (bytes[offset + 4] << 8) | bytes[offset + 5]
+      : version === 4 ? syncsafe(bytes, offset + 4) : uint32(bytes, offset + 4);
+    const frame = bytes.subarray(offset + headerLength, Math.min(end, offset + headerLength + size));
+    offset += headerLength + size;
+    if (frame.length === 0) continue;
+
+    const field = ID3_TEXT_FRAMES[id];
+    if (field) {
+      tags[field] = cleanText(decodeId3Text(frame[0], frame.subarray(1)));
+    } else if ((id === 'APIC' || id === 'PIC') && !tags.picture) {
+      tags.picture = readId3Picture(frame, legacy);
+    }
+  }
+  return tags;
+};
+
+// --- VORBIS COMMENTS (FLAC, Ogg) ---
+
+// FLAC PICTURE block, also found base64-encoded in METADATA_BLOCK_PICTURE
+const readFlacPicture = (bytes: Uint8Array): Blob | undefined => {
+  let offset = 4; // Picture type
+  const mimeLength = uint32(bytes, offset);
+  const mime = readAscii(bytes, offset + 4, mimeLength);
+  offset += 4 + mimeLength;
+  offset += 4 + uint32(bytes, offset); // Description
+  offset += 16; // Width, height, colour depth, palette size
+  const dataLength = uint32(bytes, offset);
+  offset += 4;
+  if (offset + dataLength > bytes.length) return undefined;
+  return new Blob([bytes.slice(offset, offset + dataLength)], { type: mime || 'image/jpeg' });
+};
+
+const base64Bytes = (text: string): Uint8Array => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+// Little-endian vendor string, then "KEY=value" entries
+const parseVorbisComment = (bytes: Uint8Array, tags: AudioTags) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 4 + view.getUint32(0, true);
+  const count = view.getUint32(offset, true);
+  offset += 4;
+
+  for (let i = 0; i < count && offset + 4 <= bytes.length; i++) {
+    const length = view.getUint32(offset, true);
+    const entry = utf8.decode(bytes.subarray(offset + 4, offset + 4 + length));
+    offset += 4 + length;
+
+    const separator = entry.indexOf('=');
+    const key = entry.slice(0, separator).toUpperCase();
+    const value = entry.slice(separator + 1);
+    if (key === 'TITLE') tags.title ??= cleanText(value);
+    else if (key === 'ARTIST') tags.artist ??= cleanText(value);
+    else if (key === 'ALBUM') tags.album ??= cleanText(value);
+    else if (key === 'METADATA_BLOCK_PICTURE' && !tags.picture) {
+      try {
+        tags.picture = readFlacPicture(base64Bytes(value));
+      } catch (e) {
+        // Corrupt picture, keep the text tags
+      }
+    }
+  }
+};
+
+// Block by block, loading only the comments and the first picture, so a
+// large cover or padding ahead of the comments costs nothing
+const parseFlac = async (file: Blob): Promise<AudioTags> => {
+  const tags: AudioTags = {};
+  let offset = 4;
+  while (offset + 4 <= file.size) {
+    const header = await readBytes(file, offset, 4);
+    const type = header[0] & 0x7f;
+    const length = (header[1] << 16) | (header[2] << 8) | header[3];
+    const wanted = type === 4 || (type === 6 && !tags.picture);
+    if (wanted && offset + 4 + length <= file.size) {
+      const block = await readBytes(file, offset + 4, length);
+      if (type === 4) parseVorbisComment(block, tags);
+      else tags.picture = readFlacPicture(block);
+    }
+    if (header[0] & 0x80) break; // Last metadata block
+    offset += 4 + length;
+  }
+  return tags;
+};
+
+// The comment header is the second packet of the stream and may span pages
+const parseOgg = async (file: Blob): Promise<AudioTags> => {
+  const packets: Uint8Array[] = [];
+  let parts: Uint8Array[] = []; // Of the packet being assembled
+  let offset = 0;
+  const end = Math.min(file.size, MAX_OGG_HEADER_BYTES);
+
+  while (packets.length < 2 && offset + 27 <= end) {
+    const header = await readBytes(file, offset, 27 + 255); // Largest segment table
+    if (header.length < 27 || readAscii(header, 0, 4) !== 'OggS') break;
+    const segmentCount = header[26];
+    const lacing = header.subarray(27, 27 + segmentCount);
+    const bodyLength = lacing.reduce((total, size) => total + size, 0);
+    const body = await readBytes(file, offset + 27 + segmentCount, bodyLength);
+
+    let bodyOffset = 0;
+    for (const size of lacing) {
+      parts.push(body.subarray(bodyOffset, bodyOffset + size));
+      bodyOffset += size;
+      if (size < 255) {
+        packets.push(concatBytes(parts));
+        parts = [];
+        if (packets.length === 2) break;
+      }
+    }
+    offset += 27 + segmentCount + bodyLength;
+  }
+
+  const tags: AudioTags = {};
+  const comment = packets[1];
+  if (!comment) return tags;
+  if (comment[0] === 3 && readAscii(comment, 1, 6) === 'vorbis') parseVorbisComment(comment.subarray(7), tags);
+  else if (readAscii(comment, 0, 8) === 'OpusTags') parseVorbisComment(comment.subarray(8), tags);
+  return tags;
+};
+
+// Unknown or broken files resolve to no tags rather than failing the upload
+export const readAudioTags = async (file: Blob): Promise<AudioTags> => {
+  try {
+    const head = new Uint8Array(await file.slice(0, 10).arrayBuffer());
+    const magic = readAscii(head, 0, 4);
+    if (magic.startsWith('ID3')) {
+      const tagSize = 10 + syncsafe(head, 6);
+      return parseId3(new Uint8Array(await file.slice(0, tagSize).arrayBuffer()));
+    }
+    if (magic === 'fLaC') return await parseFlac(file);
+    if (magic === 'OggS') return await parseOgg(file);
+  } catch (e) {
+    console.warn("Couldn't read audio tags", e);
+  }
+  return {};
+};
+
+// Duration in seconds from the browser's own decoder; undefined if it can't tell
+export const readAudioDuration = (url: string): Promise<number | undefined> =>
+  new Promise((resolve) => {
+    const audio = new Audio();
+    audio.preload = 'metadata';
+    const done = (duration?: number) => {
+      audio.removeAttribute('src');
+      resolve(duration !== undefined && Number.isFinite(duration) ? duration : undefined);
+    };
+    audio.onloadedmetadata = () => done(audio.duration);
+    audio.onerror = () => done();
+    audio.src = url;
+  });
+
+// Small JPEG data URL, cheap enough to persist with the track list
+export const createCoverThumbnail = async (picture: Blob): Promise<string | undefined> => {
+  try {
+    const bitmap = await createImageBitmap(picture);
+    const canvas = document.createElement('canvas');
+    canvas.width = THUMBNAIL_PX;
+    canvas.height = THUMBNAIL_PX;
+    // Center-crop to a square
+    const side = Math.min(bitmap.width, bitmap.height);
+    canvas.getContext('2d')?.drawImage(
+      bitmap, (bitmap.width - side) / 2, (bitmap.height - side) / 2, side, side, 0, 0, THUMBNAIL_PX, THUMBNAIL_PX
+    );
+    bitmap.close();
+    return canvas.toDataURL('image/jpeg', 0.8);
+  } catch (e) {
+    console.warn("Couldn't read cover art", e);
+    return undefined;
+  }
+};
@@ -11,49 +11,67 @@ export const blobToBase64 = (blob: Blob): Promise<string> => {
   });
 };
 
-export const decodeAudioData = async (
-  base64Data: string,
-  ctx: AudioContext
-): Promise<AudioBuffer> => {
+export const base64ToBytes = (base64Data: string): Uint8Array => {
   const binaryString = atob(base64Data);
   const len = binaryString.length;
   const bytes = new Uint8Array(len);
   for (let i = 0; i < len; i++) {
     bytes[i] = binaryString.charCodeAt(i);
   }
-  
-  // The Gemini TTS returns raw PCM (no header) or wav depending on request?
-  // Actually, Gemini TTS endpoint usually returns Base64 encoded WAV or MP3 if configured, 
-  // but the 'Modality.AUDIO' in generateContent returns raw PCM sometimes.
-  // HOWEVER, the standard `gemini-2.5-flash-preview-tts` returns audio data in the payload.
-  // Let's assume standard decoding works if it's a valid container, or use raw PCM decoding if it fails.
-  
-  try {
-    // Try standard decode first (e.g. if it has a WAV header)
-    // We clone the buffer because decodeAudioData might detach it
-    return await ctx.decodeAudioData(bytes.buffer.slice(0));
-  } catch (e) {
-    // Fallback to raw PCM assuming 24kHz mono (common default for Gemini)
-    // This is required for Gemini 2.5 Flash TTS via generateContent which often returns raw PCM.
-    
-    try {
-      const sampleRate = 24000;
-      const numChannels = 1;
-      const dataInt16 = new Int16Array(bytes.buffer);
-      const frameCount = dataInt16.length / numChannels;
-      
-      const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
-      
-      for (let channel = 0; channel < numChannels; channel++) {
-        const channelData = buffer.getChannelData(channel);
-        for (let i = 0; i < frameCount; i++) {
-          channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
-        }
-      }
-      return buffer;
-    } catch (err) {
-      console.error("Decode failed, raw PCM fallback also failed.", err);
-      throw e;
-    }
+  return bytes;
+};
+
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  // Chunked to stay clear of the argument limit of String.fromCharCode
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+};
+
+// One copy of chunks read piece by piece
+export const concatBytes = (parts: Uint8Array[]): Uint8Array => {
+  const bytes = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+  return bytes;
+};
+
+export const base64ToBlob = (base64Data: string, mimeType: string): Blob => {
+  return new Blob([base64ToBytes(base64Data)], { type: mimeType });
+};
+
+// Averaging downsampler, good enough for speech going to a recognizer
+export const downsampleBuffer = (input: Float32Array, inputRate: number, outputRate: number): Float32Array => {
+  if (outputRate >= inputRate) return input;
+  const ratio = inputRate / outputRate;
+  const output = new Float32Array(Math.floor(input.length / ratio));
+  for (let i = 0; i < output.length; i++) {
+    const start = Math.floor(i * ratio);
+    const end = Math.min(Math.floor((i + 1) * ratio), input.length);
+    let sum = 0;
+    for (let j = start; j < end; j++) sum += input[j];
+    output[i] = sum / Math.max(1, end - start);
+  }
+  return output;
+};
+
+export const float32ToPcm16Base64 = (samples: Float32Array): string => {
+  const pcm = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const clamped = Math.max(-1, Math.min(1, samples[i]));
+    pcm[i] = clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff;
   }
-};
\ No newline at end of file
+  return bytesToBase64(new Uint8Array(pcm.buffer));
+};
+
+export const getRms = (samples: Float32Array): number => {
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+  return Math.sqrt(sum / Math.max(1, samples.length));
+};
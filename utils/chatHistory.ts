@@ -0,0 +1,121 @@
+import { ChatMessage, InputModality } from "../types";
+import { blobToBase64 } from "./audioUtils";
+
+// Default budget for the history we replay to the model on every turn.
+// Roughly 2-3 minutes of mixed voice/text chat with Bangboo.
+export const DEFAULT_HISTORY_TOKEN_BUDGET = 4000;
+
+// Share of the budget the summary of dropped turns may use
+const SUMMARY_BUDGET_RATIO = 0.25;
+// Max characters kept per turn inside the summary
+const SUMMARY_SNIPPET_LENGTH = 40;
+
+export const VOICE_MESSAGE_PLACEHOLDER = '🎤 Voice Message';
+
+// `durationMs` is the recording length, for voice input
+export const createUserMessage = async (input: string | Blob, durationMs?: number): Promise<ChatMessage> => {
+  if (typeof input === 'string') {
+    return { role: 'user', text: input, meta: { timestamp: Date.now(), modality: 'text' } };
+  }
+
+  return {
+    role: 'user',
+    text: VOICE_MESSAGE_PLACEHOLDER,
+    audio: {
+      // Default to webm for browser recordings (Chrome/Firefox default)
+      mimeType: input.type || 'audio/webm',
+      data: await blobToBase64(input)
+    },
+    meta: { timestamp: Date.now(), modality: 'voice', durationMs }
+  };
+};
+
+export const createModelMessage = (text: string, modality: InputModality = 'text'): ChatMessage => ({
+  role: 'model',
+  text,
+  meta: { timestamp: Date.now(), modality }
+});
+
+export const hasTranscript = (message: ChatMessage): boolean => message.text !== VOICE_MESSAGE_PLACEHOLDER;
+
+// For a voice turn no transcript will come for; the chat stops showing it as pending
+export const markTranscriptFailed = (message: ChatMessage): ChatMessage =>
+  ({ ...message, meta: { ...message.meta, transcriptFailed: true } });
+
+// Cheap local estimate, good enough for budgeting (no API round trip).
+// CJK characters are ~1 token each, latin text ~4 chars per token.
+export const estimateTextTokens = (text: string): number => {
+  const cjk = (text.match(/[\u3000-\u9fff\uac00-\ud7af\uff00-\uffef]/g) || []).length;
+  return cjk + Math.ceil((text.length - cjk) / 4);
+};
+
+// Gemini bills audio at 32 tokens/sec; opus recordings are ~2KB/sec.
+const estimateAudioTokens = (base64: string): number => {
+  const bytes = Math.floor(base64.length * 3 / 4);
+  return Math.ceil(bytes / 64);
+};
+
+export const estimateMessageTokens = (message: ChatMessage): number => {
+  if (message.audio) return estimateAudioTokens(message.audio.data);
+  return estimateTextTokens(message.text);
+};
+
+const toSnippet = (message: ChatMessage): string => {
+  const speaker = message.role === 'user' ? '用户' : '邦布';
+  if (!hasTranscript(message)) return `${speaker}: (语音)`;
+  const text = message.text.replace(/\s+/g, ' ').trim();
+  const snippet = text.length > SUMMARY_SNIPPET_LENGTH ? `${text.slice(0, SUMMARY_SNIPPET_LENGTH)}…` : text;
+  return `${speaker}: ${snippet}`;
+};
+
+// Collapses dropped turns into a short digest, keeping the most recent lines
+// when even the digest would overflow its share of the budget.
+const summarizeTurns = (turns: ChatMessage[], budget: number): string | undefined => {
+  if (turns.length === 0) return undefined;
+
+  const lines: string[] = [];
+  let used = 0;
+  for (let i = turns.length - 1; i >= 0; i--) {
+    const line = toSnippet(turns[i]);
+    const cost = estimateTextTokens(line);
+    if (used + cost > budget) break;
+    lines.unshift(line);
+    used += cost;
+  }
+
+  if (lines.length === 0) return undefined;
+  return lines.join('\n');
+};
+
+export interface TrimmedHistory {
+  turns: ChatMessage[];
+  summary?: string; // Digest of the turns that no longer fit
+}
+
+// Keeps the newest turns that fit into the token budget. The latest turn is
+// always kept, and the kept window always starts on a user turn.
+export const trimHistory = (
+  history: ChatMessage[],
+  tokenBudget: number = DEFAULT_HISTORY_TOKEN_BUDGET
+): TrimmedHistory => {
+  const summaryBudget = Math.floor(tokenBudget * SUMMARY_BUDGET_RATIO);
+  const turnBudget = tokenBudget - summaryBudget;
+
+  let start = history.length;
+  let used = 0;
+  while (start > 0) {
+    const cost = estimateMessageTokens(history[start - 1]);
+    if (start < history.length && used + cost > turnBudget) break;
+    used += cost;
+    start--;
+  }
+
+  while (start < history.length - 1 && history[start].role !== 'user') {
+    start++;
+  }
+
+  return {
+    turns: history.slice(start),
+    summary: summarizeTurns(history.slice(0, start), summaryBudget)
+  };
+};
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { EyeExpression } from '../types';
+import { parseEmotionTag, stripEmotionTags } from './emotionTags';
+
+describe('stripEmotionTags', () => {
+  it('removes known tags in any case', () => {
+    expect(stripEmotionTags('[happy]好哒！[ Surprised ]咦？')).toBe('好哒！咦？');
+  });
+
+  it('leaves unknown bracketed words and Object.prototype names alone', () => {
+    expect(stripEmotionTags('[constructor] [toString] [__proto__] [hasOwnProperty] [note]'))
+      .toBe('[constructor] [toString] [__proto__] [hasOwnProperty] [note]');
+  });
+});
+
+describe('parseEmotionTag', () => {
+  it('takes the first known tag, aliases included', () => {
+    expect(parseEmotionTag('[note][tired]Night...[happy]')).toBe(EyeExpression.SLEEPING);
+  });
+
+  it('ignores Object.prototype names', () => {
+    expect(parseEmotionTag('[constructor][valueOf]hi')).toBeUndefined();
+    expect(parseEmotionTag('[toString][wink]hi')).toBe(EyeExpression.WINKING);
+  });
+});
@@ -0,0 +1,63 @@
+import { EyeExpression } from "../types";
+
+// The model marks the mood of each sentence with an inline tag, e.g.
+// "[happy]好哒！[surprised]咦，已经这么晚了？". Tags become the face shown
+// while that sentence plays and the TTS delivery style; they are never
+// displayed or spoken.
+
+const EMOTION_TAGS: Record<string, EyeExpression> = {
+  normal: EyeExpression.NORMAL,
+  happy: EyeExpression.HAPPY,
+  excited: EyeExpression.WIDE,
+  surprised: EyeExpression.SURPRISED,
+  love: EyeExpression.HEART,
+  heart: EyeExpression.HEART,
+  wink: EyeExpression.WINKING,
+  playful: EyeExpression.WINKING,
+  thinking: EyeExpression.THINKING,
+  sleepy: EyeExpression.SLEEPING,
+  tired: EyeExpression.SLEEPING,
+  dead: EyeExpression.DEAD,
+  sad: EyeExpression.DEAD,
+  music: EyeExpression.MUSIC
+};
+
+// Tags the model is told about (aliases above still parse)
+export const PROMPT_EMOTION_TAGS = ['normal', 'happy', 'excited', 'surprised', 'love', 'wink', 'thinking', 'sleepy', 'sad', 'music'];
+
+const TAG_PATTERN = /\[\s*([a-zA-Z_]+)\s*\]/g;
+
+// How the TTS voice should deliver a sentence with this face
+const SPEECH_STYLES: Partial<Record<EyeExpression, string>> = {
+  [EyeExpression.HAPPY]: 'cheerfully',
+  [EyeExpression.WIDE]: 'excitedly',
+  [EyeExpression.SURPRISED]: 'in a surprised voice',
+  [EyeExpression.HEART]: 'sweetly and affectionately',
+  [EyeExpression.WINKING]: 'playfully',
+  [EyeExpression.THINKING]: 'thoughtfully',
+  [EyeExpression.SLEEPING]: 'sleepily',
+  [EyeExpression.DEAD]: 'sadly',
+  [EyeExpression.MUSIC]: 'in a sing-song voice'
+};
+
+export const speechStyleFor = (expression?: EyeExpression): string | undefined =>
+  expression ? SPEECH_STYLES[expression] : undefined;
+
+// Own keys only, so "[constructor]" isn't taken for a tag
+const tagExpression = (name: string): EyeExpression | undefined => {
+  const key = name.toLowerCase();
+  return Object.hasOwn(EMOTION_TAGS, key) ? EMOTION_TAGS[key] : undefined;
+};
+
+// Removes every known tag; unknown bracketed words are left alone
+export const stripEmotionTags = (text: string): string =>
+  text.replace(TAG_PATTERN, (tag, name: string) => tagExpression(name) ? '' : tag).trim();
+
+// The expression of the first known tag in `text`, if any
+export const parseEmotionTag = (text: string): EyeExpression | undefined => {
+  for (const match of text.matchAll(TAG_PATTERN)) {
+    const expression = tagExpression(match[1]);
+    if (expression) return expression;
+  }
+  return undefined;
+};
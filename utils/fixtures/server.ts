@@ -0,0 +1,32 @@
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+
+// A local HTTP server for tests that go through fetch. Routes are matched
+// by path; anything else answers 404.
+export type FixtureRoute = (req: IncomingMessage, res: ServerResponse) => void;
+
+export interface FixtureServer {
+  url: (path: string) => string;
+  close: () => Promise<void>;
+}
+
+export const startFixtureServer = async (routes: Record<string, FixtureRoute>): Promise<FixtureServer> => {
+  const server = createServer((req, res) => {
+    const route = routes[new URL(req.url ?? '/', 'http://localhost').pathname];
+    if (route) {
+      route(req, res);
+    } else {
+      res.writeHead(404).end();
+    }
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: path => `http://127.0.0.1:${port}${path}`,
+    close: () => new Promise(resolve => {
+      server.closeAllConnections(); // Streams never end on their own
+      server.close(() => resolve());
+    })
+  };
+};
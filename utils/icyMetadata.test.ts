@@ -0,0 +1,107 @@
+import { ServerResponse } from 'http';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FixtureServer, startFixtureServer } from './fixtures/server';
+import { readIcyTitle, watchIcyMetadata } from './icyMetadata';
+
+const METAINT = 16;
+const AUDIO = Buffer.alloc(METAINT, 0xff);
+
+// Length byte (x16) and the text, zero-padded
+const metaBlock = (text: string): Buffer => {
+  const bytes = Buffer.from(text, 'utf-8');
+  const block = Buffer.alloc(1 + Math.ceil(bytes.length / 16) * 16);
+  block[0] = (block.length - 1) / 16;
+  bytes.copy(block, 1);
+  return block;
+};
+
+// Audio, then the block split across two writes, then audio until the client hangs up
+const streamRadio = (res: ServerResponse, block: Buffer) => {
+  res.writeHead(200, { 'Content-Type': 'audio/mpeg', 'icy-metaint': String(METAINT) });
+  res.write(AUDIO);
+  res.write(block.subarray(0, 3));
+  const rest = setTimeout(() => res.write(block.subarray(3)), 5);
+  const audio = setInterval(() => res.write(AUDIO), 5);
+  res.on('close', () => {
+    clearTimeout(rest);
+    clearInterval(audio);
+    hungUp++;
+  });
+};
+
+let server: FixtureServer;
+let requests = 0;
+let hungUp = 0;
+let titles: string[] = [];
+
+beforeAll(async () => {
+  server = await startFixtureServer({
+    '/radio': (req, res) => {
+      expect(req.headers['icy-metadata']).toBe('1');
+      streamRadio(res, metaBlock(`StreamTitle='${titles[Math.min(requests++, titles.length - 1)]}';StreamUrl='';`));
+    },
+    '/silent': (req, res) => {
+      requests++;
+      streamRadio(res, Buffer.from([0]));
+    },
+    '/plain': (req, res) => {
+      requests++;
+      res.writeHead(200, { 'Content-Type': 'audio/mpeg' }).end(AUDIO);
+    }
+  });
+});
+
+afterAll(() => server.close());
+
+beforeEach(() => {
+  requests = 0;
+  hungUp = 0;
+  titles = [];
+});
+
+describe('readIcyTitle', () => {
+  it('reads the first title and hangs up', async () => {
+    titles = ['Neon City - Cyber Funk'];
+    expect(await readIcyTitle(server.url('/radio'))).toBe('Neon City - Cyber Funk');
+    await vi.waitFor(() => expect(hungUp).toBe(1));
+  });
+
+  it('keeps UTF-8 titles intact', async () => {
+    titles = ['邦布 - 六分街'];
+    expect(await readIcyTitle(server.url('/radio'))).toBe('邦布 - 六分街');
+  });
+
+  it('returns null for an empty block', async () => {
+    expect(await readIcyTitle(server.url('/silent'))).toBeNull();
+  });
+
+  it('returns undefined when the stream has no metadata', async () => {
+    expect(await readIcyTitle(server.url('/plain'))).toBeUndefined();
+  });
+});
+
+describe('watchIcyMetadata', () => {
+  it('polls with short requests and reports each change once', async () => {
+    titles = ['A - One', 'A - One', 'B - Two'];
+    const controller = new AbortController();
+    const seen: string[] = [];
+    const watching = watchIcyMetadata(server.url('/radio'), title => {
+      seen.push(title);
+      if (seen.length === 2) controller.abort();
+    }, controller.signal, 5);
+
+    await watching;
+    expect(seen).toEqual(['A - One', 'B - Two']);
+    expect(requests).toBe(3);
+    await vi.waitFor(() => expect(hungUp).toBe(3));
+  });
+
+  it('gives up on a stream without metadata', async () => {
+    await watchIcyMetadata(server.url('/plain'), () => {}, new AbortController().signal, 5);
+    expect(requests).toBe(1);
+  });
+
+  it('stops on an unreachable server', async () => {
+    await watchIcyMetadata('http://127.0.0.1:1/radio', () => {}, new AbortController().signal, 5);
+  });
+});
@@ -0,0 +1,94 @@
+import { concatBytes } from "./audioUtils";
+
+// SHOUTcast/Icecast "now playing" titles. <audio> never exposes them, so
+// we ask the server for in-band metadata on a connection of our own: every
+// `icy-metaint` audio bytes it inserts a length byte (x16) and a block like
+// `StreamTitle='Artist - Song';`. Following that connection would download
+// the stream twice, so each poll reads up to the first block and hangs up.
+// Needs a server that allows the Icy-MetaData request header and exposes
+// icy-metaint over CORS.
+
+const ICY_POLL_MS = 20000; // Songs last minutes; a late title is fine
+
+const parseStreamTitle = (block: string): string | null => {
+  const match = block.match(/StreamTitle='(.*?)';/);
+  return match ? match[1].trim() || null : null;
+};
+
+// The title in the stream's first metadata block: null when the block is
+// empty, undefined when the stream carries no metadata at all. Reads one
+// `icy-metaint` of audio (typically 8-32 KB), then closes the connection.
+export const readIcyTitle = async (url: string, signal?: AbortSignal): Promise<string | null | undefined> => {
+  const response = await fetch(url, { headers: { 'Icy-MetaData': '1' }, signal });
+  const interval = Number(response.headers.get('icy-metaint'));
+  if (!response.ok || !response.body || !interval) {
+    response.body?.cancel().catch(() => {});
+    return undefined;
+  }
+
+  const reader = response.body.getReader();
+  let audioLeft = interval; // Audio bytes until the metadata block
+  let metaLength = -1; // -1 while waiting for the length byte
+  const meta: Uint8Array[] = [];
+  let metaRead = 0;
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) return null;
+      let offset = 0;
+      while (offset < value.length) {
+        if (audioLeft > 0) {
+          const skip = Math.min(audioLeft, value.length - offset);
+          audioLeft -= skip;
+          offset += skip;
+          continue;
+        }
+        if (metaLength === -1) {
+          metaLength = value[offset++] * 16;
+          if (metaLength === 0) return null;
+          continue;
+        }
+        const part = value.subarray(offset, offset + metaLength - metaRead);
+        meta.push(part);
+        metaRead += part.length;
+        offset += part.length;
+        if (metaRead === metaLength) return parseStreamTitle(new TextDecoder('utf-8').decode(concatBytes(meta)));
+      }
+    }
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+};
+
+const pause = (ms: number, signal: AbortSignal): Promise<void> => new Promise(resolve => {
+  const timer = setTimeout(resolve, ms);
+  signal.addEventListener('abort', () => {
+    clearTimeout(timer);
+    resolve();
+  }, { once: true });
+});
+
+// Calls `onTitle` for every title change until `signal` aborts. Resolves
+// quietly when the stream has no metadata or a poll fails.
+export const watchIcyMetadata = async (
+  url: string,
+  onTitle: (title: string) => void,
+  signal: AbortSignal,
+  pollMs = ICY_POLL_MS
+): Promise<void> => {
+  let lastTitle: string | null = null;
+  try {
+    while (!signal.aborted) {
+      const title = await readIcyTitle(url, signal);
+      if (title === undefined) return;
+      if (title && title !== lastTitle) {
+        lastTitle = title;
+        onTitle(title);
+      }
+      await pause(pollMs, signal);
+    }
+  } catch (e) {
+    // CORS refused the header, dropped, or aborted; the <audio> element reports its own errors
+  }
+};
@@ -0,0 +1,36 @@
+// The browser's own speech synthesis, for when the TTS provider can't be
+// reached. It plays outside the Web Audio graph, so there is no EQ, ducking
+// or lip-sync, but Bangboo isn't left silent.
+
+export const isLocalSpeechSupported = (): boolean =>
+  typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+// A browser voice with exactly the persona's voice name if there is one
+// (provider voices like "Kore" won't match), else any voice for the language
+const pickVoice = (lang: string, voiceName?: string): SpeechSynthesisVoice | undefined => {
+  const voices = speechSynthesis.getVoices();
+  const base = lang.split('-')[0].toLowerCase();
+  return (voiceName ? voices.find(voice => voice.name === voiceName) : undefined)
+    ?? voices.find(voice => voice.lang.toLowerCase() === lang.toLowerCase())
+    ?? voices.find(voice => voice.lang.toLowerCase().split(/[-_]/)[0] === base);
+};
+
+// Resolves when the line has been spoken, cancelled or has failed; never rejects
+export const speakLocally = (text: string, lang: string, voiceName?: string): Promise<void> =>
+  new Promise(resolve => {
+    if (!isLocalSpeechSupported()) {
+      resolve();
+      return;
+    }
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.lang = lang;
+    const voice = pickVoice(lang, voiceName);
+    if (voice) utterance.voice = voice;
+    utterance.onend = () => resolve();
+    utterance.onerror = () => resolve();
+    speechSynthesis.speak(utterance);
+  });
+
+export const cancelLocalSpeech = () => {
+  if (isLocalSpeechSupported()) speechSynthesis.cancel();
+};
@@ -0,0 +1,49 @@
+// Sentence boundaries for mixed Chinese/English replies. Runs of closing
+// punctuation ("！！", "?!", "~~") stay attached to their sentence.
+const SENTENCE_END = /[。！？!?；;~～…\n]+|\.(?=\s|$)/g;
+
+// Sentences shorter than this are merged into the next one, so TTS is not
+// called for a lone "嗯。"
+const MIN_SENTENCE_LENGTH = 4;
+
+export interface SentenceSplitter {
+  // Feeds a streamed chunk, returns the sentences completed by it
+  push(chunk: string): string[];
+  // Returns whatever is left once the stream has ended
+  flush(): string | undefined;
+}
+
+export const createSentenceSplitter = (): SentenceSplitter => {
+  let buffer = '';
+
+  const push = (chunk: string): string[] => {
+    buffer += chunk;
+    const sentences: string[] = [];
+    let start = 0;
+
+    SENTENCE_END.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = SENTENCE_END.exec(buffer))) {
+      const end = match.index + match[0].length;
+      // Punctuation at the very end of the buffer may continue in the next chunk
+      if (end === buffer.length && match[0] !== '\n') break;
+
+      const sentence = buffer.slice(start, end).trim();
+      if (sentence.length >= MIN_SENTENCE_LENGTH) {
+        sentences.push(sentence);
+        start = end;
+      }
+    }
+
+    buffer = buffer.slice(start);
+    return sentences;
+  };
+
+  const flush = (): string | undefined => {
+    const rest = buffer.trim();
+    buffer = '';
+    return rest || undefined;
+  };
+
+  return { push, flush };
+};
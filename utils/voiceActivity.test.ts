@@ -0,0 +1,99 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createVoiceActivityDetector, VoiceActivityDetector, VoiceActivityOptions } from './voiceActivity';
+
+// A mic whose RMS is whatever `level` is set to
+let level = 0;
+const fakeContext = {
+  sampleRate: 16000,
+  createMediaStreamSource: () => ({ connect: () => {}, disconnect: () => {} }),
+  createAnalyser: () => ({
+    fftSize: 1024,
+    frequencyBinCount: 512,
+    getFloatTimeDomainData: (data: Float32Array) => data.fill(level),
+    getFloatFrequencyData: (data: Float32Array) => data.fill(-50)
+  })
+} as unknown as AudioContext;
+
+const QUIET = 0.001;
+const LOUD = 0.2;
+
+let detector: VoiceActivityDetector;
+let onSpeechStart: ReturnType<typeof vi.fn>;
+let onSpeechEnd: ReturnType<typeof vi.fn>;
+
+const listen = (options: Partial<VoiceActivityOptions> = {}) => {
+  detector = createVoiceActivityDetector(fakeContext, {} as MediaStream, {
+    sensitivity: 0.5,
+    trailingSilenceMs: 300,
+    onSpeechStart,
+    onSpeechEnd,
+    ...options
+  });
+};
+
+const hear = (rms: number, ms: number) => {
+  level = rms;
+  vi.advanceTimersByTime(ms);
+};
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval', 'performance'] });
+  onSpeechStart = vi.fn();
+  onSpeechEnd = vi.fn();
+});
+
+afterEach(() => {
+  detector.stop();
+  vi.useRealTimers();
+});
+
+describe('createVoiceActivityDetector', () => {
+  it('reports speech once it has lasted long enough, and its end', () => {
+    listen();
+    hear(QUIET, 400);
+    hear(LOUD, 90);
+    expect(onSpeechStart).not.toHaveBeenCalled();
+    hear(LOUD, 510);
+    expect(onSpeechStart).toHaveBeenCalledTimes(1);
+    hear(QUIET, 400);
+    expect(onSpeechEnd).toHaveBeenCalledTimes(1);
+    expect(onSpeechEnd.mock.calls[0][0].durationMs).toBeGreaterThanOrEqual(500);
+  });
+
+  it('ignores a blip entirely', () => {
+    listen();
+    hear(QUIET, 400);
+    hear(LOUD, 60);
+    hear(QUIET, 1000);
+    expect(onSpeechStart).not.toHaveBeenCalled();
+    expect(onSpeechEnd).not.toHaveBeenCalled();
+  });
+
+  it('takes a noisy room as the floor from the first frames', () => {
+    listen({ sensitivity: 1 });
+    hear(0.02, 3000);
+    expect(onSpeechStart).not.toHaveBeenCalled();
+    hear(LOUD, 300);
+    expect(onSpeechStart).toHaveBeenCalledTimes(1);
+  });
+
+  it('lets noise that starts mid-session become the floor', () => {
+    listen();
+    hear(QUIET, 400);
+    hear(0.05, 1000);
+    expect(onSpeechStart).toHaveBeenCalledTimes(1);
+    hear(0.05, 60000);
+    expect(onSpeechEnd).toHaveBeenCalledTimes(1);
+  });
+
+  it('collects one feature vector per voiced frame', () => {
+    listen({ collectFeatures: true });
+    hear(QUIET, 400);
+    hear(LOUD, 600);
+    hear(QUIET, 400);
+    const { features } = onSpeechEnd.mock.calls[0][0];
+    expect(features.length).toBeGreaterThan(15);
+    expect(features.length).toBeLessThanOrEqual(21);
+    expect(features[0]).toHaveLength(12);
+  });
+});
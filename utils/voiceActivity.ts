@@ -0,0 +1,141 @@
+import { getRms } from "./audioUtils";
+
+const FRAME_INTERVAL_MS = 30;
+const FFT_SIZE = 1024;
+const MIN_SPEECH_MS = 150; // Shorter blips (clicks, bumps) are ignored
+const MIN_SPEECH_RMS = 0.008; // Absolute floor, so a silent room never "speaks"
+const CALIBRATION_MS = 300; // Room noise is measured before anything counts as speech
+// Per frame while "speaking": a fan switched on mid-session becomes the new
+// floor within a minute instead of counting as speech forever, while a long
+// sentence barely moves it
+const NOISE_RISE_RATE = 0.0005;
+const FULL_SCALE_RMS = 0.2; // RMS reported as level 1
+
+// Log-spaced bands over the speech range, used as wake word features
+const FEATURE_BANDS = 12;
+const FEATURE_MIN_HZ = 100;
+const FEATURE_MAX_HZ = 4000;
+
+export interface SpeechSegment {
+  durationMs: number;
+  features: number[][]; // One band vector per frame (only if collectFeatures)
+}
+
+export interface VoiceActivityOptions {
+  sensitivity: number; // 0-1, higher means quieter speech counts
+  trailingSilenceMs: number; // Silence that ends a segment
+  collectFeatures?: boolean;
+  onSpeechStart?: () => void; // Once sound has lasted MIN_SPEECH_MS; blips never fire it
+  onSpeechEnd?: (segment: SpeechSegment) => void;
+  onLevel?: (level: number) => void; // 0-1, every frame
+}
+
+export interface VoiceActivityDetector {
+  stop(): void; // Detaches the analyser; the caller owns the stream
+}
+
+// Spectral shape of one frame: mean band energy in dB, with the frame mean
+// removed so features don't depend on how loud the user talks.
+export const extractFrameFeatures = (frequencyDb: Float32Array, sampleRate: number): number[] => {
+  const binHz = sampleRate / 2 / frequencyDb.length;
+  const ratio = Math.pow(FEATURE_MAX_HZ / FEATURE_MIN_HZ, 1 / FEATURE_BANDS);
+  const bands: number[] = [];
+
+  for (let b = 0; b < FEATURE_BANDS; b++) {
+    const lo = Math.floor(FEATURE_MIN_HZ * Math.pow(ratio, b) / binHz);
+    const hi = Math.max(lo + 1, Math.floor(FEATURE_MIN_HZ * Math.pow(ratio, b + 1) / binHz));
+    let sum = 0;
+    for (let i = lo; i < hi; i++) sum += Math.max(-120, frequencyDb[i]);
+    bands.push(sum / (hi - lo));
+  }
+
+  const mean = bands.reduce((a, v) => a + v, 0) / bands.length;
+  return bands.map(v => v - mean);
+};
+
+// Energy-based detector with an adaptive noise floor. Polled on a timer
+// rather than requestAnimationFrame, which stops in background tabs; timers
+// there are throttled to about once a second (unless the tab plays audio),
+// so detection gets coarse but doesn't stop.
+export const createVoiceActivityDetector = (
+  ctx: AudioContext,
+  stream: MediaStream,
+  options: VoiceActivityOptions
+): VoiceActivityDetector => {
+  const source = ctx.createMediaStreamSource(stream);
+  const analyser = ctx.createAnalyser();
+  analyser.fftSize = FFT_SIZE;
+  analyser.smoothingTimeConstant = 0;
+  source.connect(analyser);
+
+  const timeData = new Float32Array(analyser.fftSize);
+  const frequencyData = new Float32Array(analyser.frequencyBinCount);
+  // Speech must be this many times louder than the room noise
+  const thresholdRatio = 4 - 2.5 * Math.max(0, Math.min(1, options.sensitivity));
+
+  const startedAt = performance.now();
+  let noiseFloor = Infinity; // Until calibrated
+  let speaking = false; // Loud enough, maybe only a blip
+  let confirmed = false; // Loud for MIN_SPEECH_MS; onSpeechStart has fired
+  let speechStartedAt = 0;
+  let lastVoiceAt = 0;
+  let features: number[][] = [];
+
+  const interval = setInterval(() => {
+    analyser.getFloatTimeDomainData(timeData);
+    const rms = getRms(timeData);
+    const now = performance.now();
+    options.onLevel?.(Math.min(1, rms / FULL_SCALE_RMS));
+
+    // The quietest frame, since the user may start talking straight away
+    if (now - startedAt < CALIBRATION_MS) {
+      noiseFloor = Math.max(MIN_SPEECH_RMS, Math.min(noiseFloor, rms));
+      return;
+    }
+
+    const isVoice = rms > Math.max(noiseFloor * thresholdRatio, MIN_SPEECH_RMS);
+    if (!isVoice && !speaking) {
+      noiseFloor = noiseFloor * 0.95 + rms * 0.05;
+    } else if (isVoice) {
+      noiseFloor += (rms - noiseFloor) * NOISE_RISE_RATE;
+    }
+
+    if (isVoice) {
+      lastVoiceAt = now;
+      if (!speaking) {
+        speaking = true;
+        confirmed = false;
+        speechStartedAt = now;
+        features = [];
+      }
+      if (!confirmed && now - speechStartedAt >= MIN_SPEECH_MS) {
+        confirmed = true;
+        options.onSpeechStart?.();
+      }
+    }
+
+    if (!speaking) return;
+
+    if (options.collectFeatures) {
+      analyser.getFloatFrequencyData(frequencyData);
+      features.push(extractFrameFeatures(frequencyData, ctx.sampleRate));
+    }
+
+    if (now - lastVoiceAt > options.trailingSilenceMs) {
+      speaking = false;
+      if (!confirmed) return;
+      const durationMs = lastVoiceAt - speechStartedAt;
+
+      // Drop the trailing silence frames
+      const silentFrames = Math.round((now - lastVoiceAt) / FRAME_INTERVAL_MS);
+      options.onSpeechEnd?.({ durationMs, features: features.slice(0, Math.max(1, features.length - silentFrames)) });
+    }
+  }, FRAME_INTERVAL_MS);
+
+  return {
+    stop: () => {
+      clearInterval(interval);
+      source.disconnect();
+    }
+  };
+};
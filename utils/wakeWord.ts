@@ -0,0 +1,121 @@
+import { createVoiceActivityDetector } from "./voiceActivity";
+
+// On-device wake word ("邦布", "Hey Shark", ...) spotting by template matching:
+// the user enrolls a few recordings, and every speech segment heard while
+// idle is compared against them with dynamic time warping.
+
+export const MAX_WAKE_WORD_TEMPLATES = 3;
+
+const SEGMENT_TRAILING_SILENCE_MS = 350;
+const ENROLL_TIMEOUT_MS = 5000;
+// Mean per-frame band distance (dB) accepted at sensitivity 0 and 1
+const STRICT_DISTANCE = 5;
+const LOOSE_DISTANCE = 11;
+// Segments far longer or shorter than the template can't be the wake word
+const MIN_LENGTH_RATIO = 0.6;
+const MAX_LENGTH_RATIO = 1.6;
+
+const frameDistance = (a: number[], b: number[]): number => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += (a[i] - b[i]) * (a[i] - b[i]);
+  return Math.sqrt(sum / a.length);
+};
+
+// Classic DTW, normalized by path length so long and short words compare fairly
+export const dtwDistance = (a: number[][], b: number[][]): number => {
+  const n = a.length;
+  const m = b.length;
+  let prev = new Float64Array(m + 1).fill(Infinity);
+  let curr = new Float64Array(m + 1).fill(Infinity);
+  prev[0] = 0;
+
+  for (let i = 1; i <= n; i++) {
+    curr.fill(Infinity);
+    for (let j = 1; j <= m; j++) {
+      const cost = frameDistance(a[i - 1], b[j - 1]);
+      curr[j] = cost + Math.min(prev[j], curr[j - 1], prev[j - 1]);
+    }
+    [prev, curr] = [curr, prev];
+  }
+  return prev[m] / (n + m);
+};
+
+export const matchesWakeWord = (
+  features: number[][],
+  templates: number[][][],
+  sensitivity: number
+): boolean => {
+  const maxDistance = STRICT_DISTANCE + (LOOSE_DISTANCE - STRICT_DISTANCE) * sensitivity;
+
+  return templates.some(template => {
+    const ratio = features.length / Math.max(1, template.length);
+    if (ratio < MIN_LENGTH_RATIO || ratio > MAX_LENGTH_RATIO) return false;
+    return dtwDistance(features, template) <= maxDistance;
+  });
+};
+
+export interface WakeWordListener {
+  stop(): void;
+}
+
+export const startWakeWordListener = async (
+  ctx: AudioContext,
+  options: {
+    templates: number[][][];
+    sensitivity: number;
+    vadSensitivity: number;
+    onWake: () => void;
+    onLevel?: (level: number) => void;
+  }
+): Promise<WakeWordListener> => {
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+
+  const detector = createVoiceActivityDetector(ctx, stream, {
+    sensitivity: options.vadSensitivity,
+    trailingSilenceMs: SEGMENT_TRAILING_SILENCE_MS,
+    collectFeatures: true,
+    onLevel: options.onLevel,
+    onSpeechEnd: (segment) => {
+      if (matchesWakeWord(segment.features, options.templates, options.sensitivity)) {
+        options.onWake();
+      }
+    }
+  });
+
+  return {
+    stop: () => {
+      detector.stop();
+      stream.getTracks().forEach(track => track.stop());
+    }
+  };
+};
+
+// Records the first spoken segment and returns its features as a template
+export const recordWakeWordTemplate = async (ctx: AudioContext, vadSensitivity: number): Promise<number[][]> => {
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+
+  return new Promise((resolve, reject) => {
+    let timeout: ReturnType<typeof setTimeout>;
+
+    const detector = createVoiceActivityDetector(ctx, stream, {
+      sensitivity: vadSensitivity,
+      trailingSilenceMs: SEGMENT_TRAILING_SILENCE_MS,
+      collectFeatures: true,
+      onSpeechEnd: (segment) => {
+        finish();
+        resolve(segment.features);
+      }
+    });
+
+    const finish = () => {
+      clearTimeout(timeout);
+      detector.stop();
+      stream.getTracks().forEach(track => track.stop());
+    };
+
+    timeout = setTimeout(() => {
+      finish();
+      reject(new Error('No speech heard while enrolling the wake word'));
+    }, ENROLL_TIMEOUT_MS);
+  });
+};
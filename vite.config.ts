@@ -4,6 +4,8 @@ import react from '@vitejs/plugin-react';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // Unset vars become '' so the browser bundle never touches a real `process`
+    const defineEnv = (name: string) => JSON.stringify(env[name] ?? '');
     return {
       server: {
         port: 3000,
@@ -11,8 +13,21 @@ export default defineConfig(({ mode }) => {
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': defineEnv('GEMINI_API_KEY'),
+        'process.env.GEMINI_API_KEY': defineEnv('GEMINI_API_KEY'),
+        'process.env.GEMINI_MODEL': defineEnv('GEMINI_MODEL'),
+        'process.env.GEMINI_TTS_MODEL': defineEnv('GEMINI_TTS_MODEL'),
+        'process.env.GEMINI_LIVE_MODEL': defineEnv('GEMINI_LIVE_MODEL'),
+        // Local WebSocket stand-in for live voice mode (overrides the backend's live API)
+        'process.env.LIVE_WS_URL': defineEnv('LIVE_WS_URL'),
+        // AI backend: 'gemini' | 'openai' | 'mock' (defaults to mock without a Gemini key)
+        'process.env.LLM_PROVIDER': defineEnv('LLM_PROVIDER'),
+        'process.env.OPENAI_BASE_URL': defineEnv('OPENAI_BASE_URL'),
+        'process.env.OPENAI_API_KEY': defineEnv('OPENAI_API_KEY'),
+        'process.env.OPENAI_MODEL': defineEnv('OPENAI_MODEL'),
+        'process.env.OPENAI_TTS_MODEL': defineEnv('OPENAI_TTS_MODEL'),
+        'process.env.OPENAI_TTS_VOICE': defineEnv('OPENAI_TTS_VOICE'),
+        'process.env.OPENAI_TRANSCRIBE_MODEL': defineEnv('OPENAI_TRANSCRIBE_MODEL')
       },
       resolve: {
         alias: {